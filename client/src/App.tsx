@@ -9,24 +9,32 @@ import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
 import ProductPage from "@/pages/product-page";
+import SearchPage from "@/pages/search-page";
 import CategoryPage from "@/pages/category-page";
 import CartPage from "@/pages/cart-page";
+import WishlistPage from "@/pages/wishlist-page";
+import SharedWishlistPage from "@/pages/shared-wishlist-page";
 import CheckoutPage from "@/pages/checkout-page";
 import OrderPage from "@/pages/order-page";
 import DashboardPage from "@/pages/dashboard-page";
+import AccountSecurityPage from "@/pages/account-security-page";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/products" component={SearchPage} />
       <Route path="/products/:id" component={ProductPage} />
-      <Route path="/categories/:id" component={CategoryPage} />
+      <Route path="/categories/*" component={CategoryPage} />
       <ProtectedRoute path="/cart" component={CartPage} roles={["customer"]} />
+      <ProtectedRoute path="/wishlist" component={WishlistPage} roles={["customer"]} />
+      <Route path="/wishlist/shared/:token" component={SharedWishlistPage} />
       <ProtectedRoute path="/checkout" component={CheckoutPage} roles={["customer"]} />
       <ProtectedRoute path="/orders" component={OrderPage} />
       <ProtectedRoute path="/orders/:id" component={OrderPage} />
       <ProtectedRoute path="/dashboard" component={DashboardPage} roles={["seller", "admin"]} />
+      <ProtectedRoute path="/account/security" component={AccountSecurityPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,43 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSeparator,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+
+type TotpCodeInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all six digits are in
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+};
+
+// The six digits from an authenticator app, in two groups of three
+export default function TotpCodeInput({ value, onChange, onComplete, disabled }: TotpCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern={REGEXP_ONLY_DIGITS}
+      autoComplete="one-time-code"
+      autoFocus
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
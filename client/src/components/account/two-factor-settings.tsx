@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Copy, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import TotpCodeInput from "./totp-code-input";
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauth_uri: string;
+  qr_code: string; // PNG data URL
+};
+
+// Turning two-factor authentication off or replacing the recovery codes
+type ReauthAction = "disable" | "recovery-codes";
+
+// Two-factor authentication for the signed-in user: enrollment with a QR code
+// and a confirming code, the recovery codes shown once after it, and turning
+// it off or replacing the codes, which both ask for the password and a code
+// again. Admins can't turn it off.
+export default function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [reauthAction, setReauthAction] = useState<ReauthAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [reauthCode, setReauthCode] = useState("");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setSetupCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await res.json()) as { recovery_codes: string[] };
+    },
+    onSuccess: ({ recovery_codes }) => {
+      setSetup(null);
+      setRecoveryCodes(recovery_codes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Two-factor authentication is on" });
+    },
+    onError: (error: Error) => {
+      setSetupCode("");
+      onError(error);
+    },
+  });
+
+  const reauthMutation = useMutation({
+    mutationFn: async (action: ReauthAction) => {
+      const res = await apiRequest("POST", `/api/2fa/${action}`, { password, code: reauthCode });
+      return (await res.json()) as { recovery_codes?: string[] };
+    },
+    onSuccess: (data, action) => {
+      setReauthAction(null);
+      setPassword("");
+      setReauthCode("");
+      if (action === "disable") {
+        setRecoveryCodes(null);
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+        toast({ title: "Two-factor authentication is off" });
+      } else {
+        setRecoveryCodes(data.recovery_codes ?? null);
+        toast({ title: "New recovery codes created", description: "Your old codes no longer work." });
+      }
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  if (!user) return null;
+  const isEnabled = !!user.totp_enabled_at;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </CardTitle>
+          <Badge variant={isEnabled ? "default" : "outline"}>{isEnabled ? "On" : "Off"}</Badge>
+        </div>
+        <CardDescription>
+          {isEnabled
+            ? `Signing in asks for a code from your authenticator app. On since ${format(new Date(user.totp_enabled_at!), "MMM d, yyyy")}.`
+            : "Ask for a code from an authenticator app, as well as your password, when you sign in."}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {user.role === "admin" && !isEnabled && (
+          <p className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            Admin accounts have to turn on two-factor authentication before they can use the dashboard.
+          </p>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3 rounded-md border p-4">
+            <div>
+              <p className="font-medium">Save your recovery codes</p>
+              <p className="text-sm text-muted-foreground">
+                Each code signs you in once if you lose your device. They won't be shown again.
+              </p>
+            </div>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                I've Saved Them
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!isEnabled && setup && (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan the QR code with your authenticator app, or enter the key by hand, then type the
+              6-digit code it shows.
+            </p>
+            <div className="flex flex-col items-center gap-2 sm:flex-row sm:items-start">
+              <img src={setup.qr_code} alt="QR code for your authenticator app" className="h-44 w-44" />
+              <div className="space-y-1 text-sm">
+                <Label>Key</Label>
+                <p className="break-all font-mono">{setup.secret}</p>
+                <a href={setup.otpauth_uri} className="text-primary underline">
+                  Open in authenticator app
+                </a>
+              </div>
+            </div>
+            <TotpCodeInput
+              value={setupCode}
+              onChange={setSetupCode}
+              onComplete={(code) => enableMutation.mutate(code)}
+              disabled={enableMutation.isPending}
+            />
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex flex-wrap gap-2">
+        {!isEnabled && !setup && (
+          <Button disabled={setupMutation.isPending} onClick={() => setupMutation.mutate()}>
+            {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+          </Button>
+        )}
+        {!isEnabled && setup && (
+          <>
+            <Button
+              disabled={setupCode.length !== 6 || enableMutation.isPending}
+              onClick={() => enableMutation.mutate(setupCode)}
+            >
+              {enableMutation.isPending ? "Turning on..." : "Turn On"}
+            </Button>
+            <Button variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </>
+        )}
+        {isEnabled && (
+          <>
+            <Button variant="outline" onClick={() => setReauthAction("recovery-codes")}>
+              New Recovery Codes
+            </Button>
+            {user.role !== "admin" && (
+              <Button variant="destructive" onClick={() => setReauthAction("disable")}>
+                Turn Off
+              </Button>
+            )}
+          </>
+        )}
+      </CardFooter>
+
+      <Dialog open={reauthAction !== null} onOpenChange={(open) => !open && setReauthAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reauthAction === "disable" ? "Turn Off Two-Factor Authentication" : "Create New Recovery Codes"}
+            </DialogTitle>
+            <DialogDescription>
+              Confirm it's you with your password and a code from your authenticator app or a recovery code.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="reauth-password">Password</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reauth-code">Code</Label>
+              <Input
+                id="reauth-code"
+                autoComplete="one-time-code"
+                placeholder="123456 or xxxxx-xxxxx"
+                value={reauthCode}
+                onChange={(e) => setReauthCode(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReauthAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reauthAction === "disable" ? "destructive" : "default"}
+              disabled={!password || !reauthCode.trim() || reauthMutation.isPending}
+              onClick={() => reauthAction && reauthMutation.mutate(reauthAction)}
+            >
+              {reauthMutation.isPending ? "Checking..." : reauthAction === "disable" ? "Turn Off" : "Create Codes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { X, Plus, Minus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { CartQuote } from "@shared/pricing";
+import { formatVariantLabel, getVariantPrice } from "@shared/variants";
 import {
   Sheet,
   SheetContent,
@@ -21,7 +22,6 @@ type ShoppingCartProps = {
 export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const [total, setTotal] = useState({ subtotal: 0, shipping: 9.99, tax: 0 });
 
   // Fetch cart items
   const { data: cart, isLoading } = useQuery({
@@ -29,18 +29,17 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
     enabled: isOpen,
   });
 
-  // Calculate totals whenever cart items change
-  useEffect(() => {
-    if (cart?.items) {
-      const subtotal = cart.items.reduce(
-        (acc: number, item: any) => acc + item.product.price * item.quantity,
-        0
-      );
-      const shipping = subtotal > 35 ? 0 : 9.99;
-      const tax = subtotal * 0.06; // 6% tax rate
-      setTotal({ subtotal, shipping, tax });
-    }
-  }, [cart]);
+  // Fetch the server-calculated totals
+  const { data: quote } = useQuery<CartQuote>({
+    queryKey: ["/api/cart", "quote", "standard"],
+    queryFn: async () => {
+      const res = await fetch("/api/cart/quote?shippingMethod=standard");
+      if (!res.ok) throw new Error("Failed to fetch cart totals");
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+  const total = quote ?? { subtotal: 0, shipping: 0, tax: 0, discount: 0, total: 0 };
 
   // Update cart item quantity
   const updateQuantityMutation = useMutation({
@@ -124,7 +123,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                 <div key={item.id} className="flex items-center py-4 border-b">
                   <img
                     src={
-                      item.product.image_url ||
+                      item.variant?.image_url || item.product.image_url ||
                       `https://source.unsplash.com/featured/100x100?${encodeURIComponent(
                         item.product.name.split(" ")[0]
                       )}`
@@ -135,6 +134,11 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
 
                   <div className="ml-4 flex-grow">
                     <h3 className="font-medium">{item.product.name}</h3>
+                    {item.variant && (
+                      <p className="text-gray-700 text-sm">
+                        {formatVariantLabel(item.variant.options, item.product.variant_options)}
+                      </p>
+                    )}
                     <p className="text-gray-500 text-sm">
                       Sold by: {item.product.seller?.shop_name || "ShopEase"}
                     </p>
@@ -163,7 +167,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                         }
                         disabled={
                           updateQuantityMutation.isPending ||
-                          item.quantity >= item.product.stock
+                          item.quantity >= (item.variant ?? item.product).stock
                         }
                       >
                         <Plus className="h-3 w-3" />
@@ -173,7 +177,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
 
                   <div className="ml-4 flex flex-col items-end">
                     <span className="font-bold">
-                      ${(item.product.price * item.quantity).toFixed(2)}
+                      ${(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                     </span>
                     <Button
                       variant="ghost"
@@ -204,6 +208,12 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
                 <span className="text-gray-600">Subtotal:</span>
                 <span className="font-bold">${total.subtotal.toFixed(2)}</span>
               </div>
+              {total.discount > 0 && (
+                <div className="flex justify-between mb-2 text-green-600">
+                  <span>Discount:</span>
+                  <span className="font-bold">-${total.discount.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between mb-2">
                 <span className="text-gray-600">Shipping:</span>
                 <span className="font-bold">
@@ -219,7 +229,7 @@ export default function ShoppingCart({ isOpen, onClose }: ShoppingCartProps) {
               <div className="flex justify-between text-lg mb-6">
                 <span className="font-semibold">Total:</span>
                 <span className="font-bold">
-                  ${(total.subtotal + total.shipping + total.tax).toFixed(2)}
+                  ${total.total.toFixed(2)}
                 </span>
               </div>
 
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
 import {
   Users,
   Store,
@@ -50,46 +51,87 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { formatBusinessType } from "@shared/seller-onboarding";
+import type { CategoryWithPath } from "@shared/categories";
+import type { ReportedReview } from "@shared/reviews";
+import { CategoryTreeEditor } from "./category-tree-editor";
+import { ReviewModerationQueue } from "./review-moderation-queue";
 
 export function AdminDashboard() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("dashboard");
   const [page, setPage] = useState(1);
+  const [userSearchInput, setUserSearchInput] = useState("");
+  const [userSearch, setUserSearch] = useState("");
   const [isDeleteUserDialogOpen, setIsDeleteUserDialogOpen] = useState(false);
   const [userToDelete, setUserToDelete] = useState<number | null>(null);
   const [isDeleteSellerDialogOpen, setIsDeleteSellerDialogOpen] = useState(false);
   const [sellerToDelete, setSellerToDelete] = useState<number | null>(null);
   const [isProductActionDialogOpen, setIsProductActionDialogOpen] = useState(false);
   const [productAction, setProductAction] = useState<{ id: number; action: string } | null>(null);
+  const [productActionNote, setProductActionNote] = useState("");
+  const [applicationReview, setApplicationReview] = useState<{ application: any; action: "approve" | "reject" } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
 
-  // Fetch users
-  const { data: users, isLoading: isLoadingUsers } = useQuery({
-    queryKey: ["/api/users"],
-  });
+  // Fetch users matching the search, shown a page at a time. Pages already
+  // fetched stay cached, so going back doesn't refetch them.
+  const usersQuery = usePaginatedQuery<any>("/api/users", { filter: { q: userSearch } });
+  const users = usersQuery.data?.pages[page - 1]?.items ?? [];
+  const isLoadingUsers = usersQuery.isLoading || (usersQuery.isFetchingNextPage && users.length === 0);
+
+  // Newest sign-ups and user counts by role
+  const {
+    items: recentUsers,
+    total: totalUsers,
+    isLoading: isLoadingRecentUsers,
+  } = usePaginatedQuery<any>("/api/users", { limit: 5 });
+  const { total: customerCount } = usePaginatedQuery<any>("/api/users", { limit: 1, filter: { role: "customer" } });
+  const { total: sellerUserCount } = usePaginatedQuery<any>("/api/users", { limit: 1, filter: { role: "seller" } });
 
   // Fetch sellers
-  const { data: sellers, isLoading: isLoadingSellers } = useQuery({
-    queryKey: ["/api/sellers"],
-  });
+  const sellersQuery = usePaginatedQuery<any>("/api/sellers");
+  const { items: sellers, total: totalSellers, isLoading: isLoadingSellers } = sellersQuery;
 
-  // Fetch products
-  const { data: products, isLoading: isLoadingProducts } = useQuery({
-    queryKey: ["/api/products"],
-  });
+  // Fetch products, and the pending ones waiting for approval
+  const productsQuery = usePaginatedQuery<any>("/api/products");
+  const { items: products, total: totalProducts, isLoading: isLoadingProducts } = productsQuery;
+  const pendingProductsQuery = usePaginatedQuery<any>("/api/products", { filter: { status: "pending" } });
+  const {
+    items: pendingApprovalProducts,
+    total: pendingProductCount,
+    isLoading: isLoadingPendingProducts,
+  } = pendingProductsQuery;
+  const { total: listedProductCount } = usePaginatedQuery<any>("/api/products", { limit: 1, filter: { status: "active" } });
+  const { total: delistedProductCount } = usePaginatedQuery<any>("/api/products", { limit: 1, filter: { status: "delisted" } });
+  const { total: rejectedProductCount } = usePaginatedQuery<any>("/api/products", { limit: 1, filter: { status: "rejected" } });
 
   // Fetch orders
-  const { data: orders, isLoading: isLoadingOrders } = useQuery({
-    queryKey: ["/api/orders"],
+  const ordersQuery = usePaginatedQuery<any>("/api/orders");
+  const { items: orders, total: totalOrders, isLoading: isLoadingOrders } = ordersQuery;
+  const { total: processingOrderCount } = usePaginatedQuery<any>("/api/orders", { limit: 1, filter: { status: "processing" } });
+
+  // Fetch seller applications, newest first
+  const { data: sellerApplications, isLoading: isLoadingApplications } = useQuery<any[]>({
+    queryKey: ["/api/seller-applications"],
   });
+  const pendingApplicationCount = sellerApplications
+    ? sellerApplications.filter((application: any) => application.status === "pending").length
+    : 0;
 
   // Fetch categories
-  const { data: categories, isLoading: isLoadingCategories } = useQuery({
+  const { data: categories, isLoading: isLoadingCategories } = useQuery<CategoryWithPath[]>({
     queryKey: ["/api/categories"],
   });
 
+  // Fetch reviews with open abuse reports
+  const { data: reportedReviews, isLoading: isLoadingReportedReviews } = useQuery<ReportedReview[]>({
+    queryKey: ["/api/admin/review-reports"],
+  });
+
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: number) => {
@@ -136,14 +178,18 @@ export function AdminDashboard() {
     },
   });
 
-  // Approve/reject/delist product mutation
+  // Approve/reject/delist product mutation. Approvals and rejections go
+  // through the moderation routes, which record the note for the seller.
   const productActionMutation = useMutation({
-    mutationFn: async ({ id, action }: { id: number; action: string }) => {
-      const status = action === "approve" ? "active" : action === "reject" ? "rejected" : "delisted";
-      return await apiRequest("PUT", `/api/products/${id}`, { status });
+    mutationFn: async ({ id, action, note }: { id: number; action: string; note: string }) => {
+      if (action === "delist") {
+        return await apiRequest("PUT", `/api/products/${id}`, { status: "delisted" });
+      }
+      return await apiRequest("POST", `/api/admin/products/${id}/${action}`, { note });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/product-status-history"] });
       setIsProductActionDialogOpen(false);
       setProductAction(null);
       toast({
@@ -160,6 +206,34 @@ export function AdminDashboard() {
     },
   });
 
+  // Approve or reject a seller application; approving verifies the seller
+  const applicationReviewMutation = useMutation({
+    mutationFn: async ({ id, action, note }: { id: number; action: string; note: string }) => {
+      return await apiRequest("POST", `/api/seller-applications/${id}/${action}`, { note });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller-applications"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sellers"] });
+      setApplicationReview(null);
+      toast({
+        title: "Application reviewed",
+        description: "The applicant can see the decision on their dashboard.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error reviewing application",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleApplicationReview = (application: any, action: "approve" | "reject") => {
+    setApplicationReview({ application, action });
+    setReviewNote("");
+  };
+
   const handleDeleteUser = (userId: number) => {
     setUserToDelete(userId);
     setIsDeleteUserDialogOpen(true);
@@ -184,30 +258,29 @@ export function AdminDashboard() {
 
   const handleProductAction = (id: number, action: string) => {
     setProductAction({ id, action });
+    setProductActionNote("");
     setIsProductActionDialogOpen(true);
   };
 
   const confirmProductAction = () => {
     if (productAction !== null) {
-      productActionMutation.mutate(productAction);
+      productActionMutation.mutate({ ...productAction, note: productActionNote });
     }
   };
 
-  // Calculate stats
-  const totalUsers = users?.length || 0;
-  const totalSellers = sellers?.length || 0;
-  const totalProducts = products?.length || 0;
-  const totalOrders = orders?.length || 0;
-
-  // Filter products by status
-  const pendingApprovalProducts = products?.filter((p: any) => p.status === "pending") || [];
-  const listedProducts = products?.filter((p: any) => p.status === "active") || [];
-  const delistedProducts = products?.filter((p: any) => p.status === "delisted" || p.status === "rejected") || [];
+  const handleUserSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setUserSearch(userSearchInput.trim());
+    setPage(1);
+  };
 
-  // Filter users by role
-  const customerUsers = users?.filter((u: any) => u.role === "customer") || [];
-  const sellerUsers = users?.filter((u: any) => u.role === "seller") || [];
-  const adminUsers = users?.filter((u: any) => u.role === "admin") || [];
+  // The next page of users may not be fetched yet
+  const goToNextUsersPage = async () => {
+    if (page >= (usersQuery.data?.pages.length ?? 0)) {
+      await usersQuery.fetchNextPage();
+    }
+    setPage(page + 1);
+  };
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8">
@@ -216,11 +289,24 @@ export function AdminDashboard() {
       </div>
 
       <Tabs defaultValue="dashboard" onValueChange={setActiveTab} value={activeTab}>
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
           <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="sellers">Sellers</TabsTrigger>
+          <TabsTrigger value="applications">
+            Applications
+            {pendingApplicationCount > 0 && (
+              <Badge variant="secondary" className="ml-2">{pendingApplicationCount}</Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="products">Products</TabsTrigger>
+          <TabsTrigger value="categories">Categories</TabsTrigger>
+          <TabsTrigger value="reviews">
+            Reviews
+            {!!reportedReviews?.length && (
+              <Badge variant="secondary" className="ml-2">{reportedReviews.length}</Badge>
+            )}
+          </TabsTrigger>
           <TabsTrigger value="orders">Orders</TabsTrigger>
         </TabsList>
 
@@ -234,7 +320,7 @@ export function AdminDashboard() {
               <CardContent>
                 <div className="text-2xl font-bold">{totalUsers}</div>
                 <p className="text-xs text-muted-foreground">
-                  {customerUsers.length} customers, {sellerUsers.length} sellers
+                  {customerCount} customers, {sellerUserCount} sellers
                 </p>
               </CardContent>
             </Card>
@@ -258,7 +344,7 @@ export function AdminDashboard() {
               <CardContent>
                 <div className="text-2xl font-bold">{totalProducts}</div>
                 <p className="text-xs text-muted-foreground">
-                  {pendingApprovalProducts.length} pending approval
+                  {pendingProductCount} pending approval
                 </p>
               </CardContent>
             </Card>
@@ -270,7 +356,7 @@ export function AdminDashboard() {
               <CardContent>
                 <div className="text-2xl font-bold">{totalOrders}</div>
                 <p className="text-xs text-muted-foreground">
-                  {orders?.filter((o: any) => o.status === "processing").length} processing
+                  {processingOrderCount} processing
                 </p>
               </CardContent>
             </Card>
@@ -295,16 +381,14 @@ export function AdminDashboard() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {isLoadingUsers ? (
+                      {isLoadingRecentUsers ? (
                         <TableRow>
                           <TableCell colSpan={3} className="text-center">
                             Loading users...
                           </TableCell>
                         </TableRow>
-                      ) : users && users.length > 0 ? (
-                        users
-                          .sort((a: any, b: any) => new Date(b.registration_date).getTime() - new Date(a.registration_date).getTime())
-                          .slice(0, 5)
+                      ) : recentUsers.length > 0 ? (
+                        recentUsers
                           .map((user: any) => (
                             <TableRow key={user.id}>
                               <TableCell className="font-medium">
@@ -359,7 +443,7 @@ export function AdminDashboard() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {isLoadingProducts ? (
+                      {isLoadingPendingProducts ? (
                         <TableRow>
                           <TableCell colSpan={3} className="text-center">
                             Loading products...
@@ -429,10 +513,14 @@ export function AdminDashboard() {
             </CardHeader>
             <CardContent>
               <div className="mb-4 flex justify-end">
-                <div className="flex w-full max-w-sm items-center space-x-2">
-                  <Input placeholder="Search users..." />
+                <form onSubmit={handleUserSearch} className="flex w-full max-w-sm items-center space-x-2">
+                  <Input
+                    placeholder="Search users..."
+                    value={userSearchInput}
+                    onChange={(e) => setUserSearchInput(e.target.value)}
+                  />
                   <Button type="submit">Search</Button>
-                </div>
+                </form>
               </div>
               <ScrollArea className="h-[500px]">
                 <Table>
@@ -456,7 +544,7 @@ export function AdminDashboard() {
                           Loading users...
                         </TableCell>
                       </TableRow>
-                    ) : users && users.length > 0 ? (
+                    ) : users.length > 0 ? (
                       users.map((user: any) => (
                         <TableRow key={user.id}>
                           <TableCell>
@@ -527,24 +615,39 @@ export function AdminDashboard() {
                 <Pagination>
                   <PaginationContent>
                     <PaginationItem>
-                      <PaginationPrevious href="#" />
+                      <PaginationPrevious
+                        href="#"
+                        className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          setPage(page - 1);
+                        }}
+                      />
                     </PaginationItem>
                     <PaginationItem>
-                      <PaginationLink href="#" isActive>
-                        1
+                      <PaginationLink href="#" isActive onClick={(e) => e.preventDefault()}>
+                        {page}
                       </PaginationLink>
                     </PaginationItem>
                     <PaginationItem>
-                      <PaginationLink href="#">2</PaginationLink>
-                    </PaginationItem>
-                    <PaginationItem>
-                      <PaginationLink href="#">3</PaginationLink>
-                    </PaginationItem>
-                    <PaginationItem>
-                      <PaginationNext href="#" />
+                      <PaginationNext
+                        href="#"
+                        className={
+                          page >= (usersQuery.data?.pages.length ?? 0) && !usersQuery.hasNextPage
+                            ? "pointer-events-none opacity-50"
+                            : undefined
+                        }
+                        onClick={(e) => {
+                          e.preventDefault();
+                          goToNextUsersPage();
+                        }}
+                      />
                     </PaginationItem>
                   </PaginationContent>
                 </Pagination>
+                <p className="text-sm text-muted-foreground text-center mt-2">
+                  {usersQuery.total} users
+                </p>
               </div>
             </CardContent>
           </Card>
@@ -578,7 +681,7 @@ export function AdminDashboard() {
                           Loading sellers...
                         </TableCell>
                       </TableRow>
-                    ) : sellers && sellers.length > 0 ? (
+                    ) : sellers.length > 0 ? (
                       sellers.map((seller: any) => (
                         <TableRow key={seller.id}>
                           <TableCell className="font-medium">
@@ -599,10 +702,14 @@ export function AdminDashboard() {
                           <TableCell>{seller.shop_name}</TableCell>
                           <TableCell>{seller.user?.email}</TableCell>
                           <TableCell>
-                            <Badge variant="success">Active</Badge>
+                            {seller.verified ? (
+                              <Badge variant="success">Verified</Badge>
+                            ) : (
+                              <Badge variant="outline">Unverified</Badge>
+                            )}
                           </TableCell>
                           <TableCell>
-                            {products?.filter((p: any) => p.seller_id === seller.id).length || 0}
+                            <SellerProductCount sellerId={seller.id} />
                           </TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
@@ -630,6 +737,109 @@ export function AdminDashboard() {
                   </TableBody>
                 </Table>
               </ScrollArea>
+              <LoadMoreButton query={sellersQuery} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="applications" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Seller Applications</CardTitle>
+              <CardDescription>
+                Verify sellers before their products can go live
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[500px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Applicant</TableHead>
+                      <TableHead>Shop</TableHead>
+                      <TableHead>Business</TableHead>
+                      <TableHead>Submitted</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoadingApplications ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center">
+                          Loading applications...
+                        </TableCell>
+                      </TableRow>
+                    ) : sellerApplications && sellerApplications.length > 0 ? (
+                      sellerApplications.map((application: any) => (
+                        <TableRow key={application.id}>
+                          <TableCell className="font-medium">
+                            <div className="font-medium">{application.user?.name || application.user?.username}</div>
+                            <div className="text-sm text-gray-500">{application.user?.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div>{application.shop_name}</div>
+                            {application.description && (
+                              <div className="text-sm text-gray-500 max-w-xs truncate">{application.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{application.business_name}</div>
+                            <div className="text-sm text-gray-500">
+                              {formatBusinessType(application.business_type)} · Tax ID {application.tax_id}
+                            </div>
+                            <div className="text-sm text-gray-500">{application.business_address}</div>
+                            <div className="text-sm text-gray-500">{application.business_phone}</div>
+                          </TableCell>
+                          <TableCell>{new Date(application.submitted_at).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={
+                                application.status === "approved"
+                                  ? "default"
+                                  : application.status === "rejected"
+                                  ? "destructive"
+                                  : "secondary"
+                              }
+                            >
+                              {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
+                            </Badge>
+                            {application.review_note && (
+                              <div className="text-sm text-gray-500 mt-1 max-w-xs">{application.review_note}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {application.status === "pending" && (
+                              <div className="flex space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleApplicationReview(application, "approve")}
+                                >
+                                  <CheckCircle className="h-4 w-4 text-green-500" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleApplicationReview(application, "reject")}
+                                >
+                                  <XCircle className="h-4 w-4 text-red-500" />
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center">
+                          No seller applications yet.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
             </CardContent>
           </Card>
         </TabsContent>
@@ -658,9 +868,9 @@ export function AdminDashboard() {
               <Tabs defaultValue="all">
                 <TabsList className="mb-4">
                   <TabsTrigger value="all">All Products ({totalProducts})</TabsTrigger>
-                  <TabsTrigger value="pending">Pending ({pendingApprovalProducts.length})</TabsTrigger>
-                  <TabsTrigger value="listed">Listed ({listedProducts.length})</TabsTrigger>
-                  <TabsTrigger value="delisted">Delisted ({delistedProducts.length})</TabsTrigger>
+                  <TabsTrigger value="pending">Pending ({pendingProductCount})</TabsTrigger>
+                  <TabsTrigger value="listed">Listed ({listedProductCount})</TabsTrigger>
+                  <TabsTrigger value="delisted">Delisted ({delistedProductCount + rejectedProductCount})</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="all">
@@ -686,7 +896,7 @@ export function AdminDashboard() {
                               Loading products...
                             </TableCell>
                           </TableRow>
-                        ) : products && products.length > 0 ? (
+                        ) : products.length > 0 ? (
                           products.map((product: any) => (
                             <TableRow key={product.id}>
                               <TableCell>
@@ -785,6 +995,7 @@ export function AdminDashboard() {
                       </TableBody>
                     </Table>
                   </ScrollArea>
+                  <LoadMoreButton query={productsQuery} />
                 </TabsContent>
 
                 <TabsContent value="pending">
@@ -803,7 +1014,7 @@ export function AdminDashboard() {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {isLoadingProducts ? (
+                        {isLoadingPendingProducts ? (
                           <TableRow>
                             <TableCell colSpan={6} className="text-center">
                               Loading products...
@@ -869,6 +1080,7 @@ export function AdminDashboard() {
                       </TableBody>
                     </Table>
                   </ScrollArea>
+                  <LoadMoreButton query={pendingProductsQuery} />
                 </TabsContent>
 
                 <TabsContent value="listed">
@@ -883,6 +1095,34 @@ export function AdminDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="categories" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Category Management</CardTitle>
+              <CardDescription>
+                Drag a category to reorder it, or drop it onto another to make it a subcategory
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CategoryTreeEditor categories={categories ?? []} isLoading={isLoadingCategories} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reviews" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Review Moderation</CardTitle>
+              <CardDescription>
+                Reviews shoppers have reported for abuse
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReviewModerationQueue reviews={reportedReviews ?? []} isLoading={isLoadingReportedReviews} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="orders" className="space-y-4">
           <Card>
             <CardHeader>
@@ -912,7 +1152,7 @@ export function AdminDashboard() {
                           Loading orders...
                         </TableCell>
                       </TableRow>
-                    ) : orders && orders.length > 0 ? (
+                    ) : orders.length > 0 ? (
                       orders.map((order: any) => (
                         <TableRow key={order.id}>
                           <TableCell className="font-medium">
@@ -968,6 +1208,7 @@ export function AdminDashboard() {
                   </TableBody>
                 </Table>
               </ScrollArea>
+              <LoadMoreButton query={ordersQuery} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1040,8 +1281,16 @@ export function AdminDashboard() {
             </DialogTitle>
             <DialogDescription>
               Are you sure you want to {productAction?.action} this product?
+              {productAction?.action === "reject" && " The seller will see your reason."}
             </DialogDescription>
           </DialogHeader>
+          {productAction?.action !== "delist" && (
+            <Textarea
+              value={productActionNote}
+              onChange={(e) => setProductActionNote(e.target.value)}
+              placeholder={productAction?.action === "reject" ? "Reason for rejecting this product" : "Note for the seller (optional)"}
+            />
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -1052,7 +1301,10 @@ export function AdminDashboard() {
             <Button
               variant={productAction?.action === "approve" ? "default" : "destructive"}
               onClick={confirmProductAction}
-              disabled={productActionMutation.isPending}
+              disabled={
+                productActionMutation.isPending ||
+                (productAction?.action === "reject" && !productActionNote.trim())
+              }
             >
               {productActionMutation.isPending
                 ? "Processing..."
@@ -1065,8 +1317,80 @@ export function AdminDashboard() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Seller Application Review Dialog */}
+      <Dialog open={!!applicationReview} onOpenChange={(open) => !open && setApplicationReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {applicationReview?.action === "approve" ? "Approve" : "Reject"} Seller Application
+            </DialogTitle>
+            <DialogDescription>
+              {applicationReview?.action === "approve"
+                ? `Approving verifies ${applicationReview?.application.shop_name}, so its products can go live.`
+                : `Let the applicant know why ${applicationReview?.application.shop_name} can't be verified. They can fix it and reapply.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reviewNote}
+            onChange={(e) => setReviewNote(e.target.value)}
+            placeholder={applicationReview?.action === "approve" ? "Note for the seller (optional)" : "Reason for rejecting this application"}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplicationReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={applicationReview?.action === "approve" ? "default" : "destructive"}
+              disabled={
+                applicationReviewMutation.isPending ||
+                (applicationReview?.action === "reject" && !reviewNote.trim())
+              }
+              onClick={() => applicationReview && applicationReviewMutation.mutate({
+                id: applicationReview.application.id,
+                action: applicationReview.action,
+                note: reviewNote
+              })}
+            >
+              {applicationReviewMutation.isPending
+                ? "Processing..."
+                : applicationReview?.action === "approve"
+                ? "Approve"
+                : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 
+// Shown under a list while the server has more pages of it
+function LoadMoreButton({ query }: {
+  query: { hasNextPage: boolean; isFetchingNextPage: boolean; fetchNextPage: () => unknown };
+}) {
+  if (!query.hasNextPage) return null;
+  return (
+    <div className="text-center mt-4">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => query.fetchNextPage()}
+        disabled={query.isFetchingNextPage}
+      >
+        {query.isFetchingNextPage ? "Loading..." : "Load more"}
+      </Button>
+    </div>
+  );
+}
+
+// How many products a seller lists; only the count of a one-item page is fetched
+function SellerProductCount({ sellerId }: { sellerId: number }) {
+  const { total, isLoading } = usePaginatedQuery<any>("/api/products", {
+    limit: 1,
+    filter: { seller_id: sellerId },
+  });
+  return <>{isLoading ? "…" : total}</>;
+}
+
 export default AdminDashboard;
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, Edit, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { attributeTypes, type AttributeType, type CategoryAttribute } from "@shared/schema";
+import { getApplicableAttributes } from "@shared/attributes";
+import type { CategoryWithPath } from "@shared/categories";
+
+const TYPE_LABELS: Record<AttributeType, string> = {
+  enum: "Options",
+  number: "Number",
+  boolean: "Yes/No",
+};
+
+// "Apple, Samsung" -> ["Apple", "Samsung"]
+function parseOptions(text: string): string[] {
+  return text.split(",").map((option) => option.trim()).filter(Boolean);
+}
+
+type EditState = { id: number; name: string; options: string; unit: string };
+
+type CategoryAttributeEditorProps = {
+  category: CategoryWithPath;
+  categories: CategoryWithPath[];
+};
+
+// The attributes of one category, edited from the category tree. Attributes
+// inherited from its ancestors are listed but edited on the ancestor.
+export function CategoryAttributeEditor({ category, categories }: CategoryAttributeEditorProps) {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AttributeType>("enum");
+  const [options, setOptions] = useState("");
+  const [unit, setUnit] = useState("");
+
+  const { data: allAttributes, isLoading } = useQuery<CategoryAttribute[]>({
+    queryKey: ["/api/attributes"],
+  });
+  const attributes = getApplicableAttributes(categories, allAttributes ?? [], [category.id]);
+  const categoryName = (id: number) => categories.find((c) => c.id === id)?.category_name;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/attributes"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).endsWith("/attributes"),
+    });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error updating attributes",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/categories/${category.id}/attributes`, {
+        name,
+        type,
+        options: type === "enum" ? parseOptions(options) : [],
+        unit: type === "number" && unit.trim() ? unit : null,
+      }),
+    onSuccess: () => {
+      onChanged();
+      setName("");
+      setOptions("");
+      setUnit("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ attribute, edit }: { attribute: CategoryAttribute; edit: EditState }) =>
+      apiRequest("PUT", `/api/attributes/${attribute.id}`, {
+        name: edit.name,
+        ...(attribute.type === "enum" ? { options: parseOptions(edit.options) } : {}),
+        ...(attribute.type === "number" ? { unit: edit.unit.trim() || null } : {}),
+      }),
+    onSuccess: () => {
+      onChanged();
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/attributes/${id}`),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading attributes...</p>
+      ) : attributes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attributes yet</p>
+      ) : (
+        <div className="space-y-2">
+          {attributes.map((attribute) => {
+            const inherited = attribute.category_id !== category.id;
+            const isEditing = editing?.id === attribute.id;
+            return (
+              <div key={attribute.id} className="flex items-center gap-2 rounded-md border p-2">
+                {isEditing ? (
+                  <>
+                    <Input
+                      className="h-8"
+                      value={editing.name}
+                      onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    />
+                    {attribute.type === "enum" && (
+                      <Input
+                        className="h-8"
+                        placeholder="Comma separated options"
+                        value={editing.options}
+                        onChange={(e) => setEditing({ ...editing, options: e.target.value })}
+                      />
+                    )}
+                    {attribute.type === "number" && (
+                      <Input
+                        className="h-8 w-24"
+                        placeholder="Unit"
+                        value={editing.unit}
+                        onChange={(e) => setEditing({ ...editing, unit: e.target.value })}
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Save attribute"
+                      disabled={updateMutation.isPending}
+                      onClick={() => updateMutation.mutate({ attribute, edit: editing })}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Cancel editing"
+                      onClick={() => setEditing(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1">
+                      <div className="text-sm font-medium">
+                        {attribute.name}
+                        {attribute.unit && <span className="text-muted-foreground"> ({attribute.unit})</span>}
+                      </div>
+                      {attribute.type === "enum" && (
+                        <div className="text-xs text-muted-foreground">{attribute.options.join(", ")}</div>
+                      )}
+                    </div>
+                    <Badge variant="outline">{TYPE_LABELS[attribute.type as AttributeType]}</Badge>
+                    {inherited ? (
+                      <Badge variant="secondary">From {categoryName(attribute.category_id)}</Badge>
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label="Edit attribute"
+                          onClick={() => setEditing({
+                            id: attribute.id,
+                            name: attribute.name,
+                            options: attribute.options.join(", "),
+                            unit: attribute.unit ?? "",
+                          })}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          aria-label="Delete attribute"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(attribute.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <form
+        className="space-y-2 border-t pt-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+      >
+        <div className="flex gap-2">
+          <Input placeholder="Attribute name, e.g. Brand" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={type} onValueChange={(value) => setType(value as AttributeType)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {attributeTypes.map((attributeType) => (
+                <SelectItem key={attributeType} value={attributeType}>{TYPE_LABELS[attributeType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {type === "enum" && (
+          <Input
+            placeholder="Comma separated options, e.g. Apple, Samsung, Google"
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+          />
+        )}
+        {type === "number" && (
+          <Input placeholder="Unit, e.g. GB (optional)" value={unit} onChange={(e) => setUnit(e.target.value)} />
+        )}
+        <Button type="submit" size="sm" disabled={!name.trim() || createMutation.isPending}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Attribute
+        </Button>
+      </form>
+    </div>
+  );
+}
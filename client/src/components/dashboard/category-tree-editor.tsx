@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Check, Edit, GripVertical, Plus, SlidersHorizontal, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  buildCategoryTree,
+  canMoveCategory,
+  formatCategoryPath,
+  getChildCategories,
+  slugify,
+  type CategoryNode,
+  type CategoryWithPath,
+} from "@shared/categories";
+import { CategoryAttributeEditor } from "./category-attribute-editor";
+
+// Where a dragged category lands relative to the row it's dropped on
+type DropPosition = "before" | "after" | "inside";
+type DropTarget = { id: number | null; position: DropPosition };
+
+// The new parent and index among its children for a drop, or undefined when
+// the category can't go there
+function getMove(categories: CategoryWithPath[], draggedId: number, target: DropTarget) {
+  const targetCategory = categories.find((c) => c.id === target.id);
+  let parentId: number | null;
+  let position: number;
+
+  if (!targetCategory) {
+    // The drop zone under the tree: last at the top level
+    parentId = null;
+    position = getChildCategories(categories, null).length;
+  } else if (target.position === "inside") {
+    parentId = targetCategory.id;
+    position = getChildCategories(categories, parentId).filter((c) => c.id !== draggedId).length;
+  } else {
+    parentId = targetCategory.parent_id ?? null;
+    const siblings = getChildCategories(categories, parentId).filter((c) => c.id !== draggedId);
+    position = siblings.findIndex((c) => c.id === targetCategory.id) + (target.position === "after" ? 1 : 0);
+  }
+
+  if (targetCategory?.id === draggedId || !canMoveCategory(categories, draggedId, parentId)) {
+    return undefined;
+  }
+  return { parent_id: parentId, position };
+}
+
+// The top and bottom quarters of a row drop next to it, the middle drops into it
+function getDropPosition(e: React.DragEvent<HTMLElement>): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return "before";
+  if (offset > 0.75) return "after";
+  return "inside";
+}
+
+type CategoryTreeEditorProps = {
+  categories: CategoryWithPath[];
+  isLoading: boolean;
+};
+
+// Admin editor for the category tree. Rows are dragged to reorder them or,
+// dropped onto another row, to move them under it. Every change is saved
+// right away.
+export function CategoryTreeEditor({ categories, isLoading }: CategoryTreeEditorProps) {
+  const { toast } = useToast();
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [editing, setEditing] = useState<{ id: number; category_name: string; slug: string } | null>(null);
+  const [categoryToDelete, setCategoryToDelete] = useState<CategoryWithPath | null>(null);
+  const [attributesCategory, setAttributesCategory] = useState<CategoryWithPath | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newSlug, setNewSlug] = useState("");
+  const [newParentId, setNewParentId] = useState("none");
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error updating categories",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: ({ id, ...move }: { id: number; parent_id: number | null; position: number }) =>
+      apiRequest("PUT", `/api/categories/${id}/move`, move),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/categories", {
+        category_name: newName,
+        slug: newSlug || undefined,
+        parent_id: newParentId === "none" ? null : parseInt(newParentId),
+      }),
+    onSuccess: () => {
+      onChanged();
+      setNewName("");
+      setNewSlug("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, ...data }: { id: number; category_name: string; slug: string }) =>
+      apiRequest("PUT", `/api/categories/${id}`, data),
+    onSuccess: () => {
+      onChanged();
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/categories/${id}`),
+    onSuccess: () => {
+      onChanged();
+      setCategoryToDelete(null);
+    },
+    onError,
+  });
+
+  const endDrag = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, id: number | null) => {
+    if (draggedId === null) return;
+    const target: DropTarget = { id, position: id === null ? "after" : getDropPosition(e) };
+    if (!getMove(categories, draggedId, target)) return;
+    e.preventDefault();
+    if (dropTarget?.id !== target.id || dropTarget.position !== target.position) {
+      setDropTarget(target);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLElement>) => {
+    e.preventDefault();
+    const move = draggedId !== null && dropTarget ? getMove(categories, draggedId, dropTarget) : undefined;
+    if (draggedId !== null && move) {
+      moveMutation.mutate({ id: draggedId, ...move });
+    }
+    endDrag();
+  };
+
+  const renderNodes = (nodes: CategoryNode[], depth: number): React.ReactNode =>
+    nodes.map((node) => {
+      const isTarget = dropTarget?.id === node.id;
+      const isEditing = editing?.id === node.id;
+      return (
+        <div key={node.id}>
+          <div
+            draggable={!isEditing && !moveMutation.isPending}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("text/plain", String(node.id));
+              setDraggedId(node.id);
+            }}
+            onDragEnd={endDrag}
+            onDragOver={(e) => handleDragOver(e, node.id)}
+            onDrop={handleDrop}
+            className={cn(
+              "flex items-center gap-2 rounded-md border-y-2 border-transparent px-2 py-1.5",
+              draggedId === node.id && "opacity-50",
+              isTarget && dropTarget.position === "before" && "border-t-primary",
+              isTarget && dropTarget.position === "after" && "border-b-primary",
+              isTarget && dropTarget.position === "inside" && "bg-primary/10",
+            )}
+            style={{ marginLeft: depth * 24 }}
+          >
+            <GripVertical className="h-4 w-4 flex-shrink-0 cursor-grab text-muted-foreground" />
+            {isEditing ? (
+              <>
+                <Input
+                  className="h-8"
+                  value={editing.category_name}
+                  onChange={(e) => setEditing({ ...editing, category_name: e.target.value })}
+                />
+                <Input
+                  className="h-8 w-48 font-mono text-xs"
+                  value={editing.slug}
+                  onChange={(e) => setEditing({ ...editing, slug: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Save category"
+                  disabled={updateMutation.isPending}
+                  onClick={() => updateMutation.mutate(editing)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Cancel editing"
+                  onClick={() => setEditing(null)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <span className="flex-1 text-sm font-medium">{node.category_name}</span>
+                <span className="font-mono text-xs text-muted-foreground">/{node.path}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Edit attributes"
+                  onClick={() => setAttributesCategory(node)}
+                >
+                  <SlidersHorizontal className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Edit category"
+                  onClick={() => setEditing({ id: node.id, category_name: node.category_name, slug: node.slug })}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label="Delete category"
+                  title={node.children.length > 0 ? "Move or delete its subcategories first" : undefined}
+                  disabled={node.children.length > 0}
+                  onClick={() => setCategoryToDelete(node)}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </>
+            )}
+          </div>
+          {renderNodes(node.children, depth + 1)}
+        </div>
+      );
+    });
+
+  return (
+    <div className="space-y-6">
+      <form
+        className="flex flex-col gap-2 md:flex-row"
+        onSubmit={(e) => {
+          e.preventDefault();
+          createMutation.mutate();
+        }}
+      >
+        <Input
+          placeholder="Category name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <Input
+          className="font-mono md:w-56"
+          placeholder={slugify(newName) || "slug"}
+          value={newSlug}
+          onChange={(e) => setNewSlug(e.target.value)}
+        />
+        <Select value={newParentId} onValueChange={setNewParentId}>
+          <SelectTrigger className="md:w-64">
+            <SelectValue placeholder="Parent category" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Top level</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={String(category.id)}>
+                {formatCategoryPath(categories, category)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={!newName.trim() || createMutation.isPending}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-center text-sm text-muted-foreground">Loading categories...</p>
+      ) : categories.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">No categories yet</p>
+      ) : (
+        <div>
+          {renderNodes(buildCategoryTree(categories), 0)}
+          <div
+            onDragOver={(e) => handleDragOver(e, null)}
+            onDrop={handleDrop}
+            className={cn(
+              "mt-2 rounded-md border-2 border-dashed p-3 text-center text-xs text-muted-foreground",
+              dropTarget?.id === null && "border-primary text-primary",
+            )}
+          >
+            Drop here to move a category to the top level
+          </div>
+        </div>
+      )}
+
+      <Dialog open={!!attributesCategory} onOpenChange={(open) => !open && setAttributesCategory(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{attributesCategory?.category_name} Attributes</DialogTitle>
+            <DialogDescription>
+              Sellers fill these in on their products, and shoppers filter the category by them. Subcategories inherit them.
+            </DialogDescription>
+          </DialogHeader>
+          {attributesCategory && (
+            <CategoryAttributeEditor category={attributesCategory} categories={categories} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!categoryToDelete} onOpenChange={(open) => !open && setCategoryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Category</DialogTitle>
+            <DialogDescription>
+              Delete {categoryToDelete?.category_name}? Its products stay listed but are no longer in this category.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCategoryToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={deleteMutation.isPending}
+              onClick={() => categoryToDelete && deleteMutation.mutate(categoryToDelete.id)}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Category"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CategoryAttribute } from "@shared/schema";
+import type { AttributeValue } from "@shared/attributes";
+
+// A value per attribute id, null when not set; the body of
+// PUT /api/products/:id/attributes
+export type AttributeValues = Record<string, AttributeValue | null>;
+
+// Select items can't have an empty value
+const NOT_SET = "__not_set";
+
+// The values of just these attributes, for sending: the server refuses
+// attributes that aren't in the product's categories
+export function pickAttributeValues(attributes: CategoryAttribute[], values: AttributeValues): AttributeValues {
+  return Object.fromEntries(attributes.map((attribute) => [attribute.id, values[attribute.id] ?? null]));
+}
+
+type ProductAttributeFieldsProps = {
+  attributes: CategoryAttribute[];
+  values: AttributeValues;
+  onChange: (values: AttributeValues) => void;
+};
+
+// An input per attribute of the product's categories, in the seller's add
+// and edit product dialogs. Every attribute is optional.
+export function ProductAttributeFields({ attributes, values, onChange }: ProductAttributeFieldsProps) {
+  if (attributes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The selected categories don't have any attributes.
+      </p>
+    );
+  }
+
+  const setValue = (attributeId: number, value: AttributeValue | null) => {
+    onChange({ ...values, [attributeId]: value });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {attributes.map((attribute) => {
+        const value = values[attribute.id] ?? null;
+        const id = `attribute-${attribute.id}`;
+        return (
+          <div key={attribute.id} className="space-y-1">
+            <Label htmlFor={id}>
+              {attribute.name}
+              {attribute.unit && <span className="text-muted-foreground"> ({attribute.unit})</span>}
+            </Label>
+            {attribute.type === "number" ? (
+              <Input
+                id={id}
+                type="number"
+                value={value === null ? "" : String(value)}
+                onChange={(e) => setValue(attribute.id, e.target.value === "" ? null : Number(e.target.value))}
+              />
+            ) : (
+              <Select
+                value={value === null ? NOT_SET : String(value)}
+                onValueChange={(selected) => {
+                  if (selected === NOT_SET) {
+                    setValue(attribute.id, null);
+                  } else {
+                    setValue(attribute.id, attribute.type === "boolean" ? selected === "true" : selected);
+                  }
+                }}
+              >
+                <SelectTrigger id={id}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_SET}>Not set</SelectItem>
+                  {attribute.type === "boolean" ? (
+                    <>
+                      <SelectItem value="true">Yes</SelectItem>
+                      <SelectItem value="false">No</SelectItem>
+                    </>
+                  ) : (
+                    attribute.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Trash2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ProductImage } from "@shared/schema";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  MAX_IMAGE_BYTES,
+  MAX_PRODUCT_IMAGES,
+  formatImageSize,
+  getProductImageUrl,
+} from "@shared/product-images";
+
+// Why these files can't be uploaded next to the product's (or review's)
+// existing images, checked before sending them so a bad pick fails fast
+export function checkImageFiles(
+  files: File[],
+  existingCount: number,
+  maxImages: number = MAX_PRODUCT_IMAGES
+): string | undefined {
+  if (existingCount + files.length > maxImages) {
+    return `Add at most ${maxImages} images`;
+  }
+  const unsupported = files.find((file) => !(ACCEPTED_IMAGE_TYPES as readonly string[]).includes(file.type));
+  if (unsupported) {
+    return `${unsupported.name} isn't a JPEG, PNG, WebP or GIF image`;
+  }
+  const tooLarge = files.find((file) => file.size > MAX_IMAGE_BYTES);
+  if (tooLarge) {
+    return `${tooLarge.name} is larger than ${formatImageSize(MAX_IMAGE_BYTES)}`;
+  }
+  return undefined;
+}
+
+export async function uploadProductImages(productId: number, files: File[]): Promise<ProductImage[]> {
+  const body = new FormData();
+  files.forEach((file) => body.append("images", file));
+  const res = await apiRequest("POST", `/api/products/${productId}/images`, body);
+  return await res.json();
+}
+
+export const IMAGE_FILE_ACCEPT = ACCEPTED_IMAGE_TYPES.join(",");
+
+type ImageTileProps = {
+  image: ProductImage;
+  isCover: boolean;
+  canMoveLeft: boolean;
+  canMoveRight: boolean;
+  disabled: boolean;
+  onMove: (direction: -1 | 1) => void;
+  onAltTextChange: (altText: string) => void;
+  onDelete: () => void;
+};
+
+function ImageTile({ image, isCover, canMoveLeft, canMoveRight, disabled, onMove, onAltTextChange, onDelete }: ImageTileProps) {
+  const [altText, setAltText] = useState(image.alt_text ?? "");
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="relative">
+        <img
+          src={getProductImageUrl(image, "small")}
+          alt={image.alt_text || ""}
+          className="h-24 w-full rounded object-cover"
+        />
+        {isCover && (
+          <Badge variant="secondary" className="absolute left-1 top-1">Cover</Badge>
+        )}
+      </div>
+      <Input
+        className="h-8 text-xs"
+        placeholder="Alt text"
+        maxLength={200}
+        value={altText}
+        onChange={(e) => setAltText(e.target.value)}
+        onBlur={() => {
+          if (altText.trim() !== (image.alt_text ?? "")) onAltTextChange(altText.trim());
+        }}
+      />
+      <div className="flex justify-between">
+        <div className="flex">
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Move earlier"
+            disabled={disabled || !canMoveLeft}
+            onClick={() => onMove(-1)}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Move later"
+            disabled={disabled || !canMoveRight}
+            onClick={() => onMove(1)}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          aria-label="Delete image"
+          disabled={disabled}
+          onClick={onDelete}
+        >
+          <Trash2 className="h-4 w-4 text-red-500" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type ProductImageManagerProps = {
+  productId: number;
+  images: ProductImage[];
+};
+
+// Uploads, orders, captions and deletes a saved product's images. Changes
+// are saved right away; the first image is the product's cover.
+export function ProductImageManager({ productId, images }: ProductImageManagerProps) {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/products/${productId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Error updating images",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => uploadProductImages(productId, files),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, alt_text }: { id: number; alt_text: string }) =>
+      apiRequest("PATCH", `/api/products/${productId}/images/${id}`, { alt_text: alt_text || null }),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (imageIds: number[]) =>
+      apiRequest("PUT", `/api/products/${productId}/images/order`, { image_ids: imageIds }),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/products/${productId}/images/${id}`),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const isBusy = uploadMutation.isPending || reorderMutation.isPending || deleteMutation.isPending;
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (fileInput.current) fileInput.current.value = "";
+    if (files.length === 0) return;
+
+    const problem = checkImageFiles(files, images.length);
+    if (problem) {
+      onError(new Error(problem));
+      return;
+    }
+    uploadMutation.mutate(files);
+  };
+
+  const moveImage = (index: number, direction: -1 | 1) => {
+    const ids = images.map((image) => image.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {images.map((image, index) => (
+            <ImageTile
+              key={image.id}
+              image={image}
+              isCover={index === 0}
+              canMoveLeft={index > 0}
+              canMoveRight={index < images.length - 1}
+              disabled={isBusy}
+              onMove={(direction) => moveImage(index, direction)}
+              onAltTextChange={(alt_text) => updateMutation.mutate({ id: image.id, alt_text })}
+              onDelete={() => deleteMutation.mutate(image.id)}
+            />
+          ))}
+        </div>
+      )}
+      <input
+        ref={fileInput}
+        type="file"
+        multiple
+        accept={IMAGE_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={isBusy || images.length >= MAX_PRODUCT_IMAGES}
+        onClick={() => fileInput.current?.click()}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        {uploadMutation.isPending ? "Uploading..." : "Upload Images"}
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Up to {MAX_PRODUCT_IMAGES} JPEG, PNG, WebP or GIF images, {formatImageSize(MAX_IMAGE_BYTES)} each.
+      </p>
+    </div>
+  );
+}
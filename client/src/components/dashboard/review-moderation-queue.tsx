@@ -0,0 +1,122 @@
+import { useMutation } from "@tanstack/react-query";
+import { EyeOff, Check, Star } from "lucide-react";
+import { format } from "date-fns";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getProductImageUrl } from "@shared/product-images";
+import { formatReviewReportReason, type ReportedReview, type ReviewModerationAction } from "@shared/reviews";
+
+type ReviewModerationQueueProps = {
+  reviews: ReportedReview[];
+  isLoading: boolean;
+};
+
+// Reported reviews, the most reported first. Dismissing the reports keeps a
+// review up; hiding it takes it off the product page and out of its rating.
+export function ReviewModerationQueue({ reviews, isLoading }: ReviewModerationQueueProps) {
+  const { toast } = useToast();
+
+  const moderateMutation = useMutation({
+    mutationFn: ({ id, action }: { id: number; action: ReviewModerationAction }) =>
+      apiRequest("POST", `/api/admin/reviews/${id}/moderate`, { action }),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/review-reports"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/products"),
+      });
+      toast({ title: action === "hide" ? "Review hidden" : "Reports dismissed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error moderating review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-center text-sm text-muted-foreground">Loading reported reviews...</p>;
+  }
+  if (reviews.length === 0) {
+    return <p className="text-center text-sm text-muted-foreground">No reported reviews</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map((review) => (
+        <div key={review.id} className="rounded-md border p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex text-amber-400">
+                {[...Array(5)].map((_, i) => (
+                  <Star key={i} className={`h-4 w-4 ${i < review.rating ? "fill-current" : "text-gray-300"}`} />
+                ))}
+              </div>
+              <span className="font-medium">{review.customer?.name ?? "Deleted user"}</span>
+              <span className="text-sm text-muted-foreground">
+                on{" "}
+                {review.product ? (
+                  <Link href={`/products/${review.product.id}`} className="underline">
+                    {review.product.name}
+                  </Link>
+                ) : (
+                  "a deleted product"
+                )}
+              </span>
+            </div>
+            <Badge variant="destructive">
+              {review.reports.length} {review.reports.length === 1 ? "report" : "reports"}
+            </Badge>
+          </div>
+
+          {review.title && <p className="mt-2 text-sm font-medium">{review.title}</p>}
+          <p className="mt-2 text-sm">{review.review_text || <em className="text-muted-foreground">No text</em>}</p>
+          {review.images.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {review.images.map((image) => (
+                <a key={image.id} href={image.url} target="_blank" rel="noreferrer">
+                  <img src={getProductImageUrl(image, "small")} alt="" className="h-16 w-16 rounded object-cover" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          <ul className="mt-3 space-y-1 border-t pt-3 text-sm">
+            {review.reports.map((report) => (
+              <li key={report.id}>
+                <span className="font-medium">{formatReviewReportReason(report.reason)}</span>
+                <span className="text-muted-foreground"> · {format(new Date(report.created_at), "MMM d, yyyy")}</span>
+                {report.details && <span className="text-muted-foreground"> · {report.details}</span>}
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-3 flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={moderateMutation.isPending}
+              onClick={() => moderateMutation.mutate({ id: review.id, action: "dismiss" })}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Dismiss Reports
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={moderateMutation.isPending}
+              onClick={() => moderateMutation.mutate({ id: review.id, action: "hide" })}
+            >
+              <EyeOff className="mr-2 h-4 w-4" />
+              Hide Review
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Link } from "wouter";
 import {
@@ -14,6 +15,7 @@ import {
   Edit,
   Trash2,
   Plus,
+  ShieldCheck,
 } from "lucide-react";
 import {
   Card,
@@ -45,10 +47,23 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { insertProductSchema } from "@shared/schema";
+import { formatReturnReason, isWebUrl } from "@shared/returns";
+import { formatProductStatus } from "@shared/product-moderation";
+import { variantMatrixSchema, VariantMatrix } from "@shared/variants";
+import { formatCategoryPath, type CategoryWithPath } from "@shared/categories";
+import { getApplicableAttributes, type ProductAttribute } from "@shared/attributes";
+import type { CategoryAttribute } from "@shared/schema";
+import { SellerOnboarding } from "./seller-onboarding";
+import { VariantMatrixEditor, EMPTY_VARIANT_MATRIX } from "./variant-matrix-editor";
+import { ProductAttributeFields, pickAttributeValues, AttributeValues } from "./product-attribute-fields";
+import {
+  ProductImageManager, checkImageFiles, uploadProductImages, IMAGE_FILE_ACCEPT
+} from "./product-image-manager";
 
 export function SellerDashboard() {
   const { user } = useAuth();
@@ -59,6 +74,17 @@ export function SellerDashboard() {
   const [isEditProductOpen, setIsEditProductOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [productToDelete, setProductToDelete] = useState<number | null>(null);
+  const [shipmentToShip, setShipmentToShip] = useState<any>(null);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [carrier, setCarrier] = useState("");
+  const [returnToReject, setReturnToReject] = useState<any>(null);
+  const [rejectionNote, setRejectionNote] = useState("");
+  const [addVariantMatrix, setAddVariantMatrix] = useState<VariantMatrix>(EMPTY_VARIANT_MATRIX);
+  const [editVariantMatrix, setEditVariantMatrix] = useState<VariantMatrix | null>(null);
+  // Images picked in the add dialog, uploaded once the product is created
+  const [addImageFiles, setAddImageFiles] = useState<File[]>([]);
+  const [addAttributeValues, setAddAttributeValues] = useState<AttributeValues>({});
+  const [editAttributeValues, setEditAttributeValues] = useState<AttributeValues | null>(null);
 
   // Get seller information
   const { data: seller } = useQuery({
@@ -67,32 +93,76 @@ export function SellerDashboard() {
       const res = await fetch(`/api/sellers?userId=${user?.id}`);
       if (!res.ok) throw new Error("Failed to fetch seller information");
       const data = await res.json();
-      return data[0]; // Assuming the API returns an array of sellers
+      return data.items[0]; // A one-item page with the seller's own profile
     },
     enabled: !!user && user.role === "seller",
   });
 
   // Fetch seller products
-  const { data: products, isLoading: isLoadingProducts } = useQuery({
-    queryKey: ["/api/products", seller?.id],
-    queryFn: async () => {
-      const res = await fetch(`/api/products?sellerId=${seller?.id}`);
-      if (!res.ok) throw new Error("Failed to fetch products");
-      return res.json();
-    },
-    enabled: !!seller?.id,
+  const {
+    items: products,
+    total: productCount,
+    isLoading: isLoadingProducts,
+    hasNextPage: hasMoreProducts,
+    fetchNextPage: fetchMoreProducts,
+    isFetchingNextPage: isFetchingMoreProducts,
+  } = usePaginatedQuery<any>(
+    "/api/products",
+    { filter: { seller_id: seller?.id } },
+    { enabled: !!seller?.id },
+  );
+
+  // Only the count of products waiting for approval
+  const { total: pendingProductCount } = usePaginatedQuery<any>(
+    "/api/products",
+    { limit: 1, filter: { seller_id: seller?.id, status: "pending" } },
+    { enabled: !!seller?.id },
+  );
+
+  // Fetch seller orders, newest first
+  const {
+    items: orders,
+    total: totalOrders,
+    isLoading: isLoadingOrders,
+    hasNextPage: hasMoreOrders,
+    fetchNextPage: fetchMoreOrders,
+    isFetchingNextPage: isFetchingMoreOrders,
+  } = usePaginatedQuery<any>("/api/orders", {}, { enabled: !!user });
+
+  // Fetch return requests for this seller's products
+  const { data: returns, isLoading: isLoadingReturns } = useQuery<any[]>({
+    queryKey: ["/api/returns"],
+    enabled: !!seller,
+  });
+
+  // Moderation decisions on this seller's products, newest first
+  const { data: statusHistory, isLoading: isLoadingStatusHistory } = useQuery<any[]>({
+    queryKey: ["/api/product-status-history"],
+    enabled: !!seller,
   });
 
-  // Fetch seller orders
-  const { data: orders, isLoading: isLoadingOrders } = useQuery({
-    queryKey: ["/api/orders"],
-    enabled: !!user,
+  // The product being edited with its variants and images, which the list leaves out
+  const { data: productToEditDetails } = useQuery<any>({
+    queryKey: [`/api/products/${productToEdit?.id}`],
+    enabled: !!productToEdit && isEditProductOpen,
   });
 
-  // Fetch categories for product form
-  const { data: categories } = useQuery({
+  // Fetch categories for product form, labelled with their full path
+  // ("Electronics › Phones") since names repeat across branches
+  const { data: categories } = useQuery<CategoryWithPath[]>({
     queryKey: ["/api/categories"],
   });
+  const categoryOptions = (categories ?? [])
+    .map((category) => ({ ...category, label: formatCategoryPath(categories ?? [], category) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  // Every category attribute; the product form shows those of the picked
+  // categories and their ancestors
+  const { data: attributes } = useQuery<CategoryAttribute[]>({
+    queryKey: ["/api/attributes"],
+  });
+  const getAttributesFor = (categoryIds: number[] | undefined) =>
+    getApplicableAttributes(categories ?? [], attributes ?? [], categoryIds ?? []);
 
   // Add Product Form Schema
   const productSchema = z.object({
@@ -100,7 +170,6 @@ export function SellerDashboard() {
     description: z.string().min(10, "Description must be at least 10 characters"),
     price: z.coerce.number().min(0.01, "Price must be greater than 0"),
     stock: z.coerce.number().int().min(0, "Stock cannot be negative"),
-    image_url: z.string().optional(),
     category_ids: z.array(z.coerce.number()).optional(),
   });
 
@@ -113,21 +182,40 @@ export function SellerDashboard() {
         description: data.description,
         price: Number(data.price),
         stock: Number(data.stock),
-        image_url: data.image_url || undefined,
         categories: data.category_ids || [], // Using 'categories' as the server expects
       };
       
-      return await apiRequest("POST", "/api/products", productData);
+      const res = await apiRequest("POST", "/api/products", productData);
+      const product = await res.json();
+      if (addVariantMatrix.variant_options.length > 0) {
+        await apiRequest("PUT", `/api/products/${product.id}/variants`, addVariantMatrix);
+      }
+      if (addImageFiles.length > 0) {
+        await uploadProductImages(product.id, addImageFiles);
+      }
+      const productAttributes = getAttributesFor(data.category_ids);
+      if (productAttributes.length > 0) {
+        await apiRequest("PUT", `/api/products/${product.id}/attributes`, {
+          values: pickAttributeValues(productAttributes, addAttributeValues),
+        });
+      }
+      return product;
     },
-    onSuccess: () => {
+    onSuccess: (product: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/product-status-history"] });
       setIsAddProductOpen(false);
       toast({
         title: "Product created",
-        description: "Your product has been created successfully and is pending approval.",
+        description: product.status === "active"
+          ? "Your product is live."
+          : "Your product has been created successfully and is pending approval.",
       });
       // Clear the form
       addProductForm.reset();
+      setAddVariantMatrix(EMPTY_VARIANT_MATRIX);
+      setAddImageFiles([]);
+      setAddAttributeValues({});
     },
     onError: (error: Error) => {
       console.error("Error creating product:", error);
@@ -142,13 +230,25 @@ export function SellerDashboard() {
   // Update product mutation
   const updateProductMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: any }) => {
-      return await apiRequest("PUT", `/api/products/${id}`, {
+      const res = await apiRequest("PUT", `/api/products/${id}`, {
         ...data,
         categories: data.category_ids,
       });
+      if (editVariantMatrix) {
+        await apiRequest("PUT", `/api/products/${id}/variants`, editVariantMatrix);
+      }
+      // Sent after the categories are saved, since they decide which attributes apply
+      if (editAttributeValues) {
+        await apiRequest("PUT", `/api/products/${id}/attributes`, {
+          values: pickAttributeValues(getAttributesFor(data.category_ids), editAttributeValues),
+        });
+      }
+      return res;
     },
-    onSuccess: () => {
+    onSuccess: (_res, { id }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/products/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/product-status-history"] });
       setIsEditProductOpen(false);
       toast({
         title: "Product updated",
@@ -187,6 +287,52 @@ export function SellerDashboard() {
     },
   });
 
+  // Update this seller's shipment for an order
+  const updateShipmentMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Record<string, unknown> }) => {
+      return await apiRequest("PUT", `/api/shipments/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setShipmentToShip(null);
+      toast({
+        title: "Shipment updated",
+        description: "The customer can now see the new shipment status.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating shipment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Approve, reject, receive or refund a return request
+  const returnActionMutation = useMutation({
+    mutationFn: async ({ id, action, data }: { id: number; action: string; data?: Record<string, unknown> }) => {
+      return await apiRequest("POST", `/api/returns/${id}/${action}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/returns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setReturnToReject(null);
+      toast({
+        title: "Return updated",
+        description: "The return request has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating return",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Form for adding products
   const addProductForm = useForm<z.infer<typeof productSchema>>({
     resolver: zodResolver(productSchema),
@@ -195,7 +341,6 @@ export function SellerDashboard() {
       description: "",
       price: 0,
       stock: 0,
-      image_url: "",
       category_ids: [],
     },
   });
@@ -208,7 +353,6 @@ export function SellerDashboard() {
       description: "",
       price: 0,
       stock: 0,
-      image_url: "",
       category_ids: [],
     },
   });
@@ -221,23 +365,66 @@ export function SellerDashboard() {
         description: productToEdit.description,
         price: productToEdit.price,
         stock: productToEdit.stock,
-        image_url: productToEdit.image_url || "",
         category_ids: productToEdit.categories?.map((c: any) => c.id) || [],
       });
     }
   }, [productToEdit, isEditProductOpen, editProductForm]);
 
+  // Load the edited product's variants into the matrix editor, once: image
+  // changes refetch the product and mustn't undo unsaved variant edits
+  useEffect(() => {
+    if (productToEditDetails && isEditProductOpen) {
+      setEditVariantMatrix((current) => current ?? {
+        variant_options: productToEditDetails.variant_options ?? [],
+        variants: (productToEditDetails.variants ?? []).map((variant: any) => ({
+          sku: variant.sku,
+          options: variant.options,
+          price: variant.price,
+          stock: variant.stock,
+          image_url: variant.image_url,
+        })),
+      });
+    }
+  }, [productToEditDetails, isEditProductOpen]);
+
+  // ...and its attribute values, also once
+  useEffect(() => {
+    if (productToEditDetails && isEditProductOpen) {
+      setEditAttributeValues((current) => current ?? Object.fromEntries(
+        (productToEditDetails.attributes ?? []).map((attribute: ProductAttribute) => [attribute.id, attribute.value])
+      ));
+    }
+  }, [productToEditDetails, isEditProductOpen]);
+
+  // The matrix is checked here so a mistake doesn't leave a product saved
+  // without its variants
+  const isValidVariantMatrix = (matrix: VariantMatrix) => {
+    const result = variantMatrixSchema.safeParse(matrix);
+    if (!result.success) {
+      toast({
+        title: "Check the variants",
+        description: result.error.errors[0].message,
+        variant: "destructive",
+      });
+    }
+    return result.success;
+  };
+
   const onAddSubmit = (data: z.infer<typeof productSchema>) => {
-    addProductMutation.mutate(data);
+    if (isValidVariantMatrix(addVariantMatrix)) {
+      addProductMutation.mutate(data);
+    }
   };
 
   const onEditSubmit = (data: z.infer<typeof productSchema>) => {
-    if (productToEdit) {
+    if (productToEdit && (!editVariantMatrix || isValidVariantMatrix(editVariantMatrix))) {
       updateProductMutation.mutate({ id: productToEdit.id, data });
     }
   };
 
   const handleEditProduct = (product: any) => {
+    setEditVariantMatrix(null);
+    setEditAttributeValues(null);
     setProductToEdit(product);
     setIsEditProductOpen(true);
   };
@@ -253,34 +440,32 @@ export function SellerDashboard() {
     }
   };
 
-  // Calculate stats
-  const totalSales = orders
-    ? orders.reduce((total: number, order: any) => {
-        const hasSellerProducts = order.items?.some(
-          (item: any) => item.product?.seller_id === seller?.id
-        );
-        return hasSellerProducts ? total + order.total_price : total;
-      }, 0)
-    : 0;
+  // Orders come back with only this seller's items and shipment, so totals
+  // and statuses here cover just the seller's part of each order
+  const getSellerItemsTotal = (order: any) =>
+    (order.items || []).reduce((total: number, item: any) => total + item.price * item.quantity, 0);
 
-  const totalOrders = orders
-    ? orders.filter((order: any) =>
-        order.items?.some(
-          (item: any) => item.product?.seller_id === seller?.id
-        )
-      ).length
-    : 0;
+  const getFulfillmentStatus = (order: any) =>
+    order.status === "pending_payment" || order.status === "cancelled"
+      ? order.status
+      : order.shipments?.[0]?.status ?? order.status;
 
-  const productCount = products?.length || 0;
+  // Calculate stats over the orders loaded so far; the server only sends
+  // orders with this seller's products in them
+  const totalSales = orders.reduce(
+    (total: number, order: any) => total + getSellerItemsTotal(order),
+    0
+  );
+
+  // Why a rejected product was rejected: the note on its latest rejection
+  const getRejectionNote = (productId: number) =>
+    statusHistory?.find((entry: any) => entry.product_id === productId && entry.to_status === "rejected")?.note;
 
-  // Filter orders for the current seller
-  const sellerOrders = orders
-    ? orders.filter((order: any) =>
-        order.items?.some(
-          (item: any) => item.product?.seller_id === seller?.id
-        )
-      )
-    : [];
+  const rejectedProductCount = products.filter((product: any) => product.status === "rejected").length;
+
+  const pendingReturns = returns
+    ? returns.filter((r: any) => r.status === "requested" || r.status === "approved").length
+    : 0;
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8">
@@ -297,208 +482,580 @@ export function SellerDashboard() {
           <h1 className="text-2xl font-bold tracking-tight">
             Seller Dashboard
           </h1>
+          {seller?.verified && (
+            <Badge variant="secondary" className="flex items-center">
+              <ShieldCheck className="mr-1 h-3 w-3" /> Verified
+            </Badge>
+          )}
         </div>
-        <Button onClick={() => setIsAddProductOpen(true)}>
+        <Button onClick={() => setIsAddProductOpen(true)} disabled={!seller}>
           <Plus className="mr-2 h-4 w-4" /> Add New Product
         </Button>
       </div>
 
-      <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
-            <CardTitle className="text-sm font-medium">Total Sales</CardTitle>
-            <ShoppingCart className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">${totalSales.toFixed(2)}</div>
-            <p className="text-xs text-muted-foreground">
-              +12.5% from last month
-            </p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
-            <CardTitle className="text-sm font-medium">Products</CardTitle>
-            <Package className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{productCount}</div>
-            <p className="text-xs text-muted-foreground">
-              {products && products.filter((p: any) => p.status === "pending").length} pending approval
-            </p>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
-            <CardTitle className="text-sm font-medium">Orders</CardTitle>
-            <ShoppingCart className="h-4 w-4 text-muted-foreground" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">{totalOrders}</div>
-            <p className="text-xs text-muted-foreground">
-              {sellerOrders.filter((o: any) => o.status === "processing").length} processing
-            </p>
-          </CardContent>
-        </Card>
-      </div>
+      <SellerOnboarding seller={seller} />
+
+      <Tabs defaultValue="overview" onValueChange={setActiveTab} value={activeTab}>
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="returns">
+            Returns
+            {pendingReturns > 0 && (
+              <Badge variant="secondary" className="ml-2">{pendingReturns}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="moderation">
+            Moderation
+            {rejectedProductCount > 0 && (
+              <Badge variant="destructive" className="ml-2">{rejectedProductCount}</Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="overview" className="space-y-4">
+          <div className="grid gap-4 grid-cols-1 md:grid-cols-3">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+                <CardTitle className="text-sm font-medium">Total Sales</CardTitle>
+                <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">${totalSales.toFixed(2)}</div>
+                <p className="text-xs text-muted-foreground">
+                  {hasMoreOrders
+                    ? `From your ${orders.length} most recent orders`
+                    : "+12.5% from last month"}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+                <CardTitle className="text-sm font-medium">Products</CardTitle>
+                <Package className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{productCount}</div>
+                <p className="text-xs text-muted-foreground">
+                  {pendingProductCount} pending approval
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2 space-y-0">
+                <CardTitle className="text-sm font-medium">Orders</CardTitle>
+                <ShoppingCart className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{totalOrders}</div>
+                <p className="text-xs text-muted-foreground">
+                  {orders.filter((o: any) => getFulfillmentStatus(o) === "processing").length} to ship
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
+            <Card className="col-span-4">
+              <CardHeader>
+                <CardTitle>Products</CardTitle>
+                <CardDescription>
+                  Manage your product inventory
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[400px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoadingProducts ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center">
+                            Loading products...
+                          </TableCell>
+                        </TableRow>
+                      ) : products.length > 0 ? (
+                        products.map((product: any) => (
+                          <TableRow key={product.id}>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center">
+                                <div className="w-10 h-10 mr-3">
+                                  <img
+                                    src={product.image_url || `https://source.unsplash.com/featured/40x40?${encodeURIComponent(product.name.split(' ')[0])}`}
+                                    alt={product.name}
+                                    className="rounded object-cover w-10 h-10"
+                                  />
+                                </div>
+                                {product.name}
+                              </div>
+                            </TableCell>
+                            <TableCell>${product.price.toFixed(2)}</TableCell>
+                            <TableCell>{product.stock}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={
+                                  product.status === "active"
+                                    ? "success"
+                                    : product.status === "pending"
+                                    ? "warning"
+                                    : "destructive"
+                                }
+                              >
+                                {formatProductStatus(product.status)}
+                              </Badge>
+                              {product.status === "rejected" && getRejectionNote(product.id) && (
+                                <p className="text-sm text-gray-500 mt-1 max-w-xs">
+                                  {getRejectionNote(product.id)}. Edit the product to send it back for review.
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleEditProduct(product)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleDeleteProduct(product.id)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center">
+                            No products found. Add your first product!
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {hasMoreProducts && (
+                  <div className="text-center mt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchMoreProducts()}
+                      disabled={isFetchingMoreProducts}
+                    >
+                      {isFetchingMoreProducts ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
-        <Card className="col-span-4">
-          <CardHeader>
-            <CardTitle>Products</CardTitle>
-            <CardDescription>
-              Manage your product inventory
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[400px]">
+            <Card className="col-span-3">
+              <CardHeader>
+                <CardTitle>Recent Orders</CardTitle>
+                <CardDescription>
+                  Your most recent orders
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScrollArea className="h-[400px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Order ID</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Ship To</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoadingOrders ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center">
+                            Loading orders...
+                          </TableCell>
+                        </TableRow>
+                      ) : orders.length > 0 ? (
+                        orders.map((order: any) => (
+                          <TableRow key={order.id}>
+                            <TableCell className="font-medium">
+                              {order.order_id}
+                            </TableCell>
+                            <TableCell>
+                              {new Date(order.order_date).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell>
+                              {order.shipping_address ? (
+                                <div className="text-sm">
+                                  <p>{order.shipping_full_name}</p>
+                                  <p className="text-gray-500">
+                                    {order.shipping_address}, {order.shipping_city},{" "}
+                                    {order.shipping_state} {order.shipping_zip_code}
+                                  </p>
+                                </div>
+                              ) : (
+                                <span className="text-gray-400">—</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={
+                                  getFulfillmentStatus(order) === "delivered"
+                                    ? "success"
+                                    : getFulfillmentStatus(order) === "shipped"
+                                    ? "default"
+                                    : "secondary"
+                                }
+                              >
+                                {getFulfillmentStatus(order)}
+                              </Badge>
+                              {order.shipments?.[0]?.tracking_number && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  {order.shipments[0].tracking_number}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>${getSellerItemsTotal(order).toFixed(2)}</TableCell>
+                            <TableCell>
+                              {order.status === "processing" && order.shipments?.[0]?.status === "processing" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setShipmentToShip(order.shipments[0]);
+                                    setTrackingNumber("");
+                                    setCarrier("");
+                                  }}
+                                >
+                                  Mark shipped
+                                </Button>
+                              )}
+                              {order.shipments?.[0]?.status === "shipped" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={updateShipmentMutation.isPending}
+                                  onClick={() => updateShipmentMutation.mutate({
+                                    id: order.shipments[0].id,
+                                    data: { status: "delivered" }
+                                  })}
+                                >
+                                  Mark delivered
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-center">
+                            No orders found.
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {hasMoreOrders && (
+                  <div className="text-center mt-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fetchMoreOrders()}
+                      disabled={isFetchingMoreOrders}
+                    >
+                      {isFetchingMoreOrders ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="returns" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Returns</CardTitle>
+              <CardDescription>
+                Review return requests for your products and refund them once the items arrive back
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>Return</TableHead>
                     <TableHead>Product</TableHead>
-                    <TableHead>Price</TableHead>
-                    <TableHead>Stock</TableHead>
+                    <TableHead>Qty</TableHead>
+                    <TableHead>Reason</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {isLoadingProducts ? (
+                  {isLoadingReturns ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center">
-                        Loading products...
+                      <TableCell colSpan={6} className="text-center">
+                        Loading returns...
                       </TableCell>
                     </TableRow>
-                  ) : products && products.length > 0 ? (
-                    products.map((product: any) => (
-                      <TableRow key={product.id}>
+                  ) : returns && returns.length > 0 ? (
+                    returns.map((returnRequest: any) => (
+                      <TableRow key={returnRequest.id}>
                         <TableCell className="font-medium">
-                          <div className="flex items-center">
-                            <div className="w-10 h-10 mr-3">
-                              <img
-                                src={product.image_url || `https://source.unsplash.com/featured/40x40?${encodeURIComponent(product.name.split(' ')[0])}`}
-                                alt={product.name}
-                                className="rounded object-cover w-10 h-10"
-                              />
-                            </div>
-                            {product.name}
-                          </div>
+                          <p>{returnRequest.return_id}</p>
+                          <p className="text-sm text-gray-500">{returnRequest.order_number}</p>
                         </TableCell>
-                        <TableCell>${product.price.toFixed(2)}</TableCell>
-                        <TableCell>{product.stock}</TableCell>
+                        <TableCell>{returnRequest.product?.name || "Product"}</TableCell>
+                        <TableCell>{returnRequest.quantity}</TableCell>
                         <TableCell>
-                          <Badge
-                            variant={
-                              product.status === "active"
-                                ? "success"
-                                : product.status === "pending"
-                                ? "warning"
-                                : "destructive"
-                            }
-                          >
-                            {product.status}
-                          </Badge>
+                          <p>{formatReturnReason(returnRequest.reason)}</p>
+                          {returnRequest.details && (
+                            <p className="text-sm text-gray-500">{returnRequest.details}</p>
+                          )}
+                          {returnRequest.photos?.filter(isWebUrl).map((url: string, index: number) => (
+                            <a
+                              key={url}
+                              href={url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-sm text-primary underline mr-2"
+                            >
+                              Photo {index + 1}
+                            </a>
+                          ))}
                         </TableCell>
                         <TableCell>
-                          <div className="flex space-x-2">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleEditProduct(product)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDeleteProduct(product.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                          <Badge variant="outline">{returnRequest.status}</Badge>
+                          {returnRequest.refund_amount != null && (
+                            <p className="text-sm text-gray-500">
+                              ${returnRequest.refund_amount.toFixed(2)} refunded
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-2">
+                            {returnRequest.status === "requested" && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  disabled={returnActionMutation.isPending}
+                                  onClick={() => returnActionMutation.mutate({ id: returnRequest.id, action: "approve" })}
+                                >
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    setReturnToReject(returnRequest);
+                                    setRejectionNote("");
+                                  }}
+                                >
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {returnRequest.status === "approved" && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  disabled={returnActionMutation.isPending}
+                                  onClick={() => returnActionMutation.mutate({
+                                    id: returnRequest.id,
+                                    action: "receive",
+                                    data: { restock: true }
+                                  })}
+                                >
+                                  Received &amp; restock
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={returnActionMutation.isPending}
+                                  onClick={() => returnActionMutation.mutate({
+                                    id: returnRequest.id,
+                                    action: "receive",
+                                    data: { restock: false }
+                                  })}
+                                >
+                                  Received, don't restock
+                                </Button>
+                              </>
+                            )}
+                            {returnRequest.status === "received" && (
+                              <Button
+                                size="sm"
+                                disabled={returnActionMutation.isPending}
+                                onClick={() => returnActionMutation.mutate({ id: returnRequest.id, action: "refund" })}
+                              >
+                                Refund ${returnRequest.refund_estimate?.toFixed(2)}
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-center">
-                        No products found. Add your first product!
+                      <TableCell colSpan={6} className="text-center">
+                        No return requests.
                       </TableCell>
                     </TableRow>
                   )}
                 </TableBody>
               </Table>
-            </ScrollArea>
-          </CardContent>
-        </Card>
-
-        <Card className="col-span-3">
-          <CardHeader>
-            <CardTitle>Recent Orders</CardTitle>
-            <CardDescription>
-              Your most recent orders
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[400px]">
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="moderation" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Moderation History</CardTitle>
+              <CardDescription>
+                Every status change on your products, and why it was made
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Order ID</TableHead>
                     <TableHead>Date</TableHead>
+                    <TableHead>Product</TableHead>
                     <TableHead>Status</TableHead>
-                    <TableHead>Amount</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Note</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {isLoadingOrders ? (
+                  {isLoadingStatusHistory ? (
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center">
-                        Loading orders...
+                      <TableCell colSpan={5} className="text-center">
+                        Loading moderation history...
                       </TableCell>
                     </TableRow>
-                  ) : sellerOrders.length > 0 ? (
-                    sellerOrders.slice(0, 5).map((order: any) => (
-                      <TableRow key={order.id}>
-                        <TableCell className="font-medium">
-                          {order.order_id}
-                        </TableCell>
+                  ) : statusHistory && statusHistory.length > 0 ? (
+                    statusHistory.map((entry: any) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{new Date(entry.changed_at).toLocaleString()}</TableCell>
+                        <TableCell className="font-medium">{entry.product?.name || "Deleted product"}</TableCell>
                         <TableCell>
-                          {new Date(order.order_date).toLocaleDateString()}
+                          {entry.from_status ? `${formatProductStatus(entry.from_status)} → ` : ""}
+                          {formatProductStatus(entry.to_status)}
                         </TableCell>
                         <TableCell>
-                          <Badge
-                            variant={
-                              order.status === "delivered"
-                                ? "success"
-                                : order.status === "shipped"
-                                ? "default"
-                                : "secondary"
-                            }
-                          >
-                            {order.status}
-                          </Badge>
+                          {entry.actor_role === "admin" ? "Admin" : entry.actor_role === "seller" ? "You" : "Automatic"}
                         </TableCell>
-                        <TableCell>${order.total_price.toFixed(2)}</TableCell>
+                        <TableCell className="text-sm text-gray-500">{entry.note}</TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={4} className="text-center">
-                        No orders found.
+                      <TableCell colSpan={5} className="text-center">
+                        No moderation history yet.
                       </TableCell>
                     </TableRow>
                   )}
                 </TableBody>
               </Table>
-            </ScrollArea>
-          </CardContent>
-        </Card>
-      </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Ship Order Dialog */}
+      <Dialog open={!!shipmentToShip} onOpenChange={(open) => !open && setShipmentToShip(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark as Shipped</DialogTitle>
+            <DialogDescription>
+              Add tracking details for shipment {shipmentToShip?.shipment_id}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Tracking number"
+            />
+            <Input
+              value={carrier}
+              onChange={(e) => setCarrier(e.target.value)}
+              placeholder="Carrier (e.g. UPS)"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShipmentToShip(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!trackingNumber.trim() || updateShipmentMutation.isPending}
+              onClick={() => updateShipmentMutation.mutate({
+                id: shipmentToShip.id,
+                data: {
+                  status: "shipped",
+                  tracking_number: trackingNumber,
+                  carrier: carrier.trim() || null
+                }
+              })}
+            >
+              Mark Shipped
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Return Dialog */}
+      <Dialog open={!!returnToReject} onOpenChange={(open) => !open && setReturnToReject(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Return</DialogTitle>
+            <DialogDescription>
+              Let the customer know why {returnToReject?.return_id} can't be accepted.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectionNote}
+            onChange={(e) => setRejectionNote(e.target.value)}
+            placeholder="Reason for rejecting this return"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturnToReject(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionNote.trim() || returnActionMutation.isPending}
+              onClick={() => returnActionMutation.mutate({
+                id: returnToReject.id,
+                action: "reject",
+                data: { note: rejectionNote }
+              })}
+            >
+              Reject Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       {/* Add Product Dialog */}
       <Dialog open={isAddProductOpen} onOpenChange={setIsAddProductOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Add New Product</DialogTitle>
             <DialogDescription>
@@ -573,28 +1130,66 @@ export function SellerDashboard() {
                           min="0"
                           step="1"
                           placeholder="0"
+                          disabled={addVariantMatrix.variant_options.length > 0}
                           {...field}
                         />
                       </FormControl>
+                      {addVariantMatrix.variant_options.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Set on each variant below</p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
-              <FormField
-                control={addProductForm.control}
-                name="image_url"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Image URL</FormLabel>
-                    <FormControl>
-                      <Input placeholder="https://example.com/image.jpg" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <div className="space-y-2">
+                <FormLabel>Images</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  The first image is the product's cover. You can add captions and reorder them after saving.
+                </p>
+                <Input
+                  type="file"
+                  multiple
+                  accept={IMAGE_FILE_ACCEPT}
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    e.target.value = "";
+                    const problem = checkImageFiles(files, addImageFiles.length);
+                    if (problem) {
+                      toast({ title: "Check the images", description: problem, variant: "destructive" });
+                    } else {
+                      setAddImageFiles([...addImageFiles, ...files]);
+                    }
+                  }}
+                />
+                {addImageFiles.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{file.name}</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setAddImageFiles(addImageFiles.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <FormLabel>Variants</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Add options like Size or Color to sell this product in several variants.
+                </p>
+                <VariantMatrixEditor
+                  key={isAddProductOpen ? "open" : "closed"}
+                  value={addVariantMatrix}
+                  onChange={setAddVariantMatrix}
+                  basePrice={addProductForm.watch("price")}
+                />
+              </div>
 
               <FormField
                 control={addProductForm.control}
@@ -604,7 +1199,7 @@ export function SellerDashboard() {
                     <FormLabel>Categories</FormLabel>
                     <FormControl>
                       <div className="grid grid-cols-2 gap-2">
-                        {categories?.map((category: any) => (
+                        {categoryOptions.map((category) => (
                           <div key={category.id} className="flex items-center">
                             <input
                               type="checkbox"
@@ -620,7 +1215,7 @@ export function SellerDashboard() {
                                 field.onChange(newValue);
                               }}
                             />
-                            <label htmlFor={`category-${category.id}`}>{category.category_name}</label>
+                            <label htmlFor={`category-${category.id}`}>{category.label}</label>
                           </div>
                         ))}
                       </div>
@@ -630,6 +1225,15 @@ export function SellerDashboard() {
                 )}
               />
 
+              <div className="space-y-2">
+                <FormLabel>Attributes</FormLabel>
+                <ProductAttributeFields
+                  attributes={getAttributesFor(addProductForm.watch("category_ids"))}
+                  values={addAttributeValues}
+                  onChange={setAddAttributeValues}
+                />
+              </div>
+
               <DialogFooter>
                 <Button
                   type="button"
@@ -652,7 +1256,7 @@ export function SellerDashboard() {
 
       {/* Edit Product Dialog */}
       <Dialog open={isEditProductOpen} onOpenChange={setIsEditProductOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Product</DialogTitle>
             <DialogDescription>
@@ -727,28 +1331,44 @@ export function SellerDashboard() {
                           min="0"
                           step="1"
                           placeholder="0"
+                          disabled={!!editVariantMatrix?.variant_options.length}
                           {...field}
                         />
                       </FormControl>
+                      {!!editVariantMatrix?.variant_options.length && (
+                        <p className="text-xs text-muted-foreground">Set on each variant below</p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
 
-              <FormField
-                control={editProductForm.control}
-                name="image_url"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Image URL</FormLabel>
-                    <FormControl>
-                      <Input placeholder="https://example.com/image.jpg" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
+              <div className="space-y-2">
+                <FormLabel>Images</FormLabel>
+                {productToEdit && productToEditDetails ? (
+                  <ProductImageManager productId={productToEdit.id} images={productToEditDetails.images ?? []} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Loading images...</p>
                 )}
-              />
+              </div>
+
+              <div className="space-y-2">
+                <FormLabel>Variants</FormLabel>
+                <p className="text-sm text-muted-foreground">
+                  Add options like Size or Color to sell this product in several variants.
+                </p>
+                {editVariantMatrix ? (
+                  <VariantMatrixEditor
+                    key={productToEdit?.id}
+                    value={editVariantMatrix}
+                    onChange={setEditVariantMatrix}
+                    basePrice={editProductForm.watch("price")}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Loading variants...</p>
+                )}
+              </div>
 
               <FormField
                 control={editProductForm.control}
@@ -758,7 +1378,7 @@ export function SellerDashboard() {
                     <FormLabel>Categories</FormLabel>
                     <FormControl>
                       <div className="grid grid-cols-2 gap-2">
-                        {categories?.map((category: any) => (
+                        {categoryOptions.map((category) => (
                           <div key={category.id} className="flex items-center">
                             <input
                               type="checkbox"
@@ -774,7 +1394,7 @@ export function SellerDashboard() {
                                 field.onChange(newValue);
                               }}
                             />
-                            <label htmlFor={`edit-category-${category.id}`}>{category.category_name}</label>
+                            <label htmlFor={`edit-category-${category.id}`}>{category.label}</label>
                           </div>
                         ))}
                       </div>
@@ -784,6 +1404,19 @@ export function SellerDashboard() {
                 )}
               />
 
+              <div className="space-y-2">
+                <FormLabel>Attributes</FormLabel>
+                {editAttributeValues ? (
+                  <ProductAttributeFields
+                    attributes={getAttributesFor(editProductForm.watch("category_ids"))}
+                    values={editAttributeValues}
+                    onChange={setEditAttributeValues}
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Loading attributes...</p>
+                )}
+              </div>
+
               <DialogFooter>
                 <Button
                   type="button"
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldCheck, Clock, XCircle } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { businessTypes, insertSellerApplicationSchema, SellerApplication } from "@shared/schema";
+import { canSubmitSellerApplication, formatBusinessType } from "@shared/seller-onboarding";
+
+const applicationSchema = insertSellerApplicationSchema.omit({
+  application_id: true,
+  user_id: true,
+});
+
+type ApplicationFormValues = z.infer<typeof applicationSchema>;
+
+// Shown on the seller dashboard until the seller is verified: the application
+// form, the pending application, or why the last one was rejected
+export function SellerOnboarding({ seller }: { seller?: any }) {
+  const { toast } = useToast();
+  const [isApplyOpen, setIsApplyOpen] = useState(false);
+
+  // The seller's applications, newest first
+  const { data: applications, isLoading } = useQuery<SellerApplication[]>({
+    queryKey: ["/api/seller-applications"],
+    enabled: !seller?.verified,
+  });
+
+  const latestApplication = applications?.[0];
+
+  const form = useForm<ApplicationFormValues>({
+    resolver: zodResolver(applicationSchema),
+    defaultValues: {
+      shop_name: "",
+      business_name: "",
+      business_type: "individual",
+      tax_id: "",
+      business_address: "",
+      business_phone: "",
+      description: "",
+    },
+  });
+
+  const submitApplicationMutation = useMutation({
+    mutationFn: async (data: ApplicationFormValues) => {
+      return await apiRequest("POST", "/api/seller-applications", {
+        ...data,
+        description: data.description?.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/seller-applications"] });
+      setIsApplyOpen(false);
+      toast({
+        title: "Application submitted",
+        description: "We'll review your application and let you know.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error submitting application",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reapplying starts from what was sent last time
+  const openApplication = () => {
+    form.reset({
+      shop_name: latestApplication?.shop_name ?? seller?.shop_name ?? "",
+      business_name: latestApplication?.business_name ?? "",
+      business_type: (latestApplication?.business_type as ApplicationFormValues["business_type"]) ?? "individual",
+      tax_id: latestApplication?.tax_id ?? "",
+      business_address: latestApplication?.business_address ?? "",
+      business_phone: latestApplication?.business_phone ?? "",
+      description: latestApplication?.description ?? "",
+    });
+    setIsApplyOpen(true);
+  };
+
+  if (seller?.verified || isLoading) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card>
+        {latestApplication?.status === "pending" ? (
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Clock className="mr-2 h-5 w-5 text-amber-500" />
+              Your application is being reviewed
+            </CardTitle>
+            <CardDescription>
+              Submitted {new Date(latestApplication.submitted_at).toLocaleDateString()} for {latestApplication.shop_name}.
+              Your products can go live once an admin verifies your shop.
+            </CardDescription>
+          </CardHeader>
+        ) : latestApplication?.status === "rejected" ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <XCircle className="mr-2 h-5 w-5 text-red-500" />
+                Your application was not approved
+              </CardTitle>
+              <CardDescription>
+                Reviewed {latestApplication.reviewed_at ? new Date(latestApplication.reviewed_at).toLocaleDateString() : ""}.
+                Fix what's described below and apply again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {latestApplication.review_note && (
+                <p className="rounded-md bg-muted p-3 text-sm">{latestApplication.review_note}</p>
+              )}
+              <Button onClick={openApplication}>Reapply</Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldCheck className="mr-2 h-5 w-5 text-primary" />
+                Verify your shop
+              </CardTitle>
+              <CardDescription>
+                Tell us about your business. Your products can go live once an admin approves your application.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button onClick={openApplication}>Apply to sell</Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+
+      <Dialog open={isApplyOpen} onOpenChange={setIsApplyOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Seller Application</DialogTitle>
+            <DialogDescription>
+              Your shop and business details, for an admin to verify.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => submitApplicationMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="shop_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shop Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Shop name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="business_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Legal Business Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Business or your full name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="business_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Business Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a type" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {businessTypes.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {formatBusinessType(type)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="tax_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax ID</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Tax or VAT number" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="business_address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Business Address</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Street, city, postal code, country" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="business_phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Business Phone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Phone number" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>What will you sell? (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="A few words about your products" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsApplyOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={submitApplicationMutation.isPending || !canSubmitSellerApplication(applications ?? [])}
+                >
+                  {submitApplicationMutation.isPending ? "Submitting..." : "Submit Application"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
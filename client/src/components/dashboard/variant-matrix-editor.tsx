@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { VariantOption } from "@shared/schema";
+import {
+  MAX_VARIANT_OPTIONS,
+  VariantInput,
+  VariantMatrix,
+  findVariant,
+  formatVariantLabel,
+  getVariantCombinations,
+} from "@shared/variants";
+
+export const EMPTY_VARIANT_MATRIX: VariantMatrix = { variant_options: [], variants: [] };
+
+// An option axis as the seller is typing it; values are comma separated
+type OptionDraft = { name: string; values: string };
+
+function parseOptions(drafts: OptionDraft[]): VariantOption[] {
+  return drafts
+    .map((draft) => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(",").map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((option) => option.name && option.values.length > 0);
+}
+
+// A combination's values in axis order, so renaming an axis keeps its rows
+function getValueKey(options: Record<string, string>, axes: VariantOption[]): string {
+  return JSON.stringify(axes.map((axis) => options[axis.name]));
+}
+
+type VariantMatrixEditorProps = {
+  value: VariantMatrix;
+  onChange: (value: VariantMatrix) => void;
+  basePrice?: number;
+};
+
+// Option axes (e.g. Size x Color) and one row per combination of their values
+// with its SKU, price override, stock and image. Unticked combinations aren't
+// sold. Mount it with a key so it picks up a different product's matrix.
+export function VariantMatrixEditor({ value, onChange, basePrice }: VariantMatrixEditorProps) {
+  const [drafts, setDrafts] = useState<OptionDraft[]>(() =>
+    value.variant_options.map((option) => ({ name: option.name, values: option.values.join(", ") }))
+  );
+
+  const options = value.variant_options;
+  const combinations = getVariantCombinations(options);
+
+  // Rebuilds the rows for new axes: rows keep their details, combinations
+  // with a new value start out offered and ones that were unticked stay so
+  const updateDrafts = (next: OptionDraft[]) => {
+    setDrafts(next);
+    const nextOptions = parseOptions(next);
+    const variants = getVariantCombinations(nextOptions).flatMap((combination): VariantInput[] => {
+      const key = getValueKey(combination, nextOptions);
+      const existing = value.variants.find((variant) => getValueKey(variant.options, options) === key);
+      if (existing) return [{ ...existing, options: combination }];
+
+      const existedBefore = nextOptions.length === options.length &&
+        nextOptions.every((axis, index) => options[index].values.includes(combination[axis.name]));
+      return existedBefore ? [] : [{ sku: "", options: combination, price: null, stock: 0, image_url: null }];
+    });
+    onChange({ variant_options: nextOptions, variants });
+  };
+
+  const updateDraft = (index: number, patch: Partial<OptionDraft>) => {
+    updateDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  // Keeps the rows in combination order
+  const setVariant = (combination: Record<string, string>, variant: VariantInput | undefined) => {
+    const variants = combinations.flatMap((candidate) => {
+      if (candidate === combination) return variant ? [variant] : [];
+      const existing = findVariant(value.variants, candidate);
+      return existing ? [existing] : [];
+    });
+    onChange({ ...value, variants });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {drafts.map((draft, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              className="w-1/3"
+              placeholder="Option, e.g. Size"
+              value={draft.name}
+              onChange={(e) => updateDraft(index, { name: e.target.value })}
+            />
+            <Input
+              placeholder="Values, e.g. S, M, L"
+              value={draft.values}
+              onChange={(e) => updateDraft(index, { values: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => updateDrafts(drafts.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={drafts.length >= MAX_VARIANT_OPTIONS}
+          onClick={() => updateDrafts([...drafts, { name: "", values: "" }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Option
+        </Button>
+      </div>
+
+      {combinations.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]"></TableHead>
+                <TableHead>Variant</TableHead>
+                <TableHead>SKU</TableHead>
+                <TableHead>Price ($)</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Image URL</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {combinations.map((combination) => {
+                const variant = findVariant(value.variants, combination);
+                const update = (patch: Partial<VariantInput>) =>
+                  variant && setVariant(combination, { ...variant, ...patch });
+                return (
+                  <TableRow key={getValueKey(combination, options)}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        aria-label="Offer this variant"
+                        checked={!!variant}
+                        onChange={(e) =>
+                          setVariant(
+                            combination,
+                            e.target.checked
+                              ? { sku: "", options: combination, price: null, stock: 0, image_url: null }
+                              : undefined
+                          )
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {formatVariantLabel(combination, options)}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-28"
+                        placeholder="SKU"
+                        disabled={!variant}
+                        value={variant?.sku ?? ""}
+                        onChange={(e) => update({ sku: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-24"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        placeholder={basePrice ? String(basePrice) : "0.00"}
+                        disabled={!variant}
+                        value={variant?.price ?? ""}
+                        onChange={(e) => update({ price: e.target.value === "" ? null : Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-20"
+                        type="number"
+                        min="0"
+                        step="1"
+                        disabled={!variant}
+                        value={variant?.stock ?? 0}
+                        onChange={(e) => update({ stock: Number(e.target.value) })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-40"
+                        placeholder="Uses the product image"
+                        disabled={!variant}
+                        value={variant?.image_url ?? ""}
+                        onChange={(e) => update({ image_url: e.target.value || null })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,10 @@
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
-
-type Category = {
-  id: number;
-  category_id: string;
-  category_name: string;
-};
+import { getCategoryUrl, getChildCategories, type CategoryWithPath } from "@shared/categories";
 
 export default function CategoryNav() {
-  const { data: categories, isLoading } = useQuery<Category[]>({
+  const { data: categories, isLoading } = useQuery<CategoryWithPath[]>({
     queryKey: ["/api/categories"],
   });
 
@@ -31,10 +26,10 @@ export default function CategoryNav() {
     <div className="bg-white border-b">
       <div className="container mx-auto px-4">
         <div className="flex items-center py-3 overflow-x-auto scrollbar-hide">
-          {categories?.map((category) => (
+          {getChildCategories(categories ?? [], null).map((category) => (
             <Link
               key={category.id}
-              href={`/categories/${category.id}`}
+              href={getCategoryUrl(category)}
               className="whitespace-nowrap px-4 py-2 mr-2 text-sm font-medium text-gray-700 hover:text-primary hover:bg-gray-100 rounded-md"
             >
               {category.category_name}
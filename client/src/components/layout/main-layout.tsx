@@ -1,5 +1,6 @@
 import { ReactNode } from "react";
 import Navigation from "./navigation";
+import VerifyEmailBanner from "./verify-email-banner";
 
 type MainLayoutProps = {
   children: ReactNode;
@@ -9,6 +10,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
   return (
     <div className="flex flex-col min-h-screen bg-gray-50">
       <Navigation />
+      <VerifyEmailBanner />
       <main className="flex-grow">
         {children}
       </main>
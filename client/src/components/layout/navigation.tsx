@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { getCategoryUrl, getChildCategories, type CategoryWithPath } from "@shared/categories";
 import { Search, ShoppingCart, User, Menu, X } from "lucide-react";
 import {
   DropdownMenu,
@@ -27,10 +28,11 @@ export default function Navigation() {
   const [searchQuery, setSearchQuery] = useState("");
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-  // Fetch categories for the navigation
-  const { data: categories } = useQuery({
+  // Fetch categories for the navigation, which links the top-level ones
+  const { data: categories } = useQuery<CategoryWithPath[]>({
     queryKey: ["/api/categories"],
   });
+  const topCategories = getChildCategories(categories ?? [], null);
 
   // Fetch cart items count
   const { data: cart } = useQuery({
@@ -119,6 +121,9 @@ export default function Navigation() {
                         <DropdownMenuItem asChild>
                           <Link href="/orders">My Orders</Link>
                         </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/wishlist">Wishlist</Link>
+                        </DropdownMenuItem>
                         <DropdownMenuItem asChild>
                           <Link href="/profile">Profile</Link>
                         </DropdownMenuItem>
@@ -129,6 +134,9 @@ export default function Navigation() {
                         <Link href="/dashboard">Dashboard</Link>
                       </DropdownMenuItem>
                     )}
+                    <DropdownMenuItem asChild>
+                      <Link href="/account/security">Security</Link>
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={handleLogout}>
                       Logout
@@ -221,6 +229,13 @@ export default function Navigation() {
                                 </Button>
                               </SheetClose>
                             </Link>
+                            <Link href="/wishlist">
+                              <SheetClose asChild>
+                                <Button variant="ghost" className="w-full justify-start">
+                                  Wishlist
+                                </Button>
+                              </SheetClose>
+                            </Link>
                             <Link href="/profile">
                               <SheetClose asChild>
                                 <Button variant="ghost" className="w-full justify-start">
@@ -231,6 +246,14 @@ export default function Navigation() {
                           </>
                         )}
                         
+                        <Link href="/account/security">
+                          <SheetClose asChild>
+                            <Button variant="ghost" className="w-full justify-start">
+                              Security
+                            </Button>
+                          </SheetClose>
+                        </Link>
+                        
                         <SheetClose asChild>
                           <Button 
                             variant="ghost" 
@@ -251,10 +274,10 @@ export default function Navigation() {
                     
                     <div className="border-t pt-4 mt-4">
                       <h3 className="font-medium mb-2">Categories</h3>
-                      {categories?.map((category: any) => (
+                      {topCategories.map((category) => (
                         <Link
                           key={category.id}
-                          href={`/categories/${category.id}`}
+                          href={getCategoryUrl(category)}
                         >
                           <SheetClose asChild>
                             <Button variant="ghost" className="w-full justify-start text-sm">
@@ -276,10 +299,10 @@ export default function Navigation() {
       <div className="bg-white border-b">
         <div className="container mx-auto px-4">
           <div className="flex items-center py-3 overflow-x-auto scrollbar-hide">
-            {categories?.map((category: any) => (
+            {topCategories.map((category) => (
               <Link
                 key={category.id}
-                href={`/categories/${category.id}`}
+                href={getCategoryUrl(category)}
                 className="whitespace-nowrap px-4 py-2 mr-2 text-sm font-medium text-gray-700 hover:text-primary hover:bg-gray-100 rounded-md"
               >
                 {category.category_name}
@@ -0,0 +1,51 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Reminds a signed-in user who hasn't followed their verification link yet,
+// and sends them a new one
+export default function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/verify-email/resend", { email: user!.email }),
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user!.email} for a new link.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user || user.email_verified_at) return null;
+
+  return (
+    <div className="border-b border-amber-200 bg-amber-50">
+      <div className="container mx-auto flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm text-amber-900">
+        <span className="flex items-center gap-2">
+          <MailWarning className="h-4 w-4" />
+          Please confirm your email address using the link we sent to {user.email}.
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={resendMutation.isPending || resendMutation.isSuccess}
+          onClick={() => resendMutation.mutate()}
+        >
+          {resendMutation.isSuccess ? "Sent" : resendMutation.isPending ? "Sending..." : "Resend Link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import type { CategoryAttribute } from "@shared/schema";
+import type { AttributeFilter } from "@shared/attributes";
+
+type FilterProps = {
+  attribute: CategoryAttribute;
+  filter: AttributeFilter | undefined;
+  onChange: (filter: AttributeFilter | undefined) => void;
+};
+
+function EnumFilter({ attribute, filter, onChange }: FilterProps) {
+  const selected = filter?.type === "enum" ? filter.values : [];
+  const toggle = (option: string, checked: boolean) => {
+    const values = checked ? [...selected, option] : selected.filter((value) => value !== option);
+    onChange(values.length > 0 ? { attribute_id: attribute.id, type: "enum", values } : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      {attribute.options.map((option) => (
+        <div key={option} className="flex items-center">
+          <Checkbox
+            id={`attribute-${attribute.id}-${option}`}
+            checked={selected.includes(option)}
+            onCheckedChange={(checked) => toggle(option, checked === true)}
+            className="mr-2"
+          />
+          <label htmlFor={`attribute-${attribute.id}-${option}`} className="text-sm cursor-pointer">
+            {option}
+          </label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Applied when a box loses focus or Enter is pressed, not on every keystroke
+function NumberFilter({ attribute, filter, onChange }: FilterProps) {
+  const range = filter?.type === "number" ? filter : undefined;
+  const [min, setMin] = useState(range?.min?.toString() ?? "");
+  const [max, setMax] = useState(range?.max?.toString() ?? "");
+
+  useEffect(() => {
+    setMin(range?.min?.toString() ?? "");
+    setMax(range?.max?.toString() ?? "");
+  }, [range?.min, range?.max]);
+
+  const apply = () => {
+    const bounds = [min, max].map((bound) => (bound.trim() === "" ? undefined : Number(bound)));
+    if (bounds.some((bound) => bound !== undefined && !Number.isFinite(bound))) return;
+    const [minValue, maxValue] = bounds;
+    onChange(
+      minValue === undefined && maxValue === undefined
+        ? undefined
+        : { attribute_id: attribute.id, type: "number", min: minValue, max: maxValue }
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        placeholder="Min"
+        value={min}
+        onChange={(e) => setMin(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => e.key === "Enter" && apply()}
+      />
+      <span className="text-sm text-gray-500">to</span>
+      <Input
+        type="number"
+        placeholder="Max"
+        value={max}
+        onChange={(e) => setMax(e.target.value)}
+        onBlur={apply}
+        onKeyDown={(e) => e.key === "Enter" && apply()}
+      />
+      {attribute.unit && <span className="text-sm text-gray-500">{attribute.unit}</span>}
+    </div>
+  );
+}
+
+function BooleanFilter({ attribute, filter, onChange }: FilterProps) {
+  return (
+    <div className="flex items-center">
+      <Checkbox
+        id={`attribute-${attribute.id}`}
+        checked={filter?.type === "boolean" && filter.value}
+        onCheckedChange={(checked) =>
+          onChange(checked === true ? { attribute_id: attribute.id, type: "boolean", value: true } : undefined)
+        }
+        className="mr-2"
+      />
+      <label htmlFor={`attribute-${attribute.id}`} className="text-sm cursor-pointer">
+        Yes
+      </label>
+    </div>
+  );
+}
+
+type AttributeFiltersProps = {
+  attributes: CategoryAttribute[];
+  filters: AttributeFilter[];
+  onChange: (filters: AttributeFilter[]) => void;
+};
+
+// A section of the category sidebar per attribute: option checkboxes for an
+// enum, a min/max range for a number, a "Yes" box for a boolean. Render it
+// inside an Accordion.
+export default function AttributeFilters({ attributes, filters, onChange }: AttributeFiltersProps) {
+  const setFilter = (attributeId: number, filter: AttributeFilter | undefined) => {
+    const others = filters.filter((f) => f.attribute_id !== attributeId);
+    onChange(filter ? [...others, filter] : others);
+  };
+
+  return (
+    <>
+      {attributes.map((attribute) => {
+        const props: FilterProps = {
+          attribute,
+          filter: filters.find((f) => f.attribute_id === attribute.id),
+          onChange: (filter) => setFilter(attribute.id, filter),
+        };
+        return (
+          <AccordionItem key={attribute.id} value={`attribute-${attribute.id}`}>
+            <AccordionTrigger className="text-lg font-semibold">
+              {attribute.name}
+            </AccordionTrigger>
+            <AccordionContent>
+              {attribute.type === "enum" && <EnumFilter {...props} />}
+              {attribute.type === "number" && <NumberFilter {...props} />}
+              {attribute.type === "boolean" && <BooleanFilter {...props} />}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+import { Fragment } from "react";
+import { Link } from "wouter";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getCategoryUrl, type CategoryWithPath } from "@shared/categories";
+
+type CategoryBreadcrumbsProps = {
+  // Linked categories, top level first
+  categories: CategoryWithPath[];
+  // The page itself, shown unlinked at the end
+  current: string;
+};
+
+// Home › Electronics › Phones › current page
+export default function CategoryBreadcrumbs({ categories, current }: CategoryBreadcrumbsProps) {
+  return (
+    <Breadcrumb className="mb-4">
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild>
+            <Link href="/">Home</Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        {categories.map((category) => (
+          <Fragment key={category.id}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link href={getCategoryUrl(category)}>{category.category_name}</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+        <BreadcrumbSeparator />
+        <BreadcrumbItem>
+          <BreadcrumbPage>{current}</BreadcrumbPage>
+        </BreadcrumbItem>
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
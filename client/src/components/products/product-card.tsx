@@ -1,12 +1,13 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Star, ShoppingCart } from "lucide-react";
+import { Star, ShoppingCart, Heart } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
 import { useMutation } from "@tanstack/react-query";
 import ProductDetailModal from "./product-detail-modal";
 
@@ -21,6 +22,9 @@ type Product = {
   status: string;
   seller_id: number;
   categories: any[];
+  variant_options?: { name: string; values: string[] }[];
+  rating?: number | null;
+  review_count?: number;
   seller?: {
     shop_name: string;
   };
@@ -35,6 +39,7 @@ export default function ProductCard({ product, showDetailButton = true }: Produc
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { isInWishlist, toggleWishlist, isToggling } = useWishlist();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   // Mock image URLs for products without images
@@ -73,9 +78,24 @@ export default function ProductCard({ product, showDetailButton = true }: Produc
   const handleAddToCart = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    // Products with variants need their options picked first
+    if (product.variant_options?.length) {
+      if (showDetailButton) {
+        setIsModalOpen(true);
+      } else {
+        navigate(`/products/${product.id}`);
+      }
+      return;
+    }
     addToCartMutation.mutate();
   };
 
+  const handleToggleWishlist = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    toggleWishlist(product.id);
+  };
+
   const handleCardClick = (e: React.MouseEvent) => {
     if ((e.target as HTMLElement).closest("button")) {
       return; // Don't open modal if button was clicked
@@ -100,6 +120,18 @@ export default function ProductCard({ product, showDetailButton = true }: Produc
             alt={product.name}
             className="w-full h-48 object-cover"
           />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="absolute top-2 left-2 rounded-full bg-white/80 hover:bg-white"
+            onClick={handleToggleWishlist}
+            disabled={isToggling}
+            aria-label={isInWishlist(product.id) ? "Remove from wishlist" : "Add to wishlist"}
+          >
+            <Heart
+              className={`h-4 w-4 ${isInWishlist(product.id) ? "fill-red-500 text-red-500" : "text-gray-600"}`}
+            />
+          </Button>
           {product.stock < 10 && product.stock > 0 && (
             <div className="absolute top-2 right-2">
               <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 hover:bg-yellow-200">
@@ -121,14 +153,25 @@ export default function ProductCard({ product, showDetailButton = true }: Produc
           </p>
 
           <div className="flex items-center mb-2">
-            <div className="flex text-amber-400">
-              <Star className="h-4 w-4 fill-current" />
-              <Star className="h-4 w-4 fill-current" />
-              <Star className="h-4 w-4 fill-current" />
-              <Star className="h-4 w-4 fill-current" />
-              <Star className="h-4 w-4 fill-current stroke-current" />
-            </div>
-            <span className="text-gray-600 text-sm ml-1">4.5 (128)</span>
+            {product.rating != null && product.review_count ? (
+              <>
+                <div className="flex text-amber-400">
+                  {[...Array(5)].map((_, i) => (
+                    <Star
+                      key={i}
+                      className={`h-4 w-4 ${
+                        i < Math.round(product.rating!) ? "fill-current" : "text-gray-300"
+                      }`}
+                    />
+                  ))}
+                </div>
+                <span className="text-gray-600 text-sm ml-1">
+                  {product.rating.toFixed(1)} ({product.review_count})
+                </span>
+              </>
+            ) : (
+              <span className="text-gray-500 text-sm">No reviews yet</span>
+            )}
           </div>
 
           <div className="flex items-center justify-between">
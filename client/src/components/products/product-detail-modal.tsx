@@ -2,10 +2,11 @@ import { useState } from "react";
 import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
-import { Star, X, Truck, Package, Shield } from "lucide-react";
+import { Star, X, Truck, Package, Shield, Heart } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -15,6 +16,9 @@ import {
   DialogTitle,
   DialogClose,
 } from "@/components/ui/dialog";
+import VariantPicker from "./variant-picker";
+import type { ProductVariant } from "@shared/schema";
+import { findVariant, getVariantPrice } from "@shared/variants";
 
 type ProductDetailModalProps = {
   productId: number;
@@ -29,14 +33,23 @@ export default function ProductDetailModal({
 }: ProductDetailModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { isInWishlist, toggleWishlist, isToggling } = useWishlist();
   const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState<Record<string, string>>({});
 
   // Fetch product details
-  const { data: product, isLoading } = useQuery({
+  const { data: product, isLoading } = useQuery<any>({
     queryKey: [`/api/products/${productId}`],
     enabled: isOpen,
   });
 
+  // Price, stock and image follow the variant the picked options match
+  const variantOptions = product?.variant_options ?? [];
+  const selectedVariant = findVariant<ProductVariant>(product?.variants ?? [], selection);
+  const needsVariant = variantOptions.length > 0 && !selectedVariant;
+  const price = product ? getVariantPrice(product, selectedVariant) : undefined;
+  const stock = selectedVariant?.stock ?? product?.stock;
+
   // Add to cart mutation
   const addToCartMutation = useMutation({
     mutationFn: async () => {
@@ -45,6 +58,7 @@ export default function ProductDetailModal({
       }
       return apiRequest("POST", "/api/cart/items", {
         product_id: productId,
+        variant_id: selectedVariant?.id,
         quantity: quantity
       });
     },
@@ -70,11 +84,16 @@ export default function ProductDetailModal({
   };
 
   const incrementQuantity = () => {
-    if (product && quantity < product.stock) {
+    if (product && quantity < stock) {
       setQuantity(quantity + 1);
     }
   };
 
+  const handleSelectionChange = (next: Record<string, string>) => {
+    setSelection(next);
+    setQuantity(1);
+  };
+
   const decrementQuantity = () => {
     if (quantity > 1) {
       setQuantity(quantity - 1);
@@ -106,7 +125,7 @@ export default function ProductDetailModal({
               <div className="flex flex-col md:flex-row">
                 <div className="md:w-1/2 mb-6 md:mb-0">
                   <img
-                    src={product?.image_url || fallbackImageUrl}
+                    src={selectedVariant?.image_url || product?.image_url || fallbackImageUrl}
                     alt={product?.name}
                     className="w-full h-auto rounded-lg"
                   />
@@ -115,27 +134,30 @@ export default function ProductDetailModal({
                 <div className="md:w-1/2 md:pl-8">
                   <div className="flex items-center mb-4">
                     <div className="flex text-amber-400">
-                      <Star className="h-4 w-4 fill-current" />
-                      <Star className="h-4 w-4 fill-current" />
-                      <Star className="h-4 w-4 fill-current" />
-                      <Star className="h-4 w-4 fill-current" />
-                      <Star className="h-4 w-4 fill-current stroke-current" />
+                      {[...Array(5)].map((_, i) => (
+                        <Star
+                          key={i}
+                          className={`h-4 w-4 ${
+                            i < Math.round(product?.rating ?? 0) ? "fill-current" : "text-gray-300"
+                          }`}
+                        />
+                      ))}
                     </div>
                     <span className="text-gray-600 ml-2">
-                      4.5 ({product?.reviews?.length || 0} reviews)
+                      {(product?.rating ?? 0).toFixed(1)} ({product?.review_count ?? 0} reviews)
                     </span>
                   </div>
 
                   <div className="mb-4">
                     <span className="text-2xl font-bold text-gray-800">
-                      ${product?.price.toFixed(2)}
+                      ${price?.toFixed(2)}
                     </span>
-                    {product?.stock < 10 && product?.stock > 0 && (
+                    {stock < 10 && stock > 0 && (
                       <Badge variant="outline" className="ml-2 text-yellow-700 border-yellow-300 bg-yellow-50">
-                        Only {product.stock} left
+                        Only {stock} left
                       </Badge>
                     )}
-                    {product?.stock === 0 && (
+                    {stock === 0 && (
                       <Badge variant="destructive" className="ml-2">
                         Out of Stock
                       </Badge>
@@ -144,6 +166,17 @@ export default function ProductDetailModal({
 
                   <p className="text-gray-600 mb-6">{product?.description}</p>
 
+                  {variantOptions.length > 0 && (
+                    <div className="mb-6">
+                      <VariantPicker
+                        options={variantOptions}
+                        variants={product.variants}
+                        selection={selection}
+                        onChange={handleSelectionChange}
+                      />
+                    </div>
+                  )}
+
                   <div className="mb-6">
                     <h3 className="font-semibold mb-2">Quantity:</h3>
                     <div className="flex items-center">
@@ -161,7 +194,7 @@ export default function ProductDetailModal({
                         variant="outline"
                         size="icon"
                         onClick={incrementQuantity}
-                        disabled={!product || quantity >= product.stock}
+                        disabled={!product || quantity >= stock}
                         className="h-9 w-9"
                       >
                         +
@@ -173,12 +206,20 @@ export default function ProductDetailModal({
                     <Button
                       className="w-full"
                       onClick={handleAddToCart}
-                      disabled={!product || product.stock === 0 || addToCartMutation.isPending}
+                      disabled={!product || needsVariant || stock === 0 || addToCartMutation.isPending}
                     >
-                      Add to Cart
+                      {needsVariant ? "Choose Options" : "Add to Cart"}
                     </Button>
-                    <Button variant="outline" className="w-full">
-                      Add to Wishlist
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => toggleWishlist(productId)}
+                      disabled={isToggling}
+                    >
+                      <Heart
+                        className={`mr-2 h-4 w-4 ${isInWishlist(productId) ? "fill-red-500 text-red-500" : ""}`}
+                      />
+                      {isInWishlist(productId) ? "In Wishlist" : "Add to Wishlist"}
                     </Button>
                   </div>
 
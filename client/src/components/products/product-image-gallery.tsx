@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { cn } from "@/lib/utils";
+import type { ProductImage } from "@shared/schema";
+import { getProductImageUrl } from "@shared/product-images";
+
+type Slide = { key: string; src: string; thumbnail: string; alt: string };
+
+type ProductImageGalleryProps = {
+  images: ProductImage[];
+  productName: string;
+  // Shown first while the picked variant has an image of its own
+  variantImageUrl?: string | null;
+  // Used when the product has no uploaded images
+  fallbackUrl: string;
+};
+
+// The product's images as a carousel with a strip of thumbnails underneath
+export default function ProductImageGallery({ images, productName, variantImageUrl, fallbackUrl }: ProductImageGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  const slides: Slide[] = images.map((image) => ({
+    key: `image-${image.id}`,
+    src: getProductImageUrl(image, "large"),
+    thumbnail: getProductImageUrl(image, "small"),
+    alt: image.alt_text || productName,
+  }));
+  if (variantImageUrl) {
+    slides.unshift({ key: "variant", src: variantImageUrl, thumbnail: variantImageUrl, alt: productName });
+  }
+  if (slides.length === 0) {
+    slides.push({ key: "fallback", src: fallbackUrl, thumbnail: fallbackUrl, alt: productName });
+  }
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    api.on("reInit", onSelect);
+    return () => {
+      api.off("select", onSelect);
+      api.off("reInit", onSelect);
+    };
+  }, [api]);
+
+  // Picking a variant with its own image brings that image to the front
+  useEffect(() => {
+    api?.scrollTo(0);
+  }, [api, variantImageUrl]);
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} className="rounded-lg overflow-hidden bg-white shadow-md">
+        <CarouselContent className="ml-0">
+          {slides.map((slide) => (
+            <CarouselItem key={slide.key} className="pl-0">
+              <img src={slide.src} alt={slide.alt} className="w-full h-auto object-cover" />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {slides.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+      </Carousel>
+
+      {slides.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {slides.map((slide, index) => (
+            <button
+              key={slide.key}
+              type="button"
+              aria-label={`Show image ${index + 1}`}
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "h-16 w-16 flex-shrink-0 rounded-md overflow-hidden border-2",
+                index === current ? "border-primary" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+            >
+              <img src={slide.thumbnail} alt={slide.alt} className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { BadgeCheck, Flag, MessageSquare, Minus, Plus, Star, ThumbsUp } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { reviewReportReasons, type ReviewImage } from "@shared/schema";
+import { formatReviewReportReason, type ProductReview } from "@shared/reviews";
+import { getProductImageUrl } from "@shared/product-images";
+import ReviewDialog from "./review-dialog";
+
+type ReviewCardProps = {
+  review: ProductReview;
+  // The signed-in seller sells this product and may reply
+  canReply: boolean;
+  // Opens one of the review's photos full size
+  onImageClick: (image: ReviewImage) => void;
+};
+
+// One review on the product page, with what the signed-in user can do to it:
+// its author edits it, other shoppers vote it helpful or report it, and the
+// product's seller replies
+export default function ReviewCard({ review, canReply, onImageClick }: ReviewCardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editOpen, setEditOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [reason, setReason] = useState<string>(reviewReportReasons[0]);
+  const [details, setDetails] = useState("");
+  const [replyOpen, setReplyOpen] = useState(false);
+  const [reply, setReply] = useState(review.seller_reply ?? "");
+
+  const isAuthor = user?.id === review.customer_id;
+
+  // Votes and replies change what the product's review list shows
+  const onChanged = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/products/${review.product_id}`),
+    });
+  };
+  const onError = (error: Error) => {
+    toast({
+      title: "Something went wrong",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const voteMutation = useMutation({
+    mutationFn: () => apiRequest(review.voted ? "DELETE" : "PUT", `/api/reviews/${review.id}/helpful`),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/reviews/${review.id}/reports`, {
+        reason,
+        details: details.trim() || null,
+      }),
+    onSuccess: () => {
+      setReportOpen(false);
+      setDetails("");
+      toast({
+        title: "Review reported",
+        description: "Thanks, our moderators will take a look.",
+      });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/reviews/${review.id}/reply`, { reply }),
+    onSuccess: () => {
+      onChanged();
+      setReplyOpen(false);
+    },
+    onError,
+  });
+
+  const deleteReplyMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/reviews/${review.id}/reply`),
+    onSuccess: () => {
+      onChanged();
+      setReply("");
+    },
+    onError,
+  });
+
+  return (
+    <div className="border-b pb-6 last:border-0">
+      <div className="flex justify-between mb-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex text-amber-400">
+            {[...Array(5)].map((_, i) => (
+              <Star
+                key={i}
+                className={`h-4 w-4 ${i < review.rating ? "fill-current" : "text-gray-300"}`}
+              />
+            ))}
+          </div>
+          <h4 className="font-medium">{review.customer?.name || "Customer"}</h4>
+          {review.verified_purchase && (
+            <Badge variant="secondary" className="gap-1">
+              <BadgeCheck className="h-3 w-3" />
+              Verified purchase
+            </Badge>
+          )}
+        </div>
+        <span className="text-sm text-gray-500">
+          {format(new Date(review.review_date), "MMM d, yyyy")}
+          {review.edited_at && " (edited)"}
+        </span>
+      </div>
+      {review.title && <h5 className="font-semibold">{review.title}</h5>}
+      <p className="text-gray-700">{review.review_text}</p>
+
+      {(review.pros.length > 0 || review.cons.length > 0) && (
+        <div className="mt-3 grid gap-2 text-sm sm:grid-cols-2">
+          {review.pros.length > 0 && (
+            <ul className="space-y-1">
+              {review.pros.map((point, index) => (
+                <li key={index} className="flex items-start gap-1">
+                  <Plus className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-600" />
+                  {point}
+                </li>
+              ))}
+            </ul>
+          )}
+          {review.cons.length > 0 && (
+            <ul className="space-y-1">
+              {review.cons.map((point, index) => (
+                <li key={index} className="flex items-start gap-1">
+                  <Minus className="mt-0.5 h-4 w-4 flex-shrink-0 text-red-500" />
+                  {point}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {review.images.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {review.images.map((image) => (
+            <button key={image.id} type="button" onClick={() => onImageClick(image)}>
+              <img
+                src={getProductImageUrl(image, "small")}
+                alt="Customer photo"
+                className="h-20 w-20 rounded object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {review.seller_reply && (
+        <div className="mt-3 ml-4 border-l-2 pl-3">
+          <div className="text-sm font-medium">
+            Response from the seller
+            {review.seller_reply_at && (
+              <span className="ml-2 font-normal text-gray-500">
+                {format(new Date(review.seller_reply_at), "MMM d, yyyy")}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-700">{review.seller_reply}</p>
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-500">
+        {user && !isAuthor ? (
+          <Button
+            variant={review.voted ? "secondary" : "outline"}
+            size="sm"
+            disabled={voteMutation.isPending}
+            onClick={() => voteMutation.mutate()}
+          >
+            <ThumbsUp className="mr-1 h-3 w-3" />
+            Helpful ({review.helpful_count})
+          </Button>
+        ) : (
+          review.helpful_count > 0 && (
+            <span>
+              {review.helpful_count} {review.helpful_count === 1 ? "person" : "people"} found this helpful
+            </span>
+          )
+        )}
+        {isAuthor && (
+          <Button variant="ghost" size="sm" onClick={() => setEditOpen(true)}>
+            Edit
+          </Button>
+        )}
+        {canReply && (
+          <Button variant="ghost" size="sm" onClick={() => setReplyOpen(true)}>
+            <MessageSquare className="mr-1 h-3 w-3" />
+            {review.seller_reply ? "Edit reply" : "Reply"}
+          </Button>
+        )}
+        {canReply && review.seller_reply && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={deleteReplyMutation.isPending}
+            onClick={() => deleteReplyMutation.mutate()}
+          >
+            Remove reply
+          </Button>
+        )}
+        {user && !isAuthor && (
+          <Button variant="ghost" size="sm" onClick={() => setReportOpen(true)}>
+            <Flag className="mr-1 h-3 w-3" />
+            Report
+          </Button>
+        )}
+      </div>
+
+      {isAuthor && (
+        <ReviewDialog product={null} review={review} open={editOpen} onOpenChange={setEditOpen} />
+      )}
+
+      <Dialog open={reportOpen} onOpenChange={setReportOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>Tell us what's wrong with this review.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={setReason}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewReportReasons.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {formatReviewReportReason(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Details (optional)</Label>
+              <Textarea rows={3} value={details} onChange={(e) => setDetails(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={reportMutation.isPending} onClick={() => reportMutation.mutate()}>
+              {reportMutation.isPending ? "Reporting..." : "Report Review"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={replyOpen} onOpenChange={setReplyOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reply to Review</DialogTitle>
+            <DialogDescription>Your reply is shown publicly under the review.</DialogDescription>
+          </DialogHeader>
+          <Textarea rows={5} value={reply} onChange={(e) => setReply(e.target.value)} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplyOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!reply.trim() || replyMutation.isPending} onClick={() => replyMutation.mutate()}>
+              {replyMutation.isPending ? "Posting..." : "Post Reply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Star, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { checkImageFiles, IMAGE_FILE_ACCEPT } from "@/components/dashboard/product-image-manager";
+import type { Review, ReviewImage } from "@shared/schema";
+import { getProductImageUrl } from "@shared/product-images";
+import { MAX_REVIEW_IMAGES, type ProductReview } from "@shared/reviews";
+
+// Pros and cons are typed one per line
+function parsePoints(text: string): string[] {
+  return text.split("\n").map((point) => point.trim()).filter(Boolean);
+}
+
+async function uploadReviewImages(reviewId: number, files: File[]): Promise<ReviewImage[]> {
+  const body = new FormData();
+  files.forEach((file) => body.append("images", file));
+  const res = await apiRequest("POST", `/api/reviews/${reviewId}/images`, body);
+  return await res.json();
+}
+
+type ReviewDialogProps = {
+  product: { id: number; name: string; image_url?: string | null } | null;
+  // The review being edited; without it the dialog writes a new one
+  review?: ProductReview;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+// Writes or edits a review: stars, an optional title, the text, pros and
+// cons, and up to MAX_REVIEW_IMAGES photos. Photos are uploaded once the
+// review is saved.
+export default function ReviewDialog({ product, review, open, onOpenChange }: ReviewDialogProps) {
+  const { toast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [text, setText] = useState("");
+  const [pros, setPros] = useState("");
+  const [cons, setCons] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [removedImageIds, setRemovedImageIds] = useState<number[]>([]);
+
+  // Start from the review being edited, or blank, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setRating(review?.rating ?? 0);
+    setTitle(review?.title ?? "");
+    setText(review?.review_text ?? "");
+    setPros(review?.pros.join("\n") ?? "");
+    setCons(review?.cons.join("\n") ?? "");
+    setFiles([]);
+    setRemovedImageIds([]);
+  }, [open, review]);
+
+  const images = (review?.images ?? []).filter((image) => !removedImageIds.includes(image.id));
+  const previews = useMemo(() => files.map((file) => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const content = {
+        rating,
+        title: title.trim() || null,
+        review_text: text.trim() || null,
+        pros: parsePoints(pros),
+        cons: parsePoints(cons),
+      };
+      const res = review
+        ? await apiRequest("PUT", `/api/reviews/${review.id}`, content)
+        : await apiRequest("POST", "/api/reviews", { ...content, product_id: product!.id });
+      const saved: Review = await res.json();
+
+      for (const imageId of removedImageIds) {
+        await apiRequest("DELETE", `/api/reviews/${saved.id}/images/${imageId}`);
+      }
+      if (files.length > 0) {
+        await uploadReviewImages(saved.id, files);
+      }
+      return saved;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith(`/api/products/${saved.product_id}`),
+      });
+      onOpenChange(false);
+      toast({
+        title: review ? "Review updated" : "Review Submitted",
+        description: review ? undefined : "Thank you for your feedback!",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save your review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{review ? "Edit Your Review" : "Write a Review"}</DialogTitle>
+          <DialogDescription>
+            {review ? "The review will show as edited." : "Share your experience with this product"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!review && product && (
+          <div className="flex items-center">
+            {product.image_url && (
+              <img src={product.image_url} alt={product.name} className="mr-3 h-16 w-16 rounded object-cover" />
+            )}
+            <h3 className="font-medium">{product.name}</h3>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-1 block">Rating</Label>
+            <div className="flex space-x-1 text-amber-400">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <button key={star} type="button" aria-label={`${star} stars`} onClick={() => setRating(star)}>
+                  <Star
+                    className={`h-8 w-8 ${star <= rating ? "fill-current" : "text-gray-300 hover:text-amber-400"}`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="review-title">Title (optional)</Label>
+            <Input
+              id="review-title"
+              maxLength={120}
+              placeholder="Sum it up in a few words"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="review-text">Your Review</Label>
+            <Textarea
+              id="review-text"
+              rows={4}
+              placeholder="Share your thoughts about this product..."
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="review-pros">Pros (one per line)</Label>
+              <Textarea id="review-pros" rows={3} value={pros} onChange={(e) => setPros(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="review-cons">Cons (one per line)</Label>
+              <Textarea id="review-cons" rows={3} value={cons} onChange={(e) => setCons(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-photos">Photos (up to {MAX_REVIEW_IMAGES})</Label>
+            <Input
+              id="review-photos"
+              type="file"
+              multiple
+              accept={IMAGE_FILE_ACCEPT}
+              disabled={images.length + files.length >= MAX_REVIEW_IMAGES}
+              onChange={(e) => {
+                const picked = Array.from(e.target.files ?? []);
+                e.target.value = "";
+                const problem = checkImageFiles(picked, images.length + files.length, MAX_REVIEW_IMAGES);
+                if (problem) {
+                  toast({ title: "Check the photos", description: problem, variant: "destructive" });
+                } else {
+                  setFiles([...files, ...picked]);
+                }
+              }}
+            />
+            {(images.length > 0 || files.length > 0) && (
+              <div className="grid grid-cols-5 gap-2">
+                {images.map((image) => (
+                  <div key={image.id} className="relative">
+                    <img src={getProductImageUrl(image, "small")} alt="" className="h-16 w-full rounded object-cover" />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-0.5 top-0.5 h-6 w-6"
+                      aria-label="Remove photo"
+                      onClick={() => setRemovedImageIds([...removedImageIds, image.id])}
+                    >
+                      <Trash2 className="h-3 w-3 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+                {files.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="relative">
+                    <img src={previews[index]} alt={file.name} className="h-16 w-full rounded object-cover" />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      className="absolute right-0.5 top-0.5 h-6 w-6"
+                      aria-label="Remove photo"
+                      onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={rating === 0 || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending ? "Saving..." : review ? "Save Review" : "Submit Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
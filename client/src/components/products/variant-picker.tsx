@@ -0,0 +1,60 @@
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { ProductVariant, VariantOption } from "@shared/schema";
+import { findVariant } from "@shared/variants";
+
+type VariantPickerProps = {
+  options: VariantOption[];
+  variants: ProductVariant[];
+  selection: Record<string, string>;
+  onChange: (selection: Record<string, string>) => void;
+};
+
+// One row of buttons per option axis (Size, Color, ...). A value is greyed
+// out when, with the other picks made so far, it would lead to a variant
+// that doesn't exist or is out of stock.
+export default function VariantPicker({ options, variants, selection, onChange }: VariantPickerProps) {
+  const isAvailable = (name: string, value: string) => {
+    const candidate = { ...selection, [name]: value };
+    return variants.some(variant =>
+      variant.stock > 0 &&
+      Object.entries(candidate).every(([key, picked]) => variant.options[key] === picked)
+    );
+  };
+
+  const selectedVariant = findVariant(variants, selection);
+
+  return (
+    <div className="space-y-4">
+      {options.map((option) => (
+        <div key={option.name}>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">
+            {option.name}:{" "}
+            <span className="font-normal text-gray-600">{selection[option.name] ?? "Choose one"}</span>
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const isSelected = selection[option.name] === value;
+              const available = isAvailable(option.name, value);
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  size="sm"
+                  variant={isSelected ? "default" : "outline"}
+                  className={cn(!available && !isSelected && "text-gray-400 line-through")}
+                  onClick={() => onChange({ ...selection, [option.name]: value })}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+      {Object.keys(selection).length === options.length && !selectedVariant && (
+        <p className="text-sm text-red-600">This combination isn't available.</p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User, LoginUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, User, LoginUser, InsertUser, TwoFactorChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,7 +12,10 @@ type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginUser>;
+  // Resolves with a challenge instead of the user when the account has
+  // two-factor authentication on; twoFactorMutation then finishes the login
+  loginMutation: UseMutationResult<User | TwoFactorChallenge, Error, LoginUser>;
+  twoFactorMutation: UseMutationResult<User, Error, { code: string }>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<User, Error, InsertUser>;
 };
@@ -35,6 +38,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: User | TwoFactorChallenge) => {
+      if ("status" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${result.name || result.username}!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (body: { code: string }) => {
+      const res = await apiRequest("POST", "/api/login/2fa", body);
+      return await res.json();
+    },
     onSuccess: (user: User) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
@@ -100,6 +125,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
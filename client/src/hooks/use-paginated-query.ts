@@ -0,0 +1,30 @@
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { buildListQueryString, ListParams, Page } from "@shared/pagination";
+
+// Pages through one of the list endpoints (GET /api/products, /api/orders,
+// /api/users, /api/sellers). The query key starts with the path, so
+// invalidating ["/api/products"] refetches every list of products.
+export function usePaginatedQuery<T>(
+  path: string,
+  params: Omit<ListParams, "cursor"> = {},
+  options: { enabled?: boolean } = {},
+) {
+  const query = useInfiniteQuery<Page<T>>({
+    queryKey: [path, params],
+    queryFn: async ({ pageParam }) => {
+      const queryString = buildListQueryString({ ...params, cursor: pageParam as string | undefined });
+      const res = await fetch(`${path}?${queryString}`, { credentials: "include" });
+      if (!res.ok) throw new Error(`Failed to fetch ${path}`);
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+    enabled: options.enabled,
+  });
+
+  return {
+    ...query,
+    items: query.data?.pages.flatMap(page => page.items) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+  };
+}
@@ -0,0 +1,79 @@
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Product, Wishlist, WishlistItem } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+export type WishlistWithItems = Wishlist & {
+  items: (WishlistItem & { product: Product })[];
+};
+
+// The signed-in customer's wishlist and a toggle for the heart buttons.
+// Guests are sent to sign in; sellers and admins don't have a wishlist.
+export function useWishlist() {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const isCustomer = user?.role === "customer";
+
+  const { data: wishlist, isLoading } = useQuery<WishlistWithItems>({
+    queryKey: ["/api/wishlist"],
+    enabled: isCustomer,
+  });
+
+  const isInWishlist = (productId: number) =>
+    !!wishlist?.items.some(item => item.product_id === productId);
+
+  const toggleWishlistMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      if (isInWishlist(productId)) {
+        await apiRequest("DELETE", `/api/wishlist/${productId}`);
+        return false;
+      }
+      await apiRequest("POST", "/api/wishlist", { product_id: productId });
+      return true;
+    },
+    onSuccess: (added: boolean) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+      toast({
+        title: added ? "Added to wishlist" : "Removed from wishlist",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleWishlist = (productId: number) => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to save items to your wishlist",
+      });
+      navigate("/auth");
+      return;
+    }
+    if (!isCustomer) {
+      toast({
+        title: "Wishlists are for customers",
+        description: "Sign in with a customer account to save items",
+        variant: "destructive",
+      });
+      return;
+    }
+    toggleWishlistMutation.mutate(productId);
+  };
+
+  return {
+    wishlist,
+    isLoading,
+    isInWishlist,
+    toggleWishlist,
+    isToggling: toggleWishlistMutation.isPending,
+  };
+}
@@ -0,0 +1,13 @@
+import MainLayout from "@/components/layout/main-layout";
+import TwoFactorSettings from "@/components/account/two-factor-settings";
+
+export default function AccountSecurityPage() {
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-2xl px-4 py-8">
+        <h1 className="mb-6 text-2xl font-bold">Account Security</h1>
+        <TwoFactorSettings />
+      </div>
+    </MainLayout>
+  );
+}
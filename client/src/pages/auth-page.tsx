@@ -1,10 +1,15 @@
 import { useEffect, useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { insertUserSchema, loginUserSchema } from "@shared/schema";
+import {
+  accountEmailSchema, insertUserSchema, loginUserSchema, resetPasswordSchema, User
+} from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import TotpCodeInput from "@/components/account/totp-code-input";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -26,22 +31,330 @@ import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 
+// What the form side of the page shows. Links in verification and password
+// reset emails open /auth?verify=<token> and /auth?reset=<token>, and "2fa"
+// is the second login step for accounts with two-factor authentication on.
+type AuthView = "tabs" | "forgot" | "resend" | "reset" | "verify" | "2fa";
+
+// Second login step: a code from the authenticator app, or a recovery code
+// for someone without their device
+function TwoFactorLoginCard({ onBack }: { onBack: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value: string) => {
+    twoFactorMutation.mutate({ code: value }, { onError: () => setCode("") });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+            : "Enter the 6-digit code from your authenticator app"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(code);
+          }}
+          className="space-y-4"
+        >
+          {useRecoveryCode ? (
+            <Input
+              autoFocus
+              autoComplete="off"
+              placeholder="xxxxx-xxxxx"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          ) : (
+            <div className="flex justify-center">
+              <TotpCodeInput
+                value={code}
+                onChange={setCode}
+                onComplete={submit}
+                disabled={twoFactorMutation.isPending}
+              />
+            </div>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!code.trim() || twoFactorMutation.isPending}
+          >
+            {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button
+          variant="link"
+          className="p-0"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </Button>
+        <Button variant="link" className="p-0" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+type EmailLinkCardProps = {
+  title: string;
+  description: string;
+  endpoint: "/api/forgot-password" | "/api/verify-email/resend";
+  submitLabel: string;
+  onBack: () => void;
+};
+
+// Asks for an account's email address and has a link sent to it. The server
+// answers the same way whether or not an account has the address.
+function EmailLinkCard({ title, description, endpoint, submitLabel, onBack }: EmailLinkCardProps) {
+  const { toast } = useToast();
+  const form = useForm<z.infer<typeof accountEmailSchema>>({
+    resolver: zodResolver(accountEmailSchema),
+    defaultValues: { email: "" },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof accountEmailSchema>) => {
+      const res = await apiRequest("POST", endpoint, values);
+      return (await res.json()) as { message: string };
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sendMutation.isSuccess ? (
+          <p className="text-sm text-gray-600">
+            {sendMutation.data.message}. Check your inbox, and your spam folder if it doesn't arrive.
+          </p>
+        ) : (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((values) => sendMutation.mutate(values))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="Enter your email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={sendMutation.isPending}>
+                {sendMutation.isPending ? "Sending..." : submitLabel}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="link" className="p-0" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+const newPasswordSchema = resetPasswordSchema.pick({ password: true }).extend({
+  confirm_password: z.string(),
+}).refine((data) => data.password === data.confirm_password, {
+  message: "Passwords don't match",
+  path: ["confirm_password"],
+});
+
+type ResetPasswordCardProps = {
+  token: string;
+  onDone: () => void;
+  onRequestNewLink: () => void;
+};
+
+// Sets a new password with the token from a reset email
+function ResetPasswordCard({ token, onDone, onRequestNewLink }: ResetPasswordCardProps) {
+  const { toast } = useToast();
+  const form = useForm<z.infer<typeof newPasswordSchema>>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirm_password: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ password }: z.infer<typeof newPasswordSchema>) => {
+      const res = await apiRequest("POST", "/api/reset-password", { token, password });
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "Password reset", description: message });
+      onDone();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a New Password</CardTitle>
+        <CardDescription>Enter the new password for your account</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => resetMutation.mutate(values))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Create a password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirm_password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Confirm your password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {resetMutation.isError && (
+              <p className="text-sm text-red-600">{resetMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+              {resetMutation.isPending ? "Saving..." : "Reset Password"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+      <CardFooter>
+        <Button variant="link" className="p-0" onClick={onRequestNewLink}>
+          Request a new reset link
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+type VerifyEmailCardProps = {
+  token: string;
+  onContinue: () => void;
+  onResend: () => void;
+};
+
+// Confirms the email address as soon as the verification link is opened
+function VerifyEmailCard({ token, onContinue, onResend }: VerifyEmailCardProps) {
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return (await res.json()) as User;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+  const { mutate } = verifyMutation;
+
+  useEffect(() => {
+    mutate();
+  }, [token, mutate]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Confirm Your Email</CardTitle>
+        <CardDescription>
+          {verifyMutation.isSuccess
+            ? `${verifyMutation.data.email} is confirmed. Thanks!`
+            : verifyMutation.isError
+              ? verifyMutation.error.message
+              : "Confirming your email address..."}
+        </CardDescription>
+      </CardHeader>
+      <CardFooter>
+        {verifyMutation.isSuccess && (
+          <Button className="w-full" onClick={onContinue}>
+            Continue
+          </Button>
+        )}
+        {verifyMutation.isError && (
+          <Button variant="outline" className="w-full" onClick={onResend}>
+            Send a New Link
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
 export default function AuthPage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const { user, loginMutation, registerMutation } = useAuth();
   const [activeTab, setActiveTab] = useState("login");
+  const searchString = useSearch();
+  const params = new URLSearchParams(searchString);
+  const verifyToken = params.get("verify");
+  const resetToken = params.get("reset");
+  const [view, setView] = useState<AuthView>(resetToken ? "reset" : verifyToken ? "verify" : "tabs");
+
+  // Back to the login form, dropping any token from the URL
+  const showLogin = () => {
+    navigate("/auth");
+    setActiveTab("login");
+    setView("tabs");
+  };
 
-  // Redirect if user is already logged in
+  // Redirect if user is already logged in, unless they followed an email link
   useEffect(() => {
-    if (user) {
+    if (user && view !== "verify" && view !== "reset") {
       navigate("/");
       toast({
         title: "Already logged in",
         description: "You are already logged in.",
       });
     }
-  }, [user, navigate, toast]);
+  }, [user, view, navigate, toast]);
 
   // Login form schema
   const loginForm = useForm<z.infer<typeof loginUserSchema>>({
@@ -75,7 +388,11 @@ export default function AuthPage() {
   });
 
   const onLoginSubmit = (values: z.infer<typeof loginUserSchema>) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (result) => {
+        if ("status" in result) setView("2fa");
+      },
+    });
   };
 
   const onRegisterSubmit = (values: z.infer<typeof extendedRegisterSchema>) => {
@@ -175,113 +492,74 @@ export default function AuthPage() {
 
         {/* Form section */}
         <div className="bg-white p-10 md:w-1/2">
-          <Tabs
-            defaultValue="login"
-            className="w-full"
-            value={activeTab}
-            onValueChange={setActiveTab}
-          >
-            <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Login to Your Account</CardTitle>
-                  <CardDescription>
-                    Enter your username and password to sign in
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form
-                      onSubmit={loginForm.handleSubmit(onLoginSubmit)}
-                      className="space-y-4"
-                    >
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter your username"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="password"
-                                placeholder="Enter your password"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={loginMutation.isPending}
+          {view === "forgot" && (
+            <EmailLinkCard
+              title="Forgot Your Password?"
+              description="Enter your account's email and we'll send you a link to reset your password"
+              endpoint="/api/forgot-password"
+              submitLabel="Send Reset Link"
+              onBack={showLogin}
+            />
+          )}
+          {view === "resend" && (
+            <EmailLinkCard
+              title="Resend Verification Email"
+              description="Enter your account's email and we'll send you a new verification link"
+              endpoint="/api/verify-email/resend"
+              submitLabel="Send Verification Link"
+              onBack={showLogin}
+            />
+          )}
+          {view === "reset" && resetToken && (
+            <ResetPasswordCard
+              token={resetToken}
+              onDone={showLogin}
+              onRequestNewLink={() => setView("forgot")}
+            />
+          )}
+          {view === "verify" && verifyToken && (
+            <VerifyEmailCard
+              token={verifyToken}
+              onContinue={() => (user ? navigate("/") : showLogin())}
+              onResend={() => setView("resend")}
+            />
+          )}
+          {view === "2fa" && <TwoFactorLoginCard onBack={showLogin} />}
+          {view === "tabs" && (
+            <Tabs
+              defaultValue="login"
+              className="w-full"
+              value={activeTab}
+              onValueChange={setActiveTab}
+            >
+              <TabsList className="grid w-full grid-cols-2 mb-8">
+                <TabsTrigger value="login">Login</TabsTrigger>
+                <TabsTrigger value="register">Register</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Login to Your Account</CardTitle>
+                    <CardDescription>
+                      Enter your username and password to sign in
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...loginForm}>
+                      <form
+                        onSubmit={loginForm.handleSubmit(onLoginSubmit)}
+                        className="space-y-4"
                       >
-                        {loginMutation.isPending ? "Signing in..." : "Sign In"}
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex flex-col space-y-4">
-                  <div className="text-sm text-center text-gray-500">
-                    Don't have an account?{" "}
-                    <Button
-                      variant="link"
-                      className="p-0"
-                      onClick={() => setActiveTab("register")}
-                    >
-                      Register now
-                    </Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="register">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Create an Account</CardTitle>
-                  <CardDescription>
-                    Fill in your information to create an account
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...registerForm}>
-                    <form
-                      onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
-                      className="space-y-4"
-                    >
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField
-                          control={registerForm.control}
+                          control={loginForm.control}
                           name="username"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Username</FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="Choose a username"
+                                  placeholder="Enter your username"
                                   {...field}
                                 />
                               </FormControl>
@@ -290,14 +568,15 @@ export default function AuthPage() {
                           )}
                         />
                         <FormField
-                          control={registerForm.control}
-                          name="name"
+                          control={loginForm.control}
+                          name="password"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Full Name</FormLabel>
+                              <FormLabel>Password</FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="Enter your full name"
+                                  type="password"
+                                  placeholder="Enter your password"
                                   {...field}
                                 />
                               </FormControl>
@@ -305,37 +584,98 @@ export default function AuthPage() {
                             </FormItem>
                           )}
                         />
-                      </div>
-
-                      <FormField
-                        control={registerForm.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Email</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="email"
-                                placeholder="Enter your email"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex flex-col space-y-4">
+                    <div className="flex w-full justify-between text-sm">
+                      <Button variant="link" className="p-0" onClick={() => setView("forgot")}>
+                        Forgot your password?
+                      </Button>
+                      <Button variant="link" className="p-0" onClick={() => setView("resend")}>
+                        Resend verification email
+                      </Button>
+                    </div>
+                    <div className="text-sm text-center text-gray-500">
+                      Don't have an account?{" "}
+                      <Button
+                        variant="link"
+                        className="p-0"
+                        onClick={() => setActiveTab("register")}
+                      >
+                        Register now
+                      </Button>
+                    </div>
+                  </CardFooter>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Create an Account</CardTitle>
+                    <CardDescription>
+                      Fill in your information to create an account
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...registerForm}>
+                      <form
+                        onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
+                        className="space-y-4"
+                      >
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={registerForm.control}
+                            name="username"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Username</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="Choose a username"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={registerForm.control}
+                            name="name"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Full Name</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="Enter your full name"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField
                           control={registerForm.control}
-                          name="password"
+                          name="email"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Password</FormLabel>
+                              <FormLabel>Email</FormLabel>
                               <FormControl>
                                 <Input
-                                  type="password"
-                                  placeholder="Create a password"
+                                  type="email"
+                                  placeholder="Enter your email"
                                   {...field}
                                 />
                               </FormControl>
@@ -343,16 +683,53 @@ export default function AuthPage() {
                             </FormItem>
                           )}
                         />
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <FormField
+                            control={registerForm.control}
+                            name="password"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Password</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="password"
+                                    placeholder="Create a password"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={registerForm.control}
+                            name="confirm_password"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Confirm Password</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="password"
+                                    placeholder="Confirm your password"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+
                         <FormField
                           control={registerForm.control}
-                          name="confirm_password"
+                          name="phone_number"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Confirm Password</FormLabel>
+                              <FormLabel>Phone Number (Optional)</FormLabel>
                               <FormControl>
                                 <Input
-                                  type="password"
-                                  placeholder="Confirm your password"
+                                  placeholder="Enter your phone number"
                                   {...field}
                                 />
                               </FormControl>
@@ -360,62 +737,16 @@ export default function AuthPage() {
                             </FormItem>
                           )}
                         />
-                      </div>
-
-                      <FormField
-                        control={registerForm.control}
-                        name="phone_number"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Phone Number (Optional)</FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter your phone number"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={registerForm.control}
-                        name="address"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Address (Optional)</FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter your address"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <div className="flex items-center space-x-2">
-                        <Button
-                          type="button"
-                          variant={isSellerRole ? "default" : "outline"}
-                          onClick={toggleRole}
-                        >
-                          {isSellerRole ? "Register as Seller" : "Register as Customer"}
-                        </Button>
-                      </div>
 
-                      {isSellerRole && (
                         <FormField
                           control={registerForm.control}
-                          name="shop_name"
+                          name="address"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Shop Name</FormLabel>
+                              <FormLabel>Address (Optional)</FormLabel>
                               <FormControl>
                                 <Input
-                                  placeholder="Enter your shop name"
+                                  placeholder="Enter your address"
                                   {...field}
                                 />
                               </FormControl>
@@ -423,35 +754,64 @@ export default function AuthPage() {
                             </FormItem>
                           )}
                         />
-                      )}
 
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            type="button"
+                            variant={isSellerRole ? "default" : "outline"}
+                            onClick={toggleRole}
+                          >
+                            {isSellerRole ? "Register as Seller" : "Register as Customer"}
+                          </Button>
+                        </div>
+
+                        {isSellerRole && (
+                          <FormField
+                            control={registerForm.control}
+                            name="shop_name"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Shop Name</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="Enter your shop name"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        )}
+
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending
+                            ? "Creating Account..."
+                            : "Create Account"}
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex flex-col space-y-4">
+                    <div className="text-sm text-center text-gray-500">
+                      Already have an account?{" "}
                       <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={registerMutation.isPending}
+                        variant="link"
+                        className="p-0"
+                        onClick={() => setActiveTab("login")}
                       >
-                        {registerMutation.isPending
-                          ? "Creating Account..."
-                          : "Create Account"}
+                        Sign in
                       </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex flex-col space-y-4">
-                  <div className="text-sm text-center text-gray-500">
-                    Already have an account?{" "}
-                    <Button
-                      variant="link"
-                      className="p-0"
-                      onClick={() => setActiveTab("login")}
-                    >
-                      Sign in
-                    </Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            </TabsContent>
-          </Tabs>
+                    </div>
+                  </CardFooter>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          )}
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
@@ -7,9 +7,11 @@ import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Trash2, Plus, Minus, AlertTriangle } from "lucide-react";
+import { Trash2, Plus, Minus, AlertTriangle, Tag, X } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { FREE_SHIPPING_THRESHOLD, CartQuote } from "@shared/pricing";
+import { formatVariantLabel, getVariantPrice } from "@shared/variants";
 import {
   Table,
   TableBody,
@@ -36,18 +38,23 @@ export default function CartPage() {
   const [itemToRemove, setItemToRemove] = useState<number | null>(null);
   const [isRemoveDialogOpen, setIsRemoveDialogOpen] = useState(false);
   const [couponCode, setCouponCode] = useState("");
-  const [totals, setTotals] = useState({
-    subtotal: 0,
-    shipping: 0,
-    tax: 0,
-    total: 0,
-  });
 
   // Fetch cart data
   const { data: cart, isLoading } = useQuery({
     queryKey: ["/api/cart"],
   });
 
+  // Totals come from the server so they match what checkout will charge
+  const { data: quote } = useQuery<CartQuote>({
+    queryKey: ["/api/cart", "quote", "standard"],
+    queryFn: async () => {
+      const res = await fetch("/api/cart/quote?shippingMethod=standard");
+      if (!res.ok) throw new Error("Failed to fetch cart totals");
+      return res.json();
+    },
+  });
+  const totals = quote ?? { subtotal: 0, shipping: 0, tax: 0, discount: 0, total: 0 };
+
   // Update quantity mutation
   const updateQuantityMutation = useMutation({
     mutationFn: async ({
@@ -112,14 +119,49 @@ export default function CartPage() {
     }
   };
 
-  // Apply coupon code
-  const applyCoupon = () => {
-    if (couponCode.trim()) {
-      // In a real application, this would call an API to validate the coupon
+  // Apply coupon mutation
+  const applyCouponMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return await apiRequest("POST", "/api/cart/coupon", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      setCouponCode("");
       toast({
         title: "Coupon Applied",
         description: "Your coupon code has been applied successfully.",
       });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invalid Coupon",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Remove coupon mutation
+  const removeCouponMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", "/api/cart/coupon");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Apply coupon code
+  const applyCoupon = () => {
+    if (couponCode.trim()) {
+      applyCouponMutation.mutate(couponCode.trim());
     } else {
       toast({
         title: "Invalid Coupon",
@@ -129,20 +171,6 @@ export default function CartPage() {
     }
   };
 
-  // Calculate totals
-  useEffect(() => {
-    if (cart?.items) {
-      const subtotal = cart.items.reduce(
-        (acc: number, item: any) => acc + item.product.price * item.quantity,
-        0
-      );
-      const shipping = subtotal > 35 ? 0 : 9.99;
-      const tax = subtotal * 0.06; // 6% tax
-      const total = subtotal + shipping + tax;
-      setTotals({ subtotal, shipping, tax, total });
-    }
-  }, [cart]);
-
   if (isLoading) {
     return (
       <MainLayout>
@@ -190,7 +218,7 @@ export default function CartPage() {
                             <div className="w-20 h-20 rounded overflow-hidden">
                               <img
                                 src={
-                                  item.product.image_url ||
+                                  item.variant?.image_url || item.product.image_url ||
                                   `https://source.unsplash.com/featured/100x100?${encodeURIComponent(
                                     item.product.name.split(" ")[0]
                                   )}`
@@ -205,19 +233,24 @@ export default function CartPage() {
                               <p className="font-medium text-gray-900">
                                 {item.product.name}
                               </p>
+                              {item.variant && (
+                                <p className="text-sm text-gray-700">
+                                  {formatVariantLabel(item.variant.options, item.product.variant_options)}
+                                </p>
+                              )}
                               <p className="text-sm text-gray-500">
                                 Sold by: {item.product.seller?.shop_name || "ShopEase"}
                               </p>
-                              {item.product.stock < 5 && (
+                              {(item.variant ?? item.product).stock < 5 && (
                                 <div className="flex items-center text-xs text-amber-600 mt-1">
                                   <AlertTriangle className="h-3 w-3 mr-1" />
-                                  <span>Only {item.product.stock} left in stock</span>
+                                  <span>Only {(item.variant ?? item.product).stock} left in stock</span>
                                 </div>
                               )}
                             </div>
                           </TableCell>
                           <TableCell className="text-right">
-                            ${item.product.price.toFixed(2)}
+                            ${getVariantPrice(item.product, item.variant).toFixed(2)}
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center justify-center">
@@ -246,7 +279,7 @@ export default function CartPage() {
                                 }
                                 disabled={
                                   updateQuantityMutation.isPending ||
-                                  item.quantity >= item.product.stock
+                                  item.quantity >= (item.variant ?? item.product).stock
                                 }
                               >
                                 <Plus className="h-3 w-3" />
@@ -254,7 +287,7 @@ export default function CartPage() {
                             </div>
                           </TableCell>
                           <TableCell className="text-right font-medium">
-                            ${(item.product.price * item.quantity).toFixed(2)}
+                            ${(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                           </TableCell>
                           <TableCell>
                             <Button
@@ -300,6 +333,14 @@ export default function CartPage() {
                         ${totals.subtotal.toFixed(2)}
                       </span>
                     </div>
+                    {totals.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount</span>
+                        <span className="font-medium">
+                          -${totals.discount.toFixed(2)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Shipping</span>
                       <span className="font-medium">
@@ -322,15 +363,47 @@ export default function CartPage() {
 
                     {/* Coupon Code */}
                     <div className="mt-6">
-                      <p className="text-sm font-medium mb-2">Have a coupon?</p>
-                      <div className="flex space-x-2">
-                        <Input
-                          placeholder="Enter coupon code"
-                          value={couponCode}
-                          onChange={(e) => setCouponCode(e.target.value)}
-                        />
-                        <Button onClick={applyCoupon}>Apply</Button>
-                      </div>
+                      {quote?.coupon_code ? (
+                        <div>
+                          <div className="flex items-center justify-between rounded border px-3 py-2">
+                            <span className="flex items-center text-sm font-medium">
+                              <Tag className="h-4 w-4 mr-2" />
+                              {quote.coupon_code}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              onClick={() => removeCouponMutation.mutate()}
+                              disabled={removeCouponMutation.isPending}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          {quote.coupon_error && (
+                            <p className="text-sm text-amber-600 mt-2">
+                              {quote.coupon_error}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <>
+                          <p className="text-sm font-medium mb-2">Have a coupon?</p>
+                          <div className="flex space-x-2">
+                            <Input
+                              placeholder="Enter coupon code"
+                              value={couponCode}
+                              onChange={(e) => setCouponCode(e.target.value)}
+                            />
+                            <Button
+                              onClick={applyCoupon}
+                              disabled={applyCouponMutation.isPending}
+                            >
+                              Apply
+                            </Button>
+                          </div>
+                        </>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -341,9 +414,9 @@ export default function CartPage() {
                   >
                     Checkout
                   </Button>
-                  {totals.subtotal < 35 && totals.shipping > 0 && (
+                  {totals.subtotal <= FREE_SHIPPING_THRESHOLD && totals.shipping > 0 && (
                     <p className="text-sm text-amber-600 mt-2 text-center">
-                      Add ${(35 - totals.subtotal).toFixed(2)} more to qualify for free shipping
+                      Add ${(FREE_SHIPPING_THRESHOLD - totals.subtotal).toFixed(2)} more to qualify for free shipping
                     </p>
                   )}
                 </CardFooter>
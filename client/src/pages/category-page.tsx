@@ -1,13 +1,16 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import ProductCard from "@/components/products/product-card";
+import CategoryBreadcrumbs from "@/components/products/category-breadcrumbs";
+import AttributeFilters from "@/components/products/attribute-filters";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
 import {
   Select,
   SelectContent,
@@ -21,74 +24,137 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion";
+import {
+  buildCategoryTree,
+  findCategoryByPath,
+  getCategoryAncestors,
+  getCategoryUrl,
+  type CategoryNode,
+  type CategoryWithPath,
+} from "@shared/categories";
+import {
+  formatAttributeFilter,
+  getAttributeFilterKey,
+  type AttributeFilter,
+} from "@shared/attributes";
+import type { CategoryAttribute } from "@shared/schema";
+
+// The sort select's options and the list sort each one asks the server for
+const SORT_OPTIONS: Record<string, string> = {
+  newest: "-added_date",
+  oldest: "added_date",
+  "price-low": "price",
+  "price-high": "-price",
+};
 
 export default function CategoryPage() {
-  const { id } = useParams();
+  // The category's path, e.g. electronics/phones
+  const path = useParams()["*"] ?? "";
   const [, navigate] = useLocation();
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 1000]);
+  // The range products are fetched for, set when the slider is let go
+  const [appliedPriceRange, setAppliedPriceRange] = useState<[number, number]>([0, 1000]);
   const [sortOption, setSortOption] = useState("newest");
   const [searchQuery, setSearchQuery] = useState("");
 
-  // Fetch category details
-  const { data: category, isLoading: isLoadingCategory } = useQuery({
-    queryKey: [`/api/categories/${id}`],
-    enabled: !!id,
+  // Fetch all categories; the page's category and its breadcrumbs and
+  // sidebar tree all come from this list
+  const { data: categories, isLoading: isLoadingCategory } = useQuery<CategoryWithPath[]>({
+    queryKey: ["/api/categories"],
+  });
+  const category = categories ? findCategoryByPath(categories, path) : undefined;
+  const ancestors = categories && category ? getCategoryAncestors(categories, category) : [];
+
+  // Links from before categories had slugs use the numeric id: /categories/3
+  const legacyCategory = /^\d+$/.test(path)
+    ? categories?.find((c) => c.id === parseInt(path))
+    : undefined;
+  useEffect(() => {
+    if (legacyCategory) {
+      navigate(getCategoryUrl(legacyCategory), { replace: true });
+    }
+  }, [legacyCategory, navigate]);
+
+  // The category's attributes (its own and inherited ones) become filters
+  const { data: attributes } = useQuery<CategoryAttribute[]>({
+    queryKey: [`/api/categories/${category?.id}/attributes`],
+    enabled: !!category,
   });
+  const [attributeFilters, setAttributeFilters] = useState<AttributeFilter[]>([]);
+  useEffect(() => {
+    setAttributeFilters([]);
+  }, [category?.id]);
 
-  // Fetch products by category
+  // Fetch products by category, filtered and sorted by the server
   const {
-    data: products,
+    items: products,
+    total,
     isLoading: isLoadingProducts,
     isError,
-  } = useQuery({
-    queryKey: [`/api/products`, { categoryId: id }],
-    queryFn: async () => {
-      const res = await fetch(`/api/products?categoryId=${id}&status=active`);
-      if (!res.ok) throw new Error("Failed to fetch products");
-      return res.json();
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePaginatedQuery<any>(
+    "/api/products",
+    {
+      limit: 12,
+      sort: SORT_OPTIONS[sortOption],
+      filter: {
+        status: "active",
+        category_id: category?.id,
+        min_price: appliedPriceRange[0],
+        max_price: appliedPriceRange[1],
+        ...Object.fromEntries(attributeFilters.map((filter) => [
+          getAttributeFilterKey(filter.attribute_id),
+          formatAttributeFilter(filter),
+        ])),
+      },
     },
-    enabled: !!id,
-  });
-
-  // Fetch all categories for sidebar
-  const { data: categories } = useQuery({
-    queryKey: ["/api/categories"],
-  });
+    { enabled: !!category },
+  );
 
   // Search handler
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    navigate(`/products?search=${encodeURIComponent(searchQuery)}&categoryId=${id}`);
+    navigate(`/products?search=${encodeURIComponent(searchQuery)}&categoryId=${category?.id ?? ""}`);
   };
 
-  // Sort and filter products
-  const filteredProducts = products
-    ? products
-        .filter(
-          (product: any) =>
-            product.price >= priceRange[0] && product.price <= priceRange[1]
-        )
-        .sort((a: any, b: any) => {
-          switch (sortOption) {
-            case "price-low":
-              return a.price - b.price;
-            case "price-high":
-              return b.price - a.price;
-            case "oldest":
-              return new Date(a.added_date).getTime() - new Date(b.added_date).getTime();
-            case "newest":
-            default:
-              return new Date(b.added_date).getTime() - new Date(a.added_date).getTime();
-          }
-        })
-    : [];
-
   // Handle price range change
   const handlePriceChange = (value: number[]) => {
     setPriceRange([value[0], value[1]]);
   };
 
-  if (isError) {
+  const handlePriceCommit = (value: number[]) => {
+    setAppliedPriceRange([value[0], value[1]]);
+  };
+
+  // The top-level categories, opened up along the way to this one so its
+  // ancestors' siblings and its own subcategories show
+  const renderCategoryTree = (nodes: CategoryNode[], depth: number): React.ReactNode =>
+    nodes.map((cat) => (
+      <div key={cat.id} className="space-y-2">
+        <div className="flex items-center" style={{ paddingLeft: depth * 16 }}>
+          <Checkbox
+            id={`category-${cat.id}`}
+            checked={cat.id === category?.id}
+            onCheckedChange={() => {
+              navigate(getCategoryUrl(cat));
+            }}
+            className="mr-2"
+          />
+          <label
+            htmlFor={`category-${cat.id}`}
+            className="text-sm cursor-pointer"
+          >
+            {cat.category_name}
+          </label>
+        </div>
+        {(cat.id === category?.id || ancestors.some((a) => a.id === cat.id)) &&
+          renderCategoryTree(cat.children, depth + 1)}
+      </div>
+    ));
+
+  if (isError || (categories && !category && !legacyCategory)) {
     return (
       <MainLayout>
         <div className="container mx-auto px-4 py-8">
@@ -111,12 +177,15 @@ export default function CategoryPage() {
       <div className="container mx-auto px-4 py-8">
         {/* Category Header */}
         <div className="mb-8">
-          {isLoadingCategory ? (
+          {isLoadingCategory || !category ? (
             <Skeleton className="h-10 w-1/3" />
           ) : (
-            <h1 className="text-3xl font-bold text-gray-800">
-              {category?.category_name || "Products"}
-            </h1>
+            <>
+              <CategoryBreadcrumbs categories={ancestors} current={category.category_name} />
+              <h1 className="text-3xl font-bold text-gray-800">
+                {category.category_name}
+              </h1>
+            </>
           )}
           <p className="text-gray-600 mt-2">
             Browse our selection of {category?.category_name?.toLowerCase() || "products"}
@@ -151,6 +220,7 @@ export default function CategoryPage() {
                   step={10}
                   value={[priceRange[0], priceRange[1]]}
                   onValueChange={handlePriceChange}
+                  onValueCommit={handlePriceCommit}
                   className="mb-4"
                 />
                 <div className="flex items-center justify-between text-sm">
@@ -167,36 +237,34 @@ export default function CategoryPage() {
                   </AccordionTrigger>
                   <AccordionContent>
                     <div className="space-y-2">
-                      {isLoadingProducts ? (
+                      {!categories ? (
                         Array(5)
                           .fill(0)
                           .map((_, index) => (
                             <Skeleton key={index} className="h-6 w-full" />
                           ))
                       ) : (
-                        categories?.map((cat: any) => (
-                          <div key={cat.id} className="flex items-center">
-                            <Checkbox
-                              id={`category-${cat.id}`}
-                              checked={cat.id === parseInt(id as string)}
-                              onCheckedChange={() => {
-                                navigate(`/categories/${cat.id}`);
-                              }}
-                              className="mr-2"
-                            />
-                            <label
-                              htmlFor={`category-${cat.id}`}
-                              className="text-sm cursor-pointer"
-                            >
-                              {cat.category_name}
-                            </label>
-                          </div>
-                        ))
+                        renderCategoryTree(buildCategoryTree(categories), 0)
                       )}
                     </div>
                   </AccordionContent>
                 </AccordionItem>
               </Accordion>
+
+              {/* Attribute Filters */}
+              {attributes && attributes.length > 0 && (
+                <Accordion
+                  key={category?.id}
+                  type="multiple"
+                  defaultValue={attributes.map((attribute) => `attribute-${attribute.id}`)}
+                >
+                  <AttributeFilters
+                    attributes={attributes}
+                    filters={attributeFilters}
+                    onChange={setAttributeFilters}
+                  />
+                </Accordion>
+              )}
             </div>
           </div>
 
@@ -207,7 +275,7 @@ export default function CategoryPage() {
               <p className="text-gray-600">
                 {isLoadingProducts
                   ? "Loading products..."
-                  : `Showing ${filteredProducts.length} products`}
+                  : `Showing ${products.length} of ${total} products`}
               </p>
               <div className="flex items-center">
                 <span className="mr-2 text-sm">Sort by:</span>
@@ -245,12 +313,25 @@ export default function CategoryPage() {
                     </div>
                   ))}
               </div>
-            ) : filteredProducts.length > 0 ? (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                {filteredProducts.map((product: any) => (
-                  <ProductCard key={product.id} product={product} />
-                ))}
-              </div>
+            ) : products.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {products.map((product: any) => (
+                    <ProductCard key={product.id} product={product} />
+                  ))}
+                </div>
+                {hasNextPage && (
+                  <div className="text-center mt-8">
+                    <Button
+                      variant="outline"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="bg-white rounded-lg shadow-sm p-8 text-center">
                 <h3 className="text-xl font-semibold text-gray-800 mb-2">
@@ -26,6 +26,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { 
   CreditCard, 
@@ -37,6 +38,14 @@ import {
 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import {
+  FREE_SHIPPING_THRESHOLD,
+  SHIPPING_RATES,
+  CartQuote,
+  shippingMethodSchema,
+} from "@shared/pricing";
+import { getVariantDisplayName, getVariantPrice } from "@shared/variants";
+import { Address, Order, Payment } from "@shared/schema";
 import {
   Table,
   TableBody,
@@ -55,8 +64,9 @@ const shippingSchema = z.object({
   city: z.string().min(2, "City is required"),
   state: z.string().min(2, "State is required"),
   zipCode: z.string().min(5, "Zip code is required"),
-  shippingMethod: z.enum(["standard", "express"]),
+  shippingMethod: shippingMethodSchema,
   paymentMethod: z.enum(["credit_card", "paypal", "bank_transfer"]),
+  saveAddress: z.boolean(),
 });
 
 type ShippingFormValues = z.infer<typeof shippingSchema>;
@@ -65,12 +75,6 @@ export default function CheckoutPage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [step, setStep] = useState(1);
-  const [totals, setTotals] = useState({
-    subtotal: 0,
-    shipping: 0,
-    tax: 0,
-    total: 0,
-  });
 
   // Fetch cart data
   const { data: cart, isLoading } = useQuery({
@@ -85,19 +89,28 @@ export default function CheckoutPage() {
     },
   });
 
+  // Saved addresses for prefilling the shipping form
+  const { data: addresses } = useQuery<Address[]>({
+    queryKey: ["/api/user/addresses"],
+  });
+
   // Order mutation
   const orderMutation = useMutation({
     mutationFn: async (data: any) => {
-      return await apiRequest("POST", "/api/orders", data);
+      const res = await apiRequest("POST", "/api/orders", data);
+      return await res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: { order: Order; payment: Payment; message?: string }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/addresses"] });
       const orderData = data.order;
       navigate(`/orders/${orderData.id}`);
       toast({
         title: "Order placed successfully",
-        description: `Your order #${orderData.order_id} has been placed.`,
+        description: data.payment.status === "completed"
+          ? `Your order #${orderData.order_id} has been placed.`
+          : `Your order #${orderData.order_id} has been placed. ${data.message ?? "Payment is pending."}`,
       });
     },
     onError: (error: Error) => {
@@ -123,26 +136,41 @@ export default function CheckoutPage() {
       zipCode: "",
       shippingMethod: "standard",
       paymentMethod: "credit_card",
+      saveAddress: false,
     },
   });
 
-  // Calculate totals
+  // Fill the shipping fields from a saved address
+  const applySavedAddress = (address: Address) => {
+    form.setValue("fullName", address.full_name);
+    form.setValue("email", address.email);
+    form.setValue("phone", address.phone);
+    form.setValue("address", address.address);
+    form.setValue("city", address.city);
+    form.setValue("state", address.state);
+    form.setValue("zipCode", address.zip_code);
+    form.setValue("saveAddress", false);
+  };
+
+  // Prefill with the default address unless the customer has started typing
   useEffect(() => {
-    if (cart?.items) {
-      const subtotal = cart.items.reduce(
-        (acc: number, item: any) => acc + item.product.price * item.quantity,
-        0
-      );
-      
-      // Shipping cost based on method
-      const shippingMethod = form.watch("shippingMethod");
-      const shipping = shippingMethod === "express" ? 14.99 : (subtotal > 35 ? 0 : 9.99);
-      
-      const tax = subtotal * 0.06; // 6% tax
-      const total = subtotal + shipping + tax;
-      setTotals({ subtotal, shipping, tax, total });
+    const defaultAddress = addresses?.find((address) => address.is_default);
+    if (defaultAddress && !form.formState.isDirty) {
+      applySavedAddress(defaultAddress);
     }
-  }, [cart, form.watch("shippingMethod")]);
+  }, [addresses]);
+
+  // Fetch the server-calculated totals for the selected shipping method
+  const shippingMethod = form.watch("shippingMethod");
+  const { data: quote } = useQuery<CartQuote>({
+    queryKey: ["/api/cart", "quote", shippingMethod],
+    queryFn: async () => {
+      const res = await fetch(`/api/cart/quote?shippingMethod=${shippingMethod}`);
+      if (!res.ok) throw new Error("Failed to fetch order totals");
+      return res.json();
+    },
+  });
+  const totals = quote ?? { subtotal: 0, shipping: 0, tax: 0, discount: 0, total: 0 };
 
   // Go to next step
   const nextStep = () => {
@@ -160,12 +188,18 @@ export default function CheckoutPage() {
     if (step === 2) {
       const orderData = {
         // Order details coming from the form
-        shipping_address: `${data.address}, ${data.city}, ${data.state} ${data.zipCode}`,
-        contact_name: data.fullName,
-        contact_email: data.email,
-        contact_phone: data.phone,
+        shipping_address: {
+          full_name: data.fullName,
+          email: data.email,
+          phone: data.phone,
+          address: data.address,
+          city: data.city,
+          state: data.state,
+          zip_code: data.zipCode,
+        },
         shipping_method: data.shippingMethod,
         payment_method: data.paymentMethod,
+        save_address: data.saveAddress,
       };
       
       orderMutation.mutate(orderData);
@@ -237,6 +271,34 @@ export default function CheckoutPage() {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
+                      {/* Saved Addresses */}
+                      {addresses && addresses.length > 0 && (
+                        <div className="space-y-2">
+                          <h3 className="text-lg font-semibold">Saved Addresses</h3>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {addresses.map((address) => (
+                              <button
+                                key={address.id}
+                                type="button"
+                                className="text-left border rounded-md p-3 text-sm hover:border-primary"
+                                onClick={() => applySavedAddress(address)}
+                              >
+                                <p className="font-medium">
+                                  {address.full_name}
+                                  {address.is_default && (
+                                    <span className="ml-2 text-xs text-gray-500">(Default)</span>
+                                  )}
+                                </p>
+                                <p className="text-gray-600">{address.address}</p>
+                                <p className="text-gray-600">
+                                  {address.city}, {address.state} {address.zip_code}
+                                </p>
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Contact Information */}
                       <div className="space-y-4">
                         <h3 className="text-lg font-semibold">Contact Information</h3>
@@ -344,6 +406,23 @@ export default function CheckoutPage() {
                             )}
                           />
                         </div>
+                        <FormField
+                          control={form.control}
+                          name="saveAddress"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                              <FormControl>
+                                <Checkbox
+                                  checked={field.value}
+                                  onCheckedChange={(checked) => field.onChange(checked === true)}
+                                />
+                              </FormControl>
+                              <FormLabel className="font-normal">
+                                Save this address for next time
+                              </FormLabel>
+                            </FormItem>
+                          )}
+                        />
                       </div>
 
                       {/* Shipping Method */}
@@ -371,9 +450,9 @@ export default function CheckoutPage() {
                                           Standard Shipping
                                         </FormLabel>
                                         <FormDescription>
-                                          {totals.subtotal > 35 
+                                          {totals.subtotal > FREE_SHIPPING_THRESHOLD 
                                             ? "Free (3-5 business days)" 
-                                            : "$9.99 (3-5 business days)"}
+                                            : `$${SHIPPING_RATES.standard} (3-5 business days)`}
                                         </FormDescription>
                                       </div>
                                     </div>
@@ -389,7 +468,7 @@ export default function CheckoutPage() {
                                           Express Shipping
                                         </FormLabel>
                                         <FormDescription>
-                                          $14.99 (1-2 business days)
+                                          ${SHIPPING_RATES.express} (1-2 business days)
                                         </FormDescription>
                                       </div>
                                     </div>
@@ -532,7 +611,7 @@ export default function CheckoutPage() {
                                     <div className="w-12 h-12 rounded overflow-hidden mr-3">
                                       <img
                                         src={
-                                          item.product.image_url ||
+                                          item.variant?.image_url || item.product.image_url ||
                                           `https://source.unsplash.com/featured/50x50?${encodeURIComponent(
                                             item.product.name.split(" ")[0]
                                           )}`
@@ -543,7 +622,7 @@ export default function CheckoutPage() {
                                     </div>
                                     <div>
                                       <p className="font-medium text-sm">
-                                        {item.product.name}
+                                        {getVariantDisplayName(item.product, item.variant)}
                                       </p>
                                       <p className="text-xs text-gray-500">
                                         {item.product.seller?.shop_name || "ShopEase"}
@@ -552,13 +631,13 @@ export default function CheckoutPage() {
                                   </div>
                                 </TableCell>
                                 <TableCell className="text-right">
-                                  ${item.product.price.toFixed(2)}
+                                  ${getVariantPrice(item.product, item.variant).toFixed(2)}
                                 </TableCell>
                                 <TableCell className="text-center">
                                   {item.quantity}
                                 </TableCell>
                                 <TableCell className="text-right font-medium">
-                                  ${(item.product.price * item.quantity).toFixed(2)}
+                                  ${(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                                 </TableCell>
                               </TableRow>
                             ))}
@@ -651,6 +730,12 @@ export default function CheckoutPage() {
                               ${totals.subtotal.toFixed(2)}
                             </span>
                           </div>
+                          {totals.discount > 0 && (
+                            <div className="flex justify-between text-green-600">
+                              <span>Discount{quote?.coupon_code ? ` (${quote.coupon_code})` : ""}</span>
+                              <span className="font-medium">-${totals.discount.toFixed(2)}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <span className="text-gray-600">Shipping</span>
                             <span className="font-medium">
@@ -707,11 +792,11 @@ export default function CheckoutPage() {
                         <div className="flex items-center">
                           <div className="bg-gray-100 w-2 h-2 rounded-full mr-2"></div>
                           <span className="text-sm">
-                            {item.quantity} x {item.product.name}
+                            {item.quantity} x {getVariantDisplayName(item.product, item.variant)}
                           </span>
                         </div>
                         <span className="text-sm font-medium">
-                          ${(item.product.price * item.quantity).toFixed(2)}
+                          ${(getVariantPrice(item.product, item.variant) * item.quantity).toFixed(2)}
                         </span>
                       </div>
                     ))}
@@ -725,6 +810,12 @@ export default function CheckoutPage() {
                       <span className="text-gray-600">Subtotal</span>
                       <span className="font-medium">${totals.subtotal.toFixed(2)}</span>
                     </div>
+                    {totals.discount > 0 && (
+                      <div className="flex justify-between text-green-600">
+                        <span>Discount{quote?.coupon_code ? ` (${quote.coupon_code})` : ""}</span>
+                        <span className="font-medium">-${totals.discount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Shipping</span>
                       <span className="font-medium">
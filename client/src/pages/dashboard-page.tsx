@@ -2,7 +2,8 @@ import { useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import SellerDashboard from "@/components/dashboard/seller-dashboard";
 import AdminDashboard from "@/components/dashboard/admin-dashboard";
 
@@ -57,6 +58,20 @@ export default function DashboardPage() {
     );
   }
 
+  // The server refuses admin requests until two-factor authentication is on
+  if (user.role === "admin" && !user.totp_enabled_at) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-4 text-center">
+        <ShieldCheck className="mb-4 h-10 w-10 text-primary" />
+        <h1 className="mb-2 text-2xl font-bold">Turn On Two-Factor Authentication</h1>
+        <p className="mb-6 max-w-md text-gray-600">
+          Admin accounts have to use two-factor authentication. Set it up to open the admin dashboard.
+        </p>
+        <Button onClick={() => navigate("/account/security")}>Set Up Two-Factor Authentication</Button>
+      </div>
+    );
+  }
+
   // Render appropriate dashboard based on user role
   return (
     <div className="flex min-h-screen bg-gray-100">
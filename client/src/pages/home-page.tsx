@@ -5,28 +5,23 @@ import ProductCard from "@/components/products/product-card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { getCategoryUrl, getChildCategories, type CategoryWithPath } from "@shared/categories";
 
 export default function HomePage() {
-  // Fetch featured products
-  const { data: products, isLoading: isLoadingProducts } = useQuery({
-    queryKey: ["/api/products"],
-    queryFn: async () => {
-      const res = await fetch("/api/products?status=active");
-      if (!res.ok) throw new Error("Failed to fetch products");
-      return res.json();
-    },
-  });
+  // Fetch featured products (the 4 newest active products)
+  const { items: featuredProducts, isLoading: isLoadingProducts } = usePaginatedQuery<any>(
+    "/api/products",
+    { limit: 4, filter: { status: "active" } },
+  );
 
   // Fetch categories
-  const { data: categories, isLoading: isLoadingCategories } = useQuery({
+  const { data: categories, isLoading: isLoadingCategories } = useQuery<CategoryWithPath[]>({
     queryKey: ["/api/categories"],
   });
 
-  // Featured products (just take first 4 active products)
-  const featuredProducts = products?.filter((p: any) => p.status === "active").slice(0, 4) || [];
-
-  // Popular categories (all categories for now)
-  const popularCategories = categories || [];
+  // Popular categories (the top-level ones for now)
+  const popularCategories = getChildCategories(categories ?? [], null);
 
   return (
     <MainLayout>
@@ -48,10 +43,10 @@ export default function HomePage() {
                     </div>
                   </div>
                 ))
-            : popularCategories.slice(0, 4).map((category: any) => (
+            : popularCategories.slice(0, 4).map((category) => (
                 <Link
                   key={category.id}
-                  href={`/categories/${category.id}`}
+                  href={getCategoryUrl(category)}
                   className="block group"
                 >
                   <div className="bg-white rounded-lg shadow-sm overflow-hidden group-hover:shadow-md transition-shadow duration-300 h-full">
@@ -1,13 +1,24 @@
 import { useState } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import MainLayout from "@/components/layout/main-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { usePaginatedQuery } from "@/hooks/use-paginated-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   CheckCircle2,
   Package, 
@@ -19,7 +30,9 @@ import {
   BarChart4,
   Home,
   User,
-  ShoppingCart
+  ShoppingCart,
+  History,
+  RotateCcw
 } from "lucide-react";
 import { 
   Table, 
@@ -38,14 +51,28 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Tabs,
   TabsContent,
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
+import ReviewDialog from "@/components/products/review-dialog";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
+import { formatOrderStatus, canTransitionOrder, canCancelShipments, OrderActor } from "@shared/order-status";
+import { OrderStatusHistory, ReturnRequest, returnReasons } from "@shared/schema";
+import { formatReturnReason, isOpenReturn, calculateReturnRefund } from "@shared/returns";
 
 // Helper function to get status badge variant based on order status
 const getStatusBadgeVariant = (status: string) => {
@@ -55,6 +82,7 @@ const getStatusBadgeVariant = (status: string) => {
     case "shipped":
       return "default";
     case "processing":
+    case "pending_payment":
       return "warning";
     case "cancelled":
       return "destructive";
@@ -63,6 +91,30 @@ const getStatusBadgeVariant = (status: string) => {
   }
 };
 
+// What the payment step says while the payment isn't captured yet
+const getPaymentStatusText = (status?: string) => {
+  switch (status) {
+    case "requires_action":
+      return "Waiting for you to confirm with your bank";
+    case "authorized":
+      return "Authorized, awaiting capture";
+    case "failed":
+      return "Payment failed";
+    case "voided":
+      return "Payment voided";
+    default:
+      return "Pending confirmation";
+  }
+};
+
+// How many of an order item can still be returned, given its earlier returns
+const getReturnableQuantity = (item: any, returns: ReturnRequest[] = []) => {
+  const returned = returns
+    .filter(r => r.order_item_id === item.id && isOpenReturn(r.status))
+    .reduce((sum, r) => sum + r.quantity, 0);
+  return item.quantity - returned;
+};
+
 export default function OrderPage() {
   const { id } = useParams();
   const [, navigate] = useLocation();
@@ -70,6 +122,12 @@ export default function OrderPage() {
   const { user } = useAuth();
   const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false);
+  const [returnItem, setReturnItem] = useState<any>(null);
+  const [returnQuantity, setReturnQuantity] = useState(1);
+  const [returnReason, setReturnReason] = useState<string>(returnReasons[0]);
+  const [returnDetails, setReturnDetails] = useState("");
+  const [returnPhotos, setReturnPhotos] = useState("");
 
   // Fetch single order if ID is provided
   const {
@@ -81,16 +139,70 @@ export default function OrderPage() {
     enabled: !!id,
   });
 
-  // Fetch all orders if no ID is provided
+  // Fetch orders, newest first, if no ID is provided
   const {
-    data: orders,
+    items: orders,
     isLoading: isLoadingOrders,
     isError: isOrdersError,
-  } = useQuery({
-    queryKey: [!id ? "/api/orders" : null],
-    enabled: !id,
+    hasNextPage: hasMoreOrders,
+    fetchNextPage: fetchMoreOrders,
+    isFetchingNextPage: isFetchingMoreOrders,
+  } = usePaginatedQuery<any>("/api/orders", {}, { enabled: !id });
+
+  // Cancel the order; the server restocks it and refunds the payment
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (orderId: number) => {
+      return await apiRequest("POST", `/api/orders/${orderId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setIsCancelDialogOpen(false);
+      toast({
+        title: "Order cancelled",
+        description: "Your order has been cancelled and your payment will be refunded.",
+      });
+    },
+    onError: (error: Error) => {
+      setIsCancelDialogOpen(false);
+      toast({
+        title: "Couldn't cancel order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
+  // Request a return for one order item
+  const requestReturnMutation = useMutation({
+    mutationFn: async ({ orderId, data }: { orderId: number; data: Record<string, unknown> }) => {
+      return await apiRequest("POST", `/api/orders/${orderId}/returns`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}`] });
+      setReturnItem(null);
+      toast({
+        title: "Return requested",
+        description: "The seller will review your request shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't request return",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReturnDialog = (item: any) => {
+    setReturnItem(item);
+    setReturnQuantity(1);
+    setReturnReason(returnReasons[0]);
+    setReturnDetails("");
+    setReturnPhotos("");
+  };
+
   // Loading states
   const isLoading = id ? isLoadingSingleOrder : isLoadingOrders;
   const isError = id ? isSingleOrderError : isOrdersError;
@@ -144,9 +256,15 @@ export default function OrderPage() {
     if (!order) return null;
 
     const orderDate = new Date(order.order_date);
-    const estimatedDelivery = order.shipment?.estimated_delivery
-      ? new Date(order.shipment.estimated_delivery)
+    // Each seller ships separately, so the order arrives with its last shipment
+    const shipments: any[] = (order.shipments || []).filter((s: any) => s.status !== "cancelled");
+    const estimatedDeliveries = shipments
+      .filter((s: any) => s.estimated_delivery)
+      .map((s: any) => new Date(s.estimated_delivery).getTime());
+    const estimatedDelivery = estimatedDeliveries.length > 0
+      ? new Date(Math.max(...estimatedDeliveries))
       : new Date(orderDate.getTime() + 7 * 24 * 60 * 60 * 1000); // Default: 7 days from order date
+    const firstShipped = shipments.find((s: any) => s.status === "shipped" || s.status === "delivered");
 
     return (
       <>
@@ -162,7 +280,7 @@ export default function OrderPage() {
             variant={getStatusBadgeVariant(order.status)}
             className="mt-2 sm:mt-0 w-fit"
           >
-            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+            {formatOrderStatus(order.status)}
           </Badge>
         </div>
 
@@ -207,7 +325,7 @@ export default function OrderPage() {
                         <p className="text-sm text-gray-600">
                           {order.payment?.status === "completed"
                             ? format(new Date(order.payment.payment_date), "MMMM d, yyyy")
-                            : "Pending confirmation"}
+                            : getPaymentStatusText(order.payment?.status)}
                         </p>
                       </div>
                     </div>
@@ -224,16 +342,29 @@ export default function OrderPage() {
                         <h3 className="font-semibold">Order Shipped</h3>
                         <p className="text-sm text-gray-600">
                           {order.status === "shipped" || order.status === "delivered"
-                            ? order.shipment?.shipment_date 
-                              ? format(new Date(order.shipment.shipment_date), "MMMM d, yyyy")
+                            ? firstShipped?.shipment_date 
+                              ? format(new Date(firstShipped.shipment_date), "MMMM d, yyyy")
                               : "Your order is on the way"
-                            : "Preparing your order"}
+                            : firstShipped
+                              ? "Some of your items are on the way"
+                              : "Preparing your order"}
                         </p>
-                        {order.shipment?.tracking_number && (
-                          <p className="text-sm text-primary mt-1">
-                            Tracking: {order.shipment.tracking_number}
+                        {shipments.map((shipment: any, index: number) => (
+                          <p key={shipment.id} className="text-sm mt-1">
+                            {shipments.length > 1 && (
+                              <span className="text-gray-600">
+                                Shipment {index + 1} of {shipments.length}: {formatOrderStatus(shipment.status)}
+                                {shipment.tracking_number && " • "}
+                              </span>
+                            )}
+                            {shipment.tracking_number && (
+                              <span className="text-primary">
+                                Tracking: {shipment.tracking_number}
+                                {shipment.carrier && ` (${shipment.carrier})`}
+                              </span>
+                            )}
                           </p>
-                        )}
+                        ))}
                       </div>
                     </div>
 
@@ -258,6 +389,43 @@ export default function OrderPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Status History */}
+            {order.status_history?.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Status History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                    {order.status_history.map((entry: OrderStatusHistory) => (
+                      <li key={entry.id} className="ml-6">
+                        <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-white ring-2 ring-gray-200">
+                          <History className="h-3 w-3 text-gray-500" />
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">
+                            {formatOrderStatus(entry.to_status)}
+                          </Badge>
+                          {entry.from_status && (
+                            <span className="text-xs text-gray-500">
+                              from {formatOrderStatus(entry.from_status)}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {format(new Date(entry.changed_at), "MMMM d, yyyy h:mm a")} • by{" "}
+                          {entry.actor_role === "system" ? "ShopEase" : entry.actor_role}
+                        </p>
+                        {entry.note && (
+                          <p className="text-sm text-gray-500">{entry.note}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Order Summary */}
@@ -271,13 +439,23 @@ export default function OrderPage() {
                   <h4 className="font-medium text-sm text-gray-500 mb-2">SHIPPING ADDRESS</h4>
                   <div className="flex items-start space-x-2">
                     <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
-                    <div>
-                      <p>{order.contact_name || "Customer"}</p>
-                      <p className="text-gray-600">{order.shipping_address}</p>
-                      {order.contact_phone && (
-                        <p className="text-gray-600">{order.contact_phone}</p>
-                      )}
-                    </div>
+                    {order.shipping_address ? (
+                      <div>
+                        <p>{order.shipping_full_name}</p>
+                        <p className="text-gray-600">{order.shipping_address}</p>
+                        <p className="text-gray-600">
+                          {order.shipping_city}, {order.shipping_state} {order.shipping_zip_code}
+                        </p>
+                        {order.shipping_phone && (
+                          <p className="text-gray-600">{order.shipping_phone}</p>
+                        )}
+                        {order.shipping_email && (
+                          <p className="text-gray-600">{order.shipping_email}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-gray-600">No shipping address on file</p>
+                    )}
                   </div>
                 </div>
 
@@ -318,11 +496,21 @@ export default function OrderPage() {
                   <div className="space-y-1">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Subtotal</span>
-                      <span>${(order.total_price * 0.94).toFixed(2)}</span>
+                      <span>${order.subtotal.toFixed(2)}</span>
+                    </div>
+                    {order.discount > 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">Discount</span>
+                        <span className="text-green-600">-${order.discount.toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Shipping</span>
+                      <span>{order.shipping_cost === 0 ? "Free" : `$${order.shipping_cost.toFixed(2)}`}</span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Tax</span>
-                      <span>${(order.total_price * 0.06).toFixed(2)}</span>
+                      <span>${order.tax.toFixed(2)}</span>
                     </div>
                     <div className="flex justify-between font-medium mt-2">
                       <span>Total</span>
@@ -372,6 +560,9 @@ export default function OrderPage() {
                         </div>
                         <div>
                           <p className="font-medium">{item.product?.name || "Product"}</p>
+                          {item.variant_label && (
+                            <p className="text-sm text-gray-700">{item.variant_label}</p>
+                          )}
                           <p className="text-sm text-gray-500">
                             {item.product?.seller?.shop_name || "Shop"}
                           </p>
@@ -385,6 +576,13 @@ export default function OrderPage() {
                     </TableCell>
                     {order.status === "delivered" && user?.role === "customer" && (
                       <TableCell className="text-right">
+                        {order.returns
+                          ?.filter((r: ReturnRequest) => r.order_item_id === item.id)
+                          .map((r: ReturnRequest) => (
+                            <Badge key={r.id} variant="outline" className="mr-2">
+                              Return {r.status}
+                            </Badge>
+                          ))}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -397,6 +595,17 @@ export default function OrderPage() {
                           <Star className="h-4 w-4 mr-1" />
                           Review
                         </Button>
+                        {getReturnableQuantity(item, order.returns) > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => openReturnDialog(item)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Request return
+                          </Button>
+                        )}
                       </TableCell>
                     )}
                   </TableRow>
@@ -410,8 +619,39 @@ export default function OrderPage() {
           <Button variant="outline" onClick={() => navigate("/orders")}>
             Back to Orders
           </Button>
-          <Button onClick={() => window.print()}>Print Receipt</Button>
+          <div className="flex gap-2">
+            {user && canTransitionOrder(order.status, "cancelled", user.role as OrderActor) &&
+              canCancelShipments((order.shipments || []).map((s: any) => s.status)) && (
+              <Button variant="destructive" onClick={() => setIsCancelDialogOpen(true)}>
+                Cancel Order
+              </Button>
+            )}
+            <Button onClick={() => window.print()}>Print Receipt</Button>
+          </div>
         </div>
+
+        <AlertDialog open={isCancelDialogOpen} onOpenChange={setIsCancelDialogOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The order will be cancelled and any payment refunded. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Order</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  cancelOrderMutation.mutate(order.id);
+                }}
+                disabled={cancelOrderMutation.isPending}
+              >
+                {cancelOrderMutation.isPending ? "Cancelling..." : "Cancel Order"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </>
     );
   };
@@ -516,7 +756,7 @@ export default function OrderPage() {
                               </TableCell>
                               <TableCell onClick={() => navigate(`/orders/${order.id}`)}>
                                 <Badge variant={getStatusBadgeVariant(order.status)}>
-                                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                  {formatOrderStatus(order.status)}
                                 </Badge>
                               </TableCell>
                               <TableCell className="text-right">
@@ -621,7 +861,10 @@ export default function OrderPage() {
                                 ${order.total_price.toFixed(2)}
                               </TableCell>
                               <TableCell onClick={() => navigate(`/orders/${order.id}`)}>
-                                {order.shipment?.tracking_number || "N/A"}
+                                {order.shipments
+                                  ?.map((shipment: any) => shipment.tracking_number)
+                                  .filter(Boolean)
+                                  .join(", ") || "N/A"}
                               </TableCell>
                               <TableCell className="text-right">
                                 <Button
@@ -756,7 +999,7 @@ export default function OrderPage() {
                               </TableCell>
                               <TableCell onClick={() => navigate(`/orders/${order.id}`)}>
                                 <Badge variant={getStatusBadgeVariant(order.status)}>
-                                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                                  {formatOrderStatus(order.status)}
                                 </Badge>
                               </TableCell>
                               <TableCell className="text-right">
@@ -778,89 +1021,129 @@ export default function OrderPage() {
             </TabsContent>
           )}
         </Tabs>
+        {hasMoreOrders && (
+          <div className="text-center mt-6">
+            <Button
+              variant="outline"
+              onClick={() => fetchMoreOrders()}
+              disabled={isFetchingMoreOrders}
+            >
+              {isFetchingMoreOrders ? "Loading..." : "Load more orders"}
+            </Button>
+          </div>
+        )}
       </>
     );
   };
 
   // Review dialog for products
   const renderReviewDialog = () => (
-    <Dialog open={isReviewDialogOpen} onOpenChange={setIsReviewDialogOpen}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Write a Review</DialogTitle>
-          <DialogDescription>
-            Share your experience with this product
-          </DialogDescription>
-        </DialogHeader>
-        
-        {selectedProduct && (
-          <div className="mb-4 flex items-center">
-            <div className="w-16 h-16 rounded overflow-hidden mr-3">
-              <img
-                src={
-                  selectedProduct.image_url ||
-                  `https://source.unsplash.com/featured/100x100?${encodeURIComponent(
-                    selectedProduct.name.split(" ")[0]
-                  )}`
-                }
-                alt={selectedProduct.name}
-                className="w-full h-full object-cover"
-              />
-            </div>
-            <div>
-              <h3 className="font-medium">{selectedProduct.name}</h3>
-              <p className="text-sm text-gray-500">
-                {selectedProduct.seller?.shop_name || "Shop"}
-              </p>
-            </div>
-          </div>
-        )}
+    <ReviewDialog
+      product={selectedProduct}
+      open={isReviewDialogOpen}
+      onOpenChange={setIsReviewDialogOpen}
+    />
+  );
 
-        <div className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium mb-1">Rating</label>
-            <div className="flex space-x-1">
-              {[1, 2, 3, 4, 5].map((rating) => (
-                <Star
-                  key={rating}
-                  className="h-8 w-8 cursor-pointer text-gray-300 hover:text-amber-400"
+  // Return request dialog
+  const renderReturnDialog = (order: any) => {
+    const returnable = returnItem ? getReturnableQuantity(returnItem, order.returns) : 0;
+
+    return (
+      <Dialog open={!!returnItem} onOpenChange={(open) => !open && setReturnItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request a Return</DialogTitle>
+            <DialogDescription>
+              {returnItem?.product?.name || "Product"}. Once the seller approves your request,
+              send the item back and you'll be refunded when it arrives.
+            </DialogDescription>
+          </DialogHeader>
+
+          {returnItem && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Quantity</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={returnable}
+                  value={returnQuantity}
+                  onChange={(e) => setReturnQuantity(Math.min(Math.max(parseInt(e.target.value) || 1, 1), returnable))}
                 />
-              ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Reason</label>
+                <Select value={returnReason} onValueChange={setReturnReason}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {returnReasons.map((reason) => (
+                      <SelectItem key={reason} value={reason}>
+                        {formatReturnReason(reason)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Details</label>
+                <Textarea
+                  value={returnDetails}
+                  onChange={(e) => setReturnDetails(e.target.value)}
+                  placeholder="Tell the seller what's wrong with the item..."
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Photo links (one per line, up to 5)</label>
+                <Textarea
+                  value={returnPhotos}
+                  onChange={(e) => setReturnPhotos(e.target.value)}
+                  placeholder="https://..."
+                />
+              </div>
+
+              <p className="text-sm text-gray-500">
+                Estimated refund: ${calculateReturnRefund(order, returnItem, returnQuantity).toFixed(2)}
+              </p>
             </div>
-          </div>
-          
-          <div>
-            <label className="block text-sm font-medium mb-1">Your Review</label>
-            <textarea
-              className="w-full min-h-[100px] rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              placeholder="Share your thoughts about this product..."
-            ></textarea>
-          </div>
-        </div>
+          )}
 
-        <DialogFooter>
-          <Button variant="outline" onClick={() => setIsReviewDialogOpen(false)}>
-            Cancel
-          </Button>
-          <Button onClick={() => {
-            toast({
-              title: "Review Submitted",
-              description: "Thank you for your feedback!",
-            });
-            setIsReviewDialogOpen(false);
-          }}>
-            Submit Review
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-  );
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturnItem(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={requestReturnMutation.isPending}
+              onClick={() => requestReturnMutation.mutate({
+                orderId: order.id,
+                data: {
+                  order_item_id: returnItem.id,
+                  quantity: returnQuantity,
+                  reason: returnReason,
+                  details: returnDetails.trim() || null,
+                  photos: returnPhotos.split("\n").map((url) => url.trim()).filter(Boolean)
+                }
+              })}
+            >
+              {requestReturnMutation.isPending ? "Submitting..." : "Request Return"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
 
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
         {renderContent()}
         {renderReviewDialog()}
+        {!!order && renderReturnDialog(order)}
       </div>
     </MainLayout>
   );
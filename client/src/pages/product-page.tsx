@@ -9,30 +9,87 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { useWishlist } from "@/hooks/use-wishlist";
 import { Skeleton } from "@/components/ui/skeleton";
+import VariantPicker from "@/components/products/variant-picker";
+import ProductImageGallery from "@/components/products/product-image-gallery";
+import CategoryBreadcrumbs from "@/components/products/category-breadcrumbs";
+import ReviewCard from "@/components/products/review-card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { ProductVariant, ReviewImage } from "@shared/schema";
+import { findVariant, getVariantPrice } from "@shared/variants";
+import { getCategoryAncestors, type CategoryWithPath } from "@shared/categories";
+import { formatAttributeValue, type ProductAttribute } from "@shared/attributes";
+import { getProductImageUrl } from "@shared/product-images";
+import { REVIEW_SORT_LABELS, reviewSortOptions, type ProductReview, type ReviewSort } from "@shared/reviews";
 
 export default function ProductPage() {
   const { id } = useParams();
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { isInWishlist, toggleWishlist, isToggling } = useWishlist();
   const [quantity, setQuantity] = useState(1);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [reviewSort, setReviewSort] = useState<ReviewSort>("helpful");
+  const [withPhotos, setWithPhotos] = useState(false);
+  const [openImage, setOpenImage] = useState<ReviewImage | null>(null);
 
   // Fetch product details
   const {
     data: product,
     isLoading,
     isError,
-  } = useQuery({
+  } = useQuery<any>({
     queryKey: [`/api/products/${id}`],
   });
 
+  // A product with variants is bought as the one its picked options match;
+  // price and stock follow that variant, and its image leads the gallery
+  const variantOptions = product?.variant_options ?? [];
+  const selectedVariant = findVariant<ProductVariant>(product?.variants ?? [], selection);
+  const needsVariant = variantOptions.length > 0 && !selectedVariant;
+  const price = product ? getVariantPrice(product, selectedVariant) : undefined;
+  const stock = selectedVariant?.stock ?? product?.stock;
+
+  // The breadcrumbs follow the product's first category up to the top level
+  const { data: categories } = useQuery<CategoryWithPath[]>({
+    queryKey: ["/api/categories"],
+  });
+  const category = categories?.find((c) => c.id === product?.categories?.[0]?.id);
+  const breadcrumbCategories = categories && category
+    ? [...getCategoryAncestors(categories, category), category]
+    : [];
+
   // Fetch product reviews
-  const { data: reviews } = useQuery({
-    queryKey: [`/api/products/${id}/reviews`],
+  const { data: reviews } = useQuery<ProductReview[]>({
+    queryKey: [`/api/products/${id}/reviews?sort=${reviewSort}${withPhotos ? "&with_photos=true" : ""}`],
     enabled: !!id,
   });
+  // Every review with photos is in the list with or without the filter
+  const customerImages = (reviews ?? []).flatMap((review) => review.images);
+
+  // Sellers reply to reviews of their own products
+  const { data: seller } = useQuery({
+    queryKey: ["/api/sellers"],
+    queryFn: async () => {
+      const res = await fetch(`/api/sellers?userId=${user?.id}`);
+      if (!res.ok) throw new Error("Failed to fetch seller information");
+      const data = await res.json();
+      return data.items[0]; // A one-item page with the seller's own profile
+    },
+    enabled: !!user && user.role === "seller",
+  });
+  const canReply = !!seller && seller.id === product?.seller_id;
 
   // Add to cart mutation
   const addToCartMutation = useMutation({
@@ -42,6 +99,7 @@ export default function ProductPage() {
       }
       return apiRequest("POST", "/api/cart/items", {
         product_id: parseInt(id as string),
+        variant_id: selectedVariant?.id,
         quantity,
       });
     },
@@ -69,11 +127,16 @@ export default function ProductPage() {
   };
 
   const incrementQuantity = () => {
-    if (product && quantity < product.stock) {
+    if (product && quantity < stock) {
       setQuantity(quantity + 1);
     }
   };
 
+  const handleSelectionChange = (next: Record<string, string>) => {
+    setSelection(next);
+    setQuantity(1);
+  };
+
   const decrementQuantity = () => {
     if (quantity > 1) {
       setQuantity(quantity - 1);
@@ -98,23 +161,17 @@ export default function ProductPage() {
     );
   }
 
-  // Calculate average rating
-  const averageRating =
-    reviews && reviews.length > 0
-      ? (
-          reviews.reduce(
-            (acc: number, review: any) => acc + review.rating,
-            0
-          ) / reviews.length
-        ).toFixed(1)
-      : "0.0";
+  // The rating summary comes with the product, so it's there before the
+  // reviews load
+  const reviewCount: number = product?.review_count ?? 0;
+  const averageRating = (product?.rating ?? 0).toFixed(1);
 
   // Format reviews by rating (5 star, 4 star, etc.)
   const reviewsByRating = Array.from({ length: 5 }, (_, i) => {
     const rating = 5 - i;
-    const count = reviews?.filter((r: any) => r.rating === rating).length || 0;
-    const percentage = reviews?.length
-      ? Math.round((count / reviews.length) * 100)
+    const count: number = product?.rating_histogram?.[rating - 1] ?? 0;
+    const percentage = reviewCount
+      ? Math.round((count / reviewCount) * 100)
       : 0;
     return { rating, count, percentage };
   });
@@ -143,21 +200,21 @@ export default function ProductPage() {
           </div>
         ) : (
           <>
+            <CategoryBreadcrumbs categories={breadcrumbCategories} current={product?.name ?? ""} />
             <div className="flex flex-col md:flex-row gap-8">
-              {/* Product Image */}
+              {/* Product Images */}
               <div className="md:w-1/2">
-                <div className="rounded-lg overflow-hidden bg-white shadow-md">
-                  <img
-                    src={
-                      product?.image_url ||
-                      `https://source.unsplash.com/featured/600x600?${encodeURIComponent(
-                        product?.name?.split(" ")[0] || "product"
-                      )}`
-                    }
-                    alt={product?.name}
-                    className="w-full h-auto object-cover"
-                  />
-                </div>
+                <ProductImageGallery
+                  images={product?.images ?? []}
+                  productName={product?.name ?? ""}
+                  variantImageUrl={selectedVariant?.image_url}
+                  fallbackUrl={
+                    product?.image_url ||
+                    `https://source.unsplash.com/featured/600x600?${encodeURIComponent(
+                      product?.name?.split(" ")[0] || "product"
+                    )}`
+                  }
+                />
               </div>
 
               {/* Product Details */}
@@ -183,21 +240,21 @@ export default function ProductPage() {
                     ))}
                   </div>
                   <span className="ml-2 text-gray-600">
-                    {averageRating} ({reviews?.length || 0} reviews)
+                    {averageRating} ({reviewCount} reviews)
                   </span>
                 </div>
 
                 {/* Price */}
                 <div className="mb-6">
                   <span className="text-3xl font-bold text-gray-800">
-                    ${product?.price?.toFixed(2)}
+                    ${price?.toFixed(2)}
                   </span>
-                  {product?.stock < 10 && product?.stock > 0 && (
+                  {stock < 10 && stock > 0 && (
                     <Badge variant="outline" className="ml-2 text-yellow-700 border-yellow-300 bg-yellow-50">
-                      Only {product.stock} left
+                      Only {stock} left
                     </Badge>
                   )}
-                  {product?.stock === 0 && (
+                  {stock === 0 && (
                     <Badge variant="destructive" className="ml-2">
                       Out of Stock
                     </Badge>
@@ -217,6 +274,18 @@ export default function ProductPage() {
                   </p>
                 </div>
 
+                {/* Option Pickers */}
+                {variantOptions.length > 0 && (
+                  <div className="mb-6">
+                    <VariantPicker
+                      options={variantOptions}
+                      variants={product.variants}
+                      selection={selection}
+                      onChange={handleSelectionChange}
+                    />
+                  </div>
+                )}
+
                 {/* Quantity Selector */}
                 <div className="mb-6">
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -239,7 +308,7 @@ export default function ProductPage() {
                       variant="outline"
                       size="icon"
                       onClick={incrementQuantity}
-                      disabled={!product || quantity >= product.stock}
+                      disabled={!product || quantity >= stock}
                       className="h-10 w-10"
                     >
                       <Plus className="h-4 w-4" />
@@ -255,18 +324,31 @@ export default function ProductPage() {
                     onClick={handleAddToCart}
                     disabled={
                       !product ||
-                      product.stock === 0 ||
+                      needsVariant ||
+                      stock === 0 ||
                       addToCartMutation.isPending
                     }
                   >
                     <ShoppingCart className="mr-2 h-5 w-5" />
                     {addToCartMutation.isPending
                       ? "Adding..."
+                      : needsVariant
+                      ? "Choose Options"
                       : "Add to Cart"}
                   </Button>
-                  <Button size="lg" variant="outline" className="flex-1">
-                    <Heart className="mr-2 h-5 w-5" />
-                    Add to Wishlist
+                  <Button
+                    size="lg"
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => toggleWishlist(parseInt(id as string))}
+                    disabled={!product || isToggling}
+                  >
+                    <Heart
+                      className={`mr-2 h-5 w-5 ${isInWishlist(parseInt(id as string)) ? "fill-red-500 text-red-500" : ""}`}
+                    />
+                    {isInWishlist(parseInt(id as string))
+                      ? "In Wishlist"
+                      : "Add to Wishlist"}
                   </Button>
                 </div>
               </div>
@@ -278,7 +360,7 @@ export default function ProductPage() {
                 <TabsList className="w-full md:w-auto">
                   <TabsTrigger value="details">Product Details</TabsTrigger>
                   <TabsTrigger value="reviews">
-                    Reviews ({reviews?.length || 0})
+                    Reviews ({reviewCount})
                   </TabsTrigger>
                 </TabsList>
                 <TabsContent value="details" className="mt-6">
@@ -293,6 +375,11 @@ export default function ProductPage() {
                         </h4>
                         <ul className="mt-2 space-y-1 text-gray-600">
                           <li>Category: {product?.categories?.[0]?.category_name || "Uncategorized"}</li>
+                          {(product?.attributes ?? []).map((attribute: ProductAttribute) => (
+                            <li key={attribute.id}>
+                              {attribute.name}: {formatAttributeValue(attribute, attribute.value)}
+                            </li>
+                          ))}
                           <li>Added: {new Date(product?.added_date).toLocaleDateString()}</li>
                           <li>Status: {product?.status}</li>
                         </ul>
@@ -347,7 +434,7 @@ export default function ProductPage() {
                               ))}
                             </div>
                             <span className="text-sm text-gray-500">
-                              Based on {reviews?.length || 0} reviews
+                              Based on {reviewCount} reviews
                             </span>
                           </div>
                         </div>
@@ -392,44 +479,69 @@ export default function ProductPage() {
 
                       {/* Review List */}
                       <div className="md:w-2/3">
-                        {reviews && reviews.length > 0 ? (
+                        {reviewCount > 0 ? (
                           <div className="space-y-6">
-                            {reviews.map((review: any) => (
-                              <div
-                                key={review.id}
-                                className="border-b pb-6 last:border-0"
-                              >
-                                <div className="flex justify-between mb-2">
-                                  <div className="flex items-center">
-                                    <div className="flex text-amber-400">
-                                      {[...Array(5)].map((_, i) => (
-                                        <Star
-                                          key={i}
-                                          className={`h-4 w-4 ${
-                                            i < review.rating
-                                              ? "fill-current"
-                                              : "text-gray-300"
-                                          }`}
-                                        />
-                                      ))}
-                                    </div>
-                                    <h4 className="font-medium ml-2">
-                                      {review.customer?.name ||
-                                        "Verified Customer"}
-                                    </h4>
-                                  </div>
-                                  <span className="text-sm text-gray-500">
-                                    {format(
-                                      new Date(review.review_date),
-                                      "MMM d, yyyy"
-                                    )}
-                                  </span>
+                            {customerImages.length > 0 && (
+                              <div>
+                                <h4 className="font-medium mb-2">
+                                  Customer Photos ({customerImages.length})
+                                </h4>
+                                <div className="flex gap-2 overflow-x-auto pb-2">
+                                  {customerImages.map((image) => (
+                                    <button
+                                      key={image.id}
+                                      type="button"
+                                      className="flex-shrink-0"
+                                      onClick={() => setOpenImage(image)}
+                                    >
+                                      <img
+                                        src={getProductImageUrl(image, "small")}
+                                        alt="Customer photo"
+                                        className="h-24 w-24 rounded object-cover"
+                                      />
+                                    </button>
+                                  ))}
                                 </div>
-                                <p className="text-gray-700">
-                                  {review.review_text}
-                                </p>
                               </div>
+                            )}
+                            <div className="flex items-center justify-between gap-4">
+                              <div className="flex items-center space-x-2">
+                                <Checkbox
+                                  id="reviews-with-photos"
+                                  checked={withPhotos}
+                                  onCheckedChange={(checked) => setWithPhotos(checked === true)}
+                                />
+                                <Label htmlFor="reviews-with-photos">With photos</Label>
+                              </div>
+                              <Select
+                                value={reviewSort}
+                                onValueChange={(value) => setReviewSort(value as ReviewSort)}
+                              >
+                                <SelectTrigger className="w-48">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {reviewSortOptions.map((option) => (
+                                    <SelectItem key={option} value={option}>
+                                      {REVIEW_SORT_LABELS[option]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {reviews?.map((review) => (
+                              <ReviewCard
+                                key={review.id}
+                                review={review}
+                                canReply={canReply}
+                                onImageClick={setOpenImage}
+                              />
                             ))}
+                            {reviews?.length === 0 && withPhotos && (
+                              <p className="text-center text-gray-500 py-8">
+                                No reviews with photos yet.
+                              </p>
+                            )}
                           </div>
                         ) : (
                           <div className="text-center py-8">
@@ -447,6 +559,19 @@ export default function ProductPage() {
           </>
         )}
       </div>
+
+      <Dialog open={!!openImage} onOpenChange={(open) => !open && setOpenImage(null)}>
+        <DialogContent className="sm:max-w-[900px]">
+          <DialogTitle className="sr-only">Customer photo</DialogTitle>
+          {openImage && (
+            <img
+              src={getProductImageUrl(openImage, "large")}
+              alt="Customer photo"
+              className="max-h-[80vh] w-full rounded object-contain"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
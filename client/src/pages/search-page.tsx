@@ -0,0 +1,397 @@
+import { useState, useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import MainLayout from "@/components/layout/main-layout";
+import ProductCard from "@/components/products/product-card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  searchSortOptions,
+  SEARCH_SORT_LABELS,
+  SearchFacets,
+  SearchSort,
+} from "@shared/search";
+
+type NamedFacetCount = { id: number; count: number; name?: string };
+
+type SearchResponse = {
+  results: any[];
+  facets: Omit<SearchFacets, "categories" | "sellers"> & {
+    categories: NamedFacetCount[];
+    sellers: NamedFacetCount[];
+  };
+  total: number;
+  next_cursor: string | null;
+};
+
+// Filters that live in the page URL and are passed straight to GET /api/search
+const FILTER_PARAMS = ["category", "seller", "min_price", "max_price", "min_rating", "in_stock", "sort"];
+
+export default function SearchPage() {
+  const [, navigate] = useLocation();
+  const searchString = useSearch();
+  const params = new URLSearchParams(searchString);
+  // The navigation bar and category pages link here with ?search= and ?categoryId=
+  const query = params.get("search") ?? "";
+  const selectedCategories = (params.get("category") ?? params.get("categoryId") ?? "")
+    .split(",").filter(Boolean).map(Number);
+  const selectedSellers = (params.get("seller") ?? "").split(",").filter(Boolean).map(Number);
+  const sort = (params.get("sort") ?? "relevance") as SearchSort;
+
+  const [searchInput, setSearchInput] = useState(query);
+  useEffect(() => setSearchInput(query), [query]);
+
+  // The API query string for the current page URL
+  const apiParams = new URLSearchParams();
+  if (query) apiParams.set("q", query);
+  if (selectedCategories.length > 0) apiParams.set("category", selectedCategories.join(","));
+  FILTER_PARAMS.filter(name => name !== "category").forEach(name => {
+    const value = params.get(name);
+    if (value) apiParams.set(name, value);
+  });
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<SearchResponse>({
+    queryKey: ["/api/search", apiParams.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(apiParams);
+      if (pageParam) pageParams.set("cursor", pageParam as string);
+      const res = await fetch(`/api/search?${pageParams.toString()}`);
+      if (!res.ok) throw new Error("Failed to search products");
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.next_cursor ?? undefined,
+  });
+
+  const results = data?.pages.flatMap(page => page.results) ?? [];
+  const facets = data?.pages[0]?.facets;
+  const total = data?.pages[0]?.total ?? 0;
+
+  // Replaces the given URL params, keeping the rest
+  const updateParams = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(searchString);
+    next.delete("categoryId");
+    if (selectedCategories.length > 0 && !("category" in changes)) {
+      next.set("category", selectedCategories.join(","));
+    }
+    Object.entries(changes).forEach(([name, value]) => {
+      if (value) next.set(name, value);
+      else next.delete(name);
+    });
+    navigate(`/products?${next.toString()}`);
+  };
+
+  const toggleId = (ids: number[], id: number) =>
+    (ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id]).join(",") || undefined;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParams({ search: searchInput.trim() || undefined });
+  };
+
+  const clearFilters = () => {
+    navigate(query ? `/products?search=${encodeURIComponent(query)}` : "/products");
+  };
+
+  const selectedMinPrice = params.get("min_price");
+  const selectedMaxPrice = params.get("max_price");
+  const selectedMinRating = params.get("min_rating");
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        {/* Search Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-800">
+            {query ? `Results for "${query}"` : "All Products"}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            {isLoading ? "Searching..." : `${total} products found`}
+          </p>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-8">
+          {/* Sidebar Filters */}
+          <div className="w-full md:w-1/4">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              {/* Search */}
+              <form onSubmit={handleSearch} className="mb-6">
+                <h3 className="text-lg font-semibold mb-3">Search</h3>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Search products..."
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                  />
+                  <Button type="submit" size="sm">
+                    Search
+                  </Button>
+                </div>
+              </form>
+
+              <Accordion
+                type="multiple"
+                defaultValue={["categories", "price", "rating", "sellers", "availability"]}
+              >
+                {/* Categories */}
+                <AccordionItem value="categories">
+                  <AccordionTrigger className="text-lg font-semibold">
+                    Categories
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {facets?.categories.map((facet) => (
+                        <div key={facet.id} className="flex items-center">
+                          <Checkbox
+                            id={`category-${facet.id}`}
+                            checked={selectedCategories.includes(facet.id)}
+                            onCheckedChange={() =>
+                              updateParams({ category: toggleId(selectedCategories, facet.id) })
+                            }
+                            className="mr-2"
+                          />
+                          <label htmlFor={`category-${facet.id}`} className="text-sm cursor-pointer">
+                            {facet.name ?? `Category ${facet.id}`} ({facet.count})
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+
+                {/* Price Range */}
+                <AccordionItem value="price">
+                  <AccordionTrigger className="text-lg font-semibold">
+                    Price
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {facets?.price_ranges.map((range) => {
+                        const isSelected =
+                          selectedMinPrice === String(range.min) &&
+                          (selectedMaxPrice ?? undefined) === (range.max !== undefined ? String(range.max) : undefined);
+                        return (
+                          <div key={range.label} className="flex items-center">
+                            <Checkbox
+                              id={`price-${range.min}`}
+                              checked={isSelected}
+                              disabled={range.count === 0 && !isSelected}
+                              onCheckedChange={() =>
+                                updateParams(isSelected
+                                  ? { min_price: undefined, max_price: undefined }
+                                  : { min_price: String(range.min), max_price: range.max !== undefined ? String(range.max) : undefined })
+                              }
+                              className="mr-2"
+                            />
+                            <label htmlFor={`price-${range.min}`} className="text-sm cursor-pointer">
+                              {range.label} ({range.count})
+                            </label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+
+                {/* Rating */}
+                <AccordionItem value="rating">
+                  <AccordionTrigger className="text-lg font-semibold">
+                    Customer Rating
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {facets?.ratings.map((rating) => {
+                        const isSelected = selectedMinRating === String(rating.min_rating);
+                        return (
+                          <div key={rating.min_rating} className="flex items-center">
+                            <Checkbox
+                              id={`rating-${rating.min_rating}`}
+                              checked={isSelected}
+                              disabled={rating.count === 0 && !isSelected}
+                              onCheckedChange={() =>
+                                updateParams({ min_rating: isSelected ? undefined : String(rating.min_rating) })
+                              }
+                              className="mr-2"
+                            />
+                            <label
+                              htmlFor={`rating-${rating.min_rating}`}
+                              className="text-sm cursor-pointer flex items-center"
+                            >
+                              {rating.min_rating}
+                              <Star className="h-3 w-3 mx-1 text-amber-400 fill-current" />
+                              & up ({rating.count})
+                            </label>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+
+                {/* Sellers */}
+                <AccordionItem value="sellers">
+                  <AccordionTrigger className="text-lg font-semibold">
+                    Sellers
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="space-y-2">
+                      {facets?.sellers.map((facet) => (
+                        <div key={facet.id} className="flex items-center">
+                          <Checkbox
+                            id={`seller-${facet.id}`}
+                            checked={selectedSellers.includes(facet.id)}
+                            onCheckedChange={() =>
+                              updateParams({ seller: toggleId(selectedSellers, facet.id) })
+                            }
+                            className="mr-2"
+                          />
+                          <label htmlFor={`seller-${facet.id}`} className="text-sm cursor-pointer">
+                            {facet.name ?? `Seller ${facet.id}`} ({facet.count})
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+
+                {/* Availability */}
+                <AccordionItem value="availability">
+                  <AccordionTrigger className="text-lg font-semibold">
+                    Availability
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <div className="flex items-center">
+                      <Checkbox
+                        id="in-stock"
+                        checked={params.get("in_stock") === "true"}
+                        onCheckedChange={(checked) =>
+                          updateParams({ in_stock: checked ? "true" : undefined })
+                        }
+                        className="mr-2"
+                      />
+                      <label htmlFor="in-stock" className="text-sm cursor-pointer">
+                        In stock only ({facets?.in_stock ?? 0})
+                      </label>
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              </Accordion>
+
+              <Button variant="outline" className="w-full mt-6" onClick={clearFilters}>
+                Clear filters
+              </Button>
+            </div>
+          </div>
+
+          {/* Results */}
+          <div className="w-full md:w-3/4">
+            {/* Sort Options */}
+            <div className="flex justify-between items-center mb-6">
+              <p className="text-gray-600">
+                {isLoading
+                  ? "Loading products..."
+                  : `Showing ${results.length} of ${total} products`}
+              </p>
+              <div className="flex items-center">
+                <span className="mr-2 text-sm">Sort by:</span>
+                <Select
+                  value={sort}
+                  onValueChange={(value) =>
+                    updateParams({ sort: value === "relevance" ? undefined : value })
+                  }
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Sort by" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {searchSortOptions.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {SEARCH_SORT_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {Array(6)
+                  .fill(0)
+                  .map((_, index) => (
+                    <div key={index} className="bg-white rounded-lg shadow-sm p-4">
+                      <Skeleton className="w-full h-48 rounded-md mb-4" />
+                      <Skeleton className="w-2/3 h-6 rounded-md mb-2" />
+                      <Skeleton className="w-1/2 h-4 rounded-md" />
+                    </div>
+                  ))}
+              </div>
+            ) : isError ? (
+              <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                  Search Failed
+                </h3>
+                <p className="text-gray-600 mb-6">
+                  Something went wrong while searching. Please try again.
+                </p>
+                <Button onClick={clearFilters}>Clear filters</Button>
+              </div>
+            ) : results.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {results.map((product: any) => (
+                    <ProductCard key={product.id} product={product} />
+                  ))}
+                </div>
+                {hasNextPage && (
+                  <div className="flex justify-center mt-8">
+                    <Button
+                      variant="outline"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+                <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                  No Products Found
+                </h3>
+                <p className="text-gray-600 mb-6">
+                  We couldn't find any products matching your search.
+                </p>
+                <Button onClick={() => navigate("/")}>Continue Shopping</Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,60 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import ProductCard from "@/components/products/product-card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Heart } from "lucide-react";
+
+type SharedWishlist = {
+  wishlist_id: string;
+  owner_name?: string;
+  items: { id: number; product: any }[];
+};
+
+// Read-only view of a wishlist someone shared a link to
+export default function SharedWishlistPage() {
+  const { token } = useParams();
+
+  const { data: wishlist, isLoading, isError } = useQuery<SharedWishlist>({
+    queryKey: [`/api/wishlists/shared/${token}`],
+  });
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        {isLoading ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} className="h-72 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : isError || !wishlist ? (
+          <div className="bg-white rounded-lg shadow-sm p-10 text-center max-w-xl mx-auto">
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">
+              Wishlist not found
+            </h3>
+            <p className="text-gray-600">
+              This link may have been turned off by its owner.
+            </p>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold mb-6 flex items-center">
+              <Heart className="mr-2 h-6 w-6 text-red-500" />
+              {wishlist.owner_name ? `${wishlist.owner_name}'s Wishlist` : "Wishlist"}
+            </h1>
+            {wishlist.items.length > 0 ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                {wishlist.items.map((item) => (
+                  <ProductCard key={item.id} product={item.product} showDetailButton={false} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-600">There's nothing on this wishlist yet.</p>
+            )}
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
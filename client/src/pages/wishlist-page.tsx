@@ -0,0 +1,235 @@
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import MainLayout from "@/components/layout/main-layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Heart, ShoppingCart, Trash2, Share2, Copy } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWishlist } from "@/hooks/use-wishlist";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export default function WishlistPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { wishlist, isLoading, toggleWishlist, isToggling } = useWishlist();
+
+  const shareUrl = wishlist?.share_token
+    ? `${window.location.origin}/wishlist/shared/${wishlist.share_token}`
+    : "";
+
+  // Move to cart mutation
+  const moveToCartMutation = useMutation({
+    mutationFn: async (productId: number) => {
+      return await apiRequest("POST", `/api/wishlist/${productId}/move-to-cart`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cart"] });
+      toast({
+        title: "Moved to cart",
+        description: "The item has been moved from your wishlist to your cart.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Share link mutations
+  const shareMutation = useMutation({
+    mutationFn: async (share: boolean) => {
+      return await apiRequest(share ? "POST" : "DELETE", "/api/wishlist/share");
+    },
+    onSuccess: (_, share) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/wishlist"] });
+      toast({
+        title: share ? "Share link created" : "Sharing turned off",
+        description: share
+          ? "Anyone with the link can now see your wishlist."
+          : "The old link no longer works.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyShareUrl = async () => {
+    await navigator.clipboard.writeText(shareUrl);
+    toast({ title: "Link copied" });
+  };
+
+  if (isLoading) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-8">
+          <h1 className="text-2xl font-bold mb-6">Your Wishlist</h1>
+          <Skeleton className="h-80 w-full rounded-lg" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold mb-6">Your Wishlist</h1>
+
+        {wishlist && wishlist.items.length > 0 ? (
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="p-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[100px]">Product</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {wishlist.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="w-20 h-20 rounded overflow-hidden">
+                            <img
+                              src={
+                                item.product.image_url ||
+                                `https://source.unsplash.com/featured/100x100?${encodeURIComponent(
+                                  item.product.name.split(" ")[0]
+                                )}`
+                              }
+                              alt={item.product.name}
+                              className="w-full h-full object-cover"
+                            />
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <p
+                            className="font-medium text-gray-900 cursor-pointer hover:underline"
+                            onClick={() => navigate(`/products/${item.product.id}`)}
+                          >
+                            {item.product.name}
+                          </p>
+                          {item.product.stock === 0 ? (
+                            <p className="text-xs text-red-600 mt-1">Out of stock</p>
+                          ) : item.product.stock < 5 && (
+                            <p className="text-xs text-amber-600 mt-1">
+                              Only {item.product.stock} left in stock
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          ${item.product.price.toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              size="sm"
+                              onClick={() => moveToCartMutation.mutate(item.product_id)}
+                              disabled={
+                                item.product.stock === 0 ||
+                                moveToCartMutation.isPending
+                              }
+                            >
+                              <ShoppingCart className="mr-2 h-4 w-4" />
+                              Move to Cart
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => toggleWishlist(item.product_id)}
+                              disabled={isToggling}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Share Link */}
+            <Card>
+              <CardContent className="p-6">
+                <h2 className="text-lg font-semibold mb-2 flex items-center">
+                  <Share2 className="mr-2 h-5 w-5" />
+                  Share your wishlist
+                </h2>
+                {shareUrl ? (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Anyone with this link can see your wishlist.
+                    </p>
+                    <div className="flex space-x-2">
+                      <Input value={shareUrl} readOnly />
+                      <Button variant="outline" onClick={copyShareUrl}>
+                        <Copy className="mr-2 h-4 w-4" />
+                        Copy
+                      </Button>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      onClick={() => shareMutation.mutate(false)}
+                      disabled={shareMutation.isPending}
+                    >
+                      Stop sharing
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                      Create a link so friends and family can see what you're wishing for.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() => shareMutation.mutate(true)}
+                      disabled={shareMutation.isPending}
+                    >
+                      Create share link
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm p-10 text-center max-w-xl mx-auto">
+            <div className="flex justify-center mb-4">
+              <Heart className="h-16 w-16 text-gray-400" strokeWidth={1} />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">
+              Your Wishlist is Empty
+            </h3>
+            <p className="text-gray-600 mb-6">
+              Tap the heart on any product to save it for later.
+            </p>
+            <Button onClick={() => navigate("/")}>Start Shopping</Button>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
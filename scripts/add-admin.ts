@@ -2,16 +2,12 @@
  * Quick script to add an admin user and test products
  */
 
-import * as bcrypt from 'bcrypt';
 import { randomUUID } from 'crypto';
+import { hashPassword } from '../server/passwords';
 import { db } from '../server/db';
 import * as schema from '../shared/schema';
 import { eq } from 'drizzle-orm';
 
-async function hashPassword(password: string): Promise<string> {
-  return await bcrypt.hash(password, 10);
-}
-
 async function addAdmin() {
   console.log('Adding admin user...');
   
@@ -63,7 +59,6 @@ async function addTestSeller(userId: number) {
     seller_id: `SELLER-${randomUUID().substring(0, 8)}`,
     shop_name: 'Admin Test Shop',
     joined_date: new Date(),
-    rating: 5.0,
     verified: true
   }).returning();
   
@@ -112,6 +107,7 @@ async function addTestProducts(sellerId: number) {
     [electronicsCategory] = await db.insert(schema.categories).values({
       category_id: `CAT-${randomUUID().substring(0, 8)}`,
       category_name: 'Electronics',
+      slug: 'electronics',
       description: 'Electronic devices and gadgets'
     }).returning();
   }
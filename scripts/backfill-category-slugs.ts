@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+/**
+ * Category Slug Backfill
+ * One-shot script for databases created before categories were nested. The
+ * schema's slug column is required, so `npm run db:push` can't add it to a
+ * categories table that already has rows. Run this first: it adds the column
+ * without the constraint if it's missing and gives every category without a
+ * slug one made from its name, numbered where siblings would clash
+ * ("phones", "phones-2"). The push then makes the column required and adds
+ * the rest of the tree columns. Works against the configured PostgreSQL or
+ * MySQL database, and is safe to run again.
+ */
+
+import { getDatabaseType } from "../server/config";
+import { slugify } from "@shared/categories";
+
+const MAX_SLUG_LENGTH = 60;
+
+interface CategoryRow {
+  id: number;
+  category_name: string;
+  slug: string | null;
+  parent_id: number | null;
+}
+
+// Just enough of each driver for this script; placeholders are $1 on
+// PostgreSQL and ? on MySQL
+interface Connection {
+  dialect: "postgres" | "mysql";
+  query(text: string, params?: unknown[]): Promise<any[]>;
+  close(): Promise<void>;
+}
+
+async function connect(): Promise<Connection | undefined> {
+  const dbType = getDatabaseType();
+
+  if (dbType === "postgres") {
+    const { pool } = await import("../server/db");
+    return {
+      dialect: "postgres",
+      query: async (text, params) => (await pool.query(text, params)).rows,
+      close: () => pool.end()
+    };
+  }
+
+  if (dbType === "mysql") {
+    const { initializeMySql } = await import("../server/mysql-db");
+    const { pool, isAvailable } = await initializeMySql();
+    if (!isAvailable) {
+      throw new Error("Couldn't connect to MySQL");
+    }
+    return {
+      dialect: "mysql",
+      query: async (text, params) => (await pool.query(text, params))[0],
+      close: () => pool.end()
+    };
+  }
+
+  return undefined;
+}
+
+// A slug for each category that doesn't have one, unique among its siblings
+// including the ones that already have a slug
+function planSlugs(categories: CategoryRow[]): Map<number, string> {
+  const takenByParent = new Map<number | null, Set<string>>();
+  const taken = (parentId: number | null) => {
+    if (!takenByParent.has(parentId)) takenByParent.set(parentId, new Set());
+    return takenByParent.get(parentId)!;
+  };
+  for (const category of categories) {
+    if (category.slug) taken(category.parent_id).add(category.slug);
+  }
+
+  const planned = new Map<number, string>();
+  for (const category of categories) {
+    if (category.slug) continue;
+
+    const siblings = taken(category.parent_id);
+    const base = slugify(category.category_name) || `category-${category.id}`;
+    let slug = base;
+    for (let n = 2; siblings.has(slug); n++) {
+      const suffix = `-${n}`;
+      slug = base.slice(0, MAX_SLUG_LENGTH - suffix.length).replace(/-+$/, "") + suffix;
+    }
+    siblings.add(slug);
+    planned.set(category.id, slug);
+  }
+  return planned;
+}
+
+async function backfillCategorySlugs() {
+  const connection = await connect();
+  if (!connection) {
+    console.log("No database is configured; in-memory storage gives categories slugs as they're created.");
+    return;
+  }
+
+  try {
+    const isPostgres = connection.dialect === "postgres";
+    const columns = await connection.query(isPostgres
+      ? "SELECT column_name FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'categories'"
+      : "SELECT column_name AS column_name FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = 'categories'");
+    const columnNames = columns.map(column => column.column_name);
+
+    if (!columnNames.includes("slug")) {
+      console.log("Adding the categories.slug column...");
+      await connection.query(isPostgres
+        ? "ALTER TABLE categories ADD COLUMN slug text"
+        : `ALTER TABLE categories ADD COLUMN slug varchar(${MAX_SLUG_LENGTH})`);
+    }
+
+    // Before the push there's no parent_id, so every category is top-level
+    const hasParents = columnNames.includes("parent_id");
+    const categories: CategoryRow[] = (await connection.query(
+      `SELECT id, category_name, slug${hasParents ? ", parent_id" : ""} FROM categories ORDER BY id`
+    )).map(row => ({ ...row, parent_id: row.parent_id ?? null }));
+
+    const planned = planSlugs(categories);
+    for (const [id, slug] of Array.from(planned)) {
+      await connection.query(isPostgres
+        ? "UPDATE categories SET slug = $1 WHERE id = $2"
+        : "UPDATE categories SET slug = ? WHERE id = ?", [slug, id]);
+      console.log(` - Category ${id}: "${slug}"`);
+    }
+
+    console.log(`\nChecked ${categories.length} categories:`);
+    console.log(` - ${planned.size} slugs added`);
+    console.log(` - ${categories.length - planned.size} already had one`);
+  } finally {
+    await connection.close();
+  }
+}
+
+backfillCategorySlugs()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Error backfilling category slugs:", error);
+    process.exit(1);
+  });
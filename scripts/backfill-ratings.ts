@@ -0,0 +1,29 @@
+#!/usr/bin/env tsx
+/**
+ * Rating Backfill
+ * One-shot script that recomputes every product's and seller's rating
+ * aggregates (average, review count and star histogram) from the reviews
+ * table. Run it once after adding the aggregate columns; from then on the
+ * storage layer keeps them up to date as reviews are added and deleted.
+ * Works against whichever storage backend is configured, and is safe to run
+ * again.
+ */
+
+import { storage } from "../server/storage";
+
+async function backfillRatings() {
+  console.log("Recomputing rating aggregates from reviews...");
+
+  const updated = await storage.recalculateRatings();
+
+  console.log(`\nUpdated rating aggregates:`);
+  console.log(` - ${updated.products} products`);
+  console.log(` - ${updated.sellers} sellers`);
+}
+
+backfillRatings()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Error backfilling ratings:", error);
+    process.exit(1);
+  });
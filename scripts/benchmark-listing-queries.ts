@@ -0,0 +1,255 @@
+#!/usr/bin/env tsx
+/**
+ * Listing Query Benchmark
+ * Seeds a few thousand products and orders, then loads the product list, the
+ * order list and one product's reviews two ways: the way the routes used to,
+ * with a storage call per product, order or review, and the way they do now,
+ * with the batched getCategoriesForProducts, getOrderDetails and
+ * getUsersByIds. Reports how many storage calls and how long each took.
+ * Runs against in-memory storage by default; pass --configured to run
+ * against the configured database instead (this writes the seed data to it).
+ */
+
+import { randomUUID } from "crypto";
+import { storage as configuredStorage, MemStorage, IStorage } from "../server/storage";
+import { Product } from "../shared/schema";
+import {
+  MAX_PAGE_LIMIT, productListQuerySchema, orderListQuerySchema, ProductListQuery
+} from "../shared/pagination";
+
+const CATEGORIES = 12;
+const PRODUCTS = 3000;
+const CUSTOMERS = 50;
+const ORDERS = 2000;
+const ITEMS_PER_ORDER = 3;
+const REVIEWS = 300;
+
+interface SeededData {
+  reviewedProductId: number;
+}
+
+async function seed(storage: IStorage): Promise<SeededData> {
+  const suffix = randomUUID().slice(0, 8);
+
+  const sellerUser = await storage.createUser({
+    username: `benchmark-seller-${suffix}`,
+    name: "Benchmark Seller",
+    email: `benchmark-seller-${suffix}@example.com`,
+    password: "not-used",
+    role: "seller"
+  });
+  const seller = await storage.createSeller({
+    user_id: sellerUser.id,
+    seller_id: `SELLER-${suffix}`,
+    shop_name: "Benchmark Shop",
+    joined_date: new Date(),
+    verified: true
+  });
+
+  const categories = [];
+  for (let i = 0; i < CATEGORIES; i++) {
+    categories.push(await storage.createCategory({
+      category_id: `CAT-${suffix}-${i}`,
+      category_name: `Benchmark Category ${suffix} ${i}`,
+      slug: `benchmark-${suffix}-${i}`
+    }));
+  }
+
+  const products: Product[] = [];
+  for (let i = 0; i < PRODUCTS; i++) {
+    const product = await storage.createProduct({
+      product_id: `PROD-${suffix}-${i}`,
+      seller_id: seller.id,
+      name: `Benchmark Product ${i}`,
+      description: "Seeded by the listing query benchmark",
+      price: 5 + (i % 200),
+      stock: 100,
+      status: "active"
+    });
+    // Two categories each
+    for (const category of [categories[i % CATEGORIES], categories[(i + 1) % CATEGORIES]]) {
+      await storage.assignProductToCategory({ product_id: product.id, category_id: category.id });
+    }
+    products.push(product);
+  }
+
+  const customers = [];
+  for (let i = 0; i < CUSTOMERS; i++) {
+    customers.push(await storage.createUser({
+      username: `benchmark-customer-${suffix}-${i}`,
+      name: `Benchmark Customer ${i}`,
+      email: `benchmark-customer-${suffix}-${i}@example.com`,
+      password: "not-used",
+      role: "customer"
+    }));
+  }
+
+  for (let i = 0; i < ORDERS; i++) {
+    const items = Array.from({ length: ITEMS_PER_ORDER }, (_, j) => products[(i * ITEMS_PER_ORDER + j) % PRODUCTS]);
+    const total = items.reduce((sum, product) => sum + product.price, 0);
+    const order = await storage.createOrder({
+      order_id: `ORD-${suffix}-${i}`,
+      customer_id: customers[i % CUSTOMERS].id,
+      subtotal: total,
+      total_price: total,
+      status: "processing"
+    });
+    for (const product of items) {
+      await storage.addOrderItem({ order_id: order.id, product_id: product.id, quantity: 1, price: product.price });
+    }
+    await storage.createPayment({
+      payment_id: `PAY-${suffix}-${i}`,
+      order_id: order.id,
+      amount: total,
+      method: "credit_card",
+      status: "completed"
+    });
+    await storage.createShipment({
+      shipment_id: `SHIP-${suffix}-${i}`,
+      order_id: order.id,
+      seller_id: seller.id,
+      status: "processing"
+    });
+  }
+
+  const reviewedProduct = products[0];
+  for (let i = 0; i < REVIEWS; i++) {
+    await storage.createReview({
+      review_id: `REV-${suffix}-${i}`,
+      product_id: reviewedProduct.id,
+      customer_id: customers[i % CUSTOMERS].id,
+      rating: 1 + (i % 5),
+      review_text: "Seeded review",
+      pros: [],
+      cons: []
+    });
+  }
+
+  return { reviewedProductId: reviewedProduct.id };
+}
+
+// Wraps storage to count calls into it. Calls a backend makes to itself
+// aren't counted; on the SQL backends every counted call is at least one
+// database round trip.
+function countStorageCalls(storage: IStorage) {
+  const counter = { calls: 0 };
+  const counted = new Proxy(storage, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") return value;
+      return (...args: unknown[]) => {
+        counter.calls++;
+        return value.apply(target, args);
+      };
+    }
+  });
+  return { storage: counted, counter };
+}
+
+// Loads every page of products with their categories. Returns how many
+// category links came back, so both ways can be checked against each other.
+async function listProducts(storage: IStorage, batched: boolean): Promise<number> {
+  let links = 0;
+  let query: ProductListQuery = { ...productListQuerySchema.parse({ limit: MAX_PAGE_LIMIT }), filter: {} };
+  for (;;) {
+    const page = await storage.listProductsPage(query);
+    if (batched) {
+      const categories = await storage.getCategoriesForProducts(page.items.map(product => product.id));
+      categories.forEach(productCategories => links += productCategories.length);
+    } else {
+      for (const product of page.items) {
+        links += (await storage.getProductCategories(product.id)).length;
+      }
+    }
+    if (!page.next_cursor) return links;
+    query = { ...query, cursor: page.next_cursor };
+  }
+}
+
+// Loads every page of orders with their items, products, payment and
+// shipments. Returns how many items came back.
+async function listOrders(storage: IStorage, batched: boolean): Promise<number> {
+  let items = 0;
+  let query = orderListQuerySchema.parse({ limit: MAX_PAGE_LIMIT });
+  for (;;) {
+    const page = await storage.listOrdersPage(query);
+    if (batched) {
+      const details = await storage.getOrderDetails(page.items.map(order => order.id));
+      details.forEach(orderDetails => items += orderDetails.items.length);
+    } else {
+      for (const order of page.items) {
+        const orderItems = await storage.getOrderItems(order.id);
+        for (const item of orderItems) {
+          await storage.getProduct(item.product_id);
+        }
+        await storage.getOrderPayment(order.id);
+        await storage.getOrderShipments(order.id);
+        items += orderItems.length;
+      }
+    }
+    if (!page.next_cursor) return items;
+    query = { ...query, cursor: page.next_cursor };
+  }
+}
+
+// Loads a product's reviews with their authors. Returns how many authors
+// were found.
+async function listReviews(storage: IStorage, productId: number, batched: boolean): Promise<number> {
+  const reviews = await storage.getProductReviews(productId);
+  if (batched) {
+    const users = await storage.getUsersByIds(reviews.map(review => review.customer_id));
+    return reviews.filter(review => users.has(review.customer_id)).length;
+  }
+  let found = 0;
+  for (const review of reviews) {
+    if (await storage.getUser(review.customer_id)) found++;
+  }
+  return found;
+}
+
+async function measure(storage: IStorage, run: (storage: IStorage) => Promise<number>) {
+  const counted = countStorageCalls(storage);
+  const start = performance.now();
+  const rows = await run(counted.storage);
+  return { rows, calls: counted.counter.calls, ms: performance.now() - start };
+}
+
+async function benchmarkListingQueries() {
+  const storage: IStorage = process.argv.includes("--configured")
+    ? configuredStorage
+    : new MemStorage();
+
+  console.log(`Seeding ${PRODUCTS} products and ${ORDERS} orders into ${storage.constructor.name}...`);
+  const { reviewedProductId } = await seed(storage);
+
+  const scenarios: [string, (storage: IStorage, batched: boolean) => Promise<number>][] = [
+    ["GET /api/products (all pages)", listProducts],
+    ["GET /api/orders (all pages)", listOrders],
+    [`GET /api/products/:id/reviews (${REVIEWS} reviews)`, (storage, batched) => listReviews(storage, reviewedProductId, batched)]
+  ];
+
+  const failures: string[] = [];
+  for (const [name, run] of scenarios) {
+    const before = await measure(storage, s => run(s, false));
+    const after = await measure(storage, s => run(s, true));
+
+    console.log(name);
+    console.log(` - before: ${before.calls} storage calls, ${before.ms.toFixed(0)} ms`);
+    console.log(` - after:  ${after.calls} storage calls, ${after.ms.toFixed(0)} ms`);
+
+    if (before.rows !== after.rows) {
+      failures.push(`${name} loaded ${before.rows} related rows before but ${after.rows} after`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+}
+
+benchmarkListingQueries()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Listing query benchmark failed:", error);
+    process.exit(1);
+  });
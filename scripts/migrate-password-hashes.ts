@@ -0,0 +1,42 @@
+#!/usr/bin/env tsx
+/**
+ * Password Hash Migration
+ * One-shot script that hashes every plain text password left over from when
+ * password encryption was disabled. Works against whichever storage backend
+ * is configured. Bcrypt hashes can't be converted without the original
+ * password, so those are upgraded to scrypt on the user's next login instead.
+ */
+
+import { storage } from "../server/storage";
+import { hashPassword, getPasswordScheme } from "../server/passwords";
+
+async function migratePasswordHashes() {
+  console.log("Migrating stored passwords...");
+
+  const users = await storage.listUsers();
+  let migrated = 0;
+  let deferred = 0;
+
+  for (const user of users) {
+    const scheme = getPasswordScheme(user.password);
+
+    if (scheme === "plaintext") {
+      await storage.updateUser(user.id, { password: await hashPassword(user.password) });
+      console.log(` - Hashed plain text password for "${user.username}"`);
+      migrated++;
+    } else if (scheme === "bcrypt") {
+      deferred++;
+    }
+  }
+
+  console.log(`\nChecked ${users.length} users:`);
+  console.log(` - ${migrated} plain text passwords hashed`);
+  console.log(` - ${deferred} bcrypt passwords will be upgraded on next login`);
+}
+
+migratePasswordHashes()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Error migrating passwords:", error);
+    process.exit(1);
+  });
@@ -2,28 +2,39 @@
 import { db } from "../server/db";
 import { users } from "../shared/schema";
 import { eq } from "drizzle-orm";
+import { hashPassword } from "../server/passwords";
 
-// Reset the admin user password to "admin123" (now plain text since encryption is removed)
+// Reset the admin user password to "admin123"
 async function resetAdminPassword() {
   console.log("Resetting admin password...");
   
   // Check if admin user exists
   const admin = await db.select().from(users).where(eq(users.username, "admin"));
   
+  const hashedPassword = await hashPassword("admin123");
+  
   if (admin.length > 0) {
-    // Update the admin's password
+    // Update the admin's password and turn off two-factor authentication, in
+    // case the authenticator app was lost too. Admin accounts have to set it
+    // up again after signing in.
     await db.update(users)
-      .set({ password: "admin123" }) // Plain text password as requested
+      .set({
+        password: hashedPassword,
+        totp_secret: null,
+        totp_enabled_at: null,
+        totp_recovery_codes: [],
+        totp_last_used_step: null
+      })
       .where(eq(users.username, "admin"));
     
-    console.log("Admin password has been reset to 'admin123'");
+    console.log("Admin password has been reset to 'admin123' and two-factor authentication turned off");
   } else {
     // Create admin user if it doesn't exist
     const newAdmin = await db.insert(users).values({
       username: "admin",
       name: "Administrator",
       email: "admin@example.com",
-      password: "admin123", // Plain text password as requested
+      password: hashedPassword,
       role: "admin",
       registration_date: new Date()
     }).returning();
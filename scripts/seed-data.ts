@@ -3,9 +3,10 @@
  * This script creates test data including admin accounts, sellers, and products
  */
 
-import * as bcrypt from 'bcrypt';
 import { randomUUID } from 'crypto';
+import { hashPassword } from '../server/passwords';
 import { storage } from '../server/storage';
+import { slugify } from '../shared/categories';
 
 interface TestUser {
   username: string;
@@ -36,11 +37,6 @@ interface TestCategory {
   description: string;
 }
 
-// Helper to hash passwords
-async function hashPassword(password: string): Promise<string> {
-  return await bcrypt.hash(password, 10);
-}
-
 // Generate a random product ID
 function generateProductId(): string {
   return `PROD-${randomUUID().substring(0, 8)}`;
@@ -140,7 +136,6 @@ async function createTestSellers(userIds: number[]): Promise<number[]> {
         seller_id: sellerId,
         shop_name: seller.shopName,
         joined_date: new Date(),
-        rating: 4.5,
         verified: seller.verified
       });
       
@@ -177,12 +172,15 @@ async function createTestCategories(): Promise<number[]> {
     }
   ];
   
-  for (const category of testCategories) {
+  for (let i = 0; i < testCategories.length; i++) {
+    const category = testCategories[i];
     try {
       const categoryId = `CAT-${randomUUID().substring(0, 8)}`;
       const createdCategory = await storage.createCategory({
         category_id: categoryId,
         category_name: category.name,
+        slug: slugify(category.name),
+        position: i,
         description: category.description
       });
       
@@ -0,0 +1,46 @@
+#!/usr/bin/env tsx
+/**
+ * Send Payment Webhook
+ * Plays the part of the payment gateway during local development: signs a
+ * webhook event with PAYMENT_WEBHOOK_SECRET and posts it to the running
+ * server. Use it to settle payments the mock gateway left waiting, e.g.
+ *
+ *   npx tsx scripts/send-payment-webhook.ts mock_PAY-1a2b3c4d payment.authorized
+ */
+
+import { randomUUID } from "crypto";
+import { PAYMENT_CONFIG } from "../server/config";
+import { signWebhookPayload, paymentEventTypes, PaymentEventType } from "../server/payments";
+
+async function sendPaymentWebhook() {
+  const [reference, type, url = "http://localhost:5000/api/payments/webhook"] = process.argv.slice(2);
+
+  if (!reference || !paymentEventTypes.includes(type as PaymentEventType)) {
+    throw new Error(
+      `Usage: send-payment-webhook.ts <provider_reference> <${paymentEventTypes.join("|")}> [url]`
+    );
+  }
+
+  const payload = JSON.stringify({ id: `evt_${randomUUID()}`, type, reference });
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Payment-Signature": signWebhookPayload(payload, PAYMENT_CONFIG.webhookSecret)
+    },
+    body: payload
+  });
+
+  console.log(`${response.status} ${await response.text()}`);
+  if (!response.ok) {
+    throw new Error("Webhook was rejected");
+  }
+}
+
+sendPaymentWebhook()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Error sending payment webhook:", error);
+    process.exit(1);
+  });
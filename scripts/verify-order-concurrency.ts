@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+/**
+ * Order Concurrency Check
+ * Fires many simultaneous checkouts at a product with limited stock and
+ * verifies that placeOrder never oversells, then checks out one cart twice at
+ * once (a double-click) and verifies only one order is placed. Runs against in-memory storage by
+ * default; pass --configured to run against the configured database instead
+ * (this writes test users, products and orders to it).
+ */
+
+import { randomUUID } from "crypto";
+import { storage as configuredStorage, MemStorage, IStorage, OrderPlacementError, PlaceOrderInput } from "../server/storage";
+import type { User } from "@shared/schema";
+
+const INITIAL_STOCK = 5;
+const CUSTOMERS = 25;
+
+async function createCustomerCart(storage: IStorage, productId: number, index: number) {
+  const suffix = randomUUID().slice(0, 8);
+  const customer = await storage.createUser({
+    username: `concurrency-${suffix}`,
+    name: `Concurrency Customer ${index}`,
+    email: `concurrency-${suffix}@example.com`,
+    password: "not-used",
+    role: "customer"
+  });
+
+  const cart = await storage.createCart({
+    cart_id: `CART-${suffix}`,
+    user_id: customer.id
+  });
+
+  await storage.addCartItem({
+    cart_id: cart.id,
+    product_id: productId,
+    quantity: 1
+  });
+
+  return { customer, cart };
+}
+
+function getOrderInput(customer: User): PlaceOrderInput {
+  return {
+    order_id: `ORD-${randomUUID().slice(0, 8)}`,
+    customer_id: customer.id,
+    shipping_method: "standard",
+    shipping_address: {
+      full_name: customer.name,
+      email: customer.email,
+      phone: "555-555-0100",
+      address: "1 Concurrency Way",
+      city: "Testville",
+      state: "CA",
+      zip_code: "90001"
+    },
+    payment: { payment_id: `PAY-${randomUUID().slice(0, 8)}`, method: "credit_card", status: "completed" },
+    shipment: { shipment_id: `SHIP-${randomUUID().slice(0, 8)}`, status: "processing" }
+  };
+}
+
+// Two checkouts of the same cart at once, with plenty of stock: the second
+// has to find the cart already checked out rather than place another order
+async function verifyDoubleCheckout(storage: IStorage, productId: number, failures: string[]) {
+  const { customer, cart } = await createCustomerCart(storage, productId, CUSTOMERS);
+  const before = (await storage.getProduct(productId))?.stock ?? NaN;
+
+  const results = await Promise.allSettled([
+    storage.placeOrder(cart.id, getOrderInput(customer)),
+    storage.placeOrder(cart.id, getOrderInput(customer))
+  ]);
+  const placed = results.filter(r => r.status === "fulfilled").length;
+  const after = (await storage.getProduct(productId))?.stock ?? NaN;
+
+  console.log(` - Checking out one cart twice at once placed ${placed} order(s)`);
+
+  if (placed !== 1) {
+    failures.push(`checking out one cart twice at once placed ${placed} orders, expected 1`);
+  }
+  if (after !== before - placed) {
+    failures.push("stock doesn't match the orders placed from the double checkout");
+  }
+}
+
+async function verifyOrderConcurrency() {
+  const storage: IStorage = process.argv.includes("--configured")
+    ? configuredStorage
+    : new MemStorage();
+
+  console.log(`Checking concurrent checkouts against ${storage.constructor.name}...`);
+
+  const suffix = randomUUID().slice(0, 8);
+  const sellerUser = await storage.createUser({
+    username: `concurrency-seller-${suffix}`,
+    name: "Concurrency Seller",
+    email: `concurrency-seller-${suffix}@example.com`,
+    password: "not-used",
+    role: "seller"
+  });
+
+  const seller = await storage.createSeller({
+    user_id: sellerUser.id,
+    seller_id: `SELLER-${suffix}`,
+    shop_name: "Concurrency Shop",
+    joined_date: new Date(),
+    verified: true
+  });
+
+  const product = await storage.createProduct({
+    product_id: `PROD-${suffix}`,
+    seller_id: seller.id,
+    name: "Limited Stock Product",
+    description: "Only a handful available",
+    price: 10,
+    stock: INITIAL_STOCK,
+    status: "active"
+  });
+
+  const carts = [];
+  for (let i = 0; i < CUSTOMERS; i++) {
+    carts.push(await createCustomerCart(storage, product.id, i));
+  }
+
+  const results = await Promise.allSettled(
+    carts.map(({ customer, cart }) => storage.placeOrder(cart.id, getOrderInput(customer)))
+  );
+
+  const placed = results.filter(r => r.status === "fulfilled").length;
+  const rejected = results.filter(r => r.status === "rejected" && r.reason instanceof OrderPlacementError).length;
+  const unexpected = results.filter(r => r.status === "rejected" && !(r.reason instanceof OrderPlacementError));
+
+  const finalProduct = await storage.getProduct(product.id);
+  const finalStock = finalProduct?.stock ?? NaN;
+
+  console.log(` - ${placed} orders placed, ${rejected} rejected for stock`);
+  console.log(` - Stock went from ${INITIAL_STOCK} to ${finalStock}`);
+
+  const failures: string[] = [];
+  if (unexpected.length > 0) {
+    unexpected.forEach(r => console.error(r.status === "rejected" ? r.reason : r));
+    failures.push(`${unexpected.length} orders failed with unexpected errors`);
+  }
+  if (finalStock < 0) {
+    failures.push("stock went negative");
+  }
+  if (placed !== INITIAL_STOCK) {
+    failures.push(`expected exactly ${INITIAL_STOCK} orders to succeed`);
+  }
+  if (finalStock !== INITIAL_STOCK - placed) {
+    failures.push("stock doesn't match the number of orders placed");
+  }
+
+  // Restock so the double checkout isn't turned away for stock
+  await storage.updateProduct(product.id, { stock: INITIAL_STOCK });
+  await verifyDoubleCheckout(storage, product.id, failures);
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+
+  console.log("Concurrent order placement is safe");
+}
+
+verifyOrderConcurrency()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Order concurrency check failed:", error);
+    process.exit(1);
+  });
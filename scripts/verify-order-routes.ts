@@ -0,0 +1,501 @@
+#!/usr/bin/env tsx
+/**
+ * Order Route Checks
+ * Drives checkout, cancellation, shipping and returns through the HTTP
+ * routes the way the client does, for the cases that span several storage
+ * calls: cancelling an order that has partly shipped, shipping part of an
+ * unpaid or cancelled order, retrying a variant purchase after the card is
+ * declined, a parent category's coupon on a subcategory product, buying a
+ * product that was delisted while in the cart, return photos that are script
+ * links, refunding a return for more than it's worth, and reviewing a product
+ * from an order that wasn't paid for. Runs against the configured storage,
+ * which is in-memory unless a database is configured (then this writes test
+ * users, products and orders to it).
+ */
+
+import express from "express";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { storage } from "../server/storage";
+import { registerRoutes } from "../server/routes";
+import { MOCK_PAYMENT_TOKENS } from "../server/payments";
+
+type Response = { status: number; body: any };
+type Client = (method: string, path: string, body?: unknown) => Promise<Response>;
+
+// A signed-in browser: one session cookie carried between requests
+function createClient(baseUrl: string): Client {
+  let cookie = "";
+  return async (method, path, body) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(cookie ? { Cookie: cookie } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) {
+      cookie = setCookie.split(";")[0];
+    }
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : null };
+  };
+}
+
+async function startServer() {
+  // MemStorage swaps in its real session store once memorystore has loaded
+  for (let i = 0; i < 100 && typeof storage.sessionStore?.on !== "function"; i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    console.error(err);
+    res.status(err.status || 500).json({ message: err.message || "Internal Server Error" });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+async function createSeller(name: string, suffix: string) {
+  const sellerUser = await storage.createUser({
+    username: `routes-seller-${suffix}`,
+    name: `${name} Seller`,
+    email: `routes-seller-${suffix}@example.com`,
+    password: "not-used",
+    role: "seller"
+  });
+
+  return storage.createSeller({
+    user_id: sellerUser.id,
+    seller_id: `SELLER-${suffix}`,
+    shop_name: `${name} Shop`,
+    joined_date: new Date(),
+    verified: true
+  });
+}
+
+// Creates a verified seller for the product unless one is given
+async function createSellerProduct(name: string, stock: number, sellerId?: number) {
+  const suffix = randomUUID().slice(0, 8);
+  if (sellerId === undefined) {
+    sellerId = (await createSeller(name, suffix)).id;
+  }
+
+  return storage.createProduct({
+    product_id: `PROD-${suffix}`,
+    seller_id: sellerId,
+    name,
+    description: `${name} for the order route checks`,
+    price: 10,
+    stock,
+    status: "active"
+  });
+}
+
+async function registerCustomer(client: Client) {
+  const suffix = randomUUID().slice(0, 8);
+  const res = await client("POST", "/api/register", {
+    username: `routes-customer-${suffix}`,
+    name: "Routes Customer",
+    email: `routes-customer-${suffix}@example.com`,
+    password: "password123",
+    role: "customer"
+  });
+  if (res.status !== 201) {
+    throw new Error(`registering a customer returned ${res.status}: ${JSON.stringify(res.body)}`);
+  }
+  return res.body;
+}
+
+// Signs the client in as a new seller and returns their seller profile
+async function registerSeller(client: Client, shopName: string) {
+  const suffix = randomUUID().slice(0, 8);
+  const res = await client("POST", "/api/register", {
+    username: `routes-seller-${suffix}`,
+    name: "Routes Seller",
+    email: `routes-seller-${suffix}@example.com`,
+    password: "password123",
+    role: "seller",
+    shop_name: shopName
+  });
+  const seller = res.status === 201 ? await storage.getSellerByUserId(res.body.id) : undefined;
+  if (!seller) {
+    throw new Error(`registering a seller returned ${res.status}: ${JSON.stringify(res.body)}`);
+  }
+  return seller;
+}
+
+async function checkout(client: Client, items: { product_id: number; variant_id?: number }[], paymentToken?: string) {
+  for (const item of items) {
+    const res = await client("POST", "/api/cart/items", { ...item, quantity: 1 });
+    if (res.status !== 201) {
+      throw new Error(`adding product ${item.product_id} to the cart returned ${res.status}: ${JSON.stringify(res.body)}`);
+    }
+  }
+
+  return client("POST", "/api/orders", {
+    shipping_method: "standard",
+    shipping_address: {
+      full_name: "Routes Customer",
+      email: "routes-customer@example.com",
+      phone: "555-555-0100",
+      address: "1 Route Street",
+      city: "Testville",
+      state: "CA",
+      zip_code: "90001"
+    },
+    payment_method: "credit_card",
+    payment_token: paymentToken
+  });
+}
+
+// A two-seller order with one seller's shipment on its way can't be
+// cancelled: nothing is restocked or refunded and the shipped shipment is
+// left alone. Once nothing has shipped, cancelling still works.
+async function checkPartlyShippedCancel(client: Client, failures: string[]) {
+  const shippedProduct = await createSellerProduct("Shipped Product", 5);
+  const waitingProduct = await createSellerProduct("Waiting Product", 5);
+  await registerCustomer(client);
+
+  const placed = await checkout(client, [{ product_id: shippedProduct.id }, { product_id: waitingProduct.id }]);
+  if (placed.status !== 201) {
+    throw new Error(`placing the two-seller order returned ${placed.status}: ${JSON.stringify(placed.body)}`);
+  }
+  const order = placed.body.order;
+
+  const shipments = await storage.getOrderShipments(order.id);
+  const shipped = shipments.find(shipment => shipment.seller_id === shippedProduct.seller_id);
+  if (shipments.length !== 2 || !shipped) {
+    throw new Error(`expected one shipment per seller, got ${shipments.length}`);
+  }
+  await storage.updateShipment(shipped.id, { status: "shipped", tracking_number: "TRACK-1", carrier: "UPS" });
+
+  const paymentBefore = await storage.getOrderPayment(order.id);
+  const cancel = await client("POST", `/api/orders/${order.id}/cancel`, { reason: "Changed my mind" });
+  console.log(` - Cancelling a partly shipped order returned ${cancel.status}`);
+
+  if (cancel.status !== 400) {
+    failures.push(`cancelling a partly shipped order returned ${cancel.status}, expected 400`);
+  }
+  const orderAfter = await storage.getOrder(order.id);
+  if (orderAfter?.status === "cancelled") {
+    failures.push("the partly shipped order was cancelled");
+  }
+  for (const product of [shippedProduct, waitingProduct]) {
+    const current = await storage.getProduct(product.id);
+    if (current?.stock !== 4) {
+      failures.push(`${product.name} stock is ${current?.stock} after the refused cancel, expected 4`);
+    }
+  }
+  const shipmentsAfter = await storage.getOrderShipments(order.id);
+  if (shipmentsAfter.find(shipment => shipment.id === shipped.id)?.status !== "shipped") {
+    failures.push("the shipped shipment was changed by the refused cancel");
+  }
+  if (shipmentsAfter.some(shipment => shipment.status === "cancelled")) {
+    failures.push("a shipment was cancelled by the refused cancel");
+  }
+  const paymentAfter = await storage.getOrderPayment(order.id);
+  if (paymentAfter?.status !== paymentBefore?.status) {
+    failures.push(`the payment went from ${paymentBefore?.status} to ${paymentAfter?.status} after the refused cancel`);
+  }
+
+  const unshipped = await checkout(client, [{ product_id: shippedProduct.id }, { product_id: waitingProduct.id }]);
+  if (unshipped.status !== 201) {
+    throw new Error(`placing the second two-seller order returned ${unshipped.status}: ${JSON.stringify(unshipped.body)}`);
+  }
+  const cancelUnshipped = await client("POST", `/api/orders/${unshipped.body.order.id}/cancel`);
+  console.log(` - Cancelling an order with nothing shipped returned ${cancelUnshipped.status}`);
+
+  if (cancelUnshipped.status !== 200 || cancelUnshipped.body?.order?.status !== "cancelled") {
+    failures.push(`cancelling an order with nothing shipped returned ${cancelUnshipped.status}, expected 200`);
+  }
+  const waitingAfter = await storage.getProduct(waitingProduct.id);
+  if (waitingAfter?.stock !== 4) {
+    failures.push(`cancelling an order with nothing shipped left stock at ${waitingAfter?.stock}, expected 4`);
+  }
+}
+
+// A seller can only ship their group once the order is paid, and not at all
+// once it's been cancelled. On a two-seller order the first group to ship
+// leaves the order "processing", so this can't rely on the order's own move.
+async function checkShipmentNeedsPaidOrder(sellerClient: Client, customerClient: Client, failures: string[]) {
+  const seller = await registerSeller(sellerClient, "Routes Shipping Shop");
+  const ownProduct = await createSellerProduct("Own Product", 5, seller.id);
+  const otherProduct = await createSellerProduct("Other Product", 5);
+  await registerCustomer(customerClient);
+
+  for (const [token, expectedStatus] of [
+    [MOCK_PAYMENT_TOKENS.requiresAction, "pending_payment"],
+    [MOCK_PAYMENT_TOKENS.decline, "cancelled"]
+  ]) {
+    const placed = await checkout(customerClient, [{ product_id: ownProduct.id }, { product_id: otherProduct.id }], token);
+    const order = placed.body?.order;
+    if (order?.status !== expectedStatus) {
+      throw new Error(`checking out with ${token} returned ${placed.status} and a ${order?.status} order, expected ${expectedStatus}`);
+    }
+
+    const shipment = (await storage.getOrderShipments(order.id)).find(s => s.seller_id === seller.id)!;
+    const res = await sellerClient("PUT", `/api/shipments/${shipment.id}`, {
+      status: "shipped",
+      tracking_number: "TRACK-2",
+      carrier: "UPS"
+    });
+    console.log(` - Shipping a group of a ${expectedStatus} order returned ${res.status}`);
+    if (res.status !== 400) {
+      failures.push(`shipping a group of a ${expectedStatus} order returned ${res.status}, expected 400`);
+    }
+    if ((await storage.getShipment(shipment.id))?.status === "shipped") {
+      failures.push(`a group of a ${expectedStatus} order was marked shipped`);
+    }
+  }
+}
+
+// A declined card cancels the order with its shipments and puts the cart back
+// as it was, variant included, so the customer can retry with another card
+async function checkDeclineRetryWithVariant(client: Client, failures: string[]) {
+  const product = await createSellerProduct("Variant Product", 0);
+  const variants = await storage.replaceProductVariants(
+    product.id,
+    [{ name: "Size", values: ["S", "M"] }],
+    [
+      { product_id: product.id, sku: "VARIANT-S", options: { Size: "S" }, stock: 3 },
+      { product_id: product.id, sku: "VARIANT-M", options: { Size: "M" }, stock: 3 }
+    ]
+  );
+  const variant = variants.find(v => v.sku === "VARIANT-M")!;
+  const customer = await registerCustomer(client);
+
+  const declined = await checkout(client, [{ product_id: product.id, variant_id: variant.id }], MOCK_PAYMENT_TOKENS.decline);
+  console.log(` - Checking out a variant with a declined card returned ${declined.status}`);
+  if (declined.status !== 402) {
+    throw new Error(`checking out with a declined card returned ${declined.status}: ${JSON.stringify(declined.body)}`);
+  }
+  const openShipments = (await storage.getOrderShipments(declined.body.order.id))
+    .filter(shipment => shipment.status !== "cancelled");
+  if (openShipments.length > 0) {
+    failures.push(`the declined order still has ${openShipments.length} open shipment(s)`);
+  }
+
+  const cart = await storage.getCartByUserId(customer.id);
+  const items = cart ? await storage.getCartItems(cart.id) : [];
+  if (items.length !== 1 || items[0].variant_id !== variant.id) {
+    failures.push(`after the decline the cart holds ${JSON.stringify(items.map(item => item.variant_id))}, expected [${variant.id}]`);
+  }
+
+  const retried = await checkout(client, []);
+  console.log(` - Retrying with another card returned ${retried.status}`);
+  if (retried.status !== 201) {
+    failures.push(`retrying after a decline returned ${retried.status}, expected 201: ${JSON.stringify(retried.body)}`);
+  }
+  const variantAfter = await storage.getProductVariant(variant.id);
+  if (variantAfter?.stock !== 2) {
+    failures.push(`variant stock is ${variantAfter?.stock} after the retry, expected 2`);
+  }
+}
+
+// A coupon on a category covers its subcategories, the same as the category
+// page lists their products
+async function checkSubcategoryCoupon(client: Client, failures: string[]) {
+  const suffix = randomUUID().slice(0, 8);
+  const parent = await storage.createCategory({
+    category_id: `CAT-${suffix}`,
+    category_name: "Routes Parent",
+    slug: `routes-parent-${suffix}`,
+    position: 0
+  });
+  const child = await storage.createCategory({
+    category_id: `CAT-${suffix}-child`,
+    category_name: "Routes Child",
+    slug: "routes-child",
+    parent_id: parent.id,
+    position: 0
+  });
+  const product = await createSellerProduct("Subcategory Product", 5);
+  await storage.assignProductToCategory({ product_id: product.id, category_id: child.id });
+  const coupon = await storage.createCoupon({
+    code: `PARENT${suffix}`.toUpperCase(),
+    type: "percentage",
+    value: 10,
+    category_id: parent.id
+  });
+  await registerCustomer(client);
+
+  const added = await client("POST", "/api/cart/items", { product_id: product.id, quantity: 1 });
+  if (added.status !== 201) {
+    throw new Error(`adding the product to the cart returned ${added.status}: ${JSON.stringify(added.body)}`);
+  }
+  const applied = await client("POST", "/api/cart/coupon", { code: coupon.code });
+  console.log(` - Applying a parent category coupon to a subcategory product returned ${applied.status}`);
+  if (applied.status !== 200) {
+    failures.push(`applying a parent category coupon to a subcategory product returned ${applied.status}, expected 200`);
+    return;
+  }
+
+  const placed = await checkout(client, []);
+  console.log(` - Checking out with it returned ${placed.status}`);
+  if (placed.status !== 201 || placed.body?.order?.discount !== 1) {
+    failures.push(`checking out with a parent category coupon returned ${placed.status} and a discount of ${placed.body?.order?.discount}, expected 201 and 1`);
+  }
+}
+
+// A product delisted while it sits in a cart can't be checked out or added again
+async function checkDelistedProduct(client: Client, failures: string[]) {
+  const product = await createSellerProduct("Delisted Product", 5);
+  await registerCustomer(client);
+
+  const addRes = await client("POST", "/api/cart/items", { product_id: product.id, quantity: 1 });
+  if (addRes.status !== 201) {
+    throw new Error(`adding the product to the cart returned ${addRes.status}: ${JSON.stringify(addRes.body)}`);
+  }
+  await storage.updateProduct(product.id, { status: "delisted" });
+
+  const placed = await checkout(client, []);
+  console.log(` - Checking out a delisted product returned ${placed.status}`);
+  if (placed.status !== 400) {
+    failures.push(`checking out a delisted product returned ${placed.status}, expected 400`);
+  }
+  const productAfter = await storage.getProduct(product.id);
+  if (productAfter?.stock !== 5) {
+    failures.push(`delisted product stock is ${productAfter?.stock} after the refused checkout, expected 5`);
+  }
+
+  const addAgain = await client("POST", "/api/cart/items", { product_id: product.id, quantity: 1 });
+  console.log(` - Adding a delisted product to the cart returned ${addAgain.status}`);
+  if (addAgain.status !== 400) {
+    failures.push(`adding a delisted product to the cart returned ${addAgain.status}, expected 400`);
+  }
+}
+
+// Return photo links have to be web URLs, since sellers open them. A seller
+// can refund a return for less than it's worth but not for more.
+async function checkReturnRefundLimit(sellerClient: Client, customerClient: Client, failures: string[]) {
+  const seller = await registerSeller(sellerClient, "Routes Returns Shop");
+  const product = await createSellerProduct("Returned Product", 5, seller.id);
+  await registerCustomer(customerClient);
+
+  const placed = await checkout(customerClient, [{ product_id: product.id }]);
+  if (placed.status !== 201) {
+    throw new Error(`placing the order returned ${placed.status}: ${JSON.stringify(placed.body)}`);
+  }
+  const order = placed.body.order;
+  await storage.updateOrderStatus(order.id, order.status, "delivered", {
+    changed_by: null,
+    actor_role: "system",
+    note: "Delivered for the order route checks"
+  });
+  const [item] = await storage.getOrderItems(order.id);
+
+  const scripted = await customerClient("POST", `/api/orders/${order.id}/returns`, {
+    order_item_id: item.id,
+    quantity: 1,
+    reason: "damaged",
+    photos: ["javascript:alert(document.cookie)"]
+  });
+  console.log(` - Requesting a return with a javascript: photo link returned ${scripted.status}`);
+  if (scripted.status !== 400) {
+    failures.push(`requesting a return with a javascript: photo link returned ${scripted.status}, expected 400`);
+    return; // The item is in that return now, so it can't be returned again below
+  }
+
+  const requested = await customerClient("POST", `/api/orders/${order.id}/returns`, {
+    order_item_id: item.id,
+    quantity: 1,
+    reason: "damaged"
+  });
+  if (requested.status !== 201) {
+    throw new Error(`requesting a return returned ${requested.status}: ${JSON.stringify(requested.body)}`);
+  }
+  const returnId = requested.body.id;
+  for (const step of ["approve", "receive"]) {
+    const res = await sellerClient("POST", `/api/returns/${returnId}/${step}`, {});
+    if (res.status !== 200) {
+      throw new Error(`${step} on the return returned ${res.status}: ${JSON.stringify(res.body)}`);
+    }
+  }
+
+  // The whole charge is within what the payment can refund, but it includes
+  // shipping, which a return doesn't
+  const tooMuch = await sellerClient("POST", `/api/returns/${returnId}/refund`, { amount: order.total_price });
+  console.log(` - Refunding a return for more than it's worth returned ${tooMuch.status}`);
+  if (tooMuch.status !== 400) {
+    failures.push(`refunding a return for more than it's worth returned ${tooMuch.status}, expected 400`);
+  }
+  const returnAfter = await storage.getReturnRequest(returnId);
+  if (returnAfter?.status !== "received") {
+    failures.push(`the return is ${returnAfter?.status} after the refused refund, expected received`);
+  }
+
+  const partial = await sellerClient("POST", `/api/returns/${returnId}/refund`, { amount: 5 });
+  console.log(` - Refunding part of a return returned ${partial.status}`);
+  if (partial.status !== 200 || partial.body?.return_request?.refund_amount !== 5) {
+    failures.push(`refunding part of a return returned ${partial.status}, expected 200 with a refund of 5`);
+  }
+}
+
+// An order still waiting on its payment doesn't make the customer a verified
+// purchaser; once an order is paid for they can review the product
+async function checkUnpaidOrderReview(client: Client, failures: string[]) {
+  const product = await createSellerProduct("Review Product", 5);
+  await registerCustomer(client);
+
+  const pending = await checkout(client, [{ product_id: product.id }], MOCK_PAYMENT_TOKENS.requiresAction);
+  if (pending.body?.order?.status !== "pending_payment") {
+    throw new Error(`checking out with 3-D Secure returned ${pending.status} and a ${pending.body?.order?.status} order`);
+  }
+
+  const review = { product_id: product.id, rating: 5, title: "Great" };
+  const unpaid = await client("POST", "/api/reviews", review);
+  console.log(` - Reviewing a product from an unpaid order returned ${unpaid.status}`);
+  if (unpaid.status !== 403) {
+    failures.push(`reviewing a product from an unpaid order returned ${unpaid.status}, expected 403`);
+    return;
+  }
+
+  const paid = await checkout(client, [{ product_id: product.id }]);
+  if (paid.status !== 201) {
+    throw new Error(`checking out returned ${paid.status}: ${JSON.stringify(paid.body)}`);
+  }
+  const reviewed = await client("POST", "/api/reviews", review);
+  console.log(` - Reviewing it after a paid order returned ${reviewed.status}`);
+  if (reviewed.status !== 201) {
+    failures.push(`reviewing a product after a paid order returned ${reviewed.status}, expected 201`);
+  }
+}
+
+async function verifyOrderRoutes() {
+  console.log(`Checking order routes against ${storage.constructor.name}...`);
+
+  const { server, baseUrl } = await startServer();
+  const failures: string[] = [];
+  try {
+    await checkPartlyShippedCancel(createClient(baseUrl), failures);
+    await checkShipmentNeedsPaidOrder(createClient(baseUrl), createClient(baseUrl), failures);
+    await checkDeclineRetryWithVariant(createClient(baseUrl), failures);
+    await checkSubcategoryCoupon(createClient(baseUrl), failures);
+    await checkDelistedProduct(createClient(baseUrl), failures);
+    await checkReturnRefundLimit(createClient(baseUrl), createClient(baseUrl), failures);
+    await checkUnpaidOrderReview(createClient(baseUrl), failures);
+  } finally {
+    server.close();
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+
+  console.log("Order routes behave as expected");
+}
+
+verifyOrderRoutes()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Order route check failed:", error);
+    process.exit(1);
+  });
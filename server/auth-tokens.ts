@@ -0,0 +1,94 @@
+/**
+ * Account Tokens
+ * Signed, expiring tokens for the links in email verification and password
+ * reset emails. Nothing is stored server-side: a token carries its purpose,
+ * the user and its expiry, signed with AUTH_TOKEN_SECRET, plus a fingerprint
+ * of the email address or password hash it was issued for. Changing either
+ * one invalidates the outstanding tokens, which makes reset links single-use.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { User } from "@shared/schema";
+import { storage } from "./storage";
+import { AUTH_TOKEN_CONFIG } from "./config";
+
+export type AuthTokenPurpose = "verify_email" | "reset_password";
+
+interface AuthTokenPayload {
+  p: AuthTokenPurpose;
+  u: number; // User id
+  e: number; // Expiry, in milliseconds since the epoch
+  f: string; // Fingerprint of the email address or password hash
+}
+
+export class AuthTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthTokenError";
+  }
+}
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  verify_email: AUTH_TOKEN_CONFIG.verifyEmailTtlMs,
+  reset_password: AUTH_TOKEN_CONFIG.resetPasswordTtlMs,
+};
+
+function getFingerprint(purpose: AuthTokenPurpose, user: User): string {
+  const source = purpose === "verify_email" ? user.email.toLowerCase() : user.password;
+  return createHash("sha256").update(source).digest("base64url").slice(0, 16);
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", AUTH_TOKEN_CONFIG.secret).update(encodedPayload).digest("base64url");
+}
+
+// Token format: <base64url JSON payload>.<base64url HMAC-SHA256 of the payload>
+export function createAuthToken(purpose: AuthTokenPurpose, user: User, now: Date = new Date()): string {
+  const payload: AuthTokenPayload = {
+    p: purpose,
+    u: user.id,
+    e: now.getTime() + TOKEN_TTL_MS[purpose],
+    f: getFingerprint(purpose, user),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+// Returns the user a token was issued to, or throws AuthTokenError with a
+// message that can be shown to them
+export async function verifyAuthToken(token: string, purpose: AuthTokenPurpose): Promise<User> {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) {
+    throw new AuthTokenError("This link is invalid");
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    throw new AuthTokenError("This link is invalid");
+  }
+
+  let payload: AuthTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    throw new AuthTokenError("This link is invalid");
+  }
+  if (payload.p !== purpose) {
+    throw new AuthTokenError("This link is invalid");
+  }
+  if (Date.now() > payload.e) {
+    throw new AuthTokenError("This link has expired");
+  }
+
+  const user = await storage.getUser(payload.u);
+  if (!user) {
+    throw new AuthTokenError("This link is invalid");
+  }
+  if (getFingerprint(purpose, user) !== payload.f) {
+    throw new AuthTokenError(
+      purpose === "reset_password" ? "This link has already been used" : "This link is no longer valid"
+    );
+  }
+  return user;
+}
@@ -1,25 +1,104 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
 import { randomBytes } from "crypto";
+import QRCode from "qrcode";
 import { storage } from "./storage";
-import { User, InsertUser, loginUserSchema } from "@shared/schema";
-import { pool } from "./db"; // Import PostgreSQL pool for direct query
+import {
+  User as SelectUser, InsertUser, loginUserSchema, accountEmailSchema, verifyEmailSchema, resetPasswordSchema,
+  twoFactorCodeSchema, twoFactorReauthSchema, TwoFactorChallenge
+} from "@shared/schema";
+import { pool } from "./db"; // Import PostgreSQL pool for the startup connection check
+import { hashPassword, comparePasswords, needsRehash, getPasswordScheme } from "./passwords";
+import { AuthTokenError, createAuthToken, verifyAuthToken } from "./auth-tokens";
+import { getMailer } from "./mailer";
+import { MAIL_CONFIG, TWO_FACTOR_CONFIG } from "./config";
+import {
+  generateRecoveryCodes, generateTotpSecret, getTotpUri, hashRecoveryCode, isTotpCodeFormat, verifyTotpCode
+} from "./totp";
 
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
   }
 }
 
-// Removed password encryption for simplicity as requested
-async function hashPassword(password: string) {
-  return password; // No encryption, store as plain text
+declare module "express-session" {
+  interface SessionData {
+    // Set by POST /api/login when the password is right but the account has
+    // two-factor authentication on; POST /api/login/2fa finishes the login
+    twoFactorChallenge?: { userId: number; expiresAt: number; attempts: number };
+  }
+}
+
+// A user as the API returns them: without the password or two-factor secrets
+export function toPublicUser(user: SelectUser) {
+  const { password, totp_secret, totp_recovery_codes, totp_last_used_step, ...publicUser } = user;
+  return publicUser;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  return supplied === stored; // Direct string comparison
+// Admins have to turn on two-factor authentication before they can use the
+// account for anything else
+function requiresTwoFactorSetup(user: SelectUser): boolean {
+  return user.role === "admin" && !user.totp_enabled_at;
+}
+
+const TWO_FACTOR_SETUP_REQUIRED = {
+  message: "Turn on two-factor authentication to use an admin account",
+  code: "2fa_setup_required"
+};
+
+// Accepts a code from the user's authenticator app or one of their unused
+// recovery codes, and records it as used so it can't be entered again
+async function checkSecondFactor(user: SelectUser, code: string): Promise<boolean> {
+  if (!user.totp_secret) return false;
+
+  if (isTotpCodeFormat(code)) {
+    const step = verifyTotpCode(user.totp_secret, code, user.totp_last_used_step);
+    if (step === null) return false;
+    await storage.updateUser(user.id, { totp_last_used_step: step });
+    return true;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (!user.totp_recovery_codes.includes(hash)) return false;
+  const remaining = user.totp_recovery_codes.filter(stored => stored !== hash);
+  await storage.updateUser(user.id, { totp_recovery_codes: remaining });
+  console.log(`AUTH DEBUG: User "${user.username}" used a recovery code, ${remaining.length} left`);
+  return true;
+}
+
+async function sendVerificationEmail(user: SelectUser) {
+  const link = `${MAIL_CONFIG.appUrl}/auth?verify=${encodeURIComponent(createAuthToken("verify_email", user))}`;
+  await getMailer().send({
+    to: user.email,
+    subject: "Confirm your ShopEase email address",
+    text: [
+      `Hi ${user.name || user.username},`,
+      "",
+      "Please confirm your email address by opening this link:",
+      link,
+      "",
+      "The link expires in 24 hours. If you didn't create a ShopEase account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetEmail(user: SelectUser) {
+  const link = `${MAIL_CONFIG.appUrl}/auth?reset=${encodeURIComponent(createAuthToken("reset_password", user))}`;
+  await getMailer().send({
+    to: user.email,
+    subject: "Reset your ShopEase password",
+    text: [
+      `Hi ${user.name || user.username},`,
+      "",
+      "Someone asked to reset the password for your ShopEase account. To choose a new one, open this link:",
+      link,
+      "",
+      "The link expires in 1 hour and works once. If you didn't ask for a reset, you can ignore this email.",
+    ].join("\n"),
+  });
 }
 
 export function setupAuth(app: Express) {
@@ -70,34 +149,7 @@ export function setupAuth(app: Express) {
     new LocalStrategy(async (username, password, done) => {
       try {
         console.log(`AUTH DEBUG: Attempting login with username = "${username}"`);
-        console.log(`AUTH DEBUG: Attempting direct database query for user "${username}"`);
-        
-        // Try direct database query as fallback based on DB_TYPE
-        const dbType = process.env.DB_TYPE || 'postgres';
         
-        try {
-          if (dbType === 'postgres') {
-            // PostgreSQL query with parameterized query using $1 syntax
-            const result = await pool.query('SELECT * FROM users WHERE username = $1', [username]);
-            if (result.rows && result.rows.length > 0) {
-              const dbUser = result.rows[0];
-              console.log('AUTH DEBUG: Found user directly from PostgreSQL database:', dbUser.username);
-              
-              if (password === dbUser.password) {
-                console.log('AUTH DEBUG: Direct PostgreSQL database password match successful');
-                return done(null, dbUser);
-              }
-            }
-          } else {
-            // For MySQL and other database types, don't try direct query
-            // as the query format is different. Use storage interface instead.
-            console.log('AUTH DEBUG: Skipping direct database query for non-PostgreSQL database');
-          }
-        } catch (dbError) {
-          console.error('AUTH DEBUG: Direct database user lookup failed:', dbError);
-        }
-        
-        // Fall back to using the storage interface
         const user = await storage.getUserByUsername(username);
         
         if (!user) {
@@ -106,13 +158,24 @@ export function setupAuth(app: Express) {
         }
         
         console.log(`AUTH DEBUG: Found user ${username}, comparing passwords`);
-        console.log(`AUTH DEBUG: Stored password = "${user.password}", supplied = "${password}"`);
         
         if (!(await comparePasswords(password, user.password))) {
           console.log(`AUTH DEBUG: Password mismatch for user "${username}"`);
           return done(null, false, { message: "Invalid username or password" });
         }
         
+        // Upgrade legacy plain text or bcrypt hashes now that we know the password
+        if (needsRehash(user.password)) {
+          try {
+            const rehashed = await hashPassword(password);
+            await storage.updateUser(user.id, { password: rehashed });
+            console.log(`AUTH DEBUG: Upgraded ${getPasswordScheme(user.password)} password for user "${username}"`);
+          } catch (rehashError) {
+            // The login itself succeeded, so don't fail it over the upgrade
+            console.error(`AUTH DEBUG: Failed to rehash password for "${username}":`, rehashError);
+          }
+        }
+        
         console.log(`AUTH DEBUG: Login successful for user "${username}"`);
         return done(null, user);
       } catch (error) {
@@ -158,10 +221,15 @@ export function setupAuth(app: Express) {
         }
       }
 
-      // Create the user with hashed password
+      // Create the user with hashed password. Only the emailed link can
+      // verify the address and only enrollment turns on two-factor
+      // authentication, so client-supplied values for those are dropped.
+      const {
+        email_verified_at, totp_secret, totp_enabled_at, totp_recovery_codes, totp_last_used_step, ...registration
+      } = req.body;
       const hashedPassword = await hashPassword(req.body.password);
       const userToCreate: InsertUser = {
-        ...req.body,
+        ...registration,
         password: hashedPassword,
         role: req.body.role || "customer"
       };
@@ -177,12 +245,19 @@ export function setupAuth(app: Express) {
         });
       }
 
+      // The account is usable straight away; the email address is marked
+      // verified once the emailed link is followed
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error(`AUTH DEBUG: Failed to send verification email to user "${user.username}":`, mailError);
+      }
+
       // Auto login after registration
       req.login(user, (err) => {
         if (err) return next(err);
         // Don't send password in response
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error) {
       next(error);
@@ -190,21 +265,75 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: Error, user: User, info: any) => {
+    passport.authenticate("local", (err: Error, user: SelectUser, info: any) => {
       if (err) return next(err);
       if (!user) {
         return res.status(401).json({ message: info.message || "Authentication failed" });
       }
+
+      // The password checks out, but the session isn't signed in until the
+      // second step gets a code
+      if (user.totp_enabled_at) {
+        req.session.twoFactorChallenge = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_CONFIG.challengeTtlMs,
+          attempts: 0
+        };
+        const challenge: TwoFactorChallenge = {
+          status: "2fa_required",
+          message: "Enter the code from your authenticator app or one of your recovery codes"
+        };
+        return res.json(challenge);
+      }
       
       req.login(user, (loginErr) => {
         if (loginErr) return next(loginErr);
         // Don't send password in response
-        const { password, ...userWithoutPassword } = user;
-        return res.json(userWithoutPassword);
+        return res.json(toPublicUser(user));
       });
     })(req, res, next);
   });
 
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const challenge = req.session.twoFactorChallenge;
+      const user = challenge && challenge.expiresAt > Date.now()
+        ? await storage.getUser(challenge.userId)
+        : undefined;
+      if (!challenge || !user?.totp_enabled_at) {
+        delete req.session.twoFactorChallenge;
+        return res.status(401).json({ message: "Your sign-in has expired. Enter your username and password again." });
+      }
+
+      if (!(await checkSecondFactor(user, validationResult.data.code))) {
+        challenge.attempts++;
+        if (challenge.attempts >= TWO_FACTOR_CONFIG.maxAttempts) {
+          delete req.session.twoFactorChallenge;
+          console.log(`AUTH DEBUG: Too many wrong two-factor codes for user "${user.username}"`);
+          return res.status(401).json({ message: "Too many wrong codes. Enter your username and password again." });
+        }
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      delete req.session.twoFactorChallenge;
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        console.log(`AUTH DEBUG: Login successful for user "${user.username}" with two-factor code`);
+        res.json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -216,33 +345,272 @@ export function setupAuth(app: Express) {
     });
   });
 
+  app.post("/api/verify-email", async (req, res, next) => {
+    try {
+      const validationResult = verifyEmailSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      let user = await verifyAuthToken(validationResult.data.token, "verify_email");
+      if (!user.email_verified_at) {
+        user = (await storage.updateUser(user.id, { email_verified_at: new Date() })) ?? user;
+      }
+
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof AuthTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // The responses to these two don't say whether an account has the address
+  app.post("/api/verify-email/resend", async (req, res, next) => {
+    try {
+      const validationResult = accountEmailSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = await storage.getUserByEmail(validationResult.data.email);
+      if (user && !user.email_verified_at) {
+        await sendVerificationEmail(user);
+      }
+      res.json({ message: "If that address belongs to an unverified account, we've sent a new verification link" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const validationResult = accountEmailSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = await storage.getUserByEmail(validationResult.data.email);
+      if (user) {
+        await sendPasswordResetEmail(user);
+      }
+      res.json({ message: "If that address belongs to an account, we've sent a link to reset its password" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const validationResult = resetPasswordSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = await verifyAuthToken(validationResult.data.token, "reset_password");
+      // Following the emailed link proves the address too
+      await storage.updateUser(user.id, {
+        password: await hashPassword(validationResult.data.password),
+        email_verified_at: user.email_verified_at ?? new Date()
+      });
+      console.log(`AUTH DEBUG: Password reset for user "${user.username}"`);
+
+      res.json({ message: "Your password has been reset. You can now sign in." });
+    } catch (error) {
+      if (error instanceof AuthTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Not authenticated" });
     }
     // Don't send password in response
-    const { password, ...userWithoutPassword } = req.user as User;
-    res.json(userWithoutPassword);
+    res.json(toPublicUser(req.user as SelectUser));
+  });
+
+  // Starts enrollment with a new secret. The code isn't required at login
+  // until POST /api/2fa/enable confirms the authenticator app has the secret.
+  app.post("/api/2fa/setup", isSignedIn, async (req, res, next) => {
+    try {
+      const user = req.user as SelectUser;
+      if (user.totp_enabled_at) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(user.id, { totp_secret: secret });
+
+      const otpauthUri = getTotpUri(secret, user.username);
+      res.json({
+        secret,
+        otpauth_uri: otpauthUri,
+        qr_code: await QRCode.toDataURL(otpauthUri) // PNG data URL
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/enable", isSignedIn, async (req, res, next) => {
+    try {
+      const validationResult = twoFactorCodeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = req.user as SelectUser;
+      if (user.totp_enabled_at) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+      if (!user.totp_secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+
+      // Only an app code proves the secret was scanned, not a recovery code
+      const step = verifyTotpCode(user.totp_secret, validationResult.data.code, null);
+      if (step === null) {
+        return res.status(400).json({ message: "That code doesn't match. Check the time on your device and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        totp_enabled_at: new Date(),
+        totp_recovery_codes: recoveryCodes.hashes,
+        totp_last_used_step: step
+      });
+      console.log(`AUTH DEBUG: Two-factor authentication turned on for user "${user.username}"`);
+
+      // The only time the codes are shown; only their hashes are kept
+      res.json({ recovery_codes: recoveryCodes.codes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turning 2FA off or replacing the recovery codes takes the password and a
+  // current code again, so a session left signed in isn't enough
+  app.post("/api/2fa/disable", isSignedIn, async (req, res, next) => {
+    try {
+      const validationResult = twoFactorReauthSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = req.user as SelectUser;
+      if (!user.totp_enabled_at) {
+        return res.status(400).json({ message: "Two-factor authentication is already off" });
+      }
+      if (user.role === "admin") {
+        return res.status(403).json({ message: "Admin accounts have to keep two-factor authentication on" });
+      }
+      if (!(await reauthenticate(user, validationResult.data))) {
+        return res.status(400).json({ message: "Wrong password or code" });
+      }
+
+      const updated = await storage.updateUser(user.id, {
+        totp_secret: null,
+        totp_enabled_at: null,
+        totp_recovery_codes: [],
+        totp_last_used_step: null
+      });
+      console.log(`AUTH DEBUG: Two-factor authentication turned off for user "${user.username}"`);
+
+      res.json(toPublicUser(updated ?? user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", isSignedIn, async (req, res, next) => {
+    try {
+      const validationResult = twoFactorReauthSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const user = req.user as SelectUser;
+      if (!user.totp_enabled_at) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await reauthenticate(user, validationResult.data))) {
+        return res.status(400).json({ message: "Wrong password or code" });
+      }
+
+      // Replaces the old codes, used or not
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, { totp_recovery_codes: recoveryCodes.hashes });
+
+      res.json({ recovery_codes: recoveryCodes.codes });
+    } catch (error) {
+      next(error);
+    }
   });
 }
 
-// Middleware to check if user is authenticated
-export function isAuthenticated(req: Express.Request, res: Express.Response, next: Express.NextFunction) {
+async function reauthenticate(user: SelectUser, credentials: { password: string; code: string }): Promise<boolean> {
+  // Check the password first so a wrong one doesn't use up a code
+  return await comparePasswords(credentials.password, user.password) &&
+    await checkSecondFactor(user, credentials.code);
+}
+
+// Like isAuthenticated, but also lets in admins who haven't turned on
+// two-factor authentication yet, so they can set it up
+function isSignedIn(req: Request, res: Response, next: NextFunction) {
   if (req.isAuthenticated()) {
     return next();
   }
   res.status(401).json({ message: "Unauthorized" });
 }
 
+// Middleware to check if user is authenticated
+export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (requiresTwoFactorSetup(req.user as SelectUser)) {
+    return res.status(403).json(TWO_FACTOR_SETUP_REQUIRED);
+  }
+  next();
+}
+
 // Middleware to check if user has specific role
 export function hasRole(roles: string | string[]) {
   const allowedRoles = Array.isArray(roles) ? roles : [roles];
-  return (req: Express.Request, res: Express.Response, next: Express.NextFunction) => {
+  return (req: Request, res: Response, next: NextFunction) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
-    const user = req.user as User;
+    const user = req.user as SelectUser;
+    if (requiresTwoFactorSetup(user)) {
+      return res.status(403).json(TWO_FACTOR_SETUP_REQUIRED);
+    }
     if (!allowedRoles.includes(user.role)) {
       return res.status(403).json({ message: "Forbidden" });
     }
@@ -34,6 +34,52 @@ export const MYSQL_CONFIG = {
   isAvailable: process.env.MYSQL_DATABASE !== undefined
 };
 
+// Payment gateway configuration
+export const PAYMENT_CONFIG = {
+  provider: process.env.PAYMENT_PROVIDER || 'mock',
+  // Shared secret for signing POST /api/payments/webhook bodies
+  webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || 'dev-payment-webhook-secret',
+  // How long to wait for the gateway before leaving a payment pending
+  timeoutMs: parseInt(process.env.PAYMENT_TIMEOUT_MS || '10000', 10)
+};
+
+// Uploaded image storage configuration
+export const UPLOAD_CONFIG = {
+  driver: process.env.UPLOAD_DRIVER || 'local',
+  // Where the local driver writes files, relative to the working directory
+  directory: process.env.UPLOAD_DIR || 'uploads',
+  // URL prefix the local driver's files are served under
+  publicPath: '/uploads'
+};
+
+// Outgoing email configuration
+export const MAIL_CONFIG = {
+  // 'console' prints messages to the server log, 'file' writes them to directory
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'ShopEase <no-reply@shopease.local>',
+  directory: process.env.MAIL_DIR || 'mail',
+  // Base URL for links in emails
+  appUrl: process.env.APP_URL || 'http://localhost:5000'
+};
+
+// Email verification and password reset token configuration
+export const AUTH_TOKEN_CONFIG = {
+  // Secret the tokens are signed with
+  secret: process.env.AUTH_TOKEN_SECRET || 'dev-auth-token-secret',
+  verifyEmailTtlMs: 24 * 60 * 60 * 1000, // 24 hours
+  resetPasswordTtlMs: 60 * 60 * 1000 // 1 hour
+};
+
+// Two-factor authentication configuration
+export const TWO_FACTOR_CONFIG = {
+  // Name authenticator apps list the account under
+  issuer: process.env.TOTP_ISSUER || 'ShopEase',
+  // How long the second login step stays open after the password is accepted
+  challengeTtlMs: 5 * 60 * 1000, // 5 minutes
+  // Wrong codes allowed before the password has to be entered again
+  maxAttempts: 5
+};
+
 // Check if database configuration is available
 export const isDatabaseConfigured = () => {
   if (DB_TYPE === 'mysql') {
@@ -2,14 +2,29 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { loadEnv } from "./env";
+import { serveUploadedImages } from "./product-images";
 
 // Load environment variables from .env file
 loadEnv();
 
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the exact request bytes so payment webhook signatures can be checked
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
+// Product images stored by the local upload driver
+serveUploadedImages(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -0,0 +1,84 @@
+/**
+ * Mailer
+ * The Mailer interface outgoing email goes through, and the development
+ * transports: one that prints messages to the server log and one that writes
+ * each message to its own .eml file. A transport that actually delivers mail
+ * implements the same interface and is picked with MAIL_TRANSPORT.
+ */
+
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { MAIL_CONFIG } from "./config";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Headers plus plain text body, as both development transports output it
+function formatMessage(message: MailMessage, from: string, date: Date): string {
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${date.toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+  ].join("\r\n");
+}
+
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  constructor(private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`MAILER: ----- message to ${message.to} -----`);
+    console.log(formatMessage(message, this.from, new Date()).replace(/\r\n/g, "\n"));
+    console.log("MAILER: ----- end of message -----");
+  }
+}
+
+export class FileMailer implements Mailer {
+  readonly name = "file";
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const date = new Date();
+    // Timestamp first so a directory listing is in sending order
+    const file = path.join(
+      this.directory,
+      `${date.toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`
+    );
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, formatMessage(message, this.from, date));
+    console.log(`MAILER: Wrote message to ${message.to} to ${file}`);
+  }
+}
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    switch (MAIL_CONFIG.transport) {
+      case "console":
+        mailer = new ConsoleMailer(MAIL_CONFIG.from);
+        break;
+      case "file":
+        mailer = new FileMailer(path.resolve(MAIL_CONFIG.directory), MAIL_CONFIG.from);
+        break;
+      default:
+        throw new Error(`Unknown mail transport "${MAIL_CONFIG.transport}"`);
+    }
+  }
+  return mailer;
+}
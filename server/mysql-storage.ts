@@ -2,17 +2,39 @@ import { randomUUID } from "crypto";
 import session from "express-session";
 import mysqlSessionStore from "express-mysql-session";
 import {
-  User, InsertUser, Seller, InsertSeller, Product, InsertProduct,
+  User, InsertUser, Seller, InsertSeller, Product, NewProduct,
+  ProductStatusHistory, InsertProductStatusHistory, ProductVariant, InsertProductVariant, VariantOption,
+  ProductImage, InsertProductImage,
   Category, InsertCategory, ProductCategory, InsertProductCategory,
+  CategoryAttribute, InsertCategoryAttribute, ProductAttributeValue, InsertProductAttributeValue,
   Cart, InsertCart, CartItem, InsertCartItem, 
   Order, InsertOrder, OrderItem, InsertOrderItem,
   Payment, InsertPayment, Shipment, InsertShipment,
-  Review, InsertReview
+  Review, InsertReview, ReviewImage, InsertReviewImage, ReviewReport, InsertReviewReport, Coupon, InsertCoupon, Address, InsertAddress,
+  OrderStatusHistory, ReturnRequest, InsertReturnRequest,
+  SellerApplication, InsertSellerApplication, Wishlist, InsertWishlist, WishlistItem, InsertWishlistItem
 } from "@shared/mysql-schema";
 import { db, pool, initializeMySql } from "./mysql-db";
 import * as schema from "@shared/mysql-schema";
-import { and, eq, like, inArray, or } from "drizzle-orm";
-import { IStorage } from "./storage";
+import { and, asc, desc, eq, gte, lte, like, inArray, isNull, notInArray, or, sql } from "drizzle-orm";
+import { calculateQuote, CouponLine } from "@shared/pricing";
+import {
+  IStorage, PlaceOrderInput, PlacedOrder, OrderPlacementError, OrderStatusChange, ProductStatusChange,
+  checkCartItemAvailable, checkCartItemVariant, getCouponAdjustments, getOrderAddressFields, getFulfillmentShipments,
+  getLikePattern, buildProductSearchDocuments, OrderDetails, buildOrderDetails, groupProductCategories,
+  groupRatingCounts
+} from "./storage";
+import { ProductSearchDocument } from "@shared/search";
+import { formatVariantLabel, getVariantDisplayName, getVariantPrice } from "@shared/variants";
+import { getCategorySubtreeIds, getCategoryLineageIds, CategoryPlacement } from "@shared/categories";
+import { AttributeFilter } from "@shared/attributes";
+import { EMPTY_RATING_HISTOGRAM, summarizeRatings } from "@shared/ratings";
+import { ReviewStatus } from "@shared/reviews";
+import { unpurchasedOrderStatuses } from "@shared/order-status";
+import {
+  Page, ProductListQuery, OrderListQuery, UserListQuery, SellerListQuery
+} from "@shared/pagination";
+import { buildPage, getKeysetCondition, getKeysetOrderBy } from "./pagination";
 
 export class MySqlStorage implements IStorage {
   sessionStore: any; // Using any as a workaround for session.SessionStore typing issues
@@ -83,13 +105,13 @@ export class MySqlStorage implements IStorage {
       
       if (existingCategories.length === 0) {
         const categories = [
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Electronics" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Clothing" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Home & Kitchen" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Books" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Beauty" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Sports" },
-          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Toys" }
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Electronics", slug: "electronics", position: 0 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Clothing", slug: "clothing", position: 1 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Home & Kitchen", slug: "home-and-kitchen", position: 2 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Books", slug: "books", position: 3 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Beauty", slug: "beauty", position: 4 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Sports", slug: "sports", position: 5 },
+          { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Toys", slug: "toys", position: 6 }
         ];
         
         for (const category of categories) {
@@ -119,9 +141,10 @@ export class MySqlStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(schema.users).values(insertUser);
+    const result = await db.insert(schema.users).values({ ...insertUser, totp_recovery_codes: [] });
     const id = Number(result[0].insertId);
-    return { ...insertUser, id } as User;
+    const [user] = await db.select().from(schema.users).where(eq(schema.users.id, id));
+    return user;
   }
 
   async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
@@ -141,6 +164,68 @@ export class MySqlStorage implements IStorage {
     return await db.select().from(schema.users);
   }
 
+  async listUsersPage(query: UserListQuery): Promise<Page<User>> {
+    const { role, q } = query.filter;
+    const where = and(
+      role !== undefined ? eq(schema.users.role, role) : undefined,
+      q !== undefined ? or(
+        like(schema.users.name, getLikePattern(q)),
+        like(schema.users.username, getLikePattern(q)),
+        like(schema.users.email, getLikePattern(q))
+      ) : undefined
+    );
+    const column = schema.users[query.sort.field];
+
+    const users = await db.select().from(schema.users)
+      .where(and(where, getKeysetCondition(column, schema.users.id, query)))
+      .orderBy(...getKeysetOrderBy(column, schema.users.id, query.sort))
+      .limit(query.limit + 1);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.users).where(where);
+    return buildPage(users, query, Number(count));
+  }
+
+  async getUsersByIds(ids: number[]): Promise<Map<number, User>> {
+    if (ids.length === 0) return new Map();
+    const users: User[] = await db.select().from(schema.users).where(inArray(schema.users.id, ids));
+    return new Map(users.map(user => [user.id, user]));
+  }
+
+  // ADDRESS BOOK OPERATIONS
+  async getAddress(id: number): Promise<Address | undefined> {
+    const addresses = await db.select().from(schema.addresses).where(eq(schema.addresses.id, id));
+    return addresses[0];
+  }
+
+  async listUserAddresses(userId: number): Promise<Address[]> {
+    return await db.select().from(schema.addresses)
+      .where(eq(schema.addresses.user_id, userId))
+      .orderBy(asc(schema.addresses.id));
+  }
+
+  async createAddress(insertAddress: InsertAddress): Promise<Address> {
+    const result = await db.insert(schema.addresses).values(insertAddress);
+    const id = Number(result[0].insertId);
+    return {
+      ...insertAddress,
+      id,
+      is_default: insertAddress.is_default ?? false,
+      created_at: new Date()
+    } as Address;
+  }
+
+  async updateAddress(id: number, addressData: Partial<Address>): Promise<Address | undefined> {
+    await db.update(schema.addresses)
+      .set(addressData)
+      .where(eq(schema.addresses.id, id));
+    
+    return this.getAddress(id);
+  }
+
+  async deleteAddress(id: number): Promise<boolean> {
+    await db.delete(schema.addresses).where(eq(schema.addresses.id, id));
+    return true;
+  }
+
   // SELLER OPERATIONS
   async getSeller(id: number): Promise<Seller | undefined> {
     const sellers = await db.select().from(schema.sellers).where(eq(schema.sellers.id, id));
@@ -153,9 +238,11 @@ export class MySqlStorage implements IStorage {
   }
 
   async createSeller(insertSeller: InsertSeller): Promise<Seller> {
-    const result = await db.insert(schema.sellers).values(insertSeller);
+    // JSON columns can't have a default in MySQL
+    const data = { ...insertSeller, rating_histogram: EMPTY_RATING_HISTOGRAM };
+    const result = await db.insert(schema.sellers).values(data);
     const id = Number(result[0].insertId);
-    return { ...insertSeller, id } as Seller;
+    return { ...data, id, rating: null, review_count: 0 } as Seller;
   }
 
   async updateSeller(id: number, sellerData: Partial<Seller>): Promise<Seller | undefined> {
@@ -175,6 +262,94 @@ export class MySqlStorage implements IStorage {
     return await db.select().from(schema.sellers);
   }
 
+  async listSellersPage(query: SellerListQuery): Promise<Page<Seller>> {
+    const { q } = query.filter;
+    const where = q !== undefined ? like(schema.sellers.shop_name, getLikePattern(q)) : undefined;
+    const column = schema.sellers[query.sort.field];
+
+    const sellers = await db.select().from(schema.sellers)
+      .where(and(where, getKeysetCondition(column, schema.sellers.id, query)))
+      .orderBy(...getKeysetOrderBy(column, schema.sellers.id, query.sort))
+      .limit(query.limit + 1);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.sellers).where(where);
+    return buildPage(sellers, query, Number(count));
+  }
+
+  // SELLER APPLICATION OPERATIONS
+  async getSellerApplication(id: number): Promise<SellerApplication | undefined> {
+    const applications = await db.select().from(schema.sellerApplications).where(eq(schema.sellerApplications.id, id));
+    return applications[0];
+  }
+
+  async createSellerApplication(insertApplication: InsertSellerApplication): Promise<SellerApplication> {
+    const result = await db.insert(schema.sellerApplications).values(insertApplication);
+    const id = Number(result[0].insertId);
+    return {
+      ...insertApplication,
+      id,
+      description: insertApplication.description ?? null,
+      status: "pending",
+      review_note: null,
+      reviewed_by: null,
+      submitted_at: new Date(),
+      reviewed_at: null
+    } as SellerApplication;
+  }
+
+  async listSellerApplications(filter: { userId?: number; status?: string } = {}): Promise<SellerApplication[]> {
+    const conditions = [];
+    if (filter.userId !== undefined) conditions.push(eq(schema.sellerApplications.user_id, filter.userId));
+    if (filter.status !== undefined) conditions.push(eq(schema.sellerApplications.status, filter.status));
+    
+    return await db.select().from(schema.sellerApplications)
+      .where(and(...conditions))
+      .orderBy(desc(schema.sellerApplications.id));
+  }
+
+  async updateSellerApplicationStatus(id: number, fromStatus: string, toStatus: string, data: Partial<SellerApplication> = {}): Promise<SellerApplication | undefined> {
+    const result = await db.update(schema.sellerApplications)
+      .set({ ...data, status: toStatus })
+      .where(and(
+        eq(schema.sellerApplications.id, id),
+        eq(schema.sellerApplications.status, fromStatus)
+      ));
+    
+    if (result[0].affectedRows === 0) return undefined;
+    return this.getSellerApplication(id);
+  }
+
+  async approveSellerApplication(id: number, data: Partial<SellerApplication>, newSellerId: string): Promise<SellerApplication | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const result = await tx.update(schema.sellerApplications)
+        .set({ ...data, status: "approved" })
+        .where(and(
+          eq(schema.sellerApplications.id, id),
+          eq(schema.sellerApplications.status, "pending")
+        ));
+      
+      if (result[0].affectedRows === 0) return undefined;
+      
+      const [application]: SellerApplication[] = await tx.select().from(schema.sellerApplications)
+        .where(eq(schema.sellerApplications.id, id));
+      const [seller]: Seller[] = await tx.select().from(schema.sellers)
+        .where(eq(schema.sellers.user_id, application.user_id));
+      if (seller) {
+        await tx.update(schema.sellers)
+          .set({ shop_name: application.shop_name, verified: true })
+          .where(eq(schema.sellers.id, seller.id));
+      } else {
+        await tx.insert(schema.sellers).values({
+          user_id: application.user_id,
+          seller_id: newSellerId,
+          shop_name: application.shop_name,
+          verified: true
+        });
+      }
+      
+      return application;
+    });
+  }
+
   // PRODUCT OPERATIONS
   async getProduct(id: number): Promise<Product | undefined> {
     const products = await db.select().from(schema.products).where(eq(schema.products.id, id));
@@ -186,10 +361,22 @@ export class MySqlStorage implements IStorage {
     return products[0];
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const result = await db.insert(schema.products).values(insertProduct);
+  async getProductsByIds(ids: number[]): Promise<Map<number, Product>> {
+    if (ids.length === 0) return new Map();
+    const products: Product[] = await db.select().from(schema.products).where(inArray(schema.products.id, ids));
+    return new Map(products.map(product => [product.id, product]));
+  }
+
+  async createProduct(insertProduct: NewProduct): Promise<Product> {
+    // JSON columns can't have a default in MySQL
+    const data = {
+      ...insertProduct,
+      variant_options: [] as VariantOption[],
+      rating_histogram: EMPTY_RATING_HISTOGRAM
+    };
+    const result = await db.insert(schema.products).values(data);
     const id = Number(result[0].insertId);
-    return { ...insertProduct, id } as Product;
+    return { ...data, id, rating: null, review_count: 0 } as Product;
   }
 
   async updateProduct(id: number, productData: Partial<Product>): Promise<Product | undefined> {
@@ -205,6 +392,190 @@ export class MySqlStorage implements IStorage {
     return true;
   }
 
+  async updateProductStatus(id: number, fromStatus: string, toStatus: string, change: ProductStatusChange): Promise<Product | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      // Conditional update: a concurrent decision on the same product makes this one a no-op
+      const result = await tx.update(schema.products)
+        .set({ status: toStatus, last_updated: new Date() })
+        .where(and(
+          eq(schema.products.id, id),
+          eq(schema.products.status, fromStatus)
+        ));
+      
+      if (result[0].affectedRows === 0) return undefined;
+      
+      await tx.insert(schema.productStatusHistory).values({
+        ...change,
+        product_id: id,
+        from_status: fromStatus,
+        to_status: toStatus
+      });
+      
+      const [product]: Product[] = await tx.select().from(schema.products).where(eq(schema.products.id, id));
+      return product;
+    });
+  }
+
+  async addProductStatusHistory(entry: InsertProductStatusHistory): Promise<ProductStatusHistory> {
+    const result = await db.insert(schema.productStatusHistory).values(entry);
+    const id = Number(result[0].insertId);
+    return {
+      ...entry,
+      id,
+      from_status: entry.from_status ?? null,
+      changed_by: entry.changed_by ?? null,
+      note: entry.note ?? null,
+      changed_at: new Date()
+    } as ProductStatusHistory;
+  }
+
+  async listProductStatusHistory(filter: { productId?: number; sellerId?: number } = {}): Promise<ProductStatusHistory[]> {
+    const conditions = [];
+    if (filter.productId !== undefined) conditions.push(eq(schema.productStatusHistory.product_id, filter.productId));
+    if (filter.sellerId !== undefined) {
+      conditions.push(inArray(
+        schema.productStatusHistory.product_id,
+        db.select({ id: schema.products.id }).from(schema.products).where(eq(schema.products.seller_id, filter.sellerId))
+      ));
+    }
+    
+    return await db.select().from(schema.productStatusHistory)
+      .where(and(...conditions))
+      .orderBy(desc(schema.productStatusHistory.id));
+  }
+
+  async getProductVariants(productId: number): Promise<ProductVariant[]> {
+    return await db.select().from(schema.productVariants)
+      .where(eq(schema.productVariants.product_id, productId))
+      .orderBy(asc(schema.productVariants.id));
+  }
+
+  async getProductVariant(id: number): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(schema.productVariants).where(eq(schema.productVariants.id, id));
+    return variant;
+  }
+
+  async replaceProductVariants(productId: number, options: VariantOption[], variants: InsertProductVariant[]): Promise<ProductVariant[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      const current: ProductVariant[] = await tx.select().from(schema.productVariants)
+        .where(eq(schema.productVariants.product_id, productId));
+      
+      const keptIds: number[] = [];
+      for (const variant of variants) {
+        const existing = current.find(v => v.sku === variant.sku);
+        if (existing) {
+          await tx.update(schema.productVariants)
+            .set({
+              options: variant.options,
+              price: variant.price ?? null,
+              stock: variant.stock ?? 0,
+              image_url: variant.image_url ?? null
+            })
+            .where(eq(schema.productVariants.id, existing.id));
+          keptIds.push(existing.id);
+        } else {
+          const result = await tx.insert(schema.productVariants).values({ ...variant, product_id: productId });
+          keptIds.push(Number(result[0].insertId));
+        }
+      }
+      
+      // No foreign keys here: dropped variants are taken out of carts by
+      // hand, and past orders keep only their label
+      const droppedIds = current.map(v => v.id).filter(id => !keptIds.includes(id));
+      if (droppedIds.length > 0) {
+        await tx.delete(schema.cartItems).where(inArray(schema.cartItems.variant_id, droppedIds));
+        await tx.update(schema.orderItems)
+          .set({ variant_id: null })
+          .where(inArray(schema.orderItems.variant_id, droppedIds));
+        await tx.delete(schema.productVariants).where(inArray(schema.productVariants.id, droppedIds));
+      }
+      
+      const saved: ProductVariant[] = await tx.select().from(schema.productVariants)
+        .where(eq(schema.productVariants.product_id, productId))
+        .orderBy(asc(schema.productVariants.id));
+      await tx.update(schema.products)
+        .set({
+          variant_options: options,
+          ...(saved.length > 0 ? { stock: saved.reduce((sum, v) => sum + v.stock, 0) } : {}),
+          last_updated: new Date()
+        })
+        .where(eq(schema.products.id, productId));
+      
+      return saved;
+    });
+  }
+
+  async getProductImages(productId: number): Promise<ProductImage[]> {
+    return await db.select().from(schema.productImages)
+      .where(eq(schema.productImages.product_id, productId))
+      .orderBy(asc(schema.productImages.position), asc(schema.productImages.id));
+  }
+
+  async getProductImage(id: number): Promise<ProductImage | undefined> {
+    const [image] = await db.select().from(schema.productImages).where(eq(schema.productImages.id, id));
+    return image;
+  }
+
+  async addProductImage(image: InsertProductImage): Promise<ProductImage> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [last]: ProductImage[] = await tx.select().from(schema.productImages)
+        .where(eq(schema.productImages.product_id, image.product_id))
+        .orderBy(desc(schema.productImages.position))
+        .limit(1);
+      const result = await tx.insert(schema.productImages)
+        .values({ ...image, position: (last?.position ?? -1) + 1 });
+      await this.syncProductCover(tx, image.product_id);
+      
+      const [created]: ProductImage[] = await tx.select().from(schema.productImages)
+        .where(eq(schema.productImages.id, Number(result[0].insertId)));
+      return created;
+    });
+  }
+
+  async updateProductImage(id: number, imageData: Partial<Pick<ProductImage, "alt_text">>): Promise<ProductImage | undefined> {
+    await db.update(schema.productImages)
+      .set(imageData)
+      .where(eq(schema.productImages.id, id));
+    return await this.getProductImage(id);
+  }
+
+  async reorderProductImages(productId: number, imageIds: number[]): Promise<ProductImage[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      for (let position = 0; position < imageIds.length; position++) {
+        await tx.update(schema.productImages)
+          .set({ position })
+          .where(and(eq(schema.productImages.id, imageIds[position]), eq(schema.productImages.product_id, productId)));
+      }
+      await this.syncProductCover(tx, productId);
+      
+      return await tx.select().from(schema.productImages)
+        .where(eq(schema.productImages.product_id, productId))
+        .orderBy(asc(schema.productImages.position), asc(schema.productImages.id));
+    });
+  }
+
+  async deleteProductImage(id: number): Promise<boolean> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [image]: ProductImage[] = await tx.select().from(schema.productImages)
+        .where(eq(schema.productImages.id, id));
+      if (!image) return false;
+      
+      await tx.delete(schema.productImages).where(eq(schema.productImages.id, id));
+      await this.syncProductCover(tx, image.product_id);
+      return true;
+    });
+  }
+
+  private async syncProductCover(tx: typeof db, productId: number) {
+    const [cover]: ProductImage[] = await tx.select().from(schema.productImages)
+      .where(eq(schema.productImages.product_id, productId))
+      .orderBy(asc(schema.productImages.position), asc(schema.productImages.id))
+      .limit(1);
+    await tx.update(schema.products)
+      .set({ image_url: cover?.url ?? null, last_updated: new Date() })
+      .where(eq(schema.products.id, productId));
+  }
+
   async listProducts(filter?: { sellerId?: number, categoryId?: number, status?: string }): Promise<Product[]> {
     if (!filter) {
       return await db.select().from(schema.products);
@@ -237,6 +608,60 @@ export class MySqlStorage implements IStorage {
     return products;
   }
 
+  async listProductsPage(query: ProductListQuery): Promise<Page<Product>> {
+    const { filter } = query;
+    const categoryIds = filter.category_id !== undefined
+      ? getCategorySubtreeIds(await this.listCategories(), filter.category_id)
+      : undefined;
+    const where = and(
+      filter.status !== undefined ? eq(schema.products.status, filter.status) : undefined,
+      filter.seller_id !== undefined ? eq(schema.products.seller_id, filter.seller_id) : undefined,
+      categoryIds !== undefined ? inArray(
+        schema.products.id,
+        db.select({ id: schema.productCategories.product_id })
+          .from(schema.productCategories)
+          .where(inArray(schema.productCategories.category_id, categoryIds))
+      ) : undefined,
+      filter.min_price !== undefined ? gte(schema.products.price, filter.min_price) : undefined,
+      filter.max_price !== undefined ? lte(schema.products.price, filter.max_price) : undefined,
+      ...(filter.attributes ?? []).map(attributeFilter => this.getAttributeFilterCondition(attributeFilter))
+    );
+    const column = schema.products[query.sort.field];
+
+    const products = await db.select().from(schema.products)
+      .where(and(where, getKeysetCondition(column, schema.products.id, query)))
+      .orderBy(...getKeysetOrderBy(column, schema.products.id, query.sort))
+      .limit(query.limit + 1);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.products).where(where);
+    return buildPage(products, query, Number(count));
+  }
+
+  // Products whose value for the filter's attribute passes it
+  private getAttributeFilterCondition(filter: AttributeFilter) {
+    const values = schema.productAttributeValues;
+    let match;
+    switch (filter.type) {
+      case "enum":
+        match = inArray(values.text_value, filter.values);
+        break;
+      case "number":
+        match = and(
+          filter.min !== undefined ? gte(values.number_value, filter.min) : undefined,
+          filter.max !== undefined ? lte(values.number_value, filter.max) : undefined
+        );
+        break;
+      case "boolean":
+        match = eq(values.boolean_value, filter.value);
+        break;
+    }
+    return inArray(
+      schema.products.id,
+      db.select({ id: values.product_id })
+        .from(values)
+        .where(and(eq(values.attribute_id, filter.attribute_id), match))
+    );
+  }
+
   async searchProducts(query: string): Promise<Product[]> {
     const products = await db.select().from(schema.products);
     const lowerQuery = query.toLowerCase();
@@ -247,6 +672,23 @@ export class MySqlStorage implements IStorage {
     );
   }
 
+  async getProductSearchDocuments(terms: string[]): Promise<ProductSearchDocument[]> {
+    const products: Product[] = await db.select().from(schema.products).where(and(
+      eq(schema.products.status, "active"),
+      ...terms.map(term => or(
+        like(schema.products.name, getLikePattern(term)),
+        like(schema.products.description, getLikePattern(term))
+      ))
+    ));
+    if (products.length === 0) return [];
+
+    const productIds = products.map(product => product.id);
+    const categoryLinks = await db.select().from(schema.productCategories)
+      .where(inArray(schema.productCategories.product_id, productIds));
+
+    return buildProductSearchDocuments(products, categoryLinks);
+  }
+
   // CATEGORY OPERATIONS
   async getCategory(id: number): Promise<Category | undefined> {
     const categories = await db.select().from(schema.categories).where(eq(schema.categories.id, id));
@@ -262,7 +704,12 @@ export class MySqlStorage implements IStorage {
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
     const result = await db.insert(schema.categories).values(insertCategory);
     const id = Number(result[0].insertId);
-    return { ...insertCategory, id } as Category;
+    return {
+      ...insertCategory,
+      id,
+      parent_id: insertCategory.parent_id ?? null,
+      position: insertCategory.position ?? 0
+    } as Category;
   }
 
   async updateCategory(id: number, categoryData: Partial<Category>): Promise<Category | undefined> {
@@ -279,7 +726,18 @@ export class MySqlStorage implements IStorage {
   }
 
   async listCategories(): Promise<Category[]> {
-    return await db.select().from(schema.categories);
+    return await db.select().from(schema.categories)
+      .orderBy(asc(schema.categories.position), asc(schema.categories.id));
+  }
+
+  async updateCategoryPlacements(placements: CategoryPlacement[]): Promise<void> {
+    await db.transaction(async (tx: typeof db) => {
+      for (const placement of placements) {
+        await tx.update(schema.categories)
+          .set({ parent_id: placement.parent_id, position: placement.position })
+          .where(eq(schema.categories.id, placement.id));
+      }
+    });
   }
 
   // PRODUCT-CATEGORY OPERATIONS
@@ -326,6 +784,18 @@ export class MySqlStorage implements IStorage {
     return categories.filter(category => ids.includes(category.id));
   }
 
+  async getCategoriesForProducts(productIds: number[]): Promise<Map<number, Category[]>> {
+    if (productIds.length === 0) return new Map();
+    const links = await db.select({
+      product_id: schema.productCategories.product_id,
+      category: schema.categories
+    })
+      .from(schema.productCategories)
+      .innerJoin(schema.categories, eq(schema.productCategories.category_id, schema.categories.id))
+      .where(inArray(schema.productCategories.product_id, productIds));
+    return groupProductCategories(productIds, links);
+  }
+
   async getCategoryProducts(categoryId: number): Promise<Product[]> {
     const productIds = await db.select({ productId: schema.productCategories.product_id })
       .from(schema.productCategories)
@@ -340,6 +810,72 @@ export class MySqlStorage implements IStorage {
     return products.filter(product => ids.includes(product.id));
   }
 
+  // CATEGORY ATTRIBUTE OPERATIONS
+  async listCategoryAttributes(categoryIds?: number[]): Promise<CategoryAttribute[]> {
+    if (categoryIds?.length === 0) return [];
+    return await db.select().from(schema.categoryAttributes)
+      .where(categoryIds ? inArray(schema.categoryAttributes.category_id, categoryIds) : undefined)
+      .orderBy(asc(schema.categoryAttributes.position), asc(schema.categoryAttributes.id));
+  }
+
+  async getCategoryAttribute(id: number): Promise<CategoryAttribute | undefined> {
+    const attributes = await db.select().from(schema.categoryAttributes)
+      .where(eq(schema.categoryAttributes.id, id));
+    return attributes[0];
+  }
+
+  async createCategoryAttribute(insertAttribute: InsertCategoryAttribute): Promise<CategoryAttribute> {
+    const result = await db.insert(schema.categoryAttributes).values(insertAttribute);
+    const id = Number(result[0].insertId);
+    return (await this.getCategoryAttribute(id))!;
+  }
+
+  async updateCategoryAttribute(id: number, attributeData: Partial<CategoryAttribute>): Promise<CategoryAttribute | undefined> {
+    await db.update(schema.categoryAttributes)
+      .set(attributeData)
+      .where(eq(schema.categoryAttributes.id, id));
+    return await this.getCategoryAttribute(id);
+  }
+
+  // MySQL has no foreign keys here, so the values go first
+  async deleteCategoryAttribute(id: number): Promise<boolean> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.delete(schema.productAttributeValues).where(eq(schema.productAttributeValues.attribute_id, id));
+      const result = await tx.delete(schema.categoryAttributes).where(eq(schema.categoryAttributes.id, id));
+      return result[0].affectedRows > 0;
+    });
+  }
+
+  async countProductsWithAttributeOptions(attributeId: number, options: string[]): Promise<number> {
+    if (options.length === 0) return 0;
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.productAttributeValues)
+      .where(and(
+        eq(schema.productAttributeValues.attribute_id, attributeId),
+        inArray(schema.productAttributeValues.text_value, options)
+      ));
+    return Number(count);
+  }
+
+  // PRODUCT ATTRIBUTE VALUE OPERATIONS
+  async getProductAttributeValues(productId: number): Promise<ProductAttributeValue[]> {
+    return await db.select().from(schema.productAttributeValues)
+      .where(eq(schema.productAttributeValues.product_id, productId));
+  }
+
+  async replaceProductAttributeValues(productId: number, values: InsertProductAttributeValue[]): Promise<ProductAttributeValue[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.delete(schema.productAttributeValues)
+        .where(eq(schema.productAttributeValues.product_id, productId));
+      if (values.length > 0) {
+        await tx.insert(schema.productAttributeValues)
+          .values(values.map(value => ({ ...value, product_id: productId })));
+      }
+      return await tx.select().from(schema.productAttributeValues)
+        .where(eq(schema.productAttributeValues.product_id, productId));
+    });
+  }
+
   // CART OPERATIONS
   async getCart(id: number): Promise<Cart | undefined> {
     const carts = await db.select().from(schema.carts).where(eq(schema.carts.id, id));
@@ -357,11 +893,64 @@ export class MySqlStorage implements IStorage {
     return { ...insertCart, id, created_at: new Date() } as Cart;
   }
 
+  async updateCart(id: number, cartData: Partial<Cart>): Promise<Cart | undefined> {
+    await db.update(schema.carts)
+      .set(cartData)
+      .where(eq(schema.carts.id, id));
+    
+    return this.getCart(id);
+  }
+
   async deleteCart(id: number): Promise<boolean> {
     await db.delete(schema.carts).where(eq(schema.carts.id, id));
     return true;
   }
 
+  // COUPON OPERATIONS
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    const coupons = await db.select().from(schema.coupons).where(eq(schema.coupons.id, id));
+    return coupons[0];
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    const coupons = await db.select().from(schema.coupons)
+      .where(eq(schema.coupons.code, code.toUpperCase()));
+    return coupons[0];
+  }
+
+  async createCoupon(insertCoupon: InsertCoupon): Promise<Coupon> {
+    const result = await db.insert(schema.coupons).values(insertCoupon);
+    const id = Number(result[0].insertId);
+    return { ...insertCoupon, id, active: insertCoupon.active ?? true, created_at: new Date() } as Coupon;
+  }
+
+  async updateCoupon(id: number, couponData: Partial<Coupon>): Promise<Coupon | undefined> {
+    await db.update(schema.coupons)
+      .set(couponData)
+      .where(eq(schema.coupons.id, id));
+    
+    return this.getCoupon(id);
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    await db.delete(schema.coupons).where(eq(schema.coupons.id, id));
+    return true;
+  }
+
+  async listCoupons(): Promise<Coupon[]> {
+    return await db.select().from(schema.coupons).orderBy(desc(schema.coupons.created_at));
+  }
+
+  async countCouponRedemptions(couponId: number, userId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)` })
+      .from(schema.couponRedemptions)
+      .where(and(
+        eq(schema.couponRedemptions.coupon_id, couponId),
+        eq(schema.couponRedemptions.user_id, userId)
+      ));
+    return Number(result?.count ?? 0);
+  }
+
   // CART ITEM OPERATIONS
   async getCartItem(id: number): Promise<CartItem | undefined> {
     const cartItems = await db.select().from(schema.cartItems).where(eq(schema.cartItems.id, id));
@@ -373,7 +962,10 @@ export class MySqlStorage implements IStorage {
     const existingItems = await db.select().from(schema.cartItems).where(
       and(
         eq(schema.cartItems.cart_id, insertCartItem.cart_id),
-        eq(schema.cartItems.product_id, insertCartItem.product_id)
+        eq(schema.cartItems.product_id, insertCartItem.product_id),
+        insertCartItem.variant_id
+          ? eq(schema.cartItems.variant_id, insertCartItem.variant_id)
+          : isNull(schema.cartItems.variant_id)
       )
     );
     
@@ -398,6 +990,7 @@ export class MySqlStorage implements IStorage {
     return { 
       ...insertCartItem, 
       id, 
+      variant_id: insertCartItem.variant_id ?? null,
       added_date: new Date(),
       quantity: insertCartItem.quantity || 1 
     } as CartItem;
@@ -420,6 +1013,68 @@ export class MySqlStorage implements IStorage {
     return await db.select().from(schema.cartItems).where(eq(schema.cartItems.cart_id, cartId));
   }
 
+  // WISHLIST OPERATIONS
+  async getWishlist(id: number): Promise<Wishlist | undefined> {
+    const wishlists = await db.select().from(schema.wishlists).where(eq(schema.wishlists.id, id));
+    return wishlists[0];
+  }
+
+  async getWishlistByUserId(userId: number): Promise<Wishlist | undefined> {
+    const wishlists = await db.select().from(schema.wishlists).where(eq(schema.wishlists.user_id, userId));
+    return wishlists[0];
+  }
+
+  async getWishlistByShareToken(shareToken: string): Promise<Wishlist | undefined> {
+    const wishlists = await db.select().from(schema.wishlists)
+      .where(eq(schema.wishlists.share_token, shareToken));
+    return wishlists[0];
+  }
+
+  async createWishlist(insertWishlist: InsertWishlist): Promise<Wishlist> {
+    const result = await db.insert(schema.wishlists).values(insertWishlist);
+    const id = Number(result[0].insertId);
+    return { ...insertWishlist, id, share_token: null, created_at: new Date() } as Wishlist;
+  }
+
+  async updateWishlist(id: number, wishlistData: Partial<Wishlist>): Promise<Wishlist | undefined> {
+    await db.update(schema.wishlists)
+      .set(wishlistData)
+      .where(eq(schema.wishlists.id, id));
+
+    return this.getWishlist(id);
+  }
+
+  // WISHLIST ITEM OPERATIONS
+  async getWishlistItems(wishlistId: number): Promise<WishlistItem[]> {
+    return await db.select().from(schema.wishlistItems)
+      .where(eq(schema.wishlistItems.wishlist_id, wishlistId))
+      .orderBy(desc(schema.wishlistItems.id));
+  }
+
+  async addWishlistItem(insertWishlistItem: InsertWishlistItem): Promise<WishlistItem> {
+    // The unique (wishlist_id, product_id) key keeps double clicks from adding it twice
+    await db.insert(schema.wishlistItems)
+      .values(insertWishlistItem)
+      .onDuplicateKeyUpdate({ set: { product_id: insertWishlistItem.product_id } });
+
+    const [wishlistItem] = await db.select().from(schema.wishlistItems).where(
+      and(
+        eq(schema.wishlistItems.wishlist_id, insertWishlistItem.wishlist_id),
+        eq(schema.wishlistItems.product_id, insertWishlistItem.product_id)
+      )
+    );
+    return wishlistItem;
+  }
+
+  async removeWishlistItem(wishlistId: number, productId: number): Promise<boolean> {
+    const result = await db.delete(schema.wishlistItems)
+      .where(and(
+        eq(schema.wishlistItems.wishlist_id, wishlistId),
+        eq(schema.wishlistItems.product_id, productId)
+      ));
+    return result[0].affectedRows > 0;
+  }
+
   // ORDER OPERATIONS
   async getOrder(id: number): Promise<Order | undefined> {
     const orders = await db.select().from(schema.orders).where(eq(schema.orders.id, id));
@@ -491,6 +1146,311 @@ export class MySqlStorage implements IStorage {
     return orders.filter(order => uniqueOrderIds.includes(order.id));
   }
 
+  async listOrdersPage(query: OrderListQuery): Promise<Page<Order>> {
+    const { status, customer_id, seller_id } = query.filter;
+    const where = and(
+      status !== undefined ? eq(schema.orders.status, status) : undefined,
+      customer_id !== undefined ? eq(schema.orders.customer_id, customer_id) : undefined,
+      seller_id !== undefined ? inArray(
+        schema.orders.id,
+        db.select({ id: schema.orderItems.order_id })
+          .from(schema.orderItems)
+          .innerJoin(schema.products, eq(schema.orderItems.product_id, schema.products.id))
+          .where(eq(schema.products.seller_id, seller_id))
+      ) : undefined
+    );
+    const column = schema.orders[query.sort.field];
+
+    const orders = await db.select().from(schema.orders)
+      .where(and(where, getKeysetCondition(column, schema.orders.id, query)))
+      .orderBy(...getKeysetOrderBy(column, schema.orders.id, query.sort))
+      .limit(query.limit + 1);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.orders).where(where);
+    return buildPage(orders, query, Number(count));
+  }
+
+  async getOrderDetails(orderIds: number[]): Promise<Map<number, OrderDetails>> {
+    if (orderIds.length === 0) return new Map();
+    const itemRows: { item: OrderItem; product: Product | null }[] = await db.select({
+      item: schema.orderItems,
+      product: schema.products
+    })
+      .from(schema.orderItems)
+      .leftJoin(schema.products, eq(schema.orderItems.product_id, schema.products.id))
+      .where(inArray(schema.orderItems.order_id, orderIds))
+      .orderBy(asc(schema.orderItems.id));
+    const payments = await db.select().from(schema.payments)
+      .where(inArray(schema.payments.order_id, orderIds));
+    const shipments = await db.select().from(schema.shipments)
+      .where(inArray(schema.shipments.order_id, orderIds))
+      .orderBy(asc(schema.shipments.id));
+
+    return buildOrderDetails(
+      orderIds,
+      itemRows.map(row => ({ ...row.item, product: row.product ?? undefined })),
+      payments,
+      shipments
+    );
+  }
+
+  async placeOrder(cartId: number, input: PlaceOrderInput): Promise<PlacedOrder> {
+    return await db.transaction(async (tx: typeof db) => {
+      // Lock the cart so a second checkout of it (e.g. a double-click) waits
+      // for this one and then finds it empty
+      const [cart]: Cart[] = await tx.select().from(schema.carts)
+        .where(eq(schema.carts.id, cartId))
+        .for("update");
+      
+      // Lock rows in product order so concurrent checkouts can't deadlock
+      const cartItems: CartItem[] = await tx.select().from(schema.cartItems)
+        .where(eq(schema.cartItems.cart_id, cartId))
+        .orderBy(asc(schema.cartItems.product_id), asc(schema.cartItems.variant_id));
+      
+      if (cartItems.length === 0) {
+        throw new OrderPlacementError("Cart is empty");
+      }
+      
+      // Conditional decrement: the row only updates if enough stock is left,
+      // so a concurrent order that got there first makes this one fail
+      const purchased: { item: CartItem, product: Product, variant?: ProductVariant }[] = [];
+      for (const item of cartItems) {
+        const result = await tx.update(schema.products)
+          .set({ stock: sql`${schema.products.stock} - ${item.quantity}`, last_updated: new Date() })
+          .where(and(
+            eq(schema.products.id, item.product_id),
+            gte(schema.products.stock, item.quantity)
+          ));
+        
+        const [product] = await tx.select().from(schema.products)
+          .where(eq(schema.products.id, item.product_id));
+        
+        if (result[0].affectedRows === 0) {
+          throw new OrderPlacementError(product
+            ? `Not enough stock for ${product.name}`
+            : `Product with ID ${item.product_id} not found`);
+        }
+        
+        // Same for the variant, which carries its own stock
+        let variant: ProductVariant | undefined;
+        if (item.variant_id) {
+          const variantResult = await tx.update(schema.productVariants)
+            .set({ stock: sql`${schema.productVariants.stock} - ${item.quantity}` })
+            .where(and(
+              eq(schema.productVariants.id, item.variant_id),
+              eq(schema.productVariants.product_id, product.id),
+              gte(schema.productVariants.stock, item.quantity)
+            ));
+          
+          const [existing]: ProductVariant[] = await tx.select().from(schema.productVariants)
+            .where(eq(schema.productVariants.id, item.variant_id));
+          
+          if (variantResult[0].affectedRows > 0) {
+            variant = existing;
+          } else if (existing?.product_id === product.id) {
+            throw new OrderPlacementError(`Not enough stock for ${getVariantDisplayName(product, existing)}`);
+          }
+        }
+        checkCartItemAvailable(product);
+        checkCartItemVariant(product, item, variant);
+        
+        purchased.push({ item, product, variant });
+      }
+      
+      // Price from the rows we just locked, not from whatever the client saw
+      const productCategories: { product_id: number, category_id: number }[] = await tx
+        .select().from(schema.productCategories)
+        .where(inArray(schema.productCategories.product_id, purchased.map(({ product }) => product.id)));
+      const allCategories: Category[] = await tx.select().from(schema.categories);
+      const lines: CouponLine[] = purchased.map(({ item, product, variant }) => ({
+        price: getVariantPrice(product, variant),
+        quantity: item.quantity,
+        seller_id: product.seller_id,
+        category_ids: getCategoryLineageIds(allCategories, productCategories
+          .filter(pc => pc.product_id === product.id)
+          .map(pc => pc.category_id))
+      }));
+      
+      // Lock the coupon so two checkouts can't both use its last redemption
+      let coupon: Coupon | undefined;
+      let usesByCustomer = 0;
+      if (cart?.coupon_id) {
+        [coupon] = await tx.select().from(schema.coupons)
+          .where(eq(schema.coupons.id, cart.coupon_id))
+          .for("update");
+        const [redemptions] = await tx.select({ count: sql<number>`count(*)` })
+          .from(schema.couponRedemptions)
+          .where(and(
+            eq(schema.couponRedemptions.coupon_id, cart.coupon_id),
+            eq(schema.couponRedemptions.user_id, input.customer_id)
+          ));
+        usesByCustomer = Number(redemptions?.count ?? 0);
+      }
+      
+      const quote = calculateQuote(
+        lines,
+        input.shipping_method,
+        getCouponAdjustments(coupon, lines, usesByCustomer)
+      );
+      
+      const orderData = {
+        order_id: input.order_id,
+        customer_id: input.customer_id,
+        subtotal: quote.subtotal,
+        shipping_cost: quote.shipping,
+        tax: quote.tax,
+        discount: quote.discount,
+        total_price: quote.total,
+        shipping_method: quote.shipping_method,
+        ...getOrderAddressFields(input.shipping_address),
+        coupon_id: coupon?.id ?? null,
+        status: "pending_payment"
+      };
+      const orderResult = await tx.insert(schema.orders).values(orderData);
+      const order = {
+        ...orderData,
+        id: Number(orderResult[0].insertId),
+        order_date: new Date()
+      } as Order;
+      
+      const items: OrderItem[] = [];
+      for (const { item, product, variant } of purchased) {
+        const orderItemData = {
+          order_id: order.id,
+          product_id: product.id,
+          variant_id: variant?.id ?? null,
+          variant_label: variant ? formatVariantLabel(variant.options, product.variant_options) : null,
+          quantity: item.quantity,
+          price: getVariantPrice(product, variant)
+        };
+        const itemResult = await tx.insert(schema.orderItems).values(orderItemData);
+        items.push({ ...orderItemData, id: Number(itemResult[0].insertId) });
+      }
+      
+      await tx.insert(schema.orderStatusHistory).values({
+        order_id: order.id,
+        from_status: null,
+        to_status: order.status,
+        changed_by: input.customer_id,
+        actor_role: "customer",
+        note: "Order placed"
+      });
+      
+      const paymentData = { ...input.payment, order_id: order.id, amount: quote.total };
+      const paymentResult = await tx.insert(schema.payments).values(paymentData);
+      const payment = {
+        ...paymentData,
+        id: Number(paymentResult[0].insertId),
+        payment_date: new Date(),
+        status: paymentData.status || 'pending',
+        refunded_amount: paymentData.refunded_amount ?? 0
+      } as Payment;
+      
+      const shipments: Shipment[] = [];
+      for (const shipmentData of getFulfillmentShipments(input.shipment, order.id, lines.map(line => line.seller_id))) {
+        const shipmentResult = await tx.insert(schema.shipments).values(shipmentData);
+        shipments.push({
+          ...shipmentData,
+          id: Number(shipmentResult[0].insertId),
+          shipment_date: new Date(),
+          status: shipmentData.status || 'processing'
+        } as Shipment);
+      }
+      
+      if (coupon) {
+        await tx.insert(schema.couponRedemptions).values({
+          coupon_id: coupon.id,
+          user_id: input.customer_id,
+          order_id: order.id,
+          discount: quote.discount
+        });
+        await tx.update(schema.carts).set({ coupon_id: null }).where(eq(schema.carts.id, cartId));
+      }
+      
+      // The cart lock above makes this the only checkout of these items
+      const deleted = await tx.delete(schema.cartItems).where(eq(schema.cartItems.cart_id, cartId));
+      if (deleted[0].affectedRows !== cartItems.length) {
+        throw new OrderPlacementError("Your cart changed during checkout; review it and try again");
+      }
+      
+      return { order, items, payment, shipments };
+    });
+  }
+
+  async updateOrderStatus(id: number, fromStatus: string, toStatus: string, change: OrderStatusChange): Promise<Order | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      // Conditional update: a concurrent change to the same order makes this one a no-op
+      const result = await tx.update(schema.orders)
+        .set({ status: toStatus })
+        .where(and(
+          eq(schema.orders.id, id),
+          eq(schema.orders.status, fromStatus)
+        ));
+      
+      if (result[0].affectedRows === 0) return undefined;
+      
+      await tx.insert(schema.orderStatusHistory).values({
+        ...change,
+        order_id: id,
+        from_status: fromStatus,
+        to_status: toStatus
+      });
+      
+      const [order] = await tx.select().from(schema.orders).where(eq(schema.orders.id, id));
+      return order;
+    });
+  }
+
+  async cancelOrder(id: number, fromStatuses: string[], change: OrderStatusChange): Promise<Order | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      // Lock the row so the status we record as from_status is the one we replace
+      const [current]: Order[] = await tx.select().from(schema.orders)
+        .where(eq(schema.orders.id, id))
+        .for("update");
+      
+      if (!current || !fromStatuses.includes(current.status)) return undefined;
+      
+      await tx.update(schema.orders)
+        .set({ status: "cancelled" })
+        .where(eq(schema.orders.id, id));
+      
+      await tx.insert(schema.orderStatusHistory).values({
+        ...change,
+        order_id: id,
+        from_status: current.status,
+        to_status: "cancelled"
+      });
+      
+      const items: OrderItem[] = await tx.select().from(schema.orderItems)
+        .where(eq(schema.orderItems.order_id, id))
+        .orderBy(asc(schema.orderItems.product_id));
+      for (const item of items) {
+        await tx.update(schema.products)
+          .set({ stock: sql`${schema.products.stock} + ${item.quantity}`, last_updated: new Date() })
+          .where(eq(schema.products.id, item.product_id));
+        if (item.variant_id) {
+          await tx.update(schema.productVariants)
+            .set({ stock: sql`${schema.productVariants.stock} + ${item.quantity}` })
+            .where(eq(schema.productVariants.id, item.variant_id));
+        }
+      }
+      
+      await tx.delete(schema.couponRedemptions).where(eq(schema.couponRedemptions.order_id, id));
+      
+      await tx.update(schema.shipments)
+        .set({ status: "cancelled" })
+        .where(and(eq(schema.shipments.order_id, id), eq(schema.shipments.status, "processing")));
+      
+      const [order] = await tx.select().from(schema.orders).where(eq(schema.orders.id, id));
+      return order;
+    });
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusHistory[]> {
+    return await db.select().from(schema.orderStatusHistory)
+      .where(eq(schema.orderStatusHistory.order_id, orderId))
+      .orderBy(asc(schema.orderStatusHistory.id));
+  }
+
   // ORDER ITEM OPERATIONS
   async getOrderItem(id: number): Promise<OrderItem | undefined> {
     const orderItems = await db.select().from(schema.orderItems).where(eq(schema.orderItems.id, id));
@@ -500,7 +1460,12 @@ export class MySqlStorage implements IStorage {
   async addOrderItem(insertOrderItem: InsertOrderItem): Promise<OrderItem> {
     const result = await db.insert(schema.orderItems).values(insertOrderItem);
     const id = Number(result[0].insertId);
-    return { ...insertOrderItem, id } as OrderItem;
+    return {
+      ...insertOrderItem,
+      id,
+      variant_id: insertOrderItem.variant_id ?? null,
+      variant_label: insertOrderItem.variant_label ?? null
+    } as OrderItem;
   }
 
   async updateOrderItem(id: number, orderItemData: Partial<OrderItem>): Promise<OrderItem | undefined> {
@@ -528,7 +1493,8 @@ export class MySqlStorage implements IStorage {
       ...insertPayment, 
       id, 
       payment_date: new Date(),
-      status: insertPayment.status || 'pending' // Default status
+      status: insertPayment.status || 'pending', // Default status
+      refunded_amount: insertPayment.refunded_amount ?? 0
     } as Payment;
   }
 
@@ -545,6 +1511,90 @@ export class MySqlStorage implements IStorage {
     return payments[0];
   }
 
+  async getPaymentByProviderReference(reference: string): Promise<Payment | undefined> {
+    const payments = await db.select().from(schema.payments)
+      .where(eq(schema.payments.provider_reference, reference));
+    return payments[0];
+  }
+
+  // RETURN REQUEST OPERATIONS
+  async getReturnRequest(id: number): Promise<ReturnRequest | undefined> {
+    const returnRequests = await db.select().from(schema.returnRequests).where(eq(schema.returnRequests.id, id));
+    return returnRequests[0];
+  }
+
+  async createReturnRequest(insertReturnRequest: InsertReturnRequest): Promise<ReturnRequest> {
+    const data = { ...insertReturnRequest, photos: insertReturnRequest.photos ?? [] };
+    const result = await db.insert(schema.returnRequests).values(data);
+    const id = Number(result[0].insertId);
+    return {
+      ...data,
+      id,
+      details: data.details ?? null,
+      status: "requested",
+      restocked: false,
+      refund_amount: null,
+      resolution_note: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    } as ReturnRequest;
+  }
+
+  async listReturnRequests(filter: { orderId?: number; customerId?: number; sellerId?: number } = {}): Promise<ReturnRequest[]> {
+    const conditions = [];
+    if (filter.orderId !== undefined) conditions.push(eq(schema.returnRequests.order_id, filter.orderId));
+    if (filter.customerId !== undefined) conditions.push(eq(schema.returnRequests.customer_id, filter.customerId));
+    if (filter.sellerId !== undefined) conditions.push(eq(schema.returnRequests.seller_id, filter.sellerId));
+    
+    return await db.select().from(schema.returnRequests)
+      .where(and(...conditions))
+      .orderBy(desc(schema.returnRequests.id));
+  }
+
+  async updateReturnRequestStatus(id: number, fromStatus: string, toStatus: string, data: Partial<ReturnRequest> = {}): Promise<ReturnRequest | undefined> {
+    const result = await db.update(schema.returnRequests)
+      .set({ ...data, status: toStatus, updated_at: new Date() })
+      .where(and(
+        eq(schema.returnRequests.id, id),
+        eq(schema.returnRequests.status, fromStatus)
+      ));
+    
+    if (result[0].affectedRows === 0) return undefined;
+    return this.getReturnRequest(id);
+  }
+
+  async receiveReturnRequest(id: number, restock: boolean): Promise<ReturnRequest | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const result = await tx.update(schema.returnRequests)
+        .set({ status: "received", restocked: restock, updated_at: new Date() })
+        .where(and(
+          eq(schema.returnRequests.id, id),
+          eq(schema.returnRequests.status, "approved")
+        ));
+      
+      if (result[0].affectedRows === 0) return undefined;
+      
+      const [returnRequest]: ReturnRequest[] = await tx.select().from(schema.returnRequests)
+        .where(eq(schema.returnRequests.id, id));
+      if (!restock) return returnRequest;
+      
+      const [item]: OrderItem[] = await tx.select().from(schema.orderItems)
+        .where(eq(schema.orderItems.id, returnRequest.order_item_id));
+      if (item) {
+        await tx.update(schema.products)
+          .set({ stock: sql`${schema.products.stock} + ${returnRequest.quantity}`, last_updated: new Date() })
+          .where(eq(schema.products.id, item.product_id));
+        if (item.variant_id) {
+          await tx.update(schema.productVariants)
+            .set({ stock: sql`${schema.productVariants.stock} + ${returnRequest.quantity}` })
+            .where(eq(schema.productVariants.id, item.variant_id));
+        }
+      }
+      
+      return returnRequest;
+    });
+  }
+
   // SHIPMENT OPERATIONS
   async getShipment(id: number): Promise<Shipment | undefined> {
     const shipments = await db.select().from(schema.shipments).where(eq(schema.shipments.id, id));
@@ -570,9 +1620,10 @@ export class MySqlStorage implements IStorage {
     return this.getShipment(id);
   }
 
-  async getOrderShipment(orderId: number): Promise<Shipment | undefined> {
-    const shipments = await db.select().from(schema.shipments).where(eq(schema.shipments.order_id, orderId));
-    return shipments[0];
+  async getOrderShipments(orderId: number): Promise<Shipment[]> {
+    return await db.select().from(schema.shipments)
+      .where(eq(schema.shipments.order_id, orderId))
+      .orderBy(asc(schema.shipments.id));
   }
 
   // REVIEW OPERATIONS
@@ -582,26 +1633,49 @@ export class MySqlStorage implements IStorage {
   }
 
   async createReview(insertReview: InsertReview): Promise<Review> {
-    const result = await db.insert(schema.reviews).values(insertReview);
-    const id = Number(result[0].insertId);
-    return { 
-      ...insertReview, 
-      id, 
-      review_date: new Date()
-    } as Review;
+    return await db.transaction(async (tx: typeof db) => {
+      // JSON columns have no defaults in MySQL
+      const result = await tx.insert(schema.reviews).values({
+        ...insertReview,
+        pros: insertReview.pros ?? [],
+        cons: insertReview.cons ?? []
+      });
+      const id = Number(result[0].insertId);
+      await this.refreshRatings(tx, insertReview.product_id);
+      const [created]: Review[] = await tx.select().from(schema.reviews).where(eq(schema.reviews.id, id));
+      return created;
+    });
   }
 
   async updateReview(id: number, reviewData: Partial<Review>): Promise<Review | undefined> {
-    await db.update(schema.reviews)
-      .set(reviewData)
-      .where(eq(schema.reviews.id, id));
+    await db.transaction(async (tx: typeof db) => {
+      const [previous] = await tx.select({ product_id: schema.reviews.product_id })
+        .from(schema.reviews)
+        .where(eq(schema.reviews.id, id));
+      if (!previous) return;
+      await tx.update(schema.reviews)
+        .set(reviewData)
+        .where(eq(schema.reviews.id, id));
+
+      await this.refreshRatings(tx, previous.product_id);
+      if (reviewData.product_id !== undefined && reviewData.product_id !== previous.product_id) {
+        await this.refreshRatings(tx, reviewData.product_id);
+      }
+    });
     
     return this.getReview(id);
   }
 
   async deleteReview(id: number): Promise<boolean> {
-    await db.delete(schema.reviews).where(eq(schema.reviews.id, id));
-    return true;
+    return await db.transaction(async (tx: typeof db) => {
+      const [review] = await tx.select({ product_id: schema.reviews.product_id })
+        .from(schema.reviews)
+        .where(eq(schema.reviews.id, id));
+      if (!review) return false;
+      await tx.delete(schema.reviews).where(eq(schema.reviews.id, id));
+      await this.refreshRatings(tx, review.product_id);
+      return true;
+    });
   }
 
   async getProductReviews(productId: number): Promise<Review[]> {
@@ -611,4 +1685,203 @@ export class MySqlStorage implements IStorage {
   async getUserReviews(userId: number): Promise<Review[]> {
     return await db.select().from(schema.reviews).where(eq(schema.reviews.customer_id, userId));
   }
+
+  async recalculateRatings(): Promise<{ products: number; sellers: number }> {
+    return await db.transaction(async (tx: typeof db) => {
+      const productCounts = groupRatingCounts(await tx.select({
+        id: schema.reviews.product_id,
+        rating: schema.reviews.rating,
+        count: sql<number>`count(*)`
+      })
+        .from(schema.reviews)
+        .where(eq(schema.reviews.status, "published"))
+        .groupBy(schema.reviews.product_id, schema.reviews.rating));
+      const sellerCounts = groupRatingCounts(await tx.select({
+        id: schema.products.seller_id,
+        rating: schema.reviews.rating,
+        count: sql<number>`count(*)`
+      })
+        .from(schema.reviews)
+        .innerJoin(schema.products, eq(schema.reviews.product_id, schema.products.id))
+        .where(eq(schema.reviews.status, "published"))
+        .groupBy(schema.products.seller_id, schema.reviews.rating));
+
+      const products = await tx.select({ id: schema.products.id }).from(schema.products);
+      for (const product of products) {
+        await tx.update(schema.products)
+          .set(summarizeRatings(productCounts.get(product.id) ?? []))
+          .where(eq(schema.products.id, product.id));
+      }
+      const sellers = await tx.select({ id: schema.sellers.id }).from(schema.sellers);
+      for (const seller of sellers) {
+        await tx.update(schema.sellers)
+          .set(summarizeRatings(sellerCounts.get(seller.id) ?? []))
+          .where(eq(schema.sellers.id, seller.id));
+      }
+      return { products: products.length, sellers: sellers.length };
+    });
+  }
+
+  async getVerifiedPurchasers(productId: number, customerIds: number[]): Promise<Set<number>> {
+    if (customerIds.length === 0) return new Set();
+    const rows: { customer_id: number }[] = await db.selectDistinct({ customer_id: schema.orders.customer_id })
+      .from(schema.orderItems)
+      .innerJoin(schema.orders, eq(schema.orderItems.order_id, schema.orders.id))
+      .where(and(
+        eq(schema.orderItems.product_id, productId),
+        inArray(schema.orders.customer_id, customerIds),
+        notInArray(schema.orders.status, unpurchasedOrderStatuses)
+      ));
+    return new Set(rows.map(row => row.customer_id));
+  }
+
+  // REVIEW IMAGE OPERATIONS
+  async getReviewImages(reviewIds: number[]): Promise<Map<number, ReviewImage[]>> {
+    const images = new Map<number, ReviewImage[]>(reviewIds.map(id => [id, []]));
+    if (reviewIds.length === 0) return images;
+    const rows: ReviewImage[] = await db.select().from(schema.reviewImages)
+      .where(inArray(schema.reviewImages.review_id, reviewIds))
+      .orderBy(asc(schema.reviewImages.position), asc(schema.reviewImages.id));
+    rows.forEach(image => images.get(image.review_id)?.push(image));
+    return images;
+  }
+
+  async getReviewImage(id: number): Promise<ReviewImage | undefined> {
+    const [image] = await db.select().from(schema.reviewImages).where(eq(schema.reviewImages.id, id));
+    return image;
+  }
+
+  async addReviewImage(image: InsertReviewImage): Promise<ReviewImage> {
+    const [last]: ReviewImage[] = await db.select().from(schema.reviewImages)
+      .where(eq(schema.reviewImages.review_id, image.review_id))
+      .orderBy(desc(schema.reviewImages.position))
+      .limit(1);
+    const result = await db.insert(schema.reviewImages)
+      .values({ ...image, position: (last?.position ?? -1) + 1 });
+    return (await this.getReviewImage(Number(result[0].insertId)))!;
+  }
+
+  async deleteReviewImage(id: number): Promise<boolean> {
+    const result = await db.delete(schema.reviewImages).where(eq(schema.reviewImages.id, id));
+    return result[0].affectedRows > 0;
+  }
+
+  // REVIEW VOTE OPERATIONS
+  async getVotedReviewIds(userId: number, reviewIds: number[]): Promise<Set<number>> {
+    if (reviewIds.length === 0) return new Set();
+    const votes: { review_id: number }[] = await db.select({ review_id: schema.reviewVotes.review_id })
+      .from(schema.reviewVotes)
+      .where(and(eq(schema.reviewVotes.user_id, userId), inArray(schema.reviewVotes.review_id, reviewIds)));
+    return new Set(votes.map(vote => vote.review_id));
+  }
+
+  async addReviewVote(reviewId: number, userId: number): Promise<boolean> {
+    return await db.transaction(async (tx: typeof db) => {
+      // The unique (review_id, user_id) key keeps a vote from counting twice;
+      // no rows are affected when it's already there
+      const result = await tx.insert(schema.reviewVotes)
+        .values({ review_id: reviewId, user_id: userId })
+        .onDuplicateKeyUpdate({ set: { review_id: reviewId } });
+      if (result[0].affectedRows !== 1) return false;
+      await tx.update(schema.reviews)
+        .set({ helpful_count: sql`${schema.reviews.helpful_count} + 1` })
+        .where(eq(schema.reviews.id, reviewId));
+      return true;
+    });
+  }
+
+  async removeReviewVote(reviewId: number, userId: number): Promise<boolean> {
+    return await db.transaction(async (tx: typeof db) => {
+      const result = await tx.delete(schema.reviewVotes)
+        .where(and(eq(schema.reviewVotes.review_id, reviewId), eq(schema.reviewVotes.user_id, userId)));
+      if (result[0].affectedRows === 0) return false;
+      await tx.update(schema.reviews)
+        .set({ helpful_count: sql`greatest(${schema.reviews.helpful_count} - 1, 0)` })
+        .where(eq(schema.reviews.id, reviewId));
+      return true;
+    });
+  }
+
+  // REVIEW REPORT OPERATIONS
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport> {
+    const result = await db.insert(schema.reviewReports).values(insertReport);
+    const id = Number(result[0].insertId);
+    return {
+      ...insertReport,
+      id,
+      details: insertReport.details ?? null,
+      status: "open",
+      resolution: null,
+      resolved_by: null,
+      created_at: new Date(),
+      resolved_at: null
+    } as ReviewReport;
+  }
+
+  async listReviewReports(
+    filter: { reviewId?: number; reporterId?: number; status?: string } = {}
+  ): Promise<ReviewReport[]> {
+    const conditions = [];
+    if (filter.reviewId !== undefined) conditions.push(eq(schema.reviewReports.review_id, filter.reviewId));
+    if (filter.reporterId !== undefined) conditions.push(eq(schema.reviewReports.reporter_id, filter.reporterId));
+    if (filter.status !== undefined) conditions.push(eq(schema.reviewReports.status, filter.status));
+
+    return await db.select().from(schema.reviewReports)
+      .where(and(...conditions))
+      .orderBy(asc(schema.reviewReports.created_at), asc(schema.reviewReports.id));
+  }
+
+  async moderateReview(
+    reviewId: number,
+    status: ReviewStatus,
+    resolution: { resolution: string; resolved_by: number }
+  ): Promise<Review | undefined> {
+    const review = await db.transaction(async (tx: typeof db) => {
+      const [current] = await tx.select({ product_id: schema.reviews.product_id })
+        .from(schema.reviews)
+        .where(eq(schema.reviews.id, reviewId));
+      if (!current) return undefined;
+      await tx.update(schema.reviewReports)
+        .set({ ...resolution, status: "resolved", resolved_at: new Date() })
+        .where(and(eq(schema.reviewReports.review_id, reviewId), eq(schema.reviewReports.status, "open")));
+      await tx.update(schema.reviews)
+        .set({ status })
+        .where(eq(schema.reviews.id, reviewId));
+      await this.refreshRatings(tx, current.product_id);
+      return current;
+    });
+    return review && this.getReview(reviewId);
+  }
+
+  // Recomputes the rating aggregates of a product and of its seller inside a
+  // review's transaction. Both rows are locked first, so two reviews saved at
+  // once can't each write totals that leave out the other.
+  private async refreshRatings(tx: typeof db, productId: number) {
+    const [product] = await tx.select({ seller_id: schema.products.seller_id })
+      .from(schema.products)
+      .where(eq(schema.products.id, productId))
+      .for("update");
+    if (!product) return;
+    await tx.select({ id: schema.sellers.id })
+      .from(schema.sellers)
+      .where(eq(schema.sellers.id, product.seller_id))
+      .for("update");
+
+    const productCounts = await tx.select({ rating: schema.reviews.rating, count: sql<number>`count(*)` })
+      .from(schema.reviews)
+      .where(and(eq(schema.reviews.product_id, productId), eq(schema.reviews.status, "published")))
+      .groupBy(schema.reviews.rating);
+    await tx.update(schema.products)
+      .set(summarizeRatings(productCounts))
+      .where(eq(schema.products.id, productId));
+
+    const sellerCounts = await tx.select({ rating: schema.reviews.rating, count: sql<number>`count(*)` })
+      .from(schema.reviews)
+      .innerJoin(schema.products, eq(schema.reviews.product_id, schema.products.id))
+      .where(and(eq(schema.products.seller_id, product.seller_id), eq(schema.reviews.status, "published")))
+      .groupBy(schema.reviews.rating);
+    await tx.update(schema.sellers)
+      .set(summarizeRatings(sellerCounts))
+      .where(eq(schema.sellers.id, product.seller_id));
+  }
 }
\ No newline at end of file
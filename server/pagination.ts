@@ -0,0 +1,106 @@
+import { and, asc, desc, eq, gt, lt, or, SQL } from "drizzle-orm";
+import type { ListQuery, ListSort, Page } from "@shared/pagination";
+
+// Cursors are keyset positions: the sort value and id of the last row of the
+// previous page, tied to the sort they were made for. Rows added or removed
+// meanwhile don't make pages repeat or skip rows the way offsets would.
+interface DecodedCursor {
+  value: unknown;
+  id: number;
+}
+
+function getSortKey(sort: ListSort<string>): string {
+  return `${sort.direction === "desc" ? "-" : ""}${sort.field}`;
+}
+
+export function encodeCursor(sort: ListSort<string>, value: unknown, id: number): string {
+  const encodedValue = value instanceof Date ? { date: value.toISOString() } : value;
+  return Buffer.from(JSON.stringify([getSortKey(sort), encodedValue, id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, sort: ListSort<string>): DecodedCursor | undefined {
+  try {
+    const [sortKey, value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (sortKey !== getSortKey(sort) || !Number.isInteger(id)) return undefined;
+    return {
+      value: value && typeof value === "object" && "date" in value ? new Date(value.date) : value,
+      id
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export function isValidCursor(query: ListQuery<string, unknown>): boolean {
+  return !query.cursor || decodeCursor(query.cursor, query.sort) !== undefined;
+}
+
+// Turns rows fetched with limit + 1 into a page; the extra row only tells
+// whether there's another page
+export function buildPage<T extends { id: number }>(
+  rows: T[],
+  query: ListQuery<string, unknown>,
+  total: number
+): Page<T> {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    next_cursor: rows.length > query.limit && last
+      ? encodeCursor(query.sort, (last as Record<string, unknown>)[query.sort.field], last.id)
+      : null,
+    total
+  };
+}
+
+// SQL for the keyset: ORDER BY the sort column then id, and WHERE the row
+// comes after the cursor in that order. Works with both drizzle dialects.
+export function getKeysetOrderBy(column: any, idColumn: any, sort: ListSort<string>): SQL[] {
+  const direction = sort.direction === "desc" ? desc : asc;
+  return [direction(column), direction(idColumn)];
+}
+
+export function getKeysetCondition(
+  column: any,
+  idColumn: any,
+  query: ListQuery<string, unknown>
+): SQL | undefined {
+  const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+  if (!cursor) return undefined;
+
+  const after = query.sort.direction === "desc" ? lt : gt;
+  return or(
+    after(column, cursor.value),
+    and(eq(column, cursor.value), after(idColumn, cursor.id))
+  );
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() - new Date(b as Date).getTime();
+  }
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""));
+}
+
+// The same keyset paging over rows already in memory, for MemStorage
+export function paginateRows<T extends { id: number }>(
+  rows: T[],
+  query: ListQuery<string, unknown>
+): Page<T> {
+  const sign = query.sort.direction === "desc" ? -1 : 1;
+  const getValue = (row: T) => (row as Record<string, unknown>)[query.sort.field];
+  const compareRows = (a: { value: unknown; id: number }, b: { value: unknown; id: number }) =>
+    sign * (compareValues(a.value, b.value) || a.id - b.id);
+
+  const sorted = [...rows].sort((a, b) =>
+    compareRows({ value: getValue(a), id: a.id }, { value: getValue(b), id: b.id })
+  );
+
+  const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+  const remaining = cursor
+    ? sorted.filter(row => compareRows({ value: getValue(row), id: row.id }, cursor) > 0)
+    : sorted;
+
+  return buildPage(remaining.slice(0, query.limit + 1), query, rows.length);
+}
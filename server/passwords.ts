@@ -0,0 +1,62 @@
+/**
+ * Password Hashing
+ * Hashes new passwords with scrypt and verifies stored passwords in any of the
+ * formats that exist in older databases (scrypt, bcrypt or plain text).
+ */
+
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import * as bcrypt from "bcrypt";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+// Stored format: scrypt$<salt hex>$<derived key hex>
+const SCRYPT_PREFIX = "scrypt$";
+const SCRYPT_KEY_LENGTH = 64;
+
+// Hashes produced by bcrypt (scripts/add-admin.ts, scripts/seed-data.ts)
+const BCRYPT_PATTERN = /^\$2[aby]\$\d{2}\$/;
+
+export type PasswordScheme = "scrypt" | "bcrypt" | "plaintext";
+
+export function getPasswordScheme(stored: string): PasswordScheme {
+  if (stored.startsWith(SCRYPT_PREFIX)) return "scrypt";
+  if (BCRYPT_PATTERN.test(stored)) return "bcrypt";
+  return "plaintext";
+}
+
+// Anything not hashed with the current scheme should be replaced on next login
+export function needsRehash(stored: string): boolean {
+  return getPasswordScheme(stored) !== "scrypt";
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derivedKey = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+  return `${SCRYPT_PREFIX}${salt}$${derivedKey.toString("hex")}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  switch (getPasswordScheme(stored)) {
+    case "scrypt": {
+      const [salt, key] = stored.slice(SCRYPT_PREFIX.length).split("$");
+      if (!salt || !key) return false;
+
+      const storedKey = Buffer.from(key, "hex");
+      const suppliedKey = await scryptAsync(supplied, salt, storedKey.length);
+      return storedKey.length === suppliedKey.length && timingSafeEqual(storedKey, suppliedKey);
+    }
+    case "bcrypt":
+      return await bcrypt.compare(supplied, stored);
+    case "plaintext": {
+      // Legacy rows written while password hashing was disabled
+      const storedBuf = Buffer.from(stored);
+      const suppliedBuf = Buffer.from(supplied);
+      return storedBuf.length === suppliedBuf.length && timingSafeEqual(storedBuf, suppliedBuf);
+    }
+  }
+}
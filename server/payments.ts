@@ -0,0 +1,372 @@
+/**
+ * Payment Providers
+ * The PaymentProvider interface gateway integrations implement, a deterministic
+ * mock gateway for local development, and the rules that move a payment (and
+ * the order waiting on it) between statuses.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { Order, Payment } from "@shared/schema";
+import { storage } from "./storage";
+import { PAYMENT_CONFIG } from "./config";
+import { roundCurrency } from "@shared/pricing";
+
+export type PaymentStatus =
+  | "pending"
+  | "requires_action"
+  | "authorized"
+  | "completed"
+  | "failed"
+  | "voided"
+  | "refunded";
+
+// Statuses a payment may move to from each status; anything else is ignored
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ["requires_action", "authorized", "completed", "failed", "voided"],
+  requires_action: ["authorized", "completed", "failed", "voided"],
+  authorized: ["completed", "voided", "failed"],
+  completed: ["refunded"],
+  failed: [],
+  voided: [],
+  refunded: [],
+};
+
+export interface AuthorizeRequest {
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  method: string;
+  token?: string; // Gateway-specific payment token sent by the client
+}
+
+export interface ProviderResult {
+  status: "authorized" | "requires_action" | "declined" | "captured" | "voided" | "refunded";
+  reference: string; // The gateway's id for the payment
+  message?: string;
+}
+
+export const paymentEventTypes = [
+  "payment.authorized",
+  "payment.captured",
+  "payment.failed",
+  "payment.voided",
+  "payment.refunded",
+] as const;
+export type PaymentEventType = typeof paymentEventTypes[number];
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentEventType;
+  reference: string;
+}
+
+// Payment status each webhook event moves the payment to
+const EVENT_STATUSES: Record<PaymentEventType, PaymentStatus> = {
+  "payment.authorized": "authorized",
+  "payment.captured": "completed",
+  "payment.failed": "failed",
+  "payment.voided": "voided",
+  "payment.refunded": "refunded",
+};
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<ProviderResult>;
+  capture(reference: string, amount: number): Promise<ProviderResult>;
+  void(reference: string): Promise<ProviderResult>;
+  refund(reference: string, amount: number): Promise<ProviderResult>;
+  // Throws PaymentWebhookError unless the payload was signed by the gateway
+  verifyWebhook(payload: Buffer, signature: string | undefined): PaymentWebhookEvent;
+}
+
+export class PaymentTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentTimeoutError";
+  }
+}
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
+
+export class PaymentRefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentRefundError";
+  }
+}
+
+// Header format: sha256=<hex HMAC-SHA256 of the raw request body>
+export function signWebhookPayload(payload: string | Buffer, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+function hasValidSignature(payload: Buffer, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(payload, secret));
+  const supplied = Buffer.from(signature);
+  return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+}
+
+// Payment tokens that script the mock gateway; any other token is approved
+export const MOCK_PAYMENT_TOKENS = {
+  decline: "tok_decline",
+  requiresAction: "tok_3ds",
+  timeout: "tok_timeout",
+} as const;
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  constructor(private webhookSecret: string) {}
+
+  async authorize(request: AuthorizeRequest): Promise<ProviderResult> {
+    const reference = `mock_${request.payment_id}`;
+
+    switch (request.token) {
+      case MOCK_PAYMENT_TOKENS.decline:
+        return { status: "declined", reference, message: "Your card was declined" };
+      case MOCK_PAYMENT_TOKENS.requiresAction:
+        // Settled later by a payment.authorized or payment.failed webhook
+        return { status: "requires_action", reference, message: "Confirm this payment with your bank to continue" };
+      case MOCK_PAYMENT_TOKENS.timeout:
+        return new Promise<ProviderResult>(() => {}); // Never answers
+      default:
+        return { status: "authorized", reference };
+    }
+  }
+
+  async capture(reference: string, amount: number): Promise<ProviderResult> {
+    return { status: "captured", reference };
+  }
+
+  async void(reference: string): Promise<ProviderResult> {
+    return { status: "voided", reference };
+  }
+
+  async refund(reference: string, amount: number): Promise<ProviderResult> {
+    return { status: "refunded", reference };
+  }
+
+  verifyWebhook(payload: Buffer, signature: string | undefined): PaymentWebhookEvent {
+    if (!signature || !hasValidSignature(payload, signature, this.webhookSecret)) {
+      throw new PaymentWebhookError("Invalid webhook signature");
+    }
+
+    let event: any;
+    try {
+      event = JSON.parse(payload.toString("utf8"));
+    } catch {
+      throw new PaymentWebhookError("Malformed webhook payload");
+    }
+
+    if (
+      typeof event?.id !== "string" ||
+      typeof event?.reference !== "string" ||
+      !paymentEventTypes.includes(event?.type)
+    ) {
+      throw new PaymentWebhookError("Malformed webhook payload");
+    }
+
+    return { id: event.id, type: event.type, reference: event.reference };
+  }
+}
+
+let provider: PaymentProvider | undefined;
+
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    switch (PAYMENT_CONFIG.provider) {
+      case "mock":
+        provider = new MockPaymentProvider(PAYMENT_CONFIG.webhookSecret);
+        break;
+      default:
+        throw new Error(`Unknown payment provider "${PAYMENT_CONFIG.provider}"`);
+    }
+  }
+  return provider;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new PaymentTimeoutError("The payment gateway didn't respond in time")), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Moves a payment to a new status and keeps its order in step: a completed
+// payment releases the order for fulfilment, a failed or voided one cancels
+// it with its shipments and returns the stock. Returns undefined if the transition isn't allowed.
+export async function transitionPayment(payment: Payment, status: PaymentStatus): Promise<Payment | undefined> {
+  const current = payment.status as PaymentStatus;
+  if (current === status) return payment;
+  if (!PAYMENT_TRANSITIONS[current]?.includes(status)) return undefined;
+
+  const updated = await storage.updatePayment(payment.id, { status });
+
+  if (status === "completed") {
+    await storage.updateOrderStatus(payment.order_id, "pending_payment", "processing", {
+      changed_by: null,
+      actor_role: "system",
+      note: "Payment captured"
+    });
+  } else if (status === "failed" || status === "voided") {
+    await storage.cancelOrder(payment.order_id, ["pending_payment"], {
+      changed_by: null,
+      actor_role: "system",
+      note: status === "failed" ? "Payment failed" : "Payment voided"
+    });
+  }
+
+  return updated;
+}
+
+export interface PaymentOutcome {
+  payment: Payment;
+  message?: string;
+}
+
+// Captures an authorized payment. On a gateway timeout the payment stays
+// authorized and a payment.captured webhook settles it later.
+export async function capturePayment(payment: Payment): Promise<PaymentOutcome> {
+  const authorized = (await transitionPayment(payment, "authorized")) ?? payment;
+
+  try {
+    const result = await withTimeout(
+      getPaymentProvider().capture(authorized.provider_reference!, authorized.amount),
+      PAYMENT_CONFIG.timeoutMs
+    );
+    if (result.status !== "captured") {
+      return { payment: authorized, message: result.message ?? "Payment could not be captured" };
+    }
+  } catch (error) {
+    if (error instanceof PaymentTimeoutError) {
+      return { payment: authorized, message: "Your payment is still being processed" };
+    }
+    throw error;
+  }
+
+  return { payment: (await transitionPayment(authorized, "completed")) ?? authorized };
+}
+
+// Authorizes and captures the payment for a newly placed order
+export async function collectPayment(payment: Payment, order: Order, token?: string): Promise<PaymentOutcome> {
+  let result: ProviderResult;
+  try {
+    result = await withTimeout(
+      getPaymentProvider().authorize({
+        payment_id: payment.payment_id,
+        order_id: order.order_id,
+        amount: payment.amount,
+        method: payment.method,
+        token
+      }),
+      PAYMENT_CONFIG.timeoutMs
+    );
+  } catch (error) {
+    if (error instanceof PaymentTimeoutError) {
+      // Left pending; the gateway's webhook decides what happens next
+      return { payment, message: "Your payment is still being processed" };
+    }
+    await transitionPayment(payment, "failed");
+    throw error;
+  }
+
+  const referenced = (await storage.updatePayment(payment.id, { provider_reference: result.reference })) ?? payment;
+
+  switch (result.status) {
+    case "authorized":
+      return await capturePayment(referenced);
+    case "requires_action":
+      return {
+        payment: (await transitionPayment(referenced, "requires_action")) ?? referenced,
+        message: result.message
+      };
+    default:
+      return {
+        payment: (await transitionPayment(referenced, "failed")) ?? referenced,
+        message: result.message ?? "Your payment was declined"
+      };
+  }
+}
+
+// Gives the money back for a cancelled order: a captured payment is refunded
+// and one that was never captured is voided. On a gateway timeout the payment
+// is left as it is for the gateway's webhook to settle.
+export async function releasePayment(payment: Payment): Promise<Payment> {
+  const provider = getPaymentProvider();
+  const status = payment.status as PaymentStatus;
+
+  if (status !== "completed" && !PAYMENT_TRANSITIONS[status]?.includes("voided")) {
+    return payment; // Already failed, voided or refunded
+  }
+
+  try {
+    if (payment.provider_reference) {
+      await withTimeout(
+        status === "completed"
+          ? provider.refund(payment.provider_reference, roundCurrency(payment.amount - payment.refunded_amount))
+          : provider.void(payment.provider_reference),
+        PAYMENT_CONFIG.timeoutMs
+      );
+    }
+  } catch (error) {
+    if (error instanceof PaymentTimeoutError) return payment;
+    throw error;
+  }
+
+  if (status === "completed") {
+    const refunded = (await storage.updatePayment(payment.id, { refunded_amount: payment.amount })) ?? payment;
+    return (await transitionPayment(refunded, "refunded")) ?? refunded;
+  }
+  return (await transitionPayment(payment, "voided")) ?? payment;
+}
+
+// Refunds part of a captured payment, e.g. for a returned item. The payment
+// only becomes "refunded" once the whole amount has been given back. Throws
+// PaymentRefundError if the refund isn't possible and PaymentTimeoutError if
+// the gateway doesn't answer.
+export async function refundPaymentAmount(payment: Payment, requestedAmount: number): Promise<Payment> {
+  if (payment.status !== "completed") {
+    throw new PaymentRefundError("Only a captured payment can be refunded");
+  }
+
+  const amount = roundCurrency(requestedAmount);
+  const refundable = roundCurrency(payment.amount - payment.refunded_amount);
+  if (amount <= 0 || amount > refundable) {
+    throw new PaymentRefundError(`Refund must be between $0.01 and $${refundable.toFixed(2)}`);
+  }
+
+  const result = await withTimeout(
+    getPaymentProvider().refund(payment.provider_reference!, amount),
+    PAYMENT_CONFIG.timeoutMs
+  );
+  if (result.status !== "refunded") {
+    throw new PaymentRefundError(result.message ?? "The refund was declined");
+  }
+
+  const refundedAmount = roundCurrency(payment.refunded_amount + amount);
+  const updated = (await storage.updatePayment(payment.id, { refunded_amount: refundedAmount })) ?? payment;
+  return refundedAmount >= payment.amount
+    ? (await transitionPayment(updated, "refunded")) ?? updated
+    : updated;
+}
+
+// Applies a verified webhook event. Events that don't fit the payment's
+// current status (duplicates, late arrivals) leave it unchanged.
+export async function handlePaymentWebhook(payment: Payment, event: PaymentWebhookEvent): Promise<Payment> {
+  const status = EVENT_STATUSES[event.type];
+
+  if (status === "authorized") {
+    if (!PAYMENT_TRANSITIONS[payment.status as PaymentStatus]?.includes("authorized")) {
+      return payment;
+    }
+    return (await capturePayment(payment)).payment;
+  }
+
+  return (await transitionPayment(payment, status)) ?? payment;
+}
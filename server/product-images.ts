@@ -0,0 +1,196 @@
+/**
+ * Product Images
+ * The ImageStorageDriver interface upload backends implement, a driver that
+ * keeps files on the local filesystem, and the processing that turns an
+ * uploaded file into a cleaned-up full-size image plus its thumbnails.
+ * Review photos go through the same pipeline.
+ */
+
+import express, { type Express, Request, Response } from "express";
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import multer from "multer";
+import sharp from "sharp";
+import { Product, ProductImage, Review } from "@shared/schema";
+import {
+  ACCEPTED_IMAGE_TYPES, MAX_IMAGE_BYTES, MAX_PRODUCT_IMAGES, THUMBNAIL_SIZES, ThumbnailSize, formatImageSize
+} from "@shared/product-images";
+import { UPLOAD_CONFIG } from "./config";
+
+// Longest edge of the full-size image kept for an upload
+const FULL_SIZE_MAX_EDGE = 2400;
+
+export interface ImageStorageDriver {
+  readonly name: string;
+  // Stores the file under key and returns the URL it's served from
+  save(key: string, data: Buffer, contentType: string): Promise<string>;
+  // Deleting a file that's already gone is not an error
+  delete(key: string): Promise<void>;
+}
+
+export class ImageUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageUploadError";
+  }
+}
+
+export class LocalImageStorage implements ImageStorageDriver {
+  readonly name = "local";
+
+  constructor(private directory: string, private publicPath: string) {}
+
+  async save(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const file = path.join(this.directory, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+    return `${this.publicPath}/${key}`;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(path.join(this.directory, key), { force: true });
+  }
+}
+
+let driver: ImageStorageDriver | undefined;
+
+export function getImageStorage(): ImageStorageDriver {
+  if (!driver) {
+    switch (UPLOAD_CONFIG.driver) {
+      case "local":
+        driver = new LocalImageStorage(path.resolve(UPLOAD_CONFIG.directory), UPLOAD_CONFIG.publicPath);
+        break;
+      default:
+        throw new Error(`Unknown upload driver "${UPLOAD_CONFIG.driver}"`);
+    }
+  }
+  return driver;
+}
+
+// Serves the local driver's files. Keys are random and never reused, so the
+// files can be cached for good.
+export function serveUploadedImages(app: Express) {
+  if (UPLOAD_CONFIG.driver !== "local") return;
+  app.use(UPLOAD_CONFIG.publicPath, express.static(path.resolve(UPLOAD_CONFIG.directory), {
+    maxAge: "365d",
+    immutable: true,
+  }));
+}
+
+function createUpload(maxFiles: number) {
+  return multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_IMAGE_BYTES, files: maxFiles },
+    fileFilter: (_req, file, callback) => {
+      if ((ACCEPTED_IMAGE_TYPES as readonly string[]).includes(file.mimetype)) {
+        callback(null, true);
+      } else {
+        callback(new ImageUploadError(`${file.originalname} isn't a JPEG, PNG, WebP or GIF image`));
+      }
+    },
+  }).array("images", maxFiles);
+}
+
+// Reads the "images" files of a multipart request into memory, at most
+// maxFiles of them. Text fields sent with them end up on req.body.
+export function parseImageUpload(
+  req: Request,
+  res: Response,
+  maxFiles: number = MAX_PRODUCT_IMAGES
+): Promise<Express.Multer.File[]> {
+  const upload = createUpload(maxFiles);
+  return new Promise((resolve, reject) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        switch (error.code) {
+          case "LIMIT_FILE_SIZE":
+            return reject(new ImageUploadError(`Images must be ${formatImageSize(MAX_IMAGE_BYTES)} or smaller`));
+          case "LIMIT_FILE_COUNT":
+          case "LIMIT_UNEXPECTED_FILE":
+            return reject(new ImageUploadError(`Upload at most ${maxFiles} images in the "images" field`));
+          default:
+            return reject(new ImageUploadError(error.message));
+        }
+      }
+      if (error) return reject(error);
+      resolve((req.files as Express.Multer.File[] | undefined) ?? []);
+    });
+  });
+}
+
+export interface ProcessedImage {
+  full: Buffer;
+  thumbnails: Record<ThumbnailSize, Buffer>;
+}
+
+function renderImage(data: Buffer, maxEdge: number): Promise<Buffer> {
+  return sharp(data)
+    .rotate() // Apply the EXIF orientation before the metadata is dropped
+    .resize(maxEdge, maxEdge, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 85 })
+    .toBuffer();
+}
+
+// Re-encodes the upload as WebP, which also strips its metadata (camera
+// details, GPS position), and renders each thumbnail size
+export async function processImage(file: Express.Multer.File): Promise<ProcessedImage> {
+  try {
+    await sharp(file.buffer).metadata();
+  } catch {
+    throw new ImageUploadError(`${file.originalname} couldn't be read as an image`);
+  }
+
+  const sizes = Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[];
+  const rendered = await Promise.all(sizes.map(size => renderImage(file.buffer, THUMBNAIL_SIZES[size])));
+  return {
+    full: await renderImage(file.buffer, FULL_SIZE_MAX_EDGE),
+    thumbnails: Object.fromEntries(sizes.map((size, index) => [size, rendered[index]])) as Record<ThumbnailSize, Buffer>,
+  };
+}
+
+// Every file stored for an image: the full-size one, then one per thumbnail size
+function getImageFileKeys(storageKey: string): string[] {
+  return [`${storageKey}.webp`, ...Object.keys(THUMBNAIL_SIZES).map(size => `${storageKey}-${size}.webp`)];
+}
+
+export interface StoredImage {
+  url: string;
+  thumbnails: Record<string, string>;
+  storage_key: string;
+}
+
+async function storeImage(prefix: string, image: ProcessedImage): Promise<StoredImage> {
+  const storage = getImageStorage();
+  const storageKey = `${prefix}/${randomBytes(8).toString("hex")}`;
+
+  const url = await storage.save(`${storageKey}.webp`, image.full, "image/webp");
+  const thumbnails: Record<string, string> = {};
+  for (const [size, data] of Object.entries(image.thumbnails)) {
+    thumbnails[size] = await storage.save(`${storageKey}-${size}.webp`, data, "image/webp");
+  }
+  return { url, thumbnails, storage_key: storageKey };
+}
+
+export function storeProductImage(product: Product, image: ProcessedImage): Promise<StoredImage> {
+  return storeImage(`products/${product.product_id}`, image);
+}
+
+export function storeReviewImage(review: Review, image: ProcessedImage): Promise<StoredImage> {
+  return storeImage(`reviews/${review.review_id}`, image);
+}
+
+// Deletes the files of product images or review photos. Files that fail to
+// delete are only logged; the image row is already gone.
+export async function deleteImageFiles(images: Pick<ProductImage, "storage_key">[]) {
+  const storage = getImageStorage();
+  for (const image of images) {
+    for (const key of getImageFileKeys(image.storage_key)) {
+      try {
+        await storage.delete(key);
+      } catch (error) {
+        console.error(`Error deleting image file ${key}:`, error);
+      }
+    }
+  }
+}
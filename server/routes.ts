@@ -1,20 +1,246 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { randomBytes } from "crypto";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated, hasRole } from "./auth";
-import { eq } from "drizzle-orm";
+import { storage, OrderPlacementError, OrderStatusChange } from "./storage";
+import { setupAuth, isAuthenticated, hasRole, toPublicUser } from "./auth";
+import {
+  getPaymentProvider, collectPayment, handlePaymentWebhook, releasePayment, refundPaymentAmount,
+  PaymentWebhookError, PaymentRefundError, PaymentTimeoutError
+} from "./payments";
+import { z } from "zod";
 import {
   insertProductSchema,
   insertCartItemSchema,
-  insertOrderSchema,
   insertOrderItemSchema,
   insertPaymentSchema,
   insertShipmentSchema,
   insertReviewSchema,
-  insertCategorySchema,
-  insertProductCategorySchema
+  insertProductCategorySchema,
+  insertCouponSchema,
+  insertAddressSchema,
+  shippingAddressSchema,
+  insertReturnRequestSchema,
+  insertWishlistItemSchema,
+  insertSellerApplicationSchema,
+  CartItem,
+  Category,
+  InsertProductAttributeValue,
+  Coupon,
+  Order,
+  Product,
+  ReturnRequest,
+  Review,
+  User,
+  Wishlist
 } from "@shared/schema";
+import {
+  canTransitionOrder, canTransitionShipment, canCancelShipments, canUpdateOrderShipments,
+  deriveOrderFulfillmentStatus, orderStatusSchema, updateShipmentSchema, OrderActor
+} from "@shared/order-status";
+import {
+  calculateQuote, evaluateCoupon, roundCurrency, shippingMethodSchema, CouponLine, QuoteAdjustments
+} from "@shared/pricing";
+import { canTransitionReturn, isOpenReturn, calculateReturnRefund } from "@shared/returns";
+import { canTransitionSellerApplication, canSubmitSellerApplication } from "@shared/seller-onboarding";
+import {
+  canTransitionProduct, getSubmittedProductStatus, describeSubmission, formatProductStatus,
+  ModerationActor, ProductStatus
+} from "@shared/product-moderation";
+import { variantMatrixSchema, getVariantPrice, hasVariants } from "@shared/variants";
+import {
+  MAX_PRODUCT_IMAGES, productImageUploadSchema, productImageUpdateSchema, productImageOrderSchema
+} from "@shared/product-images";
+import {
+  parseImageUpload, processImage, storeProductImage, storeReviewImage, deleteImageFiles, ImageUploadError
+} from "./product-images";
+import {
+  categoryInputSchema, categoryUpdateSchema, categoryMoveSchema, slugify, withCategoryPaths, findCategoryByPath,
+  getCategoryAncestors, getChildCategories, getCategorySubtreeIds, getCategoryLineageIds, isCategorySlugTaken,
+  canMoveCategory, planCategoryMove
+} from "@shared/categories";
+import {
+  categoryAttributeInputSchema, categoryAttributeUpdateSchema, productAttributeValuesSchema, getApplicableAttributes,
+  getAttributeValueError, getAttributeValue, toAttributeColumns, parseAttributeFilter, AttributeFilter, ProductAttribute
+} from "@shared/attributes";
+import {
+  reviewUpdateSchema, reviewReportInputSchema, sellerReplySchema, reviewModerationSchema, reviewListQuerySchema,
+  isPublishedReview, sortReviews, getModeratedReviewStatus, getReportResolution, ProductReview, ReportedReview,
+  MAX_REVIEW_IMAGES
+} from "@shared/reviews";
+import { searchQuerySchema, getSearchTerms, isValidSearchCursor, runProductSearch } from "@shared/search";
+import {
+  productListQuerySchema, orderListQuerySchema, userListQuerySchema, sellerListQuerySchema, OrderListQuery, ProductListQuery
+} from "@shared/pagination";
+import { isValidCursor } from "./pagination";
+
+// Cart lines with the seller and categories a coupon's scope is checked against
+async function getCouponLines(cartItems: CartItem[]): Promise<CouponLine[]> {
+  const allCategories = await storage.listCategories();
+  const lines: CouponLine[] = [];
+  for (const item of cartItems) {
+    const product = await storage.getProduct(item.product_id);
+    if (product) {
+      const categories = await storage.getProductCategories(product.id);
+      const variant = item.variant_id ? await storage.getProductVariant(item.variant_id) : undefined;
+      lines.push({
+        price: getVariantPrice(product, variant),
+        quantity: item.quantity,
+        seller_id: product.seller_id,
+        category_ids: getCategoryLineageIds(allCategories, categories.map(category => category.id))
+      });
+    }
+  }
+  return lines;
+}
+
+// Cancels an order with its shipments, returning its stock and refunding or
+// voiding its payment. Callers check canCancelShipments first. Returns
+// undefined if the order changed status first.
+async function cancelAndRefundOrder(order: Order, change: OrderStatusChange) {
+  const cancelledOrder = await storage.cancelOrder(order.id, [order.status], change);
+  if (!cancelledOrder) return undefined;
+
+  const payment = await storage.getOrderPayment(order.id);
+
+  return {
+    order: cancelledOrder,
+    payment: payment ? await releasePayment(payment) : undefined,
+    shipments: await storage.getOrderShipments(order.id)
+  };
+}
+
+// The 400 message when part of the order has already shipped, or null
+async function getShippedCancelError(order: Order): Promise<string | null> {
+  const shipments = await storage.getOrderShipments(order.id);
+  return canCancelShipments(shipments.map(shipment => shipment.status))
+    ? null
+    : "Part of this order has already shipped, so it can't be cancelled. Request a return once it arrives.";
+}
+
+// Orders with their items (and the items' products), payment and shipments,
+// loaded for all of them at once. Sellers only see their own items and
+// fulfillment group in each order.
+async function getOrdersWithDetails(orders: Order[], sellerId?: number) {
+  const details = await storage.getOrderDetails(orders.map(order => order.id));
+  return orders.map(order => {
+    const { items, payment, shipments } = details.get(order.id)!;
+    return {
+      ...order,
+      items: sellerId === undefined ? items : items.filter(item => item.product?.seller_id === sellerId),
+      payment,
+      shipments: sellerId === undefined ? shipments : shipments.filter(s => s.seller_id === sellerId)
+    };
+  });
+}
+
+// Sellers handle returns of their own products; admins handle any return
+async function canManageReturn(user: User, returnRequest: ReturnRequest): Promise<boolean> {
+  if (user.role === "admin") return true;
+  const seller = await storage.getSellerByUserId(user.id);
+  return seller?.id === returnRequest.seller_id;
+}
+
+// Sellers manage their own products; admins manage any product
+async function canManageProduct(user: User, product: Product): Promise<boolean> {
+  if (user.role === "admin") return true;
+  const seller = await storage.getSellerByUserId(user.id);
+  return seller?.id === product.seller_id;
+}
+
+// The name and username shown with a review; never the reviewer's email
+function getReviewAuthor(user: User | undefined) {
+  return user ? { id: user.id, username: user.username, name: user.name } : null;
+}
+
+// The product's seller (or an admin) may reply to and remove replies on its reviews
+async function canReplyToReview(user: User, review: Review): Promise<boolean> {
+  const product = await storage.getProduct(review.product_id);
+  return !!product && user.role === "seller" && await canManageProduct(user, product);
+}
+
+// Adds what the returns list shows: the order number, the returned product and
+// what refunding it would come to
+async function getReturnDetails(returnRequests: ReturnRequest[]) {
+  return await Promise.all(returnRequests.map(async (returnRequest) => {
+    const order = await storage.getOrder(returnRequest.order_id);
+    const item = await storage.getOrderItem(returnRequest.order_item_id);
+    const product = item ? await storage.getProduct(item.product_id) : undefined;
+    return {
+      ...returnRequest,
+      order_number: order?.order_id,
+      item,
+      product,
+      refund_estimate: order && item ? calculateReturnRefund(order, item, returnRequest.quantity) : undefined
+    };
+  }));
+}
+
+// Customers get a wishlist the first time they use one
+async function getOrCreateWishlist(userId: number): Promise<Wishlist> {
+  const wishlist = await storage.getWishlistByUserId(userId);
+  if (wishlist) return wishlist;
+
+  return await storage.createWishlist({
+    user_id: userId,
+    wishlist_id: `WISH-${randomBytes(4).toString("hex")}`
+  });
+}
+
+// Wishlist items with their products, skipping products that have since been removed
+async function getWishlistItemsWithProducts(wishlistId: number) {
+  const items = await storage.getWishlistItems(wishlistId);
+  const itemsWithProducts = await Promise.all(
+    items.map(async (item) => ({
+      ...item,
+      product: await storage.getProduct(item.product_id)
+    }))
+  );
+  return itemsWithProducts.filter(item => item.product);
+}
+
+// Only one address per user is the default checkout prefill
+async function clearDefaultAddress(userId: number) {
+  const addresses = await storage.listUserAddresses(userId);
+  for (const address of addresses) {
+    if (address.is_default) {
+      await storage.updateAddress(address.id, { is_default: false });
+    }
+  }
+}
+
+// The product's values for the attributes of its categories and their
+// ancestors. Values for attributes that no longer apply are left out.
+async function getProductAttributes(productId: number, categoryIds: number[]): Promise<ProductAttribute[]> {
+  const attributes = getApplicableAttributes(
+    await storage.listCategories(),
+    await storage.listCategoryAttributes(),
+    categoryIds
+  );
+  const values = await storage.getProductAttributeValues(productId);
+  return attributes.flatMap(attribute => {
+    const row = values.find(value => value.attribute_id === attribute.id);
+    const value = row ? getAttributeValue(attribute, row) : null;
+    return value === null ? [] : [{ ...attribute, value }];
+  });
+}
+
+// A category with its URL path, the ancestors for its breadcrumbs and its
+// direct subcategories
+function getCategoryDetails(categories: Category[], category: Category) {
+  const withPaths = withCategoryPaths(categories);
+  return {
+    ...withPaths.find(c => c.id === category.id)!,
+    ancestors: getCategoryAncestors(withPaths, category),
+    children: getChildCategories(withPaths, category.id),
+  };
+}
+
+// Percentages are validated here since the insert schema is shared with partial updates
+function validateCouponValue(coupon: Partial<Coupon>): string | undefined {
+  if (coupon.type === "percentage" && coupon.value != null && coupon.value > 100) {
+    return "Percentage coupons can't take off more than 100%";
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes (/api/register, /api/login, /api/logout, /api/user)
@@ -24,7 +250,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/categories", async (req, res, next) => {
     try {
       const categories = await storage.listCategories();
-      res.json(categories);
+      res.json(withCategoryPaths(categories));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Looks a category up by its URL path, e.g. /api/categories/path/electronics/phones
+  app.get<{ 0: string }>("/api/categories/path/*", async (req, res, next) => {
+    try {
+      const categories = await storage.listCategories();
+      const category = findCategoryByPath(categories, req.params[0]);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(getCategoryDetails(categories, category));
     } catch (error) {
       next(error);
     }
@@ -32,11 +272,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/categories/:id", async (req, res, next) => {
     try {
-      const category = await storage.getCategory(parseInt(req.params.id));
+      const categories = await storage.listCategories();
+      const category = categories.find(c => c.id === parseInt(req.params.id));
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
-      res.json(category);
+      res.json(getCategoryDetails(categories, category));
     } catch (error) {
       next(error);
     }
@@ -44,7 +285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/categories", hasRole("admin"), async (req, res, next) => {
     try {
-      const validationResult = insertCategorySchema.safeParse(req.body);
+      const validationResult = categoryInputSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({ 
           message: "Validation failed",
@@ -52,13 +293,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const categoryData = {
-        ...validationResult.data,
-        category_id: `CAT-${randomBytes(4).toString("hex")}`
-      };
+      const { category_name } = validationResult.data;
+      const parentId = validationResult.data.parent_id ?? null;
+      const slug = validationResult.data.slug ?? slugify(category_name);
+      if (!slug) {
+        return res.status(400).json({ message: "Give the category a slug; its name has no letters or numbers to make one from" });
+      }
+
+      const categories = await storage.listCategories();
+      if (parentId !== null && !categories.some(c => c.id === parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      if (isCategorySlugTaken(categories, parentId, slug)) {
+        return res.status(400).json({ message: `Another category here already uses the slug "${slug}"` });
+      }
 
-      const category = await storage.createCategory(categoryData);
-      res.status(201).json(category);
+      // New categories go after their siblings
+      const siblings = getChildCategories(categories, parentId);
+      const category = await storage.createCategory({
+        category_name,
+        slug,
+        parent_id: parentId,
+        position: siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0,
+        category_id: `CAT-${randomBytes(4).toString("hex")}`
+      });
+      res.status(201).json(getCategoryDetails([...categories, category], category));
     } catch (error) {
       next(error);
     }
@@ -67,13 +326,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/categories/:id", hasRole("admin"), async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
-      const category = await storage.getCategory(id);
+      const categories = await storage.listCategories();
+      const category = categories.find(c => c.id === id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const validationResult = categoryUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { slug } = validationResult.data;
+      if (slug && isCategorySlugTaken(categories, category.parent_id ?? null, slug, id)) {
+        return res.status(400).json({ message: `Another category here already uses the slug "${slug}"` });
+      }
+
+      const updatedCategory = await storage.updateCategory(id, validationResult.data);
+      if (!updatedCategory) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(getCategoryDetails(categories.map(c => c.id === id ? updatedCategory : c), updatedCategory));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Re-parents and/or reorders a category. Responds with the whole list since
+  // its old and new siblings are renumbered too.
+  app.put("/api/categories/:id/move", hasRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const categories = await storage.listCategories();
+      const category = categories.find(c => c.id === id);
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
 
-      const updatedCategory = await storage.updateCategory(id, req.body);
-      res.json(updatedCategory);
+      const validationResult = categoryMoveSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const { parent_id: parentId, position } = validationResult.data;
+      if (parentId !== null && !categories.some(c => c.id === parentId)) {
+        return res.status(400).json({ message: "Parent category not found" });
+      }
+      if (!canMoveCategory(categories, id, parentId)) {
+        return res.status(400).json({ message: "A category can't be moved into itself or one of its subcategories" });
+      }
+      if (isCategorySlugTaken(categories, parentId, category.slug, id)) {
+        return res.status(400).json({ message: `Another category there already uses the slug "${category.slug}"` });
+      }
+
+      await storage.updateCategoryPlacements(planCategoryMove(categories, id, parentId, position));
+      res.json(withCategoryPaths(await storage.listCategories()));
     } catch (error) {
       next(error);
     }
@@ -82,10 +395,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/categories/:id", hasRole("admin"), async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
-      const category = await storage.getCategory(id);
+      const categories = await storage.listCategories();
+      const category = categories.find(c => c.id === id);
       if (!category) {
         return res.status(404).json({ message: "Category not found" });
       }
+      if (getChildCategories(categories, id).length > 0) {
+        return res.status(400).json({ message: "Move or delete this category's subcategories first" });
+      }
 
       await storage.deleteCategory(id);
       res.status(204).send();
@@ -94,6 +411,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // CATEGORY ATTRIBUTES
+  app.get("/api/attributes", async (req, res, next) => {
+    try {
+      res.json(await storage.listCategoryAttributes());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The category's own attributes and those it inherits, the most general first
+  app.get("/api/categories/:id/attributes", async (req, res, next) => {
+    try {
+      const categories = await storage.listCategories();
+      const category = categories.find(c => c.id === parseInt(req.params.id));
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      res.json(getApplicableAttributes(categories, await storage.listCategoryAttributes(), [category.id]));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/categories/:id/attributes", hasRole("admin"), async (req, res, next) => {
+    try {
+      const category = await storage.getCategory(parseInt(req.params.id));
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const validationResult = categoryAttributeInputSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+
+      const siblings = await storage.listCategoryAttributes([category.id]);
+      const { name } = validationResult.data;
+      if (siblings.some(attribute => attribute.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ message: `${category.category_name} already has an attribute named ${name}` });
+      }
+
+      const attribute = await storage.createCategoryAttribute({
+        ...validationResult.data,
+        unit: validationResult.data.unit || null,
+        category_id: category.id,
+        position: siblings.length > 0 ? siblings[siblings.length - 1].position + 1 : 0
+      });
+      res.status(201).json(attribute);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/attributes/:id", hasRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attribute = await storage.getCategoryAttribute(id);
+      if (!attribute) {
+        return res.status(404).json({ message: "Attribute not found" });
+      }
+
+      // Checked as a whole so options and unit are held to the attribute's type
+      const validationResult = categoryAttributeUpdateSchema.safeParse(req.body);
+      const mergedResult = categoryAttributeInputSchema.safeParse({
+        name: attribute.name,
+        type: attribute.type,
+        options: attribute.options,
+        unit: attribute.unit,
+        ...(validationResult.success ? validationResult.data : {})
+      });
+      if (!validationResult.success || !mergedResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: (validationResult.error ?? mergedResult.error)!.errors 
+        });
+      }
+
+      const { name, options, unit } = mergedResult.data;
+      const siblings = await storage.listCategoryAttributes([attribute.category_id]);
+      if (siblings.some(other => other.id !== id && other.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(400).json({ message: `This category already has an attribute named ${name}` });
+      }
+
+      // Products would be left with a value that's no longer an option
+      const removedOptions = attribute.options.filter(option => !options.includes(option));
+      const inUse = await storage.countProductsWithAttributeOptions(id, removedOptions);
+      if (inUse > 0) {
+        return res.status(400).json({
+          message: `${inUse} product${inUse === 1 ? " uses" : "s use"} ${removedOptions.join(", ")}; change ${inUse === 1 ? "it" : "them"} before removing the option`
+        });
+      }
+
+      const updatedAttribute = await storage.updateCategoryAttribute(id, { name, options, unit: unit || null });
+      res.json(updatedAttribute);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/attributes/:id", hasRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const attribute = await storage.getCategoryAttribute(id);
+      if (!attribute) {
+        return res.status(404).json({ message: "Attribute not found" });
+      }
+
+      await storage.deleteCategoryAttribute(id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Debug route for direct database check
   app.get("/api/debug/products", async (req, res, next) => {
     try {
@@ -125,81 +560,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PRODUCT ROUTES
+  // Lists take ?limit=&cursor=&sort=&filter[name]=value and respond with a
+  // Page (see shared/pagination.ts)
   app.get("/api/products", async (req, res, next) => {
     try {
-      const { sellerId, categoryId, status, search } = req.query;
-      
-      console.log('GET /api/products query params:', { sellerId, categoryId, status, search });
-      
-      let products = [];
-      
-      if (search) {
-        console.log(`Searching for products with query: ${search}`);
-        products = await storage.searchProducts(search as string);
-      } else {
-        const filter: any = {};
-        
-        if (sellerId) filter.sellerId = parseInt(sellerId as string);
-        if (categoryId) filter.categoryId = parseInt(categoryId as string);
-        if (status) filter.status = status as string;
-        
-        console.log('Fetching products with filter:', filter);
-        
-        // Apply the filter to fetch products
-        products = await storage.listProducts(filter);
-        console.log(`Found ${products.length} products with filter: ${JSON.stringify(filter)}`)
+      const validationResult = productListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
       }
-      
-      console.log('Raw products from database:', products);
-      
-      // ADDITIONAL DEBUGGING for special case of Electronics category
-      if (categoryId === '1') {
-        console.log('SPECIAL DEBUG FOR ELECTRONICS CATEGORY');
-        try {
-          const { db } = await import("./db");
-          const { products: productsTable, productCategories } = await import("@shared/schema");
-          
-          // Get all products directly from the database
-          const allProducts = await db.select().from(productsTable);
-          console.log(`DEBUG: Found ${allProducts.length} total products directly from database`);
-          
-          // Get all associations for category 1
-          const electronicsAssociations = await db.select().from(productCategories)
-            .where(eq(productCategories.category_id, 1));
-          
-          console.log(`DEBUG: Found ${electronicsAssociations.length} associations for Electronics category`);
-          if (electronicsAssociations.length > 0) {
-            console.log('Product IDs in electronics:', electronicsAssociations.map(a => a.product_id));
+
+      // Each attribute filter is read according to its attribute's type
+      const { attributes: attributeFilterValues, ...filter } = validationResult.data.filter;
+      const attributeFilters: AttributeFilter[] = [];
+      if (attributeFilterValues) {
+        const attributes = await storage.listCategoryAttributes();
+        for (const [attributeId, value] of Object.entries(attributeFilterValues)) {
+          const attribute = attributes.find(a => a.id === parseInt(attributeId));
+          const attributeFilter = attribute && parseAttributeFilter(attribute, value);
+          if (!attributeFilter) {
+            return res.status(400).json({ message: `Invalid filter[attr.${attributeId}]` });
           }
-        } catch (error) {
-          console.error('Error in extra debugging:', error);
+          attributeFilters.push(attributeFilter);
         }
       }
-      
-      // Enhance products with category information
-      const enhancedProducts = await Promise.all(
-        products.map(async (product) => {
-          try {
-            const categories = await storage.getProductCategories(product.id);
-            console.log(`Product ${product.id} has ${categories.length} categories`);
-            return {
-              ...product,
-              categories
-            };
-          } catch (error) {
-            console.error(`Error enhancing product ${product.id}:`, error);
-            return {
-              ...product,
-              categories: []
-            };
-          }
-        })
-      );
-      
-      console.log(`Sending ${enhancedProducts.length} enhanced products`);
-      res.json(enhancedProducts);
+
+      const query: ProductListQuery = { ...validationResult.data, filter: { ...filter, attributes: attributeFilters } };
+      if (!isValidCursor(query)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.listProductsPage(query);
+
+      // Add each product's categories
+      const categories = await storage.getCategoriesForProducts(page.items.map(product => product.id));
+      const items = page.items.map(product => ({
+        ...product,
+        categories: categories.get(product.id) ?? []
+      }));
+
+      res.json({ ...page, items });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Ranked product search with facet counts and cursor pagination
+  app.get("/api/search", async (req, res, next) => {
+    try {
+      const validationResult = searchQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const query = validationResult.data;
+      if (query.cursor && !isValidSearchCursor(query.cursor, query.sort)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const categoryList = await storage.listCategories();
+      // Filtering by a category also matches the products of its subcategories
+      if (query.category?.length) {
+        query.category = query.category.flatMap(id => getCategorySubtreeIds(categoryList, id));
+      }
+
+      const documents = await storage.getProductSearchDocuments(getSearchTerms(query.q));
+      const result = runProductSearch(documents, query);
+
+      const categories = new Map(categoryList.map(category => [category.id, category]));
+      const sellers = new Map((await storage.listSellers()).map(seller => [seller.id, seller]));
+
+      res.json({
+        results: result.documents.map(document => ({
+          ...document.product,
+          categories: document.category_ids.map(id => categories.get(id)).filter(Boolean),
+          seller: sellers.has(document.product.seller_id)
+            ? { shop_name: sellers.get(document.product.seller_id)!.shop_name }
+            : undefined,
+          rating: document.rating,
+          review_count: document.review_count
+        })),
+        facets: {
+          ...result.facets,
+          categories: result.facets.categories.map(facet => ({
+            ...facet,
+            name: categories.get(facet.id)?.category_name
+          })),
+          sellers: result.facets.sellers.map(facet => ({
+            ...facet,
+            name: sellers.get(facet.id)?.shop_name
+          }))
+        },
+        total: result.total,
+        next_cursor: result.next_cursor
+      });
     } catch (error) {
-      console.error('Error in GET /api/products:', error);
       next(error);
     }
   });
@@ -212,12 +672,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const categories = await storage.getProductCategories(product.id);
-      const reviews = await storage.getProductReviews(product.id);
+      const reviews = (await storage.getProductReviews(product.id)).filter(isPublishedReview);
+      const variants = await storage.getProductVariants(product.id);
+      const images = await storage.getProductImages(product.id);
+      const attributes = await getProductAttributes(product.id, categories.map(category => category.id));
       
       res.json({
         ...product,
         categories,
-        reviews
+        reviews,
+        variants,
+        images,
+        attributes
       });
     } catch (error) {
       next(error);
@@ -237,35 +703,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user!;
       
       // Get seller_id from user
-      let sellerId;
+      let seller;
       if (user.role === "seller") {
-        let seller = await storage.getSellerByUserId(user.id);
+        seller = await storage.getSellerByUserId(user.id);
         if (!seller) {
-          // Create a seller profile automatically for this user
-          seller = await storage.createSeller({
-            user_id: user.id,
-            seller_id: `SELLER-${randomBytes(4).toString("hex")}`,
-            shop_name: `${user.name || user.username}'s Store`,
-            joined_date: new Date(),
-            rating: 5.0,
-            verified: true
-          });
-          console.log("Created seller profile for user:", user.id);
+          return res.status(403).json({ message: "Apply to become a seller before listing products" });
         }
-        sellerId = seller.id;
       } else {
         // Admin can specify seller_id
-        sellerId = req.body.seller_id;
+        seller = await storage.getSeller(parseInt(req.body.seller_id));
+        if (!seller) {
+          return res.status(400).json({ message: "Seller not found" });
+        }
       }
 
+      // The moderation rules decide whether the product goes live right away
+      const status = getSubmittedProductStatus(null, !!seller.verified);
       const productData = {
         ...validationResult.data,
         product_id: `PROD-${randomBytes(4).toString("hex")}`,
-        seller_id: sellerId,
-        status: user.role === "admin" ? "active" : "pending" // Sellers' products need approval
+        seller_id: seller.id,
+        status
       };
 
       const product = await storage.createProduct(productData);
+      await storage.addProductStatusHistory({
+        product_id: product.id,
+        from_status: null,
+        to_status: status,
+        changed_by: user.id,
+        actor_role: "system",
+        note: describeSubmission(status)
+      });
       
       // Add categories if specified
       if (req.body.categories && Array.isArray(req.body.categories)) {
@@ -300,16 +769,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = req.user!;
+      const seller = await storage.getSeller(product.seller_id);
       
       // Check if the user has permission to update this product
-      if (user.role === "seller") {
-        const seller = await storage.getSellerByUserId(user.id);
-        if (!seller || seller.id !== product.seller_id) {
-          return res.status(403).json({ message: "You don't have permission to update this product" });
+      if (user.role === "seller" && seller?.user_id !== user.id) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+
+      const validationResult = insertProductSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+      const { status: requestedStatus, ...productData } = validationResult.data;
+      // A product with variants keeps its stock on them
+      if (hasVariants(product)) {
+        delete productData.stock;
+      }
+      // ...and one with uploaded images shows the first as its cover
+      if ((await storage.getProductImages(id)).length > 0) {
+        delete productData.image_url;
+      }
+
+      // Status only changes through moderation. Sellers and admins can take a
+      // product down; a seller relisting or editing one resubmits it to the
+      // moderation rules. Admins approve and reject through their own routes.
+      let nextStatus: ProductStatus | undefined;
+      let actor: ModerationActor = user.role === "admin" ? "admin" : "seller";
+      if (requestedStatus === "delisted") {
+        nextStatus = requestedStatus;
+      } else if (requestedStatus === "active" && user.role === "seller" && product.status === "delisted") {
+        nextStatus = getSubmittedProductStatus(product.status, !!seller?.verified);
+        actor = "system";
+      } else if (requestedStatus !== undefined && requestedStatus !== product.status) {
+        return res.status(403).json({
+          message: user.role === "admin"
+            ? "Approve or reject products through /api/admin/products/:id/approve or /reject"
+            : "Products go live once they pass moderation"
+        });
+      } else if (user.role === "seller" && product.status !== "delisted") {
+        nextStatus = getSubmittedProductStatus(product.status, !!seller?.verified);
+        actor = "system";
+      }
+
+      if (nextStatus && nextStatus !== product.status) {
+        if (!canTransitionProduct(product.status, nextStatus, actor)) {
+          return res.status(400).json({ message: `A ${formatProductStatus(product.status).toLowerCase()} product can't be moved to ${formatProductStatus(nextStatus).toLowerCase()}` });
+        }
+        
+        const moved = await storage.updateProductStatus(id, product.status, nextStatus, {
+          changed_by: user.id,
+          actor_role: actor,
+          note: actor === "system" ? describeSubmission(nextStatus) : null
+        });
+        if (!moved) {
+          return res.status(409).json({ message: "The product was changed by someone else; reload and try again" });
         }
       }
 
-      const updatedProduct = await storage.updateProduct(id, req.body);
+      const updatedProduct = await storage.updateProduct(id, productData);
       
       // Update categories if specified
       if (req.body.categories && Array.isArray(req.body.categories)) {
@@ -366,18 +886,377 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const images = await storage.getProductImages(id);
+      const reviewImages = await storage.getReviewImages((await storage.getProductReviews(id)).map(review => review.id));
       await storage.deleteProduct(id);
+      await deleteImageFiles([...images, ...Array.from(reviewImages.values()).flat()]);
       res.status(204).send();
     } catch (error) {
       next(error);
     }
   });
 
-  // PRODUCT CATEGORY ASSIGNMENT
-  app.post("/api/products/:productId/categories", hasRole(["seller", "admin"]), async (req, res, next) => {
+  // Replaces the product's option axes and variant matrix. Sending empty
+  // lists turns it back into a product without variants.
+  app.put("/api/products/:id/variants", hasRole(["seller", "admin"]), async (req, res, next) => {
     try {
-      const productId = parseInt(req.params.productId);
-      const { categoryId } = req.body;
+      const id = parseInt(req.params.id);
+      const product = await storage.getProduct(id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const user = req.user!;
+      if (user.role === "seller") {
+        const seller = await storage.getSellerByUserId(user.id);
+        if (!seller || seller.id !== product.seller_id) {
+          return res.status(403).json({ message: "You don't have permission to update this product" });
+        }
+      }
+
+      const validationResult = variantMatrixSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const { variant_options, variants } = validationResult.data;
+      const savedVariants = await storage.replaceProductVariants(
+        id,
+        variant_options,
+        variants.map(variant => ({ ...variant, product_id: id }))
+      );
+
+      res.json({
+        ...(await storage.getProduct(id)),
+        variants: savedVariants
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces the product's attribute values. Only the attributes of its
+  // categories and their ancestors can be set, so save its categories first.
+  app.put("/api/products/:id/attributes", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      if (!(await canManageProduct(req.user!, product))) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+
+      const validationResult = productAttributeValuesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const categoryIds = (await storage.getProductCategories(product.id)).map(category => category.id);
+      const attributes = getApplicableAttributes(
+        await storage.listCategories(),
+        await storage.listCategoryAttributes(),
+        categoryIds
+      );
+
+      const values: InsertProductAttributeValue[] = [];
+      for (const [attributeId, value] of Object.entries(validationResult.data.values)) {
+        if (value === null || value === "") continue;
+        const attribute = attributes.find(a => a.id === parseInt(attributeId));
+        if (!attribute) {
+          return res.status(400).json({ message: `Attribute ${attributeId} doesn't belong to this product's categories` });
+        }
+        const problem = getAttributeValueError(attribute, value);
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+        values.push({ product_id: product.id, attribute_id: attribute.id, ...toAttributeColumns(attribute, value) });
+      }
+
+      await storage.replaceProductAttributeValues(product.id, values);
+      res.json(await getProductAttributes(product.id, categoryIds));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PRODUCT IMAGES
+  app.get("/api/products/:id/images", async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      res.json(await storage.getProductImages(product.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Multipart upload of up to MAX_PRODUCT_IMAGES files in the "images" field,
+  // with an optional "alt_text" field per file in the same order. Every file
+  // is checked before any is stored, so a bad one fails the whole upload.
+  app.post("/api/products/:id/images", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      if (!(await canManageProduct(req.user!, product))) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+
+      let files: Express.Multer.File[];
+      try {
+        files = await parseImageUpload(req, res);
+      } catch (error) {
+        if (error instanceof ImageUploadError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Choose at least one image to upload" });
+      }
+      
+      const validationResult = productImageUploadSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+      
+      const current = await storage.getProductImages(product.id);
+      if (current.length + files.length > MAX_PRODUCT_IMAGES) {
+        return res.status(400).json({
+          message: `A product can have at most ${MAX_PRODUCT_IMAGES} images; it has ${current.length}`
+        });
+      }
+
+      const processed = [];
+      for (const file of files) {
+        try {
+          processed.push(await processImage(file));
+        } catch (error) {
+          if (error instanceof ImageUploadError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+
+      const images = [];
+      for (let index = 0; index < processed.length; index++) {
+        const stored = await storeProductImage(product, processed[index]);
+        images.push(await storage.addProductImage({
+          ...stored,
+          product_id: product.id,
+          alt_text: validationResult.data.alt_text[index] || null
+        }));
+      }
+      
+      res.status(201).json(images);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/products/:id/images/:imageId", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      const image = await storage.getProductImage(parseInt(req.params.imageId));
+      if (!product || !image || image.product_id !== product.id) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      if (!(await canManageProduct(req.user!, product))) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+      
+      const validationResult = productImageUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+      
+      res.json(await storage.updateProductImage(image.id, {
+        alt_text: validationResult.data.alt_text || null
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The first image becomes the product's cover
+  app.put("/api/products/:id/images/order", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      if (!(await canManageProduct(req.user!, product))) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+      
+      const validationResult = productImageOrderSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+      
+      const { image_ids } = validationResult.data;
+      const currentIds = (await storage.getProductImages(product.id)).map(image => image.id);
+      if (image_ids.length !== currentIds.length || !currentIds.every(id => image_ids.includes(id))) {
+        return res.status(400).json({ message: "List each of the product's images exactly once" });
+      }
+      
+      res.json(await storage.reorderProductImages(product.id, image_ids));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/products/:id/images/:imageId", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      const image = await storage.getProductImage(parseInt(req.params.imageId));
+      if (!product || !image || image.product_id !== product.id) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      
+      if (!(await canManageProduct(req.user!, product))) {
+        return res.status(403).json({ message: "You don't have permission to update this product" });
+      }
+      
+      await storage.deleteProductImage(image.id);
+      await deleteImageFiles([image]);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PRODUCT MODERATION
+  // Approving takes a pending or rejected product live (or relists a delisted
+  // one); only verified sellers' products can go live
+  app.post("/api/admin/products/:id/approve", hasRole("admin"), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      if (!canTransitionProduct(product.status, "active", "admin")) {
+        return res.status(400).json({ message: `A ${formatProductStatus(product.status).toLowerCase()} product can't be approved` });
+      }
+      
+      const seller = await storage.getSeller(product.seller_id);
+      if (!seller?.verified) {
+        return res.status(400).json({ message: "Only verified sellers' products can go live" });
+      }
+      
+      const updatedProduct = await storage.updateProductStatus(product.id, product.status, "active", {
+        changed_by: req.user!.id,
+        actor_role: "admin",
+        note: typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null
+      });
+      
+      if (!updatedProduct) {
+        return res.status(409).json({ message: "The product was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedProduct);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rejecting takes a pending or listed product off the store until the
+  // seller edits it, which sends it back for review
+  app.post("/api/admin/products/:id/reject", hasRole("admin"), async (req, res, next) => {
+    try {
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      if (!canTransitionProduct(product.status, "rejected", "admin")) {
+        return res.status(400).json({ message: `A ${formatProductStatus(product.status).toLowerCase()} product can't be rejected` });
+      }
+      
+      const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+      if (!note) {
+        return res.status(400).json({ message: "Tell the seller why the product was rejected" });
+      }
+      
+      const updatedProduct = await storage.updateProductStatus(product.id, product.status, "rejected", {
+        changed_by: req.user!.id,
+        actor_role: "admin",
+        note
+      });
+      
+      if (!updatedProduct) {
+        return res.status(409).json({ message: "The product was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedProduct);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Moderation history, newest first, with each entry's product. Sellers see
+  // their own products'; admins see every product's, or one's with ?product_id=
+  app.get("/api/product-status-history", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const productId = req.query.product_id ? parseInt(req.query.product_id as string) : undefined;
+      
+      let history;
+      if (user.role === "seller") {
+        const seller = await storage.getSellerByUserId(user.id);
+        if (!seller) {
+          return res.json([]);
+        }
+        history = await storage.listProductStatusHistory({ productId, sellerId: seller.id });
+      } else {
+        history = await storage.listProductStatusHistory({ productId });
+      }
+      
+      const products = await storage.getProductsByIds(Array.from(new Set(history.map(entry => entry.product_id))));
+      res.json(history.map(entry => {
+        const product = products.get(entry.product_id);
+        return {
+          ...entry,
+          product: product ? { id: product.id, product_id: product.product_id, name: product.name } : null
+        };
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PRODUCT CATEGORY ASSIGNMENT
+  app.post("/api/products/:productId/categories", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      const { categoryId } = req.body;
       
       if (!categoryId) {
         return res.status(400).json({ message: "categoryId is required" });
@@ -442,9 +1321,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const itemsWithDetails = await Promise.all(
         cartItems.map(async (item) => {
           const product = await storage.getProduct(item.product_id);
+          const variant = item.variant_id ? await storage.getProductVariant(item.variant_id) : undefined;
           return {
             ...item,
-            product
+            product,
+            variant
           };
         })
       );
@@ -458,6 +1339,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Server-side price breakdown for the current cart; checkout charges exactly this
+  app.get("/api/cart/quote", isAuthenticated, async (req, res, next) => {
+    try {
+      const shippingMethod = shippingMethodSchema.safeParse(req.query.shippingMethod || "standard");
+      if (!shippingMethod.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: shippingMethod.error.errors 
+        });
+      }
+      
+      const user = req.user!;
+      const cart = await storage.getCartByUserId(user.id);
+      const cartItems = cart ? await storage.getCartItems(cart.id) : [];
+      const lines = await getCouponLines(cartItems);
+      
+      // The attached coupon is re-checked on every quote since the cart may have changed
+      const coupon = cart?.coupon_id ? await storage.getCoupon(cart.coupon_id) : undefined;
+      let adjustments: QuoteAdjustments = {};
+      let couponError: string | null = null;
+      if (coupon) {
+        const evaluation = evaluateCoupon(coupon, lines, await storage.countCouponRedemptions(coupon.id, user.id));
+        if (evaluation.valid) {
+          adjustments = { discount: evaluation.discount, free_shipping: evaluation.free_shipping };
+        } else {
+          couponError = evaluation.reason;
+        }
+      }
+      
+      res.json({
+        ...calculateQuote(lines, shippingMethod.data, adjustments),
+        coupon_code: coupon?.code ?? null,
+        coupon_error: couponError
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/cart/items", isAuthenticated, async (req, res, next) => {
     try {
       const user = req.user!;
@@ -488,8 +1408,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
+      if (product.status !== "active") {
+        return res.status(400).json({ message: "This product is no longer available" });
+      }
 
-      if (product.stock < validationResult.data.quantity) {
+      // A product with variants goes in the cart as one of them
+      const { variant_id: variantId } = validationResult.data;
+      const variant = variantId ? await storage.getProductVariant(variantId) : undefined;
+      if (hasVariants(product) && !variant) {
+        return res.status(400).json({
+          message: `Choose a ${product.variant_options.map(option => option.name.toLowerCase()).join(" and ")} first`
+        });
+      }
+      if (variantId && variant?.product_id !== product.id) {
+        return res.status(400).json({ message: "That option isn't available for this product" });
+      }
+
+      if ((variant ?? product).stock < validationResult.data.quantity) {
         return res.status(400).json({ message: "Not enough stock available" });
       }
 
@@ -498,7 +1433,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Include product details in response
       const itemWithProduct = {
         ...cartItem,
-        product
+        product,
+        variant
       };
       
       res.status(201).json(itemWithProduct);
@@ -523,10 +1459,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Cart item not found" });
       }
       
-      // Check if product has enough stock
+      // Check if the product (or the chosen variant) has enough stock
+      const product = await storage.getProduct(cartItem.product_id);
+      const variant = cartItem.variant_id ? await storage.getProductVariant(cartItem.variant_id) : undefined;
       if (req.body.quantity) {
-        const product = await storage.getProduct(cartItem.product_id);
-        if (product && product.stock < req.body.quantity) {
+        const stock = variant?.stock ?? product?.stock;
+        if (stock !== undefined && stock < req.body.quantity) {
           return res.status(400).json({ message: "Not enough stock available" });
         }
       }
@@ -534,10 +1472,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedItem = await storage.updateCartItem(itemId, req.body);
       
       // Include product details
-      const product = await storage.getProduct(cartItem.product_id);
       const itemWithProduct = {
         ...updatedItem,
-        product
+        product,
+        variant
       };
       
       res.json(itemWithProduct);
@@ -569,103 +1507,495 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // CHECKOUT AND ORDER ROUTES
-  app.post("/api/orders", isAuthenticated, async (req, res, next) => {
+  // Attach a coupon code to the cart; it's validated again when the order is placed
+  app.post("/api/cart/coupon", isAuthenticated, async (req, res, next) => {
     try {
+      const code = typeof req.body.code === "string" ? req.body.code.trim() : "";
+      if (!code) {
+        return res.status(400).json({ message: "Coupon code is required" });
+      }
+      
       const user = req.user!;
       const cart = await storage.getCartByUserId(user.id);
-      
-      if (!cart) {
+      const cartItems = cart ? await storage.getCartItems(cart.id) : [];
+      if (!cart || cartItems.length === 0) {
         return res.status(400).json({ message: "Cart is empty" });
       }
       
-      const cartItems = await storage.getCartItems(cart.id);
-      if (cartItems.length === 0) {
-        return res.status(400).json({ message: "Cart is empty" });
+      const coupon = await storage.getCouponByCode(code);
+      if (!coupon) {
+        return res.status(400).json({ message: "Invalid coupon code" });
       }
       
-      // Calculate total price and verify stock
-      let totalPrice = 0;
-      for (const item of cartItems) {
-        const product = await storage.getProduct(item.product_id);
-        if (!product) {
-          return res.status(400).json({ message: `Product with ID ${item.product_id} not found` });
-        }
-        
-        if (product.stock < item.quantity) {
-          return res.status(400).json({ message: `Not enough stock for ${product.name}` });
-        }
-        
-        totalPrice += product.price * item.quantity;
+      const evaluation = evaluateCoupon(
+        coupon,
+        await getCouponLines(cartItems),
+        await storage.countCouponRedemptions(coupon.id, user.id)
+      );
+      if (!evaluation.valid) {
+        return res.status(400).json({ message: evaluation.reason });
       }
       
-      // Create order
-      const orderData = {
-        order_id: `ORD-${randomBytes(4).toString("hex")}`,
-        customer_id: user.id,
-        total_price: totalPrice,
-        ...req.body
-      };
+      const updatedCart = await storage.updateCart(cart.id, { coupon_id: coupon.id });
+      res.json({ ...updatedCart, coupon_code: coupon.code });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/cart/coupon", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const cart = await storage.getCartByUserId(user.id);
       
-      const validationResult = insertOrderSchema.safeParse(orderData);
-      if (!validationResult.success) {
-        return res.status(400).json({ 
+      if (!cart) {
+        return res.status(404).json({ message: "Cart not found" });
+      }
+      
+      await storage.updateCart(cart.id, { coupon_id: null });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // WISHLIST ROUTES
+  app.get("/api/wishlist", hasRole("customer"), async (req, res, next) => {
+    try {
+      const wishlist = await getOrCreateWishlist(req.user!.id);
+      res.json({
+        ...wishlist,
+        items: await getWishlistItemsWithProducts(wishlist.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/wishlist", hasRole("customer"), async (req, res, next) => {
+    try {
+      const wishlist = await getOrCreateWishlist(req.user!.id);
+      const validationResult = insertWishlistItemSchema.safeParse({
+        ...req.body,
+        wishlist_id: wishlist.id
+      });
+
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const product = await storage.getProduct(validationResult.data.product_id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const wishlistItem = await storage.addWishlistItem(validationResult.data);
+      res.status(201).json({ ...wishlistItem, product });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turns on the wishlist's public share link, keeping the existing one if it's already shared
+  app.post("/api/wishlist/share", hasRole("customer"), async (req, res, next) => {
+    try {
+      let wishlist = await getOrCreateWishlist(req.user!.id);
+      if (!wishlist.share_token) {
+        wishlist = (await storage.updateWishlist(wishlist.id, {
+          share_token: randomBytes(16).toString("hex")
+        }))!;
+      }
+      res.json(wishlist);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turns the share link off; the old link stops working
+  app.delete("/api/wishlist/share", hasRole("customer"), async (req, res, next) => {
+    try {
+      const wishlist = await storage.getWishlistByUserId(req.user!.id);
+      if (wishlist?.share_token) {
+        await storage.updateWishlist(wishlist.id, { share_token: null });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/wishlist/:productId", hasRole("customer"), async (req, res, next) => {
+    try {
+      const wishlist = await storage.getWishlistByUserId(req.user!.id);
+      const removed = wishlist
+        ? await storage.removeWishlistItem(wishlist.id, parseInt(req.params.productId))
+        : false;
+
+      if (!removed) {
+        return res.status(404).json({ message: "Product is not on your wishlist" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Adds one of the product to the cart and takes it off the wishlist
+  app.post("/api/wishlist/:productId/move-to-cart", hasRole("customer"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const productId = parseInt(req.params.productId);
+      const wishlist = await storage.getWishlistByUserId(user.id);
+      const wishlistItems = wishlist ? await storage.getWishlistItems(wishlist.id) : [];
+      if (!wishlist || !wishlistItems.some(item => item.product_id === productId)) {
+        return res.status(404).json({ message: "Product is not on your wishlist" });
+      }
+
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      if (product.status !== "active") {
+        return res.status(400).json({ message: "This product is no longer available" });
+      }
+      if (hasVariants(product)) {
+        return res.status(400).json({ message: "Choose your options on the product page to add this to your cart" });
+      }
+      if (product.stock < 1) {
+        return res.status(400).json({ message: "Not enough stock available" });
+      }
+
+      let cart = await storage.getCartByUserId(user.id);
+      if (!cart) {
+        cart = await storage.createCart({
+          user_id: user.id,
+          cart_id: `CART-${randomBytes(4).toString("hex")}`
+        });
+      }
+
+      const cartItem = await storage.addCartItem({
+        cart_id: cart.id,
+        product_id: product.id,
+        quantity: 1
+      });
+      await storage.removeWishlistItem(wishlist.id, product.id);
+
+      res.json({ ...cartItem, product });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Public view of a shared wishlist; only the owner's name is shown with it
+  app.get("/api/wishlists/shared/:token", async (req, res, next) => {
+    try {
+      const wishlist = await storage.getWishlistByShareToken(req.params.token);
+      if (!wishlist) {
+        return res.status(404).json({ message: "Wishlist not found" });
+      }
+
+      const owner = await storage.getUser(wishlist.user_id);
+      res.json({
+        wishlist_id: wishlist.wishlist_id,
+        owner_name: owner?.name,
+        items: await getWishlistItemsWithProducts(wishlist.id)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // COUPON ROUTES
+  app.get("/api/coupons", hasRole("admin"), async (req, res, next) => {
+    try {
+      const coupons = await storage.listCoupons();
+      res.json(coupons);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/coupons", hasRole("admin"), async (req, res, next) => {
+    try {
+      const validationResult = insertCouponSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
           message: "Validation failed",
           errors: validationResult.error.errors 
         });
       }
       
-      const order = await storage.createOrder(validationResult.data);
+      const valueError = validateCouponValue(validationResult.data);
+      if (valueError) {
+        return res.status(400).json({ message: valueError });
+      }
       
-      // Create order items
-      for (const item of cartItems) {
-        const product = await storage.getProduct(item.product_id);
-        if (product) {
-          await storage.addOrderItem({
-            order_id: order.id,
-            product_id: item.product_id,
-            quantity: item.quantity,
-            price: product.price
-          });
-          
-          // Update product stock
-          await storage.updateProduct(product.id, {
-            stock: product.stock - item.quantity
-          });
+      if (await storage.getCouponByCode(validationResult.data.code)) {
+        return res.status(400).json({ message: "A coupon with this code already exists" });
+      }
+      
+      const coupon = await storage.createCoupon(validationResult.data);
+      res.status(201).json(coupon);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/coupons/:id", hasRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const coupon = await storage.getCoupon(id);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
+      
+      const validationResult = insertCouponSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const valueError = validateCouponValue({ ...coupon, ...validationResult.data });
+      if (valueError) {
+        return res.status(400).json({ message: valueError });
+      }
+      
+      if (validationResult.data.code && validationResult.data.code !== coupon.code) {
+        if (await storage.getCouponByCode(validationResult.data.code)) {
+          return res.status(400).json({ message: "A coupon with this code already exists" });
         }
       }
       
-      // Create payment record
-      const paymentData = {
-        payment_id: `PAY-${randomBytes(4).toString("hex")}`,
-        order_id: order.id,
-        amount: totalPrice,
-        method: req.body.payment_method || "credit_card",
-        status: "completed" // Mock payment is always successful
-      };
+      const updatedCoupon = await storage.updateCoupon(id, validationResult.data);
+      res.json(updatedCoupon);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/coupons/:id", hasRole("admin"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const coupon = await storage.getCoupon(id);
+      if (!coupon) {
+        return res.status(404).json({ message: "Coupon not found" });
+      }
       
-      const payment = await storage.createPayment(paymentData);
+      await storage.deleteCoupon(id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ADDRESS BOOK ROUTES
+  app.get("/api/user/addresses", isAuthenticated, async (req, res, next) => {
+    try {
+      const addresses = await storage.listUserAddresses(req.user!.id);
+      res.json(addresses);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/addresses", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const validationResult = insertAddressSchema.safeParse({
+        ...req.body,
+        user_id: user.id
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
       
-      // Create shipment record
-      const shipmentData = {
-        shipment_id: `SHIP-${randomBytes(4).toString("hex")}`,
-        order_id: order.id,
-        estimated_delivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
-        status: "processing"
-      };
+      // The first saved address becomes the default
+      const existing = await storage.listUserAddresses(user.id);
+      const isDefault = validationResult.data.is_default || existing.length === 0;
+      if (isDefault) {
+        await clearDefaultAddress(user.id);
+      }
+      
+      const address = await storage.createAddress({ ...validationResult.data, is_default: isDefault });
+      res.status(201).json(address);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/user/addresses/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const id = parseInt(req.params.id);
+      const address = await storage.getAddress(id);
+      if (!address || address.user_id !== user.id) {
+        return res.status(404).json({ message: "Address not found" });
+      }
+      
+      const validationResult = insertAddressSchema.omit({ user_id: true }).partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      if (validationResult.data.is_default) {
+        await clearDefaultAddress(user.id);
+      }
+      
+      const updatedAddress = await storage.updateAddress(id, validationResult.data);
+      res.json(updatedAddress);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/addresses/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const id = parseInt(req.params.id);
+      const address = await storage.getAddress(id);
+      if (!address || address.user_id !== user.id) {
+        return res.status(404).json({ message: "Address not found" });
+      }
       
-      const shipment = await storage.createShipment(shipmentData);
+      await storage.deleteAddress(id);
       
-      // Clear the cart
-      for (const item of cartItems) {
-        await storage.removeCartItem(item.id);
+      // Promote another address so checkout still has something to prefill
+      if (address.is_default) {
+        const [replacement] = await storage.listUserAddresses(user.id);
+        if (replacement) {
+          await storage.updateAddress(replacement.id, { is_default: true });
+        }
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // CHECKOUT AND ORDER ROUTES
+  app.post("/api/orders", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const cart = await storage.getCartByUserId(user.id);
+      
+      if (!cart) {
+        return res.status(400).json({ message: "Cart is empty" });
+      }
+      
+      const shippingMethod = shippingMethodSchema.safeParse(req.body.shipping_method || "standard");
+      if (!shippingMethod.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: shippingMethod.error.errors 
+        });
+      }
+      
+      const shippingAddress = shippingAddressSchema.safeParse(req.body.shipping_address);
+      if (!shippingAddress.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: shippingAddress.error.errors 
+        });
+      }
+      
+      // Stock check, order creation, stock decrement and cart clearing all
+      // happen in one atomic storage operation. The order waits in
+      // pending_payment until the payment is captured.
+      const placed = await storage.placeOrder(cart.id, {
+        order_id: `ORD-${randomBytes(4).toString("hex")}`,
+        customer_id: user.id,
+        shipping_method: shippingMethod.data,
+        shipping_address: shippingAddress.data,
+        payment: {
+          payment_id: `PAY-${randomBytes(4).toString("hex")}`,
+          method: req.body.payment_method || "credit_card",
+          status: "pending",
+          provider: getPaymentProvider().name
+        },
+        shipment: {
+          shipment_id: `SHIP-${randomBytes(4).toString("hex")}`,
+          estimated_delivery: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+          status: "processing"
+        }
+      });
+      
+      const { payment, message } = await collectPayment(placed.payment, placed.order, req.body.payment_token);
+      const order = (await storage.getOrder(placed.order.id)) ?? placed.order;
+      
+      // A declined payment has already cancelled the order and returned its
+      // stock; put the cart back so the customer can retry
+      if (payment.status === "failed") {
+        for (const item of placed.items) {
+          await storage.addCartItem({
+            cart_id: cart.id,
+            product_id: item.product_id,
+            variant_id: item.variant_id,
+            quantity: item.quantity
+          });
+        }
+        if (placed.order.coupon_id) {
+          await storage.updateCart(cart.id, { coupon_id: placed.order.coupon_id });
+        }
+        return res.status(402).json({ message, order, payment });
+      }
+      
+      // Save to the address book only once the order has gone through
+      if (req.body.save_address) {
+        const existing = await storage.listUserAddresses(user.id);
+        await storage.createAddress({
+          ...shippingAddress.data,
+          user_id: user.id,
+          is_default: existing.length === 0
+        });
       }
       
       res.status(201).json({
         order,
         payment,
-        shipment
+        shipments: placed.shipments,
+        message
       });
+    } catch (error) {
+      if (error instanceof OrderPlacementError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    }
+  });
+
+  // PAYMENT ROUTES
+  // Called by the payment gateway, so it's authenticated by signature rather than session
+  app.post("/api/payments/webhook", async (req, res, next) => {
+    try {
+      let event;
+      try {
+        event = getPaymentProvider().verifyWebhook(req.rawBody ?? Buffer.alloc(0), req.get("x-payment-signature"));
+      } catch (error) {
+        if (error instanceof PaymentWebhookError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      const payment = await storage.getPaymentByProviderReference(event.reference);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const updatedPayment = await handlePaymentWebhook(payment, event);
+      res.json({ received: true, status: updatedPayment.status });
     } catch (error) {
       next(error);
     }
@@ -674,39 +2004,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/orders", isAuthenticated, async (req, res, next) => {
     try {
       const user = req.user!;
-      let orders = [];
+      const validationResult = orderListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const query: OrderListQuery = validationResult.data;
+      if (!isValidCursor(query)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      // Sellers only see their own items and fulfillment group in each order
+      let sellerId: number | undefined;
       
       if (user.role === "customer") {
         // Customers see their own orders
-        orders = await storage.listOrders(user.id);
+        query.filter.customer_id = user.id;
       } else if (user.role === "seller") {
         // Sellers see orders for their products
         const seller = await storage.getSellerByUserId(user.id);
-        if (seller) {
-          orders = await storage.getSellerOrders(seller.id);
+        if (!seller) {
+          return res.json({ items: [], next_cursor: null, total: 0 });
         }
-      } else if (user.role === "admin") {
-        // Admins see all orders
-        orders = await storage.listOrders();
+        sellerId = seller.id;
+        query.filter.seller_id = seller.id;
+      } else if (user.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized" });
       }
-      
-      // Get order items for each order
-      const ordersWithDetails = await Promise.all(
-        orders.map(async (order) => {
-          const items = await storage.getOrderItems(order.id);
-          const payment = await storage.getOrderPayment(order.id);
-          const shipment = await storage.getOrderShipment(order.id);
-          
-          return {
-            ...order,
-            items,
-            payment,
-            shipment
-          };
-        })
-      );
-      
-      res.json(ordersWithDetails);
+      // Admins see all orders
+
+      const page = await storage.listOrdersPage(query);
+      res.json({ ...page, items: await getOrdersWithDetails(page.items, sellerId) });
     } catch (error) {
       next(error);
     }
@@ -745,27 +2076,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Get order details
-      const items = await storage.getOrderItems(order.id);
-      const payment = await storage.getOrderPayment(order.id);
-      const shipment = await storage.getOrderShipment(order.id);
-      
-      // Get product details for each item
-      const itemsWithProducts = await Promise.all(
-        items.map(async (item) => {
-          const product = await storage.getProduct(item.product_id);
-          return {
-            ...item,
-            product
-          };
-        })
-      );
+      // Get order details; sellers only see their own items and fulfillment group
+      const sellerId = user.role === "seller"
+        ? (await storage.getSellerByUserId(user.id))?.id
+        : undefined;
+      const [orderWithDetails] = await getOrdersWithDetails([order], sellerId);
       
       res.json({
-        ...order,
-        items: itemsWithProducts,
-        payment,
-        shipment
+        ...orderWithDetails,
+        status_history: await storage.getOrderStatusHistory(order.id),
+        returns: await storage.listReturnRequests({ orderId: order.id })
       });
     } catch (error) {
       next(error);
@@ -781,14 +2101,345 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Order not found" });
       }
       
-      const updatedOrder = await storage.updateOrder(orderId, req.body);
+      const status = orderStatusSchema.safeParse(req.body.status);
+      if (!status.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: status.error.errors 
+        });
+      }
+      
+      const user = req.user!;
+      if (!canTransitionOrder(order.status, status.data, user.role as OrderActor)) {
+        return res.status(400).json({ message: `Can't change an order from ${order.status} to ${status.data}` });
+      }
+      
+      const change = {
+        changed_by: user.id,
+        actor_role: user.role,
+        note: typeof req.body.note === "string" ? req.body.note : null
+      };
+      
+      if (status.data === "cancelled") {
+        const shippedError = await getShippedCancelError(order);
+        if (shippedError) {
+          return res.status(400).json({ message: shippedError });
+        }
+      }
+      
+      // Cancelling also returns the stock and the customer's money
+      const updatedOrder = status.data === "cancelled"
+        ? (await cancelAndRefundOrder(order, change))?.order
+        : await storage.updateOrderStatus(orderId, order.status, status.data, change);
+      
+      if (!updatedOrder) {
+        return res.status(409).json({ message: "The order was changed by someone else; reload and try again" });
+      }
+      
       res.json(updatedOrder);
     } catch (error) {
       next(error);
     }
   });
 
+  // Customers can cancel their own order until it ships; admins can cancel any
+  // order that hasn't shipped yet
+  app.post("/api/orders/:id/cancel", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const order = await storage.getOrder(parseInt(req.params.id));
+      
+      if (!order || (user.role === "customer" && order.customer_id !== user.id)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (!canTransitionOrder(order.status, "cancelled", user.role as OrderActor)) {
+        return res.status(400).json({ message: `A ${order.status} order can't be cancelled` });
+      }
+      
+      const shippedError = await getShippedCancelError(order);
+      if (shippedError) {
+        return res.status(400).json({ message: shippedError });
+      }
+      
+      const cancelled = await cancelAndRefundOrder(order, {
+        changed_by: user.id,
+        actor_role: user.role,
+        note: typeof req.body.reason === "string" && req.body.reason.trim()
+          ? req.body.reason.trim()
+          : user.role === "customer" ? "Cancelled by customer" : "Cancelled by admin"
+      });
+      
+      if (!cancelled) {
+        return res.status(409).json({ message: "The order was changed by someone else; reload and try again" });
+      }
+      
+      res.json(cancelled);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // RETURN ROUTES
+  // Customers request a return for an item from one of their delivered orders
+  app.post("/api/orders/:id/returns", hasRole("customer"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const order = await storage.getOrder(parseInt(req.params.id));
+      
+      if (!order || order.customer_id !== user.id) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (order.status !== "delivered") {
+        return res.status(400).json({ message: "Only delivered orders can be returned" });
+      }
+      
+      const validationResult = insertReturnRequestSchema.pick({
+        order_item_id: true,
+        quantity: true,
+        reason: true,
+        details: true,
+        photos: true
+      }).safeParse(req.body);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const item = await storage.getOrderItem(validationResult.data.order_item_id);
+      if (!item || item.order_id !== order.id) {
+        return res.status(400).json({ message: "That item isn't part of this order" });
+      }
+      
+      const product = await storage.getProduct(item.product_id);
+      if (!product) {
+        return res.status(400).json({ message: "This product can no longer be returned" });
+      }
+      
+      // Quantities already in an open or completed return can't be returned again
+      const existingReturns = await storage.listReturnRequests({ orderId: order.id });
+      const alreadyReturned = existingReturns
+        .filter(r => r.order_item_id === item.id && isOpenReturn(r.status))
+        .reduce((sum, r) => sum + r.quantity, 0);
+      const returnable = item.quantity - alreadyReturned;
+      
+      if (validationResult.data.quantity > returnable) {
+        return res.status(400).json({ 
+          message: returnable > 0
+            ? `Only ${returnable} of this item can still be returned`
+            : "This item has already been returned"
+        });
+      }
+      
+      const returnRequest = await storage.createReturnRequest({
+        ...validationResult.data,
+        return_id: `RET-${randomBytes(4).toString("hex")}`,
+        order_id: order.id,
+        customer_id: user.id,
+        seller_id: product.seller_id
+      });
+      
+      res.status(201).json(returnRequest);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/returns", isAuthenticated, async (req, res, next) => {
+    try {
+      const user = req.user!;
+      let returnRequests: ReturnRequest[] = [];
+      
+      if (user.role === "customer") {
+        returnRequests = await storage.listReturnRequests({ customerId: user.id });
+      } else if (user.role === "seller") {
+        const seller = await storage.getSellerByUserId(user.id);
+        if (seller) {
+          returnRequests = await storage.listReturnRequests({ sellerId: seller.id });
+        }
+      } else if (user.role === "admin") {
+        returnRequests = await storage.listReturnRequests();
+      }
+      
+      res.json(await getReturnDetails(returnRequests));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/returns/:id/approve", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      
+      if (!returnRequest || !(await canManageReturn(req.user!, returnRequest))) {
+        return res.status(404).json({ message: "Return request not found" });
+      }
+      
+      if (!canTransitionReturn(returnRequest.status, "approved")) {
+        return res.status(400).json({ message: `A ${returnRequest.status} return can't be approved` });
+      }
+      
+      const updatedReturn = await storage.updateReturnRequestStatus(returnRequest.id, returnRequest.status, "approved", {
+        resolution_note: typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null
+      });
+      
+      if (!updatedReturn) {
+        return res.status(409).json({ message: "The return was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedReturn);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/returns/:id/reject", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      
+      if (!returnRequest || !(await canManageReturn(req.user!, returnRequest))) {
+        return res.status(404).json({ message: "Return request not found" });
+      }
+      
+      if (!canTransitionReturn(returnRequest.status, "rejected")) {
+        return res.status(400).json({ message: `A ${returnRequest.status} return can't be rejected` });
+      }
+      
+      const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+      if (!note) {
+        return res.status(400).json({ message: "Tell the customer why the return was rejected" });
+      }
+      
+      const updatedReturn = await storage.updateReturnRequestStatus(returnRequest.id, returnRequest.status, "rejected", {
+        resolution_note: note
+      });
+      
+      if (!updatedReturn) {
+        return res.status(409).json({ message: "The return was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedReturn);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The returned item arrived back; restock it unless it can't be resold
+  app.post("/api/returns/:id/receive", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      
+      if (!returnRequest || !(await canManageReturn(req.user!, returnRequest))) {
+        return res.status(404).json({ message: "Return request not found" });
+      }
+      
+      if (!canTransitionReturn(returnRequest.status, "received")) {
+        return res.status(400).json({ message: `A ${returnRequest.status} return can't be marked as received` });
+      }
+      
+      const updatedReturn = await storage.receiveReturnRequest(returnRequest.id, req.body.restock === true);
+      
+      if (!updatedReturn) {
+        return res.status(409).json({ message: "The return was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedReturn);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Refunds a received return against the order's payment. The amount defaults
+  // to the item's share of what the customer paid (see calculateReturnRefund).
+  app.post("/api/returns/:id/refund", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const returnRequest = await storage.getReturnRequest(parseInt(req.params.id));
+      
+      if (!returnRequest || !(await canManageReturn(user, returnRequest))) {
+        return res.status(404).json({ message: "Return request not found" });
+      }
+      
+      if (!canTransitionReturn(returnRequest.status, "refunded")) {
+        return res.status(400).json({ message: `A ${returnRequest.status} return can't be refunded` });
+      }
+      
+      const order = await storage.getOrder(returnRequest.order_id);
+      const item = await storage.getOrderItem(returnRequest.order_item_id);
+      const payment = await storage.getOrderPayment(returnRequest.order_id);
+      if (!order || !item || !payment) {
+        return res.status(400).json({ message: "This order has no payment to refund" });
+      }
+      
+      const amount = z.number().positive().optional().safeParse(req.body.amount);
+      if (!amount.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: amount.error.errors 
+        });
+      }
+      // A seller can refund less than the returned items are worth (e.g. for
+      // damage) but never more
+      const returnValue = calculateReturnRefund(order, item, returnRequest.quantity);
+      if (amount.data !== undefined && roundCurrency(amount.data) > returnValue) {
+        return res.status(400).json({
+          message: `Refund for this return can't be more than $${returnValue.toFixed(2)}`
+        });
+      }
+      const refundAmount = roundCurrency(amount.data ?? returnValue);
+      
+      // Claim the return first so the same return can't be refunded twice
+      const claimed = await storage.updateReturnRequestStatus(returnRequest.id, "received", "refunded", {
+        refund_amount: refundAmount
+      });
+      if (!claimed) {
+        return res.status(409).json({ message: "The return was changed by someone else; reload and try again" });
+      }
+      
+      let updatedPayment;
+      try {
+        updatedPayment = await refundPaymentAmount(payment, refundAmount);
+      } catch (error) {
+        await storage.updateReturnRequestStatus(returnRequest.id, "refunded", "received", { refund_amount: null });
+        if (error instanceof PaymentRefundError) {
+          return res.status(400).json({ message: error.message });
+        }
+        if (error instanceof PaymentTimeoutError) {
+          return res.status(504).json({ message: error.message });
+        }
+        throw error;
+      }
+      
+      // Once every item has come back the order itself counts as returned
+      const items = await storage.getOrderItems(order.id);
+      const refundedReturns = (await storage.listReturnRequests({ orderId: order.id }))
+        .filter(r => r.status === "refunded");
+      const fullyReturned = items.every(orderItem =>
+        refundedReturns
+          .filter(r => r.order_item_id === orderItem.id)
+          .reduce((sum, r) => sum + r.quantity, 0) >= orderItem.quantity
+      );
+      if (fullyReturned) {
+        await storage.updateOrderStatus(order.id, "delivered", "returned", {
+          changed_by: null,
+          actor_role: "system",
+          note: "Every item was returned and refunded"
+        });
+      }
+      
+      res.json({ return_request: claimed, payment: updatedPayment });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // SHIPMENT ROUTES
+  // Each seller ships their own fulfillment group; the order's status follows
+  // from all of its groups (see deriveOrderFulfillmentStatus)
   app.put("/api/shipments/:id", hasRole(["admin", "seller"]), async (req, res, next) => {
     try {
       const shipmentId = parseInt(req.params.id);
@@ -799,38 +2450,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const user = req.user!;
+      const order = await storage.getOrder(shipment.order_id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
       
-      // If seller, check if they have permission
+      // Sellers can only update the shipment for their own items. Shipments
+      // from before orders were split by seller (no seller_id) are admin-only.
       if (user.role === "seller") {
-        const order = await storage.getOrder(shipment.order_id);
-        if (!order) {
-          return res.status(404).json({ message: "Order not found" });
-        }
-        
-        const orderItems = await storage.getOrderItems(order.id);
         const seller = await storage.getSellerByUserId(user.id);
         
         if (!seller) {
           return res.status(403).json({ message: "Seller profile not found" });
         }
         
-        const sellerProducts = await storage.listProducts({ sellerId: seller.id });
-        const sellerProductIds = sellerProducts.map(p => p.id);
-        
-        const hasSellerProducts = orderItems.some(item => sellerProductIds.includes(item.product_id));
-        
-        if (!hasSellerProducts) {
+        if (shipment.seller_id !== seller.id) {
           return res.status(403).json({ message: "You don't have permission to update this shipment" });
         }
       }
       
-      const updatedShipment = await storage.updateShipment(shipmentId, req.body);
+      if (!canUpdateOrderShipments(order.status)) {
+        return res.status(400).json({ message: `Shipments on a ${order.status} order can't be changed` });
+      }
+      
+      const validationResult = updateShipmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Validation failed",
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const update = validationResult.data;
+      if (update.status && update.status !== shipment.status &&
+          !canTransitionShipment(shipment.status, update.status)) {
+        return res.status(400).json({ message: `Can't change a ${shipment.status} shipment to ${update.status}` });
+      }
+      
+      // Work out where this leaves the order, and check the order is allowed
+      // to make that move before changing anything
+      const shipments = await storage.getOrderShipments(order.id);
+      const orderStatus = deriveOrderFulfillmentStatus(
+        shipments.map(s => s.id === shipment.id ? update.status ?? s.status : s.status)
+      );
+      const movesOrder = orderStatus !== undefined && orderStatus !== "processing" && orderStatus !== order.status;
+      if (movesOrder && !canTransitionOrder(order.status, orderStatus, user.role as OrderActor)) {
+        return res.status(400).json({ message: `Can't mark a ${order.status} order as ${orderStatus}` });
+      }
       
-      // If status changed to "shipped", update order status
-      if (req.body.status === "shipped") {
-        await storage.updateOrder(shipment.order_id, { status: "shipped" });
-      } else if (req.body.status === "delivered") {
-        await storage.updateOrder(shipment.order_id, { status: "delivered" });
+      const updatedShipment = await storage.updateShipment(shipmentId, update.status === "shipped" && shipment.status !== "shipped"
+        ? { ...update, shipment_date: new Date() }
+        : update);
+      
+      if (movesOrder) {
+        const trackingNumber = update.tracking_number ?? shipment.tracking_number;
+        await storage.updateOrderStatus(order.id, order.status, orderStatus, {
+          changed_by: user.id,
+          actor_role: user.role,
+          note: shipments.length > 1
+            ? `Last of ${shipments.length} shipments ${orderStatus}`
+            : trackingNumber ? `Tracking number ${trackingNumber}` : null
+        });
       }
       
       res.json(updatedShipment);
@@ -860,19 +2540,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user has purchased this product
-      const userOrders = await storage.listOrders(user.id);
-      const userOrderIds = userOrders.map(o => o.id);
-      
-      let hasPurchased = false;
-      for (const orderId of userOrderIds) {
-        const orderItems = await storage.getOrderItems(orderId);
-        if (orderItems.some(item => item.product_id === productId)) {
-          hasPurchased = true;
-          break;
-        }
-      }
-      
-      if (!hasPurchased) {
+      const purchasers = await storage.getVerifiedPurchasers(product.id, [user.id]);
+      if (!purchasers.has(user.id)) {
         return res.status(403).json({ message: "You can only review products you have purchased" });
       }
       
@@ -912,25 +2581,323 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
+
+      const validationResult = reviewListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
       
-      const reviews = await storage.getProductReviews(productId);
-      
-      // Get user details for each review
-      const reviewsWithUser = await Promise.all(
-        reviews.map(async (review) => {
-          const user = await storage.getUser(review.customer_id);
-          return {
-            ...review,
-            customer: user ? {
-              id: user.id,
-              username: user.username,
-              name: user.name
-            } : null
-          };
-        })
+      const published = (await storage.getProductReviews(productId)).filter(isPublishedReview);
+      const images = await storage.getReviewImages(published.map(review => review.id));
+      const reviews = validationResult.data.with_photos
+        ? published.filter(review => images.get(review.id)!.length > 0)
+        : published;
+      const reviewIds = reviews.map(review => review.id);
+      const customerIds = reviews.map(review => review.customer_id);
+      
+      // Get user details, verified purchases and the viewer's votes for all
+      // the reviews at once
+      const users = await storage.getUsersByIds(customerIds);
+      const purchasers = await storage.getVerifiedPurchasers(productId, customerIds);
+      const voted = req.user
+        ? await storage.getVotedReviewIds(req.user.id, reviewIds)
+        : new Set<number>();
+      const reviewsWithDetails: ProductReview[] = reviews.map(review => ({
+        ...review,
+        images: images.get(review.id)!,
+        customer: getReviewAuthor(users.get(review.customer_id)),
+        verified_purchase: purchasers.has(review.customer_id),
+        voted: voted.has(review.id)
+      }));
+      
+      res.json(sortReviews(reviewsWithDetails, validationResult.data.sort));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Customers edit their own reviews
+  app.put("/api/reviews/:id", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.customer_id !== req.user!.id) {
+        return res.status(403).json({ message: "You can only edit your own reviews" });
+      }
+
+      const validationResult = reviewUpdateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const updatedReview = await storage.updateReview(review.id, {
+        ...validationResult.data,
+        edited_at: new Date()
+      });
+      res.json(updatedReview);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Multipart upload of up to MAX_REVIEW_IMAGES photos in the "images" field
+  // by the review's author. Like product images, every file is checked
+  // before any is stored.
+  app.post("/api/reviews/:id/images", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.customer_id !== req.user!.id) {
+        return res.status(403).json({ message: "You can only add photos to your own reviews" });
+      }
+
+      let files: Express.Multer.File[];
+      try {
+        files = await parseImageUpload(req, res, MAX_REVIEW_IMAGES);
+      } catch (error) {
+        if (error instanceof ImageUploadError) {
+          return res.status(400).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Choose at least one photo to upload" });
+      }
+
+      const current = (await storage.getReviewImages([review.id])).get(review.id)!;
+      if (current.length + files.length > MAX_REVIEW_IMAGES) {
+        return res.status(400).json({
+          message: `A review can have at most ${MAX_REVIEW_IMAGES} photos; it has ${current.length}`
+        });
+      }
+
+      const processed = [];
+      for (const file of files) {
+        try {
+          processed.push(await processImage(file));
+        } catch (error) {
+          if (error instanceof ImageUploadError) {
+            return res.status(400).json({ message: error.message });
+          }
+          throw error;
+        }
+      }
+
+      const images = [];
+      for (const image of processed) {
+        const stored = await storeReviewImage(review, image);
+        images.push(await storage.addReviewImage({ ...stored, review_id: review.id }));
+      }
+
+      res.status(201).json(images);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The author removes their photos; admins can remove any
+  app.delete("/api/reviews/:id/images/:imageId", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      const image = await storage.getReviewImage(parseInt(req.params.imageId));
+      if (!review || !image || image.review_id !== review.id) {
+        return res.status(404).json({ message: "Photo not found" });
+      }
+      if (review.customer_id !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You can only remove photos from your own reviews" });
+      }
+
+      await storage.deleteReviewImage(image.id);
+      await deleteImageFiles([image]);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // "Helpful" votes, one per user; voting twice or removing a vote that
+  // isn't there changes nothing
+  app.put("/api/reviews/:id/helpful", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review || !isPublishedReview(review)) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (review.customer_id === req.user!.id) {
+        return res.status(400).json({ message: "You can't vote on your own review" });
+      }
+
+      await storage.addReviewVote(review.id, req.user!.id);
+      const updatedReview = await storage.getReview(review.id);
+      res.json({ helpful_count: updatedReview?.helpful_count ?? 0, voted: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/reviews/:id/helpful", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+
+      await storage.removeReviewVote(review.id, req.user!.id);
+      const updatedReview = await storage.getReview(review.id);
+      res.json({ helpful_count: updatedReview?.helpful_count ?? 0, voted: false });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reporting a review puts it in the admins' moderation queue; it stays up
+  // until an admin hides it
+  app.post("/api/reviews/:id/reports", isAuthenticated, async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review || !isPublishedReview(review)) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      const user = req.user!;
+      if (review.customer_id === user.id) {
+        return res.status(400).json({ message: "You can't report your own review" });
+      }
+
+      const validationResult = reviewReportInputSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const existing = await storage.listReviewReports({ reviewId: review.id, reporterId: user.id });
+      if (existing.length > 0) {
+        return res.status(409).json({ message: "You have already reported this review" });
+      }
+
+      const report = await storage.createReviewReport({
+        ...validationResult.data,
+        review_id: review.id,
+        reporter_id: user.id
+      });
+      res.status(201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The product's seller posts one public reply per review; posting again
+  // replaces it
+  app.put("/api/reviews/:id/reply", hasRole(["seller"]), async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review || !isPublishedReview(review)) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (!(await canReplyToReview(req.user!, review))) {
+        return res.status(403).json({ message: "You can only reply to reviews of your own products" });
+      }
+
+      const validationResult = sellerReplySchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const updatedReview = await storage.updateReview(review.id, {
+        seller_reply: validationResult.data.reply,
+        seller_reply_at: new Date()
+      });
+      res.json(updatedReview);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/reviews/:id/reply", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const review = await storage.getReview(parseInt(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      if (req.user!.role !== "admin" && !(await canReplyToReview(req.user!, review))) {
+        return res.status(403).json({ message: "You can only remove replies on your own products' reviews" });
+      }
+
+      await storage.updateReview(review.id, { seller_reply: null, seller_reply_at: null });
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Moderation queue: reviews with open reports, the most reported first
+  app.get("/api/admin/review-reports", hasRole(["admin"]), async (req, res, next) => {
+    try {
+      const reports = await storage.listReviewReports({ status: "open" });
+      const reviewIds = Array.from(new Set(reports.map(report => report.review_id)));
+      const reviews = (await Promise.all(reviewIds.map(id => storage.getReview(id))))
+        .filter((review): review is Review => !!review);
+
+      const products = await storage.getProductsByIds(reviews.map(review => review.product_id));
+      const users = await storage.getUsersByIds(reviews.map(review => review.customer_id));
+      const images = await storage.getReviewImages(reviewIds);
+      const queue: ReportedReview[] = reviews.map(review => {
+        const product = products.get(review.product_id);
+        return {
+          ...review,
+          images: images.get(review.id)!,
+          product: product ? { id: product.id, name: product.name } : null,
+          customer: getReviewAuthor(users.get(review.customer_id)),
+          reports: reports.filter(report => report.review_id === review.id)
+        };
+      });
+      queue.sort((a, b) =>
+        b.reports.length - a.reports.length ||
+        a.reports[0].created_at.getTime() - b.reports[0].created_at.getTime()
       );
-      
-      res.json(reviewsWithUser);
+
+      res.json(queue);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Resolves a review's open reports, keeping the review up or hiding it.
+  // Hidden reviews leave the product page and its rating.
+  app.post("/api/admin/reviews/:id/moderate", hasRole(["admin"]), async (req, res, next) => {
+    try {
+      const validationResult = reviewModerationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const { action } = validationResult.data;
+      const review = await storage.moderateReview(parseInt(req.params.id), getModeratedReviewStatus(action), {
+        resolution: getReportResolution(action),
+        resolved_by: req.user!.id
+      });
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      res.json(review);
     } catch (error) {
       next(error);
     }
@@ -945,7 +2912,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Review not found" });
       }
       
+      const images = await storage.getReviewImages([reviewId]);
       await storage.deleteReview(reviewId);
+      await deleteImageFiles(images.get(reviewId)!);
       res.status(204).send();
     } catch (error) {
       next(error);
@@ -955,12 +2924,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // USER MANAGEMENT (ADMIN)
   app.get("/api/users", hasRole("admin"), async (req, res, next) => {
     try {
-      const users = await storage.listUsers();
+      const validationResult = userListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const query = validationResult.data;
+      if (!isValidCursor(query)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.listUsersPage(query);
       
-      // Don't send passwords
-      const usersWithoutPasswords = users.map(({ password, ...user }) => user);
+      // Don't send passwords or two-factor secrets
+      const usersWithoutPasswords = page.items.map(toPublicUser);
       
-      res.json(usersWithoutPasswords);
+      res.json({ ...page, items: usersWithoutPasswords });
     } catch (error) {
       next(error);
     }
@@ -993,71 +2975,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You can only view your own seller profile" });
       }
       
-      // If user is a seller and no userId is provided, default to their own profile
-      if (user.role === "seller" && !userId) {
-        const seller = await storage.getSellerByUserId(user.id);
+      // A single profile comes back as a one-item page, same shape as the list.
+      // Sellers default to their own; admins can look up any userId.
+      if (userId || user.role === "seller") {
+        const seller = await storage.getSellerByUserId(userId ? parseInt(userId as string) : user.id);
         if (!seller) {
           return res.status(404).json({ message: "Seller profile not found" });
         }
         
-        return res.json([{
+        const sellerUser = await storage.getUser(seller.user_id);
+        return res.json({
+          items: [{
+            ...seller,
+            user: sellerUser ? {
+              id: sellerUser.id,
+              username: sellerUser.username,
+              name: sellerUser.name,
+              email: sellerUser.email,
+              role: sellerUser.role
+            } : null
+          }],
+          next_cursor: null,
+          total: 1
+        });
+      }
+      
+      // Only admins can list all sellers
+      if (user.role !== "admin") {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const validationResult = sellerListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const query = validationResult.data;
+      if (!isValidCursor(query)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.listSellersPage(query);
+      
+      // Get user details for all the sellers at once
+      const users = await storage.getUsersByIds(page.items.map(seller => seller.user_id));
+      const items = page.items.map(seller => {
+        const user = users.get(seller.user_id);
+        return {
           ...seller,
-          user: {
+          user: user ? {
             id: user.id,
             username: user.username,
             name: user.name,
             email: user.email,
             role: user.role
-          }
-        }]);
+          } : null
+        };
+      });
+      
+      res.json({ ...page, items });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // SELLER ONBOARDING
+  // Sellers see their own applications, newest first; admins see everyone's
+  // with the applicant's details, optionally filtered by ?status=
+  app.get("/api/seller-applications", hasRole(["seller", "admin"]), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      
+      if (user.role === "seller") {
+        return res.json(await storage.listSellerApplications({ userId: user.id }));
       }
       
-      // For specific userId (admin can view any, seller only their own)
-      if (userId) {
-        const seller = await storage.getSellerByUserId(parseInt(userId as string));
-        if (!seller) {
-          return res.status(404).json({ message: "Seller profile not found" });
-        }
-        
-        const sellerUser = await storage.getUser(seller.user_id);
-        return res.json([{
-          ...seller,
-          user: sellerUser ? {
-            id: sellerUser.id,
-            username: sellerUser.username,
-            name: sellerUser.name,
-            email: sellerUser.email,
-            role: sellerUser.role
+      const status = typeof req.query.status === "string" && req.query.status ? req.query.status : undefined;
+      const applications = await storage.listSellerApplications({ status });
+      
+      const users = await storage.getUsersByIds(applications.map(application => application.user_id));
+      res.json(applications.map(application => {
+        const applicant = users.get(application.user_id);
+        return {
+          ...application,
+          user: applicant ? {
+            id: applicant.id,
+            username: applicant.username,
+            name: applicant.name,
+            email: applicant.email
           } : null
-        }]);
+        };
+      }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/seller-applications", hasRole("seller"), async (req, res, next) => {
+    try {
+      const user = req.user!;
+      
+      const seller = await storage.getSellerByUserId(user.id);
+      if (seller?.verified) {
+        return res.status(409).json({ message: "Your shop is already verified" });
       }
       
-      // Admin can list all sellers
-      if (user.role === "admin") {
-        const sellers = await storage.listSellers();
-        
-        // Get user details for each seller
-        const sellersWithDetails = await Promise.all(
-          sellers.map(async (seller) => {
-            const user = await storage.getUser(seller.user_id);
-            return {
-              ...seller,
-              user: user ? {
-                id: user.id,
-                username: user.username,
-                name: user.name,
-                email: user.email,
-                role: user.role
-              } : null
-            };
-          })
-        );
-        
-        res.json(sellersWithDetails);
-      } else {
-        // Non-admin users can't list all sellers
-        return res.status(403).json({ message: "Unauthorized" });
+      const applications = await storage.listSellerApplications({ userId: user.id });
+      if (!canSubmitSellerApplication(applications)) {
+        return res.status(409).json({ message: "Your application is still being reviewed" });
+      }
+      
+      const validationResult = insertSellerApplicationSchema.safeParse({
+        ...req.body,
+        application_id: `APP-${randomBytes(4).toString("hex")}`,
+        user_id: user.id
+      });
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: validationResult.error.errors
+        });
+      }
+      
+      const application = await storage.createSellerApplication(validationResult.data);
+      res.status(201).json(application);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Approving verifies the seller, so their products can go live
+  app.post("/api/seller-applications/:id/approve", hasRole("admin"), async (req, res, next) => {
+    try {
+      const application = await storage.getSellerApplication(parseInt(req.params.id));
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      if (!canTransitionSellerApplication(application.status, "approved")) {
+        return res.status(400).json({ message: `This application was already ${application.status}` });
+      }
+      
+      const updatedApplication = await storage.approveSellerApplication(application.id, {
+        review_note: typeof req.body.note === "string" && req.body.note.trim() ? req.body.note.trim() : null,
+        reviewed_by: req.user!.id,
+        reviewed_at: new Date()
+      }, `SELLER-${randomBytes(4).toString("hex")}`);
+      
+      if (!updatedApplication) {
+        return res.status(409).json({ message: "The application was changed by someone else; reload and try again" });
+      }
+      
+      res.json(updatedApplication);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/seller-applications/:id/reject", hasRole("admin"), async (req, res, next) => {
+    try {
+      const application = await storage.getSellerApplication(parseInt(req.params.id));
+      if (!application) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      
+      if (!canTransitionSellerApplication(application.status, "rejected")) {
+        return res.status(400).json({ message: `This application was already ${application.status}` });
+      }
+      
+      const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+      if (!note) {
+        return res.status(400).json({ message: "Tell the applicant why the application was rejected" });
+      }
+      
+      const updatedApplication = await storage.updateSellerApplicationStatus(application.id, application.status, "rejected", {
+        review_note: note,
+        reviewed_by: req.user!.id,
+        reviewed_at: new Date()
+      });
+      
+      if (!updatedApplication) {
+        return res.status(409).json({ message: "The application was changed by someone else; reload and try again" });
       }
+      
+      res.json(updatedApplication);
     } catch (error) {
       next(error);
     }
@@ -1,13 +1,195 @@
 import { randomUUID } from "crypto";
 import session from "express-session";
 import {
-  User, InsertUser, Seller, InsertSeller, Product, InsertProduct,
+  User, InsertUser, Seller, InsertSeller, Product, NewProduct,
+  ProductStatusHistory, InsertProductStatusHistory, ProductVariant, InsertProductVariant, VariantOption,
+  ProductImage, InsertProductImage,
   Category, InsertCategory, ProductCategory, InsertProductCategory,
+  CategoryAttribute, InsertCategoryAttribute, ProductAttributeValue, InsertProductAttributeValue,
   Cart, InsertCart, CartItem, InsertCartItem, 
   Order, InsertOrder, OrderItem, InsertOrderItem,
   Payment, InsertPayment, Shipment, InsertShipment,
-  Review, InsertReview
+  Review, InsertReview, ReviewImage, InsertReviewImage, ReviewVote, ReviewReport, InsertReviewReport, Coupon, InsertCoupon,
+  CouponRedemption, InsertCouponRedemption, Address, InsertAddress, ShippingAddress,
+  OrderStatusHistory, InsertOrderStatusHistory, ReturnRequest, InsertReturnRequest,
+  SellerApplication, InsertSellerApplication, Wishlist, InsertWishlist, WishlistItem, InsertWishlistItem
 } from "@shared/schema";
+import {
+  calculateQuote, evaluateCoupon, ShippingMethod, CouponLine, QuoteAdjustments
+} from "@shared/pricing";
+import { matchesSearchTerms, ProductSearchDocument } from "@shared/search";
+import { formatVariantLabel, getVariantDisplayName, getVariantPrice, hasVariants } from "@shared/variants";
+import { getCategorySubtreeIds, getCategoryLineageIds, CategoryPlacement } from "@shared/categories";
+import { matchesAttributeFilter } from "@shared/attributes";
+import { EMPTY_RATING_HISTOGRAM, summarizeReviewRatings } from "@shared/ratings";
+import { isPublishedReview, ReviewStatus } from "@shared/reviews";
+import { unpurchasedOrderStatuses } from "@shared/order-status";
+import {
+  Page, ProductListQuery, OrderListQuery, UserListQuery, SellerListQuery
+} from "@shared/pagination";
+import { paginateRows } from "./pagination";
+
+// Details needed to turn a cart into an order in one atomic step
+export interface PlaceOrderInput {
+  order_id: string;
+  customer_id: number;
+  shipping_method: ShippingMethod;
+  shipping_address: ShippingAddress;
+  payment: Omit<InsertPayment, "order_id" | "amount">;
+  // Template for the order's shipments; placeOrder creates one per seller
+  shipment: Omit<InsertShipment, "order_id" | "seller_id">;
+}
+
+// Who made a status change, recorded in order_status_history
+export type OrderStatusChange = Pick<InsertOrderStatusHistory, "changed_by" | "actor_role" | "note">;
+
+// Who changed a product's status and why, recorded in product_status_history
+export type ProductStatusChange = Pick<InsertProductStatusHistory, "changed_by" | "actor_role" | "note">;
+
+export interface PlacedOrder {
+  order: Order;
+  items: OrderItem[];
+  payment: Payment;
+  shipments: Shipment[];
+}
+
+// Thrown by placeOrder when the cart can't be fulfilled; nothing is written
+export class OrderPlacementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderPlacementError";
+  }
+}
+
+// Re-checks the cart's coupon at order time; throws if it no longer applies
+export function getCouponAdjustments(
+  coupon: Coupon | undefined,
+  lines: CouponLine[],
+  usesByCustomer: number
+): QuoteAdjustments {
+  if (!coupon) return {};
+
+  const evaluation = evaluateCoupon(coupon, lines, usesByCustomer);
+  if (!evaluation.valid) {
+    throw new OrderPlacementError(evaluation.reason);
+  }
+  return { discount: evaluation.discount, free_shipping: evaluation.free_shipping };
+}
+
+// Only active products can be bought; a product can be deactivated or removed
+// while it sits in someone's cart
+export function checkCartItemAvailable(product: Product) {
+  if (product.status !== "active") {
+    throw new OrderPlacementError(`${product.name} is no longer available; remove it from your cart to continue`);
+  }
+}
+
+// A product with variants is bought as one of them. Throws if the cart item
+// doesn't name one, e.g. because variants were added after it went in the cart.
+export function checkCartItemVariant(product: Product, item: CartItem, variant: ProductVariant | undefined) {
+  if (hasVariants(product) && !variant) {
+    throw new OrderPlacementError(`${product.name} now comes in several options; remove it from your cart and add the one you want`);
+  }
+  if (variant && variant.product_id !== product.id) {
+    throw new OrderPlacementError(`That option of ${product.name} is no longer available`);
+  }
+}
+
+// Maps a shipping address onto the order's snapshot columns
+export function getOrderAddressFields(address: ShippingAddress) {
+  return {
+    shipping_full_name: address.full_name,
+    shipping_email: address.email,
+    shipping_phone: address.phone,
+    shipping_address: address.address,
+    shipping_city: address.city,
+    shipping_state: address.state,
+    shipping_zip_code: address.zip_code
+  };
+}
+
+// One shipment (fulfillment group) per seller in the order. Each gets the
+// input's shipment_id with a numbered suffix, e.g. SHIP-1a2b3c4d-1.
+export function getFulfillmentShipments(
+  shipment: PlaceOrderInput["shipment"],
+  orderId: number,
+  sellerIds: number[]
+): InsertShipment[] {
+  const uniqueSellerIds = Array.from(new Set(sellerIds)).sort((a, b) => a - b);
+  return uniqueSellerIds.map((sellerId, index) => ({
+    ...shipment,
+    shipment_id: `${shipment.shipment_id}-${index + 1}`,
+    order_id: orderId,
+    seller_id: sellerId
+  }));
+}
+
+// LIKE pattern for a search term, with LIKE's own wildcards escaped
+export function getLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// Joins products with their category links. Ratings come from the product's
+// review aggregates.
+export function buildProductSearchDocuments(
+  products: Product[],
+  categoryLinks: { product_id: number; category_id: number }[]
+): ProductSearchDocument[] {
+  return products.map(product => ({
+    product,
+    category_ids: categoryLinks.filter(link => link.product_id === product.id).map(link => link.category_id),
+    rating: product.rating,
+    review_count: product.review_count
+  }));
+}
+
+// Review counts by rating, grouped by the product or seller id they were
+// counted for, for recalculateRatings
+export function groupRatingCounts(
+  rows: { id: number; rating: number; count: number | string }[]
+): Map<number, { rating: number; count: number | string }[]> {
+  const groups = new Map<number, { rating: number; count: number | string }[]>();
+  rows.forEach(row => groups.set(row.id, [...(groups.get(row.id) ?? []), row]));
+  return groups;
+}
+
+// An order's items with their products, its payment and its shipments,
+// loaded for many orders at once by getOrderDetails
+export interface OrderDetails {
+  items: (OrderItem & { product?: Product })[];
+  payment?: Payment;
+  shipments: Shipment[];
+}
+
+// Sorts rows loaded for many orders back into each order's details. Every
+// requested order gets an entry, even one without items.
+export function buildOrderDetails(
+  orderIds: number[],
+  items: (OrderItem & { product?: Product })[],
+  payments: Payment[],
+  shipments: Shipment[]
+): Map<number, OrderDetails> {
+  const details = new Map<number, OrderDetails>(
+    orderIds.map(id => [id, { items: [], payment: undefined, shipments: [] }])
+  );
+  items.forEach(item => details.get(item.order_id)?.items.push(item));
+  payments.forEach(payment => {
+    const entry = details.get(payment.order_id);
+    if (entry && !entry.payment) entry.payment = payment;
+  });
+  shipments.forEach(shipment => details.get(shipment.order_id)?.shipments.push(shipment));
+  return details;
+}
+
+// Same for category links loaded for many products
+export function groupProductCategories(
+  productIds: number[],
+  links: { product_id: number; category: Category }[]
+): Map<number, Category[]> {
+  const categories = new Map<number, Category[]>(productIds.map(id => [id, []]));
+  links.forEach(link => categories.get(link.product_id)?.push(link.category));
+  return categories;
+}
 
 // Define the storage interface
 export interface IStorage {
@@ -22,6 +204,16 @@ export interface IStorage {
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   listUsers(): Promise<User[]>;
+  listUsersPage(query: UserListQuery): Promise<Page<User>>;
+  // Many users in one query, keyed by id; ids that don't exist are left out
+  getUsersByIds(ids: number[]): Promise<Map<number, User>>;
+
+  // Address book operations
+  getAddress(id: number): Promise<Address | undefined>;
+  listUserAddresses(userId: number): Promise<Address[]>;
+  createAddress(address: InsertAddress): Promise<Address>;
+  updateAddress(id: number, address: Partial<Address>): Promise<Address | undefined>;
+  deleteAddress(id: number): Promise<boolean>;
 
   // Seller operations
   getSeller(id: number): Promise<Seller | undefined>;
@@ -30,15 +222,58 @@ export interface IStorage {
   updateSeller(id: number, seller: Partial<Seller>): Promise<Seller | undefined>;
   deleteSeller(id: number): Promise<boolean>;
   listSellers(): Promise<Seller[]>;
+  listSellersPage(query: SellerListQuery): Promise<Page<Seller>>;
+
+  // Seller application operations
+  getSellerApplication(id: number): Promise<SellerApplication | undefined>;
+  createSellerApplication(application: InsertSellerApplication): Promise<SellerApplication>;
+  listSellerApplications(filter?: { userId?: number; status?: string }): Promise<SellerApplication[]>;
+  // Moves the application from one status to another, but only if it's still
+  // in fromStatus, so two admins can't both review the same application
+  updateSellerApplicationStatus(id: number, fromStatus: string, toStatus: string, data?: Partial<SellerApplication>): Promise<SellerApplication | undefined>;
+  // Approves a pending application and verifies the applicant's seller
+  // profile under the shop name they applied with, creating the profile as
+  // newSellerId if they don't have one. Returns undefined if it wasn't pending.
+  approveSellerApplication(id: number, data: Partial<SellerApplication>, newSellerId: string): Promise<SellerApplication | undefined>;
 
   // Product operations
   getProduct(id: number): Promise<Product | undefined>;
   getProductByProductId(productId: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
+  // Many products in one query, keyed by id; ids that don't exist are left out
+  getProductsByIds(ids: number[]): Promise<Map<number, Product>>;
+  createProduct(product: NewProduct): Promise<Product>;
   updateProduct(id: number, product: Partial<Product>): Promise<Product | undefined>;
   deleteProduct(id: number): Promise<boolean>;
+  // Moves the product from one status to another and records the change, but
+  // only if it's still in fromStatus, so two moderators can't both decide on it
+  updateProductStatus(id: number, fromStatus: string, toStatus: string, change: ProductStatusChange): Promise<Product | undefined>;
+  addProductStatusHistory(entry: InsertProductStatusHistory): Promise<ProductStatusHistory>;
+  // Newest first; sellerId limits it to that seller's products
+  listProductStatusHistory(filter?: { productId?: number; sellerId?: number }): Promise<ProductStatusHistory[]>;
+  // A product's variants in the order they were added
+  getProductVariants(productId: number): Promise<ProductVariant[]>;
+  getProductVariant(id: number): Promise<ProductVariant | undefined>;
+  // Replaces the product's option axes and variants in one step and sets its
+  // stock to the variants' total. Variants are matched to existing ones by
+  // SKU, so carts holding a variant that's kept still point at it.
+  replaceProductVariants(productId: number, options: VariantOption[], variants: InsertProductVariant[]): Promise<ProductVariant[]>;
+  // A product's images, cover first. Adding, reordering or deleting images
+  // copies the new cover's URL into the product's image_url.
+  getProductImages(productId: number): Promise<ProductImage[]>;
+  getProductImage(id: number): Promise<ProductImage | undefined>;
+  // Added after the product's current images
+  addProductImage(image: InsertProductImage): Promise<ProductImage>;
+  updateProductImage(id: number, image: Partial<Pick<ProductImage, "alt_text">>): Promise<ProductImage | undefined>;
+  // imageIds lists every image of the product in its new order
+  reorderProductImages(productId: number, imageIds: number[]): Promise<ProductImage[]>;
+  deleteProductImage(id: number): Promise<boolean>;
   listProducts(filter?: { sellerId?: number, categoryId?: number, status?: string }): Promise<Product[]>;
+  // filter.category_id also matches the products of its subcategories
+  listProductsPage(query: ProductListQuery): Promise<Page<Product>>;
   searchProducts(query: string): Promise<Product[]>;
+  // Active products whose name or description contains every term, with what
+  // GET /api/search filters and facets on
+  getProductSearchDocuments(terms: string[]): Promise<ProductSearchDocument[]>;
 
   // Category operations
   getCategory(id: number): Promise<Category | undefined>;
@@ -46,18 +281,41 @@ export interface IStorage {
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, category: Partial<Category>): Promise<Category | undefined>;
   deleteCategory(id: number): Promise<boolean>;
+  // Every category, each after its earlier siblings
   listCategories(): Promise<Category[]>;
+  // Sets the parent and position of each category in one step, for a move
+  // in the category tree (see planCategoryMove)
+  updateCategoryPlacements(placements: CategoryPlacement[]): Promise<void>;
 
   // Product-Category operations
   assignProductToCategory(productCategory: InsertProductCategory): Promise<ProductCategory>;
   removeProductFromCategory(productId: number, categoryId: number): Promise<boolean>;
   getProductCategories(productId: number): Promise<Category[]>;
+  // Each product's categories in one query, keyed by product id
+  getCategoriesForProducts(productIds: number[]): Promise<Map<number, Category[]>>;
   getCategoryProducts(categoryId: number): Promise<Product[]>;
 
+  // Category attribute operations
+  // Every attribute, or those of these categories, in position order
+  listCategoryAttributes(categoryIds?: number[]): Promise<CategoryAttribute[]>;
+  getCategoryAttribute(id: number): Promise<CategoryAttribute | undefined>;
+  createCategoryAttribute(attribute: InsertCategoryAttribute): Promise<CategoryAttribute>;
+  updateCategoryAttribute(id: number, attribute: Partial<CategoryAttribute>): Promise<CategoryAttribute | undefined>;
+  // Also deletes the products' values for it
+  deleteCategoryAttribute(id: number): Promise<boolean>;
+  // How many products have one of these enum options as their value
+  countProductsWithAttributeOptions(attributeId: number, options: string[]): Promise<number>;
+
+  // Product attribute value operations
+  getProductAttributeValues(productId: number): Promise<ProductAttributeValue[]>;
+  // Replaces all of the product's attribute values with these
+  replaceProductAttributeValues(productId: number, values: InsertProductAttributeValue[]): Promise<ProductAttributeValue[]>;
+
   // Cart operations
   getCart(id: number): Promise<Cart | undefined>;
   getCartByUserId(userId: number): Promise<Cart | undefined>;
   createCart(cart: InsertCart): Promise<Cart>;
+  updateCart(id: number, cart: Partial<Cart>): Promise<Cart | undefined>;
   deleteCart(id: number): Promise<boolean>;
 
   // Cart Item operations
@@ -67,6 +325,28 @@ export interface IStorage {
   removeCartItem(id: number): Promise<boolean>;
   getCartItems(cartId: number): Promise<CartItem[]>;
 
+  // Wishlist operations
+  getWishlist(id: number): Promise<Wishlist | undefined>;
+  getWishlistByUserId(userId: number): Promise<Wishlist | undefined>;
+  getWishlistByShareToken(shareToken: string): Promise<Wishlist | undefined>;
+  createWishlist(wishlist: InsertWishlist): Promise<Wishlist>;
+  updateWishlist(id: number, wishlist: Partial<Wishlist>): Promise<Wishlist | undefined>;
+
+  // Wishlist Item operations
+  getWishlistItems(wishlistId: number): Promise<WishlistItem[]>;
+  // Adding a product that's already on the wishlist returns the existing item
+  addWishlistItem(wishlistItem: InsertWishlistItem): Promise<WishlistItem>;
+  removeWishlistItem(wishlistId: number, productId: number): Promise<boolean>;
+
+  // Coupon operations
+  getCoupon(id: number): Promise<Coupon | undefined>;
+  getCouponByCode(code: string): Promise<Coupon | undefined>;
+  createCoupon(coupon: InsertCoupon): Promise<Coupon>;
+  updateCoupon(id: number, coupon: Partial<Coupon>): Promise<Coupon | undefined>;
+  deleteCoupon(id: number): Promise<boolean>;
+  listCoupons(): Promise<Coupon[]>;
+  countCouponRedemptions(couponId: number, userId: number): Promise<number>;
+
   // Order operations
   getOrder(id: number): Promise<Order | undefined>;
   getOrderByOrderId(orderId: string): Promise<Order | undefined>;
@@ -75,6 +355,24 @@ export interface IStorage {
   deleteOrder(id: number): Promise<boolean>;
   listOrders(userId?: number): Promise<Order[]>;
   getSellerOrders(sellerId: number): Promise<Order[]>;
+  listOrdersPage(query: OrderListQuery): Promise<Page<Order>>;
+  // Items, payments and shipments for many orders in a fixed number of
+  // queries, keyed by order id
+  getOrderDetails(orderIds: number[]): Promise<Map<number, OrderDetails>>;
+  // Creates the order, its items, payment and shipment, decrements stock,
+  // redeems the cart's coupon and clears the cart atomically. Throws
+  // OrderPlacementError if stock runs out or the coupon no longer applies.
+  placeOrder(cartId: number, input: PlaceOrderInput): Promise<PlacedOrder>;
+  // Moves the order from one status to another and records it in the order's
+  // history, but only if the order is still in fromStatus
+  updateOrderStatus(id: number, fromStatus: string, toStatus: string, change: OrderStatusChange): Promise<Order | undefined>;
+  // Cancels the order and its shipments that haven't left the seller, puts its
+  // items back in stock and releases its coupon redemption, but only if it's
+  // still in one of fromStatuses. Returns
+  // undefined when the status didn't match, so the same order can never be
+  // restocked twice.
+  cancelOrder(id: number, fromStatuses: string[], change: OrderStatusChange): Promise<Order | undefined>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusHistory[]>;
 
   // Order Item operations
   getOrderItem(id: number): Promise<OrderItem | undefined>;
@@ -87,12 +385,24 @@ export interface IStorage {
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: number, payment: Partial<Payment>): Promise<Payment | undefined>;
   getOrderPayment(orderId: number): Promise<Payment | undefined>;
+  getPaymentByProviderReference(reference: string): Promise<Payment | undefined>;
+
+  // Return request operations
+  getReturnRequest(id: number): Promise<ReturnRequest | undefined>;
+  createReturnRequest(returnRequest: InsertReturnRequest): Promise<ReturnRequest>;
+  listReturnRequests(filter?: { orderId?: number; customerId?: number; sellerId?: number }): Promise<ReturnRequest[]>;
+  // Moves the return from one status to another, but only if it's still in
+  // fromStatus, so two reviewers can't both act on the same request
+  updateReturnRequestStatus(id: number, fromStatus: string, toStatus: string, data?: Partial<ReturnRequest>): Promise<ReturnRequest | undefined>;
+  // Marks an approved return as received and, if restock is set, puts the
+  // returned quantity back in stock. Returns undefined if it wasn't approved.
+  receiveReturnRequest(id: number, restock: boolean): Promise<ReturnRequest | undefined>;
 
   // Shipment operations
   getShipment(id: number): Promise<Shipment | undefined>;
   createShipment(shipment: InsertShipment): Promise<Shipment>;
   updateShipment(id: number, shipment: Partial<Shipment>): Promise<Shipment | undefined>;
-  getOrderShipment(orderId: number): Promise<Shipment | undefined>;
+  getOrderShipments(orderId: number): Promise<Shipment[]>;
 
   // Review operations
   getReview(id: number): Promise<Review | undefined>;
@@ -101,6 +411,35 @@ export interface IStorage {
   deleteReview(id: number): Promise<boolean>;
   getProductReviews(productId: number): Promise<Review[]>;
   getUserReviews(userId: number): Promise<Review[]>;
+  // Recomputes every product's and seller's rating aggregates from the
+  // published reviews; the review operations above keep them up to date
+  // after that
+  recalculateRatings(): Promise<{ products: number; sellers: number }>;
+  // Which of these customers have a paid order with the product that wasn't cancelled
+  getVerifiedPurchasers(productId: number, customerIds: number[]): Promise<Set<number>>;
+
+  // Review photos by review, in upload order
+  getReviewImages(reviewIds: number[]): Promise<Map<number, ReviewImage[]>>;
+  getReviewImage(id: number): Promise<ReviewImage | undefined>;
+  // Added after the review's current photos
+  addReviewImage(image: InsertReviewImage): Promise<ReviewImage>;
+  deleteReviewImage(id: number): Promise<boolean>;
+
+  // Review votes; adding or removing one keeps the review's helpful_count in
+  // step. Both return false when there was nothing to change.
+  getVotedReviewIds(userId: number, reviewIds: number[]): Promise<Set<number>>;
+  addReviewVote(reviewId: number, userId: number): Promise<boolean>;
+  removeReviewVote(reviewId: number, userId: number): Promise<boolean>;
+
+  // Review reports
+  createReviewReport(report: InsertReviewReport): Promise<ReviewReport>;
+  listReviewReports(filter?: { reviewId?: number; reporterId?: number; status?: string }): Promise<ReviewReport[]>;
+  // Sets the review's status and resolves its open reports in one step
+  moderateReview(
+    reviewId: number,
+    status: ReviewStatus,
+    resolution: { resolution: string; resolved_by: number }
+  ): Promise<Review | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -116,6 +455,24 @@ export class MemStorage implements IStorage {
   private payments: Map<number, Payment>;
   private shipments: Map<number, Shipment>;
   private reviews: Map<number, Review>;
+  private coupons: Map<number, Coupon>;
+  private couponRedemptions: Map<number, CouponRedemption>;
+  private addresses: Map<number, Address>;
+  private orderStatusHistory: Map<number, OrderStatusHistory>;
+  private returnRequests: Map<number, ReturnRequest>;
+  private wishlists: Map<number, Wishlist>;
+  private wishlistItems: Map<number, WishlistItem>;
+  private sellerApplications: Map<number, SellerApplication>;
+  private productStatusHistory: Map<number, ProductStatusHistory>;
+  private productVariants: Map<number, ProductVariant>;
+  private productImages: Map<number, ProductImage>;
+  private categoryAttributes: Map<number, CategoryAttribute>;
+  private productAttributeValues: Map<number, ProductAttributeValue>;
+  private reviewVotes: Map<number, ReviewVote>;
+  private reviewReports: Map<number, ReviewReport>;
+  private reviewImages: Map<number, ReviewImage>;
+  // Serializes order placement so concurrent checkouts can't oversell
+  private orderLock: Promise<unknown> = Promise.resolve();
   
   sessionStore: any; // Using any as a workaround for session.SessionStore typing issues
   userIdCounter: number;
@@ -130,6 +487,22 @@ export class MemStorage implements IStorage {
   paymentIdCounter: number;
   shipmentIdCounter: number;
   reviewIdCounter: number;
+  couponIdCounter: number;
+  couponRedemptionIdCounter: number;
+  addressIdCounter: number;
+  orderStatusHistoryIdCounter: number;
+  returnRequestIdCounter: number;
+  wishlistIdCounter: number;
+  wishlistItemIdCounter: number;
+  sellerApplicationIdCounter: number;
+  productStatusHistoryIdCounter: number;
+  productVariantIdCounter: number;
+  productImageIdCounter: number;
+  categoryAttributeIdCounter: number;
+  productAttributeValueIdCounter: number;
+  reviewVoteIdCounter: number;
+  reviewReportIdCounter: number;
+  reviewImageIdCounter: number;
 
   constructor() {
     this.users = new Map();
@@ -144,6 +517,22 @@ export class MemStorage implements IStorage {
     this.payments = new Map();
     this.shipments = new Map();
     this.reviews = new Map();
+    this.coupons = new Map();
+    this.couponRedemptions = new Map();
+    this.addresses = new Map();
+    this.orderStatusHistory = new Map();
+    this.returnRequests = new Map();
+    this.wishlists = new Map();
+    this.wishlistItems = new Map();
+    this.sellerApplications = new Map();
+    this.productStatusHistory = new Map();
+    this.productVariants = new Map();
+    this.productImages = new Map();
+    this.categoryAttributes = new Map();
+    this.productAttributeValues = new Map();
+    this.reviewVotes = new Map();
+    this.reviewReports = new Map();
+    this.reviewImages = new Map();
     
     this.userIdCounter = 1;
     this.sellerIdCounter = 1;
@@ -157,6 +546,22 @@ export class MemStorage implements IStorage {
     this.paymentIdCounter = 1;
     this.shipmentIdCounter = 1;
     this.reviewIdCounter = 1;
+    this.couponIdCounter = 1;
+    this.couponRedemptionIdCounter = 1;
+    this.addressIdCounter = 1;
+    this.orderStatusHistoryIdCounter = 1;
+    this.returnRequestIdCounter = 1;
+    this.wishlistIdCounter = 1;
+    this.wishlistItemIdCounter = 1;
+    this.sellerApplicationIdCounter = 1;
+    this.productStatusHistoryIdCounter = 1;
+    this.productVariantIdCounter = 1;
+    this.productImageIdCounter = 1;
+    this.categoryAttributeIdCounter = 1;
+    this.productAttributeValueIdCounter = 1;
+    this.reviewVoteIdCounter = 1;
+    this.reviewReportIdCounter = 1;
+    this.reviewImageIdCounter = 1;
 
     // Create a minimal dummy session store initially
     this.sessionStore = {
@@ -184,13 +589,13 @@ export class MemStorage implements IStorage {
   private async initializeData() {
     // Create some initial categories
     const categories = [
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Electronics" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Clothing" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Home & Kitchen" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Books" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Beauty" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Sports" },
-      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Toys" }
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Electronics", slug: "electronics", position: 0 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Clothing", slug: "clothing", position: 1 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Home & Kitchen", slug: "home-and-kitchen", position: 2 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Books", slug: "books", position: 3 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Beauty", slug: "beauty", position: 4 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Sports", slug: "sports", position: 5 },
+      { category_id: `CAT-${randomUUID().slice(0, 8)}`, category_name: "Toys", slug: "toys", position: 6 }
     ];
 
     for (const category of categories) {
@@ -222,7 +627,12 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       registration_date: now, 
-      last_updated: now 
+      last_updated: now,
+      email_verified_at: null,
+      totp_secret: null,
+      totp_enabled_at: null,
+      totp_recovery_codes: [],
+      totp_last_used_step: null
     };
     this.users.set(id, user);
     return user;
@@ -249,6 +659,63 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values());
   }
 
+  async listUsersPage(query: UserListQuery): Promise<Page<User>> {
+    const { role, q } = query.filter;
+    const search = q?.toLowerCase();
+    const users = Array.from(this.users.values()).filter(user =>
+      (role === undefined || user.role === role) &&
+      (search === undefined || [user.name, user.username, user.email].some(
+        value => value.toLowerCase().includes(search)
+      ))
+    );
+    return paginateRows(users, query);
+  }
+
+  async getUsersByIds(ids: number[]): Promise<Map<number, User>> {
+    const users = new Map<number, User>();
+    for (const id of ids) {
+      const user = this.users.get(id);
+      if (user) users.set(id, user);
+    }
+    return users;
+  }
+
+  // ADDRESS BOOK OPERATIONS
+  async getAddress(id: number): Promise<Address | undefined> {
+    return this.addresses.get(id);
+  }
+
+  async listUserAddresses(userId: number): Promise<Address[]> {
+    return Array.from(this.addresses.values()).filter(
+      (address) => address.user_id === userId
+    );
+  }
+
+  async createAddress(insertAddress: InsertAddress): Promise<Address> {
+    const id = this.addressIdCounter++;
+    const address: Address = {
+      is_default: false,
+      ...insertAddress,
+      id,
+      created_at: new Date()
+    };
+    this.addresses.set(id, address);
+    return address;
+  }
+
+  async updateAddress(id: number, addressData: Partial<Address>): Promise<Address | undefined> {
+    const address = this.addresses.get(id);
+    if (!address) return undefined;
+
+    const updatedAddress = { ...address, ...addressData };
+    this.addresses.set(id, updatedAddress);
+    return updatedAddress;
+  }
+
+  async deleteAddress(id: number): Promise<boolean> {
+    return this.addresses.delete(id);
+  }
+
   // SELLER OPERATIONS
   async getSeller(id: number): Promise<Seller | undefined> {
     return this.sellers.get(id);
@@ -262,7 +729,13 @@ export class MemStorage implements IStorage {
 
   async createSeller(insertSeller: InsertSeller): Promise<Seller> {
     const id = this.sellerIdCounter++;
-    const seller: Seller = { ...insertSeller, id };
+    const seller: Seller = {
+      ...insertSeller,
+      id,
+      rating: null,
+      review_count: 0,
+      rating_histogram: [...EMPTY_RATING_HISTOGRAM]
+    };
     this.sellers.set(id, seller);
     return seller;
   }
@@ -284,6 +757,72 @@ export class MemStorage implements IStorage {
     return Array.from(this.sellers.values());
   }
 
+  async listSellersPage(query: SellerListQuery): Promise<Page<Seller>> {
+    const search = query.filter.q?.toLowerCase();
+    const sellers = Array.from(this.sellers.values()).filter(seller =>
+      search === undefined || seller.shop_name.toLowerCase().includes(search)
+    );
+    return paginateRows(sellers, query);
+  }
+
+  // SELLER APPLICATION OPERATIONS
+  async getSellerApplication(id: number): Promise<SellerApplication | undefined> {
+    return this.sellerApplications.get(id);
+  }
+
+  async createSellerApplication(insertApplication: InsertSellerApplication): Promise<SellerApplication> {
+    const id = this.sellerApplicationIdCounter++;
+    const application: SellerApplication = {
+      ...insertApplication,
+      id,
+      description: insertApplication.description ?? null,
+      status: "pending",
+      review_note: null,
+      reviewed_by: null,
+      submitted_at: new Date(),
+      reviewed_at: null
+    };
+    this.sellerApplications.set(id, application);
+    return application;
+  }
+
+  async listSellerApplications(filter: { userId?: number; status?: string } = {}): Promise<SellerApplication[]> {
+    return Array.from(this.sellerApplications.values())
+      .filter(application =>
+        (filter.userId === undefined || application.user_id === filter.userId) &&
+        (filter.status === undefined || application.status === filter.status)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateSellerApplicationStatus(id: number, fromStatus: string, toStatus: string, data: Partial<SellerApplication> = {}): Promise<SellerApplication | undefined> {
+    const application = this.sellerApplications.get(id);
+    if (!application || application.status !== fromStatus) return undefined;
+
+    const updatedApplication = { ...application, ...data, status: toStatus };
+    this.sellerApplications.set(id, updatedApplication);
+    return updatedApplication;
+  }
+
+  async approveSellerApplication(id: number, data: Partial<SellerApplication>, newSellerId: string): Promise<SellerApplication | undefined> {
+    const approved = await this.updateSellerApplicationStatus(id, "pending", "approved", data);
+    if (!approved) return undefined;
+
+    const seller = await this.getSellerByUserId(approved.user_id);
+    if (seller) {
+      await this.updateSeller(seller.id, { shop_name: approved.shop_name, verified: true });
+    } else {
+      await this.createSeller({
+        user_id: approved.user_id,
+        seller_id: newSellerId,
+        shop_name: approved.shop_name,
+        joined_date: new Date(),
+        verified: true
+      });
+    }
+    return approved;
+  }
+
   // PRODUCT OPERATIONS
   async getProduct(id: number): Promise<Product | undefined> {
     return this.products.get(id);
@@ -295,14 +834,27 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+  async getProductsByIds(ids: number[]): Promise<Map<number, Product>> {
+    const products = new Map<number, Product>();
+    for (const id of ids) {
+      const product = this.products.get(id);
+      if (product) products.set(id, product);
+    }
+    return products;
+  }
+
+  async createProduct(insertProduct: NewProduct): Promise<Product> {
     const id = this.productIdCounter++;
     const now = new Date();
     const product: Product = { 
       ...insertProduct, 
       id, 
       added_date: now, 
-      last_updated: now 
+      last_updated: now,
+      variant_options: [],
+      rating: null,
+      review_count: 0,
+      rating_histogram: [...EMPTY_RATING_HISTOGRAM]
     };
     this.products.set(id, product);
     return product;
@@ -325,6 +877,150 @@ export class MemStorage implements IStorage {
     return this.products.delete(id);
   }
 
+  async updateProductStatus(id: number, fromStatus: string, toStatus: string, change: ProductStatusChange): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    if (!product || product.status !== fromStatus) return undefined;
+
+    await this.addProductStatusHistory({ ...change, product_id: id, from_status: fromStatus, to_status: toStatus });
+    return await this.updateProduct(id, { status: toStatus });
+  }
+
+  async addProductStatusHistory(entry: InsertProductStatusHistory): Promise<ProductStatusHistory> {
+    const id = this.productStatusHistoryIdCounter++;
+    const historyEntry: ProductStatusHistory = {
+      id,
+      product_id: entry.product_id,
+      from_status: entry.from_status ?? null,
+      to_status: entry.to_status,
+      changed_by: entry.changed_by ?? null,
+      actor_role: entry.actor_role,
+      note: entry.note ?? null,
+      changed_at: new Date()
+    };
+    this.productStatusHistory.set(id, historyEntry);
+    return historyEntry;
+  }
+
+  async listProductStatusHistory(filter: { productId?: number; sellerId?: number } = {}): Promise<ProductStatusHistory[]> {
+    return Array.from(this.productStatusHistory.values())
+      .filter(entry =>
+        (filter.productId === undefined || entry.product_id === filter.productId) &&
+        (filter.sellerId === undefined || this.products.get(entry.product_id)?.seller_id === filter.sellerId)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getProductVariants(productId: number): Promise<ProductVariant[]> {
+    return Array.from(this.productVariants.values())
+      .filter(variant => variant.product_id === productId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getProductVariant(id: number): Promise<ProductVariant | undefined> {
+    return this.productVariants.get(id);
+  }
+
+  async replaceProductVariants(productId: number, options: VariantOption[], variants: InsertProductVariant[]): Promise<ProductVariant[]> {
+    const current = await this.getProductVariants(productId);
+    const saved: ProductVariant[] = [];
+    for (const variant of variants) {
+      const existing = current.find(v => v.sku === variant.sku);
+      const id = existing?.id ?? this.productVariantIdCounter++;
+      const row: ProductVariant = {
+        id,
+        product_id: productId,
+        sku: variant.sku,
+        options: variant.options,
+        price: variant.price ?? null,
+        stock: variant.stock ?? 0,
+        image_url: variant.image_url ?? null
+      };
+      this.productVariants.set(id, row);
+      saved.push(row);
+    }
+
+    // Dropped variants leave carts; past orders keep their label
+    for (const variant of current) {
+      if (saved.some(v => v.id === variant.id)) continue;
+      this.productVariants.delete(variant.id);
+      Array.from(this.cartItems.values())
+        .filter(item => item.variant_id === variant.id)
+        .forEach(item => this.cartItems.delete(item.id));
+      Array.from(this.orderItems.values())
+        .filter(item => item.variant_id === variant.id)
+        .forEach(item => this.orderItems.set(item.id, { ...item, variant_id: null }));
+    }
+
+    const product = this.products.get(productId);
+    await this.updateProduct(productId, {
+      variant_options: options,
+      stock: saved.length > 0 ? saved.reduce((sum, v) => sum + v.stock, 0) : product?.stock
+    });
+    return saved.sort((a, b) => a.id - b.id);
+  }
+
+  async getProductImages(productId: number): Promise<ProductImage[]> {
+    return Array.from(this.productImages.values())
+      .filter(image => image.product_id === productId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getProductImage(id: number): Promise<ProductImage | undefined> {
+    return this.productImages.get(id);
+  }
+
+  async addProductImage(image: InsertProductImage): Promise<ProductImage> {
+    const current = await this.getProductImages(image.product_id);
+    const id = this.productImageIdCounter++;
+    const row: ProductImage = {
+      id,
+      product_id: image.product_id,
+      url: image.url,
+      thumbnails: image.thumbnails,
+      storage_key: image.storage_key,
+      alt_text: image.alt_text ?? null,
+      position: current.length > 0 ? current[current.length - 1].position + 1 : 0,
+      created_at: new Date()
+    };
+    this.productImages.set(id, row);
+    await this.syncProductCover(image.product_id);
+    return row;
+  }
+
+  async updateProductImage(id: number, imageData: Partial<Pick<ProductImage, "alt_text">>): Promise<ProductImage | undefined> {
+    const image = this.productImages.get(id);
+    if (!image) return undefined;
+
+    const updatedImage = { ...image, ...imageData };
+    this.productImages.set(id, updatedImage);
+    return updatedImage;
+  }
+
+  async reorderProductImages(productId: number, imageIds: number[]): Promise<ProductImage[]> {
+    imageIds.forEach((id, position) => {
+      const image = this.productImages.get(id);
+      if (image?.product_id === productId) {
+        this.productImages.set(id, { ...image, position });
+      }
+    });
+    await this.syncProductCover(productId);
+    return await this.getProductImages(productId);
+  }
+
+  async deleteProductImage(id: number): Promise<boolean> {
+    const image = this.productImages.get(id);
+    if (!image) return false;
+
+    this.productImages.delete(id);
+    await this.syncProductCover(image.product_id);
+    return true;
+  }
+
+  private async syncProductCover(productId: number) {
+    const [cover] = await this.getProductImages(productId);
+    await this.updateProduct(productId, { image_url: cover?.url ?? null });
+  }
+
   async listProducts(filter?: { sellerId?: number, categoryId?: number, status?: string }): Promise<Product[]> {
     let products = Array.from(this.products.values());
     
@@ -350,6 +1046,30 @@ export class MemStorage implements IStorage {
     return products;
   }
 
+  async listProductsPage(query: ProductListQuery): Promise<Page<Product>> {
+    const { filter } = query;
+    const categoryIds = filter.category_id !== undefined
+      ? getCategorySubtreeIds(await this.listCategories(), filter.category_id)
+      : undefined;
+    const categoryProductIds = categoryIds && Array.from(this.productCategories.values())
+      .filter(pc => categoryIds.includes(pc.category_id))
+      .map(pc => pc.product_id);
+    const attributeValues = Array.from(this.productAttributeValues.values());
+    const products = (await this.listProducts({
+      sellerId: filter.seller_id,
+      status: filter.status
+    })).filter(product =>
+      (categoryProductIds === undefined || categoryProductIds.includes(product.id)) &&
+      (filter.attributes ?? []).every(attributeFilter => matchesAttributeFilter(
+        attributeFilter,
+        attributeValues.find(value => value.product_id === product.id && value.attribute_id === attributeFilter.attribute_id)
+      )) &&
+      (filter.min_price === undefined || product.price >= filter.min_price) &&
+      (filter.max_price === undefined || product.price <= filter.max_price)
+    );
+    return paginateRows(products, query);
+  }
+
   async searchProducts(query: string): Promise<Product[]> {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.products.values()).filter(
@@ -359,6 +1079,18 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getProductSearchDocuments(terms: string[]): Promise<ProductSearchDocument[]> {
+    const products = Array.from(this.products.values()).filter(
+      product => product.status === "active" && matchesSearchTerms(product, terms)
+    );
+    const productIds = products.map(product => product.id);
+
+    const categoryLinks = Array.from(this.productCategories.values())
+      .filter(link => productIds.includes(link.product_id));
+
+    return buildProductSearchDocuments(products, categoryLinks);
+  }
+
   // CATEGORY OPERATIONS
   async getCategory(id: number): Promise<Category | undefined> {
     return this.categories.get(id);
@@ -372,7 +1104,12 @@ export class MemStorage implements IStorage {
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
     const id = this.categoryIdCounter++;
-    const category: Category = { ...insertCategory, id };
+    const category: Category = {
+      ...insertCategory,
+      id,
+      parent_id: insertCategory.parent_id ?? null,
+      position: insertCategory.position ?? 0
+    };
     this.categories.set(id, category);
     return category;
   }
@@ -391,7 +1128,14 @@ export class MemStorage implements IStorage {
   }
 
   async listCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
+    return Array.from(this.categories.values())
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async updateCategoryPlacements(placements: CategoryPlacement[]): Promise<void> {
+    for (const placement of placements) {
+      await this.updateCategory(placement.id, { parent_id: placement.parent_id, position: placement.position });
+    }
   }
 
   // PRODUCT-CATEGORY OPERATIONS
@@ -428,6 +1172,13 @@ export class MemStorage implements IStorage {
       .filter(category => categoryIds.includes(category.id));
   }
 
+  async getCategoriesForProducts(productIds: number[]): Promise<Map<number, Category[]>> {
+    const links = Array.from(this.productCategories.values())
+      .filter(pc => productIds.includes(pc.product_id) && this.categories.has(pc.category_id))
+      .map(pc => ({ product_id: pc.product_id, category: this.categories.get(pc.category_id)! }));
+    return groupProductCategories(productIds, links);
+  }
+
   async getCategoryProducts(categoryId: number): Promise<Product[]> {
     const productIds = Array.from(this.productCategories.values())
       .filter(pc => pc.category_id === categoryId)
@@ -437,6 +1188,76 @@ export class MemStorage implements IStorage {
       .filter(product => productIds.includes(product.id));
   }
 
+  // CATEGORY ATTRIBUTE OPERATIONS
+  async listCategoryAttributes(categoryIds?: number[]): Promise<CategoryAttribute[]> {
+    return Array.from(this.categoryAttributes.values())
+      .filter(attribute => categoryIds === undefined || categoryIds.includes(attribute.category_id))
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getCategoryAttribute(id: number): Promise<CategoryAttribute | undefined> {
+    return this.categoryAttributes.get(id);
+  }
+
+  async createCategoryAttribute(insertAttribute: InsertCategoryAttribute): Promise<CategoryAttribute> {
+    const id = this.categoryAttributeIdCounter++;
+    const attribute: CategoryAttribute = {
+      ...insertAttribute,
+      id,
+      unit: insertAttribute.unit ?? null,
+      position: insertAttribute.position ?? 0
+    };
+    this.categoryAttributes.set(id, attribute);
+    return attribute;
+  }
+
+  async updateCategoryAttribute(id: number, attributeData: Partial<CategoryAttribute>): Promise<CategoryAttribute | undefined> {
+    const attribute = this.categoryAttributes.get(id);
+    if (!attribute) return undefined;
+
+    const updatedAttribute = { ...attribute, ...attributeData };
+    this.categoryAttributes.set(id, updatedAttribute);
+    return updatedAttribute;
+  }
+
+  async deleteCategoryAttribute(id: number): Promise<boolean> {
+    Array.from(this.productAttributeValues.values())
+      .filter(value => value.attribute_id === id)
+      .forEach(value => this.productAttributeValues.delete(value.id));
+    return this.categoryAttributes.delete(id);
+  }
+
+  async countProductsWithAttributeOptions(attributeId: number, options: string[]): Promise<number> {
+    return Array.from(this.productAttributeValues.values()).filter(value =>
+      value.attribute_id === attributeId && value.text_value !== null && options.includes(value.text_value)
+    ).length;
+  }
+
+  // PRODUCT ATTRIBUTE VALUE OPERATIONS
+  async getProductAttributeValues(productId: number): Promise<ProductAttributeValue[]> {
+    return Array.from(this.productAttributeValues.values())
+      .filter(value => value.product_id === productId);
+  }
+
+  async replaceProductAttributeValues(productId: number, values: InsertProductAttributeValue[]): Promise<ProductAttributeValue[]> {
+    (await this.getProductAttributeValues(productId))
+      .forEach(value => this.productAttributeValues.delete(value.id));
+
+    return values.map(insertValue => {
+      const id = this.productAttributeValueIdCounter++;
+      const value: ProductAttributeValue = {
+        ...insertValue,
+        id,
+        product_id: productId,
+        text_value: insertValue.text_value ?? null,
+        number_value: insertValue.number_value ?? null,
+        boolean_value: insertValue.boolean_value ?? null
+      };
+      this.productAttributeValues.set(id, value);
+      return value;
+    });
+  }
+
   // CART OPERATIONS
   async getCart(id: number): Promise<Cart | undefined> {
     return this.carts.get(id);
@@ -453,16 +1274,78 @@ export class MemStorage implements IStorage {
     const cart: Cart = { 
       ...insertCart, 
       id, 
+      coupon_id: null,
       created_at: new Date() 
     };
     this.carts.set(id, cart);
     return cart;
   }
 
+  async updateCart(id: number, cartData: Partial<Cart>): Promise<Cart | undefined> {
+    const cart = this.carts.get(id);
+    if (!cart) return undefined;
+
+    const updatedCart = { ...cart, ...cartData };
+    this.carts.set(id, updatedCart);
+    return updatedCart;
+  }
+
   async deleteCart(id: number): Promise<boolean> {
     return this.carts.delete(id);
   }
 
+  // COUPON OPERATIONS
+  async getCoupon(id: number): Promise<Coupon | undefined> {
+    return this.coupons.get(id);
+  }
+
+  async getCouponByCode(code: string): Promise<Coupon | undefined> {
+    return Array.from(this.coupons.values()).find(
+      (coupon) => coupon.code === code.toUpperCase()
+    );
+  }
+
+  async createCoupon(insertCoupon: InsertCoupon): Promise<Coupon> {
+    const id = this.couponIdCounter++;
+    const coupon: Coupon = {
+      description: null,
+      min_spend: null,
+      category_id: null,
+      seller_id: null,
+      expires_at: null,
+      usage_limit_per_user: null,
+      active: true,
+      ...insertCoupon,
+      id,
+      created_at: new Date()
+    };
+    this.coupons.set(id, coupon);
+    return coupon;
+  }
+
+  async updateCoupon(id: number, couponData: Partial<Coupon>): Promise<Coupon | undefined> {
+    const coupon = this.coupons.get(id);
+    if (!coupon) return undefined;
+
+    const updatedCoupon = { ...coupon, ...couponData };
+    this.coupons.set(id, updatedCoupon);
+    return updatedCoupon;
+  }
+
+  async deleteCoupon(id: number): Promise<boolean> {
+    return this.coupons.delete(id);
+  }
+
+  async listCoupons(): Promise<Coupon[]> {
+    return Array.from(this.coupons.values());
+  }
+
+  async countCouponRedemptions(couponId: number, userId: number): Promise<number> {
+    return Array.from(this.couponRedemptions.values()).filter(
+      redemption => redemption.coupon_id === couponId && redemption.user_id === userId
+    ).length;
+  }
+
   // CART ITEM OPERATIONS
   async getCartItem(id: number): Promise<CartItem | undefined> {
     return this.cartItems.get(id);
@@ -471,7 +1354,9 @@ export class MemStorage implements IStorage {
   async addCartItem(insertCartItem: InsertCartItem): Promise<CartItem> {
     // Check if the item already exists in cart
     const existingItem = Array.from(this.cartItems.values()).find(
-      item => item.cart_id === insertCartItem.cart_id && item.product_id === insertCartItem.product_id
+      item => item.cart_id === insertCartItem.cart_id &&
+        item.product_id === insertCartItem.product_id &&
+        (item.variant_id ?? null) === (insertCartItem.variant_id ?? null)
     );
 
     if (existingItem) {
@@ -486,6 +1371,7 @@ export class MemStorage implements IStorage {
     const cartItem: CartItem = { 
       ...insertCartItem, 
       id, 
+      variant_id: insertCartItem.variant_id ?? null,
       added_date: new Date(),
       quantity: insertCartItem.quantity || 1 // Ensure quantity has a value
     };
@@ -512,6 +1398,74 @@ export class MemStorage implements IStorage {
     );
   }
 
+  // WISHLIST OPERATIONS
+  async getWishlist(id: number): Promise<Wishlist | undefined> {
+    return this.wishlists.get(id);
+  }
+
+  async getWishlistByUserId(userId: number): Promise<Wishlist | undefined> {
+    return Array.from(this.wishlists.values()).find(
+      (wishlist) => wishlist.user_id === userId
+    );
+  }
+
+  async getWishlistByShareToken(shareToken: string): Promise<Wishlist | undefined> {
+    return Array.from(this.wishlists.values()).find(
+      (wishlist) => wishlist.share_token === shareToken
+    );
+  }
+
+  async createWishlist(insertWishlist: InsertWishlist): Promise<Wishlist> {
+    const id = this.wishlistIdCounter++;
+    const wishlist: Wishlist = {
+      ...insertWishlist,
+      id,
+      share_token: null,
+      created_at: new Date()
+    };
+    this.wishlists.set(id, wishlist);
+    return wishlist;
+  }
+
+  async updateWishlist(id: number, wishlistData: Partial<Wishlist>): Promise<Wishlist | undefined> {
+    const wishlist = this.wishlists.get(id);
+    if (!wishlist) return undefined;
+
+    const updatedWishlist = { ...wishlist, ...wishlistData };
+    this.wishlists.set(id, updatedWishlist);
+    return updatedWishlist;
+  }
+
+  // WISHLIST ITEM OPERATIONS
+  async getWishlistItems(wishlistId: number): Promise<WishlistItem[]> {
+    return Array.from(this.wishlistItems.values())
+      .filter(item => item.wishlist_id === wishlistId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async addWishlistItem(insertWishlistItem: InsertWishlistItem): Promise<WishlistItem> {
+    const existingItem = Array.from(this.wishlistItems.values()).find(
+      item => item.wishlist_id === insertWishlistItem.wishlist_id && item.product_id === insertWishlistItem.product_id
+    );
+    if (existingItem) return existingItem;
+
+    const id = this.wishlistItemIdCounter++;
+    const wishlistItem: WishlistItem = {
+      ...insertWishlistItem,
+      id,
+      added_date: new Date()
+    };
+    this.wishlistItems.set(id, wishlistItem);
+    return wishlistItem;
+  }
+
+  async removeWishlistItem(wishlistId: number, productId: number): Promise<boolean> {
+    const item = Array.from(this.wishlistItems.values()).find(
+      item => item.wishlist_id === wishlistId && item.product_id === productId
+    );
+    return item ? this.wishlistItems.delete(item.id) : false;
+  }
+
   // ORDER OPERATIONS
   async getOrder(id: number): Promise<Order | undefined> {
     return this.orders.get(id);
@@ -574,6 +1528,210 @@ export class MemStorage implements IStorage {
       .filter(order => orderIds.includes(order.id));
   }
 
+  async listOrdersPage(query: OrderListQuery): Promise<Page<Order>> {
+    const { status, customer_id, seller_id } = query.filter;
+    let orders = seller_id !== undefined
+      ? await this.getSellerOrders(seller_id)
+      : Array.from(this.orders.values());
+
+    orders = orders.filter(order =>
+      (status === undefined || order.status === status) &&
+      (customer_id === undefined || order.customer_id === customer_id)
+    );
+    return paginateRows(orders, query);
+  }
+
+  async getOrderDetails(orderIds: number[]): Promise<Map<number, OrderDetails>> {
+    const items = Array.from(this.orderItems.values())
+      .filter(item => orderIds.includes(item.order_id))
+      .map(item => ({ ...item, product: this.products.get(item.product_id) }));
+    const payments = Array.from(this.payments.values())
+      .filter(payment => orderIds.includes(payment.order_id));
+    const shipments = Array.from(this.shipments.values())
+      .filter(shipment => orderIds.includes(shipment.order_id))
+      .sort((a, b) => a.id - b.id);
+    return buildOrderDetails(orderIds, items, payments, shipments);
+  }
+
+  async placeOrder(cartId: number, input: PlaceOrderInput): Promise<PlacedOrder> {
+    const run = this.orderLock.then(() => this.placeOrderUnlocked(cartId, input));
+    this.orderLock = run.catch(() => {});
+    return run;
+  }
+
+  async updateOrderStatus(id: number, fromStatus: string, toStatus: string, change: OrderStatusChange): Promise<Order | undefined> {
+    const run = this.orderLock.then(async () => {
+      const order = this.orders.get(id);
+      if (!order || order.status !== fromStatus) return undefined;
+
+      this.recordStatusChange(id, fromStatus, toStatus, change);
+      return await this.updateOrder(id, { status: toStatus });
+    });
+    this.orderLock = run.catch(() => {});
+    return run;
+  }
+
+  async cancelOrder(id: number, fromStatuses: string[], change: OrderStatusChange): Promise<Order | undefined> {
+    const run = this.orderLock.then(async () => {
+      const order = this.orders.get(id);
+      if (!order || !fromStatuses.includes(order.status)) return undefined;
+
+      for (const item of await this.getOrderItems(id)) {
+        await this.restock(item, item.quantity);
+      }
+      for (const [redemptionId, redemption] of Array.from(this.couponRedemptions)) {
+        if (redemption.order_id === id) {
+          this.couponRedemptions.delete(redemptionId);
+        }
+      }
+      for (const shipment of Array.from(this.shipments.values())) {
+        if (shipment.order_id === id && shipment.status === "processing") {
+          this.shipments.set(shipment.id, { ...shipment, status: "cancelled" });
+        }
+      }
+      this.recordStatusChange(id, order.status, "cancelled", change);
+      return await this.updateOrder(id, { status: "cancelled" });
+    });
+    this.orderLock = run.catch(() => {});
+    return run;
+  }
+
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusHistory[]> {
+    return Array.from(this.orderStatusHistory.values())
+      .filter(entry => entry.order_id === orderId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private recordStatusChange(orderId: number, fromStatus: string | null, toStatus: string, change: OrderStatusChange) {
+    const id = this.orderStatusHistoryIdCounter++;
+    this.orderStatusHistory.set(id, {
+      id,
+      order_id: orderId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      changed_by: change.changed_by ?? null,
+      actor_role: change.actor_role,
+      note: change.note ?? null,
+      changed_at: new Date()
+    });
+  }
+
+  // Puts an order item's quantity back on its product and variant
+  private async restock(item: OrderItem, quantity: number) {
+    const product = this.products.get(item.product_id);
+    if (product) {
+      await this.updateProduct(product.id, { stock: product.stock + quantity });
+    }
+    const variant = item.variant_id ? this.productVariants.get(item.variant_id) : undefined;
+    if (variant) {
+      this.productVariants.set(variant.id, { ...variant, stock: variant.stock + quantity });
+    }
+  }
+
+  private async placeOrderUnlocked(cartId: number, input: PlaceOrderInput): Promise<PlacedOrder> {
+    const cartItems = await this.getCartItems(cartId);
+    if (cartItems.length === 0) {
+      throw new OrderPlacementError("Cart is empty");
+    }
+
+    // Verify everything before writing anything so a failure leaves no trace
+    for (const item of cartItems) {
+      const product = this.products.get(item.product_id);
+      if (!product) {
+        throw new OrderPlacementError(`Product with ID ${item.product_id} not found`);
+      }
+      checkCartItemAvailable(product);
+      const variant = item.variant_id ? this.productVariants.get(item.variant_id) : undefined;
+      checkCartItemVariant(product, item, variant);
+      if (product.stock < item.quantity || (variant && variant.stock < item.quantity)) {
+        throw new OrderPlacementError(`Not enough stock for ${getVariantDisplayName(product, variant)}`);
+      }
+    }
+
+    const allCategories = Array.from(this.categories.values());
+    const lines: CouponLine[] = cartItems.map(item => {
+      const product = this.products.get(item.product_id)!;
+      const variant = item.variant_id ? this.productVariants.get(item.variant_id) : undefined;
+      return {
+        price: getVariantPrice(product, variant),
+        quantity: item.quantity,
+        seller_id: product.seller_id,
+        category_ids: getCategoryLineageIds(allCategories, Array.from(this.productCategories.values())
+          .filter(pc => pc.product_id === product.id)
+          .map(pc => pc.category_id))
+      };
+    });
+
+    const cart = this.carts.get(cartId);
+    const coupon = cart?.coupon_id ? this.coupons.get(cart.coupon_id) : undefined;
+    const usesByCustomer = coupon ? await this.countCouponRedemptions(coupon.id, input.customer_id) : 0;
+    const quote = calculateQuote(
+      lines,
+      input.shipping_method,
+      getCouponAdjustments(coupon, lines, usesByCustomer)
+    );
+
+    const order = await this.createOrder({
+      order_id: input.order_id,
+      customer_id: input.customer_id,
+      subtotal: quote.subtotal,
+      shipping_cost: quote.shipping,
+      tax: quote.tax,
+      discount: quote.discount,
+      total_price: quote.total,
+      shipping_method: quote.shipping_method,
+      ...getOrderAddressFields(input.shipping_address),
+      coupon_id: coupon?.id ?? null,
+      status: "pending_payment"
+    });
+
+    const items: OrderItem[] = [];
+    for (const item of cartItems) {
+      const product = this.products.get(item.product_id)!;
+      const variant = item.variant_id ? this.productVariants.get(item.variant_id) : undefined;
+      items.push(await this.addOrderItem({
+        order_id: order.id,
+        product_id: product.id,
+        variant_id: variant?.id ?? null,
+        variant_label: variant ? formatVariantLabel(variant.options, product.variant_options) : null,
+        quantity: item.quantity,
+        price: getVariantPrice(product, variant)
+      }));
+      await this.updateProduct(product.id, { stock: product.stock - item.quantity });
+      if (variant) {
+        this.productVariants.set(variant.id, { ...variant, stock: variant.stock - item.quantity });
+      }
+      this.cartItems.delete(item.id);
+    }
+
+    this.recordStatusChange(order.id, null, order.status, {
+      changed_by: input.customer_id,
+      actor_role: "customer",
+      note: "Order placed"
+    });
+
+    const payment = await this.createPayment({ ...input.payment, order_id: order.id, amount: quote.total });
+    const shipments: Shipment[] = [];
+    for (const shipment of getFulfillmentShipments(input.shipment, order.id, lines.map(line => line.seller_id))) {
+      shipments.push(await this.createShipment(shipment));
+    }
+
+    if (coupon) {
+      const redemptionId = this.couponRedemptionIdCounter++;
+      this.couponRedemptions.set(redemptionId, {
+        id: redemptionId,
+        coupon_id: coupon.id,
+        user_id: input.customer_id,
+        order_id: order.id,
+        discount: quote.discount,
+        redeemed_at: new Date()
+      });
+      await this.updateCart(cartId, { coupon_id: null });
+    }
+
+    return { order, items, payment, shipments };
+  }
+
   // ORDER ITEM OPERATIONS
   async getOrderItem(id: number): Promise<OrderItem | undefined> {
     return this.orderItems.get(id);
@@ -581,7 +1739,12 @@ export class MemStorage implements IStorage {
 
   async addOrderItem(insertOrderItem: InsertOrderItem): Promise<OrderItem> {
     const id = this.orderItemIdCounter++;
-    const orderItem: OrderItem = { ...insertOrderItem, id };
+    const orderItem: OrderItem = {
+      ...insertOrderItem,
+      id,
+      variant_id: insertOrderItem.variant_id ?? null,
+      variant_label: insertOrderItem.variant_label ?? null
+    };
     this.orderItems.set(id, orderItem);
     return orderItem;
   }
@@ -611,6 +1774,7 @@ export class MemStorage implements IStorage {
     const payment: Payment = { 
       ...insertPayment, 
       id, 
+      refunded_amount: insertPayment.refunded_amount ?? 0,
       payment_date: new Date() 
     };
     this.payments.set(id, payment);
@@ -632,6 +1796,65 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getPaymentByProviderReference(reference: string): Promise<Payment | undefined> {
+    return Array.from(this.payments.values()).find(
+      payment => payment.provider_reference === reference
+    );
+  }
+
+  // RETURN REQUEST OPERATIONS
+  async getReturnRequest(id: number): Promise<ReturnRequest | undefined> {
+    return this.returnRequests.get(id);
+  }
+
+  async createReturnRequest(insertReturnRequest: InsertReturnRequest): Promise<ReturnRequest> {
+    const id = this.returnRequestIdCounter++;
+    const returnRequest: ReturnRequest = {
+      ...insertReturnRequest,
+      id,
+      details: insertReturnRequest.details ?? null,
+      photos: insertReturnRequest.photos ?? [],
+      status: "requested",
+      restocked: false,
+      refund_amount: null,
+      resolution_note: null,
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    this.returnRequests.set(id, returnRequest);
+    return returnRequest;
+  }
+
+  async listReturnRequests(filter: { orderId?: number; customerId?: number; sellerId?: number } = {}): Promise<ReturnRequest[]> {
+    return Array.from(this.returnRequests.values())
+      .filter(request =>
+        (filter.orderId === undefined || request.order_id === filter.orderId) &&
+        (filter.customerId === undefined || request.customer_id === filter.customerId) &&
+        (filter.sellerId === undefined || request.seller_id === filter.sellerId)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateReturnRequestStatus(id: number, fromStatus: string, toStatus: string, data: Partial<ReturnRequest> = {}): Promise<ReturnRequest | undefined> {
+    const returnRequest = this.returnRequests.get(id);
+    if (!returnRequest || returnRequest.status !== fromStatus) return undefined;
+
+    const updatedReturnRequest = { ...returnRequest, ...data, status: toStatus, updated_at: new Date() };
+    this.returnRequests.set(id, updatedReturnRequest);
+    return updatedReturnRequest;
+  }
+
+  async receiveReturnRequest(id: number, restock: boolean): Promise<ReturnRequest | undefined> {
+    const received = await this.updateReturnRequestStatus(id, "approved", "received", { restocked: restock });
+    if (!received || !restock) return received;
+
+    const item = this.orderItems.get(received.order_item_id);
+    if (item) {
+      await this.restock(item, received.quantity);
+    }
+    return received;
+  }
+
   // SHIPMENT OPERATIONS
   async getShipment(id: number): Promise<Shipment | undefined> {
     return this.shipments.get(id);
@@ -657,10 +1880,10 @@ export class MemStorage implements IStorage {
     return updatedShipment;
   }
 
-  async getOrderShipment(orderId: number): Promise<Shipment | undefined> {
-    return Array.from(this.shipments.values()).find(
-      shipment => shipment.order_id === orderId
-    );
+  async getOrderShipments(orderId: number): Promise<Shipment[]> {
+    return Array.from(this.shipments.values())
+      .filter(shipment => shipment.order_id === orderId)
+      .sort((a, b) => a.id - b.id);
   }
 
   // REVIEW OPERATIONS
@@ -673,9 +1896,19 @@ export class MemStorage implements IStorage {
     const review: Review = { 
       ...insertReview, 
       id, 
-      review_date: new Date() 
+      title: insertReview.title ?? null,
+      review_text: insertReview.review_text ?? null,
+      pros: insertReview.pros ?? [],
+      cons: insertReview.cons ?? [],
+      review_date: new Date(),
+      status: "published",
+      helpful_count: 0,
+      edited_at: null,
+      seller_reply: null,
+      seller_reply_at: null
     };
     this.reviews.set(id, review);
+    this.refreshRatings(review.product_id);
     return review;
   }
 
@@ -685,11 +1918,28 @@ export class MemStorage implements IStorage {
 
     const updatedReview = { ...review, ...reviewData };
     this.reviews.set(id, updatedReview);
+    this.refreshRatings(review.product_id);
+    if (updatedReview.product_id !== review.product_id) {
+      this.refreshRatings(updatedReview.product_id);
+    }
     return updatedReview;
   }
 
   async deleteReview(id: number): Promise<boolean> {
-    return this.reviews.delete(id);
+    const review = this.reviews.get(id);
+    if (!review) return false;
+    this.reviews.delete(id);
+    Array.from(this.reviewVotes.values())
+      .filter(vote => vote.review_id === id)
+      .forEach(vote => this.reviewVotes.delete(vote.id));
+    Array.from(this.reviewReports.values())
+      .filter(report => report.review_id === id)
+      .forEach(report => this.reviewReports.delete(report.id));
+    Array.from(this.reviewImages.values())
+      .filter(image => image.review_id === id)
+      .forEach(image => this.reviewImages.delete(image.id));
+    this.refreshRatings(review.product_id);
+    return true;
   }
 
   async getProductReviews(productId: number): Promise<Review[]> {
@@ -703,6 +1953,179 @@ export class MemStorage implements IStorage {
       review => review.customer_id === userId
     );
   }
+
+  async recalculateRatings(): Promise<{ products: number; sellers: number }> {
+    const products = Array.from(this.products.values());
+    products.forEach(product => this.refreshProductRating(product.id));
+    const sellers = Array.from(this.sellers.values());
+    sellers.forEach(seller => this.refreshSellerRating(seller.id));
+    return { products: products.length, sellers: sellers.length };
+  }
+
+  async getVerifiedPurchasers(productId: number, customerIds: number[]): Promise<Set<number>> {
+    const orderIds = new Set(
+      Array.from(this.orderItems.values())
+        .filter(item => item.product_id === productId)
+        .map(item => item.order_id)
+    );
+    return new Set(
+      Array.from(this.orders.values())
+        .filter(order =>
+          orderIds.has(order.id) && !unpurchasedOrderStatuses.includes(order.status) &&
+          customerIds.includes(order.customer_id)
+        )
+        .map(order => order.customer_id)
+    );
+  }
+
+  // REVIEW IMAGE OPERATIONS
+  async getReviewImages(reviewIds: number[]): Promise<Map<number, ReviewImage[]>> {
+    const images = new Map<number, ReviewImage[]>(reviewIds.map(id => [id, []]));
+    Array.from(this.reviewImages.values())
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .forEach(image => images.get(image.review_id)?.push(image));
+    return images;
+  }
+
+  async getReviewImage(id: number): Promise<ReviewImage | undefined> {
+    return this.reviewImages.get(id);
+  }
+
+  async addReviewImage(image: InsertReviewImage): Promise<ReviewImage> {
+    const current = (await this.getReviewImages([image.review_id])).get(image.review_id)!;
+    const id = this.reviewImageIdCounter++;
+    const row: ReviewImage = {
+      id,
+      review_id: image.review_id,
+      url: image.url,
+      thumbnails: image.thumbnails,
+      storage_key: image.storage_key,
+      position: current.length > 0 ? current[current.length - 1].position + 1 : 0,
+      created_at: new Date()
+    };
+    this.reviewImages.set(id, row);
+    return row;
+  }
+
+  async deleteReviewImage(id: number): Promise<boolean> {
+    return this.reviewImages.delete(id);
+  }
+
+  // REVIEW VOTE OPERATIONS
+  async getVotedReviewIds(userId: number, reviewIds: number[]): Promise<Set<number>> {
+    return new Set(
+      Array.from(this.reviewVotes.values())
+        .filter(vote => vote.user_id === userId && reviewIds.includes(vote.review_id))
+        .map(vote => vote.review_id)
+    );
+  }
+
+  async addReviewVote(reviewId: number, userId: number): Promise<boolean> {
+    const review = this.reviews.get(reviewId);
+    const voted = Array.from(this.reviewVotes.values())
+      .some(vote => vote.review_id === reviewId && vote.user_id === userId);
+    if (!review || voted) return false;
+
+    const id = this.reviewVoteIdCounter++;
+    this.reviewVotes.set(id, { id, review_id: reviewId, user_id: userId, created_at: new Date() });
+    this.reviews.set(reviewId, { ...review, helpful_count: review.helpful_count + 1 });
+    return true;
+  }
+
+  async removeReviewVote(reviewId: number, userId: number): Promise<boolean> {
+    const vote = Array.from(this.reviewVotes.values())
+      .find(vote => vote.review_id === reviewId && vote.user_id === userId);
+    if (!vote) return false;
+
+    this.reviewVotes.delete(vote.id);
+    const review = this.reviews.get(reviewId);
+    if (review) {
+      this.reviews.set(reviewId, { ...review, helpful_count: Math.max(0, review.helpful_count - 1) });
+    }
+    return true;
+  }
+
+  // REVIEW REPORT OPERATIONS
+  async createReviewReport(insertReport: InsertReviewReport): Promise<ReviewReport> {
+    const id = this.reviewReportIdCounter++;
+    const report: ReviewReport = {
+      ...insertReport,
+      id,
+      details: insertReport.details ?? null,
+      status: "open",
+      resolution: null,
+      resolved_by: null,
+      created_at: new Date(),
+      resolved_at: null
+    };
+    this.reviewReports.set(id, report);
+    return report;
+  }
+
+  async listReviewReports(
+    filter: { reviewId?: number; reporterId?: number; status?: string } = {}
+  ): Promise<ReviewReport[]> {
+    return Array.from(this.reviewReports.values())
+      .filter(report =>
+        (filter.reviewId === undefined || report.review_id === filter.reviewId) &&
+        (filter.reporterId === undefined || report.reporter_id === filter.reporterId) &&
+        (filter.status === undefined || report.status === filter.status)
+      )
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime() || a.id - b.id);
+  }
+
+  async moderateReview(
+    reviewId: number,
+    status: ReviewStatus,
+    resolution: { resolution: string; resolved_by: number }
+  ): Promise<Review | undefined> {
+    const review = this.reviews.get(reviewId);
+    if (!review) return undefined;
+
+    const now = new Date();
+    Array.from(this.reviewReports.values())
+      .filter(report => report.review_id === reviewId && report.status === "open")
+      .forEach(report => this.reviewReports.set(report.id, {
+        ...report,
+        ...resolution,
+        status: "resolved",
+        resolved_at: now
+      }));
+    const updatedReview = { ...review, status };
+    this.reviews.set(reviewId, updatedReview);
+    this.refreshRatings(review.product_id);
+    return updatedReview;
+  }
+
+  // Recomputes the rating aggregates of a product and of its seller after
+  // one of the product's reviews changes
+  private refreshRatings(productId: number) {
+    const product = this.refreshProductRating(productId);
+    if (product) this.refreshSellerRating(product.seller_id);
+  }
+
+  private refreshProductRating(productId: number): Product | undefined {
+    const product = this.products.get(productId);
+    if (!product) return undefined;
+    const ratings = Array.from(this.reviews.values())
+      .filter(review => review.product_id === productId && isPublishedReview(review))
+      .map(review => review.rating);
+    const updatedProduct = { ...product, ...summarizeReviewRatings(ratings) };
+    this.products.set(productId, updatedProduct);
+    return updatedProduct;
+  }
+
+  private refreshSellerRating(sellerId: number) {
+    const seller = this.sellers.get(sellerId);
+    if (!seller) return;
+    const productIds = Array.from(this.products.values())
+      .filter(product => product.seller_id === sellerId)
+      .map(product => product.id);
+    const ratings = Array.from(this.reviews.values())
+      .filter(review => productIds.includes(review.product_id) && isPublishedReview(review))
+      .map(review => review.rating);
+    this.sellers.set(sellerId, { ...seller, ...summarizeReviewRatings(ratings) });
+  }
 }
 
 import { DbStorage } from "./db-storage";
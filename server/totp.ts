@@ -0,0 +1,123 @@
+/**
+ * TOTP
+ * Time-based one-time passwords (RFC 6238) for two-factor authentication:
+ * secrets, otpauth:// URIs for authenticator apps, code checks, and the
+ * single-use recovery codes handed out when 2FA is turned on. Codes are the
+ * authenticator app defaults: HMAC-SHA1, 6 digits, 30 second steps.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { TWO_FACTOR_CONFIG } from "./config";
+
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Steps either side of the current one that are still accepted, for clock drift
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function encodeBase32(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < data.length; i++) {
+    value = (value << 8) | data[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function decodeBase32(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Base32, the form authenticator apps take secrets in
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(SECRET_BYTES));
+}
+
+// What the enrollment QR code encodes
+export function getTotpUri(secret: string, accountName: string): string {
+  // encodeURIComponent rather than URLSearchParams: some apps show a "+" for a space
+  const issuer = encodeURIComponent(TWO_FACTOR_CONFIG.issuer);
+  const label = `${issuer}:${encodeURIComponent(accountName)}`;
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}` +
+    `&algorithm=SHA1&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+}
+
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+// RFC 4226 HOTP over the step counter
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 15;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0");
+}
+
+export function isTotpCodeFormat(code: string): boolean {
+  return new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code);
+}
+
+// Returns the step the code was generated for, or null if it doesn't match.
+// Steps up to lastUsedStep are refused so an observed code can't be replayed.
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null,
+  now: Date = new Date()
+): number | null {
+  if (!isTotpCodeFormat(code)) return null;
+
+  const current = getTotpStep(now);
+  const supplied = Buffer.from(code);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateTotpCode(secret, step)), supplied)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Recovery codes look like "3f9a1-c07e2"; dashes, spaces and case don't matter
+// when one is typed back in
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// The codes to show the user once, and the hashes to store
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
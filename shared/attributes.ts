@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { insertCategoryAttributeSchema } from "./schema";
+import type { Category, CategoryAttribute, ProductAttributeValue } from "./schema";
+import { getCategoryAncestors } from "./categories";
+
+// Category attributes shared by the server (checking values, filtering
+// product lists) and the client (the seller's product form, the category
+// page's filters, the admin's attribute editor).
+
+function checkAttributeOptions(
+  attribute: { type?: string; options?: string[]; unit?: string | null },
+  ctx: z.RefinementCtx,
+) {
+  if (attribute.type === "enum" && attribute.options?.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "List the attribute's options" });
+  }
+  if (attribute.type !== undefined && attribute.type !== "enum" && attribute.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Only enum attributes have options" });
+  }
+  if (attribute.type !== undefined && attribute.type !== "number" && attribute.unit) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["unit"], message: "Only number attributes have a unit" });
+  }
+  const options = attribute.options ?? [];
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Options must be different from each other" });
+  }
+}
+
+// Body of POST /api/categories/:id/attributes
+export const categoryAttributeInputSchema = insertCategoryAttributeSchema
+  .omit({ category_id: true, position: true })
+  .extend({ options: insertCategoryAttributeSchema.shape.options.default([]) })
+  .superRefine(checkAttributeOptions);
+
+// Body of PUT /api/attributes/:id. The type can't change once products have
+// values for it; delete the attribute and add it again instead.
+export const categoryAttributeUpdateSchema = insertCategoryAttributeSchema
+  .pick({ name: true, options: true, unit: true })
+  .partial()
+  .superRefine(checkAttributeOptions);
+
+export type AttributeValue = string | number | boolean;
+
+// Body of PUT /api/products/:id/attributes: a value per attribute id, null
+// to clear one. Attributes left out are cleared too.
+export const productAttributeValuesSchema = z.object({
+  values: z.record(
+    z.string().regex(/^\d+$/, "Attribute ids must be numbers"),
+    z.union([z.string().trim(), z.number(), z.boolean()]).nullable()
+  ),
+});
+
+// An attribute with the product's value for it, as GET /api/products/:id lists them
+export type ProductAttribute = CategoryAttribute & { value: AttributeValue };
+
+// The attributes of these categories and of their ancestors, the most
+// general first
+export function getApplicableAttributes(
+  categories: Category[],
+  attributes: CategoryAttribute[],
+  categoryIds: number[],
+): CategoryAttribute[] {
+  const depths = new Map<number, number>();
+  categoryIds.forEach(id => {
+    const category = categories.find(c => c.id === id);
+    if (!category) return;
+    const chain = [...getCategoryAncestors(categories, category), category];
+    chain.forEach((c, depth) => depths.set(c.id, depth));
+  });
+  return attributes
+    .filter(attribute => depths.has(attribute.category_id))
+    .sort((a, b) =>
+      depths.get(a.category_id)! - depths.get(b.category_id)! ||
+      a.category_id - b.category_id ||
+      a.position - b.position ||
+      a.id - b.id
+    );
+}
+
+// Why a value doesn't fit the attribute, if it doesn't
+export function getAttributeValueError(attribute: CategoryAttribute, value: AttributeValue): string | undefined {
+  switch (attribute.type) {
+    case "enum":
+      return typeof value === "string" && attribute.options.includes(value)
+        ? undefined
+        : `${attribute.name} must be one of ${attribute.options.join(", ")}`;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? undefined : `${attribute.name} must be a number`;
+    case "boolean":
+      return typeof value === "boolean" ? undefined : `${attribute.name} must be true or false`;
+    default:
+      return `${attribute.name} has an unknown type`;
+  }
+}
+
+// The value stored in the column for the attribute's type
+export function toAttributeColumns(attribute: CategoryAttribute, value: AttributeValue) {
+  return {
+    text_value: attribute.type === "enum" ? String(value) : null,
+    number_value: attribute.type === "number" ? Number(value) : null,
+    boolean_value: attribute.type === "boolean" ? Boolean(value) : null,
+  };
+}
+
+export function getAttributeValue(
+  attribute: CategoryAttribute,
+  row: Pick<ProductAttributeValue, "text_value" | "number_value" | "boolean_value">,
+): AttributeValue | null {
+  switch (attribute.type) {
+    case "enum":
+      return row.text_value;
+    case "number":
+      return row.number_value;
+    case "boolean":
+      return row.boolean_value;
+    default:
+      return null;
+  }
+}
+
+// "16 GB", "Yes"
+export function formatAttributeValue(attribute: Pick<CategoryAttribute, "type" | "unit">, value: AttributeValue): string {
+  if (attribute.type === "boolean") return value ? "Yes" : "No";
+  if (attribute.type === "number" && attribute.unit) return `${value} ${attribute.unit}`;
+  return String(value);
+}
+
+// Filters on GET /api/products arrive as filter[attr.<attribute id>]=value:
+//   enum     filter[attr.3]=Apple,Samsung (any of them)
+//   number   filter[attr.4]=8..16, 8.., ..16 or exactly 8 (inclusive)
+//   boolean  filter[attr.5]=true
+export const ATTRIBUTE_FILTER_PREFIX = "attr.";
+
+export type AttributeFilter =
+  | { attribute_id: number; type: "enum"; values: string[] }
+  | { attribute_id: number; type: "number"; min?: number; max?: number }
+  | { attribute_id: number; type: "boolean"; value: boolean };
+
+export function getAttributeFilterKey(attributeId: number): string {
+  return `${ATTRIBUTE_FILTER_PREFIX}${attributeId}`;
+}
+
+// Moves the filter[attr.<id>] values of a list query into filter.attributes,
+// keyed by attribute id, so the rest of the filter can stay strict
+export function gatherAttributeFilters(filter: unknown): unknown {
+  if (typeof filter !== "object" || filter === null) return filter;
+  const rest: Record<string, unknown> = {};
+  const attributes: Record<string, unknown> = {};
+  Object.entries(filter).forEach(([name, value]) => {
+    if (name.startsWith(ATTRIBUTE_FILTER_PREFIX)) {
+      attributes[name.slice(ATTRIBUTE_FILTER_PREFIX.length)] = value;
+    } else {
+      rest[name] = value;
+    }
+  });
+  return Object.keys(attributes).length > 0 ? { ...rest, attributes } : rest;
+}
+
+export const attributeFiltersSchema = z.record(
+  z.string().regex(/^\d+$/, "Attribute filters look like filter[attr.<attribute id>]"),
+  z.string().trim().min(1)
+);
+
+// The filter a query value asks for, or undefined if it doesn't make sense
+// for the attribute's type
+export function parseAttributeFilter(attribute: CategoryAttribute, value: string): AttributeFilter | undefined {
+  switch (attribute.type) {
+    case "enum": {
+      const values = value.split(",").map(v => v.trim()).filter(Boolean);
+      return values.length > 0 ? { attribute_id: attribute.id, type: "enum", values } : undefined;
+    }
+    case "number": {
+      const match = value.match(/^(-?[\d.]*)\.\.(-?[\d.]*)$/);
+      if (!match) {
+        const exact = Number(value);
+        return Number.isFinite(exact) ? { attribute_id: attribute.id, type: "number", min: exact, max: exact } : undefined;
+      }
+      const [min, max] = [match[1], match[2]].map(bound => bound === "" ? undefined : Number(bound));
+      if ((min === undefined && max === undefined) || [min, max].some(bound => bound !== undefined && !Number.isFinite(bound))) {
+        return undefined;
+      }
+      return { attribute_id: attribute.id, type: "number", min, max };
+    }
+    case "boolean":
+      return value === "true" || value === "false"
+        ? { attribute_id: attribute.id, type: "boolean", value: value === "true" }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// The query value for a filter; the reverse of parseAttributeFilter
+export function formatAttributeFilter(filter: AttributeFilter): string {
+  switch (filter.type) {
+    case "enum":
+      return filter.values.join(",");
+    case "number":
+      return `${filter.min ?? ""}..${filter.max ?? ""}`;
+    case "boolean":
+      return String(filter.value);
+  }
+}
+
+// Whether a product's value for the filter's attribute passes it; a product
+// without a value never does
+export function matchesAttributeFilter(
+  filter: AttributeFilter,
+  row: Pick<ProductAttributeValue, "text_value" | "number_value" | "boolean_value"> | undefined,
+): boolean {
+  if (!row) return false;
+  switch (filter.type) {
+    case "enum":
+      return row.text_value !== null && filter.values.includes(row.text_value);
+    case "number":
+      return row.number_value !== null &&
+        (filter.min === undefined || row.number_value >= filter.min) &&
+        (filter.max === undefined || row.number_value <= filter.max);
+    case "boolean":
+      return row.boolean_value === filter.value;
+  }
+}
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import type { Category } from "./schema";
+
+// The category tree shared by the server (slugs, moves, which products a
+// category lists) and the client (URLs, breadcrumbs, the admin tree editor).
+// A category's URL path is its ancestors' slugs followed by its own, e.g.
+// electronics/phones, so a slug only has to be unique among its siblings.
+export const categorySlugSchema = z.string().trim()
+  .min(1, "Slug is required")
+  .max(60, "Keep slugs under 60 characters")
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, numbers and single hyphens in slugs");
+
+// Body of POST /api/categories; the slug is made from the name when left out
+export const categoryInputSchema = z.object({
+  category_name: z.string().trim().min(1, "Category name is required").max(100, "Keep category names under 100 characters"),
+  slug: categorySlugSchema.optional(),
+  parent_id: z.coerce.number().int().positive().nullish(),
+});
+
+// Body of PUT /api/categories/:id; moves go through /move
+export const categoryUpdateSchema = categoryInputSchema.pick({ category_name: true, slug: true }).partial();
+
+// Body of PUT /api/categories/:id/move: the new parent (null for the top
+// level) and the index among that parent's children
+export const categoryMoveSchema = z.object({
+  parent_id: z.coerce.number().int().positive().nullable(),
+  position: z.coerce.number().int().nonnegative(),
+});
+
+export type CategoryWithPath = Category & { path: string };
+export type CategoryNode = CategoryWithPath & { children: CategoryNode[] };
+export type CategoryPlacement = Pick<Category, "id" | "parent_id" | "position">;
+
+// "Home & Kitchen" -> "home-and-kitchen"
+export function slugify(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents: "Café" -> "Cafe"
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 60)
+    .replace(/^-+|-+$/g, "");
+}
+
+function bySiblingOrder(a: Category, b: Category): number {
+  return a.position - b.position || a.id - b.id;
+}
+
+// A category's children, or the top-level categories for null, in order
+export function getChildCategories<T extends Category>(categories: T[], parentId: number | null): T[] {
+  return categories.filter(category => (category.parent_id ?? null) === parentId).sort(bySiblingOrder);
+}
+
+// The category's parent, grandparent and so on, top level first
+export function getCategoryAncestors<T extends Category>(categories: T[], category: Category): T[] {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const ancestors: T[] = [];
+  let parent = category.parent_id != null ? byId.get(category.parent_id) : undefined;
+  // The length check stops at a cycle instead of looping forever
+  while (parent && ancestors.length < categories.length) {
+    ancestors.unshift(parent);
+    parent = parent.parent_id != null ? byId.get(parent.parent_id) : undefined;
+  }
+  return ancestors;
+}
+
+export function getCategoryPath(categories: Category[], category: Category): string {
+  return [...getCategoryAncestors(categories, category), category].map(c => c.slug).join("/");
+}
+
+export function withCategoryPaths(categories: Category[]): CategoryWithPath[] {
+  return categories.map(category => ({ ...category, path: getCategoryPath(categories, category) }));
+}
+
+export function getCategoryUrl(category: Pick<CategoryWithPath, "path">): string {
+  return `/categories/${category.path}`;
+}
+
+// "Electronics › Phones"
+export function formatCategoryPath(categories: Category[], category: Category): string {
+  return [...getCategoryAncestors(categories, category), category].map(c => c.category_name).join(" › ");
+}
+
+// The category a URL path such as electronics/phones points at
+export function findCategoryByPath<T extends Category>(categories: T[], path: string): T | undefined {
+  let category: T | undefined;
+  for (const slug of path.split("/").filter(Boolean)) {
+    category = getChildCategories(categories, category?.id ?? null).find(c => c.slug === slug);
+    if (!category) return undefined;
+  }
+  return category;
+}
+
+// The categories and all of their ancestors. A product in them is listed
+// under every one of these, so a coupon scoped to any of them applies to it.
+export function getCategoryLineageIds(categories: Category[], ids: number[]): number[] {
+  const lineage = new Set<number>(ids);
+  for (const id of ids) {
+    const category = categories.find(c => c.id === id);
+    if (category) getCategoryAncestors(categories, category).forEach(ancestor => lineage.add(ancestor.id));
+  }
+  return Array.from(lineage);
+}
+
+// The category and all of its descendants; listing a category shows their
+// products too
+export function getCategorySubtreeIds(categories: Category[], id: number): number[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    categories.forEach(category => {
+      if (category.parent_id === ids[i] && !ids.includes(category.id)) ids.push(category.id);
+    });
+  }
+  return ids;
+}
+
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const withPaths = withCategoryPaths(categories);
+  const build = (parentId: number | null): CategoryNode[] =>
+    getChildCategories(withPaths, parentId).map(category => ({ ...category, children: build(category.id) }));
+  return build(null);
+}
+
+export function isCategorySlugTaken(categories: Category[], parentId: number | null, slug: string, exceptId?: number): boolean {
+  return getChildCategories(categories, parentId).some(category => category.slug === slug && category.id !== exceptId);
+}
+
+// A category can't be moved under itself or one of its descendants
+export function canMoveCategory(categories: Category[], id: number, parentId: number | null): boolean {
+  return parentId === null || !getCategorySubtreeIds(categories, id).includes(parentId);
+}
+
+// The positions after moving a category to an index among parentId's
+// children. Its new siblings are renumbered from 0, and so are its old ones
+// when it changes parent.
+export function planCategoryMove(categories: Category[], id: number, parentId: number | null, position: number): CategoryPlacement[] {
+  const category = categories.find(c => c.id === id);
+  if (!category) return [];
+
+  const siblings: Category[] = getChildCategories(categories, parentId).filter(c => c.id !== id);
+  siblings.splice(Math.min(position, siblings.length), 0, category);
+  const placements = siblings.map((c, index) => ({ id: c.id, parent_id: parentId, position: index }));
+
+  const oldParentId = category.parent_id ?? null;
+  if (oldParentId !== parentId) {
+    getChildCategories(categories, oldParentId)
+      .filter(c => c.id !== id)
+      .forEach((c, index) => placements.push({ id: c.id, parent_id: oldParentId, position: index }));
+  }
+  return placements;
+}
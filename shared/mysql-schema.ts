@@ -1,6 +1,8 @@
-import { mysqlTable, text, serial, int, boolean, timestamp, double, varchar, index, unique, primaryKey } from "drizzle-orm/mysql-core";
+import { mysqlTable, text, serial, int, boolean, timestamp, double, varchar, json, index, unique, primaryKey } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { RatingHistogram } from "./ratings";
+import { isWebUrl } from "./returns";
 
 // User and Authentication
 export const users = mysqlTable("users", {
@@ -14,12 +16,24 @@ export const users = mysqlTable("users", {
   registration_date: timestamp("registration_date").defaultNow().notNull(),
   role: varchar("role", { length: 20 }).notNull().default("customer"), // "customer", "seller", "admin"
   last_updated: timestamp("last_updated").defaultNow(),
+  email_verified_at: timestamp("email_verified_at"), // Null until the emailed link is followed
+  // Two-factor authentication. The secret is set when enrollment starts and
+  // the TOTP code only becomes required once totp_enabled_at is set.
+  totp_secret: varchar("totp_secret", { length: 64 }), // Base32
+  totp_enabled_at: timestamp("totp_enabled_at"),
+  totp_recovery_codes: json("totp_recovery_codes").$type<string[]>().notNull(), // SHA-256 hashes of the unused codes
+  totp_last_used_step: int("totp_last_used_step"), // Time step of the last accepted code, so codes can't be replayed
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   registration_date: true,
-  last_updated: true
+  last_updated: true,
+  email_verified_at: true,
+  totp_secret: true,
+  totp_enabled_at: true,
+  totp_recovery_codes: true,
+  totp_last_used_step: true
 });
 
 export const loginUserSchema = z.object({
@@ -27,6 +41,33 @@ export const loginUserSchema = z.object({
   password: z.string().min(6),
 });
 
+// Body of POST /api/login/2fa, and the code part of re-authenticating to
+// change two-factor settings: a code from the authenticator app or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+});
+
+// Body of POST /api/2fa/disable and POST /api/2fa/recovery-codes
+export const twoFactorReauthSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+// Body of POST /api/forgot-password and POST /api/verify-email/resend
+export const accountEmailSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+// Body of POST /api/verify-email, with the token from the emailed link
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Body of POST /api/reset-password
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
 // Seller specific information
 export const sellers = mysqlTable("sellers", {
   id: serial("id").primaryKey(),
@@ -34,7 +75,11 @@ export const sellers = mysqlTable("sellers", {
   seller_id: varchar("seller_id", { length: 50 }).notNull().unique(),
   shop_name: varchar("shop_name", { length: 100 }).notNull(),
   joined_date: timestamp("joined_date").defaultNow().notNull(),
-  rating: double("rating").default(5.0),
+  // Review aggregates over all the seller's products, kept up to date by the
+  // storage layer's review operations
+  rating: double("rating"), // Average review rating, null without reviews
+  review_count: int("review_count").notNull().default(0),
+  rating_histogram: json("rating_histogram").$type<RatingHistogram>().notNull(),
   verified: boolean("verified").default(false),
 }, (table) => {
   return {
@@ -47,13 +92,106 @@ export const insertSellerSchema = createInsertSchema(sellers, {
   user_id: z.number().int().positive(),
   shop_name: z.string().min(1),
   joined_date: z.date().optional(),
-  rating: z.number().optional(),
   verified: z.boolean().optional(),
 }).omit({
   id: true,
+  rating: true, // Derived from reviews
+  review_count: true,
+  rating_histogram: true,
+});
+
+// Seller onboarding: a seller applies with shop and business details, and an
+// admin approves (which verifies the seller) or rejects the application
+export const businessTypes = ["individual", "sole_proprietorship", "partnership", "corporation", "other"] as const;
+
+export const sellerApplications = mysqlTable("seller_applications", {
+  id: serial("id").primaryKey(),
+  application_id: varchar("application_id", { length: 50 }).notNull().unique(),
+  user_id: int("user_id").notNull(),
+  shop_name: varchar("shop_name", { length: 100 }).notNull(),
+  business_name: varchar("business_name", { length: 200 }).notNull(), // Legal name of the business or person
+  business_type: varchar("business_type", { length: 30 }).notNull(), // One of businessTypes
+  tax_id: varchar("tax_id", { length: 50 }).notNull(),
+  business_address: text("business_address").notNull(),
+  business_phone: varchar("business_phone", { length: 20 }).notNull(),
+  description: text("description"), // What the seller plans to sell
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // "pending", "approved", "rejected"
+  review_note: text("review_note"), // Admin note on approval or rejection
+  reviewed_by: int("reviewed_by"),
+  submitted_at: timestamp("submitted_at").defaultNow().notNull(),
+  reviewed_at: timestamp("reviewed_at"),
+}, (table) => {
+  return {
+    userIdx: index("seller_application_user_id_idx").on(table.user_id),
+    statusIdx: index("seller_application_status_idx").on(table.status),
+  };
+});
+
+export const insertSellerApplicationSchema = createInsertSchema(sellerApplications, {
+  shop_name: z.string().trim().min(2, "Shop name must be at least 2 characters").max(100),
+  business_name: z.string().trim().min(2, "Business name must be at least 2 characters").max(200),
+  business_type: z.enum(businessTypes),
+  tax_id: z.string().trim().min(4, "Enter a valid tax ID").max(50),
+  business_address: z.string().trim().min(10, "Enter the full business address").max(500),
+  business_phone: z.string().trim().min(7, "Enter a valid phone number").max(20),
+  description: z.string().trim().max(1000, "Keep the description under 1000 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  review_note: true,
+  reviewed_by: true,
+  submitted_at: true,
+  reviewed_at: true,
+});
+
+// Saved shipping addresses (customer address book)
+export const addresses = mysqlTable("addresses", {
+  id: serial("id").primaryKey(),
+  user_id: int("user_id").notNull(),
+  full_name: varchar("full_name", { length: 100 }).notNull(),
+  email: varchar("email", { length: 100 }).notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  address: varchar("address", { length: 255 }).notNull(),
+  city: varchar("city", { length: 100 }).notNull(),
+  state: varchar("state", { length: 100 }).notNull(),
+  zip_code: varchar("zip_code", { length: 20 }).notNull(),
+  is_default: boolean("is_default").notNull().default(false),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("address_user_id_idx").on(table.user_id),
+  };
+});
+
+export const insertAddressSchema = createInsertSchema(addresses, {
+  full_name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().email("Invalid email address"),
+  phone: z.string().trim().min(10, "Phone number is too short"),
+  address: z.string().trim().min(5, "Address must be at least 5 characters"),
+  city: z.string().trim().min(2, "City is required"),
+  state: z.string().trim().min(2, "State is required"),
+  zip_code: z.string().trim().min(5, "Zip code is required"),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// Address fields a checkout sends and an order stores, without address book details
+export const shippingAddressSchema = insertAddressSchema.omit({
+  user_id: true,
+  is_default: true,
 });
 
 // Products
+export const productStatuses = ["pending", "active", "rejected", "delisted"] as const;
+
+// An option axis a product's variants are picked by, e.g. Size with S, M, L
+export const variantOptionSchema = z.object({
+  name: z.string().trim().min(1, "Option name is required").max(30, "Keep option names under 30 characters"),
+  values: z.array(z.string().trim().min(1, "Option values can't be empty").max(30, "Keep option values under 30 characters"))
+    .min(1, "Add at least one value"),
+});
+
 export const products = mysqlTable("products", {
   id: serial("id").primaryKey(),
   product_id: varchar("product_id", { length: 50 }).notNull().unique(),
@@ -65,7 +203,13 @@ export const products = mysqlTable("products", {
   image_url: text("image_url"),
   added_date: timestamp("added_date").defaultNow().notNull(),
   last_updated: timestamp("last_updated").defaultNow(),
-  status: varchar("status", { length: 20 }).notNull().default("active"), // "active", "pending", "delisted"
+  status: varchar("status", { length: 20 }).notNull().default("active"), // One of productStatuses
+  // Option axes (e.g. Size x Color); empty for a product without variants
+  variant_options: json("variant_options").$type<VariantOption[]>().notNull(),
+  // Review aggregates, kept up to date by the storage layer's review operations
+  rating: double("rating"), // Average review rating, null without reviews
+  review_count: int("review_count").notNull().default(0),
+  rating_histogram: json("rating_histogram").$type<RatingHistogram>().notNull(),
 }, (table) => {
   return {
     sellerIdx: index("seller_id_idx").on(table.seller_id),
@@ -78,20 +222,105 @@ export const insertProductSchema = createInsertSchema(products, {
   price: z.coerce.number().positive("Price must be positive"),
   stock: z.coerce.number().int().nonnegative("Stock must be a non-negative integer"),
   image_url: z.string().optional(),
-  status: z.string().default("active"),
+  status: z.enum(productStatuses).default("active"),
 }).omit({
   id: true,
   product_id: true, // Generated on server
   seller_id: true,  // Derived from the authenticated user
   added_date: true,
   last_updated: true,
+  variant_options: true, // Set with the variants through PUT /api/products/:id/variants
+  rating: true, // Derived from reviews
+  review_count: true,
+  rating_histogram: true,
+});
+
+// Product variants, one per combination of the product's option values. When
+// a product has variants, its stock is the sum of theirs.
+export const productVariants = mysqlTable("product_variants", {
+  id: serial("id").primaryKey(),
+  product_id: int("product_id").notNull(),
+  sku: varchar("sku", { length: 64 }).notNull(),
+  options: json("options").$type<Record<string, string>>().notNull(), // Option name -> value, e.g. { Size: "M", Color: "Red" }
+  price: double("price"), // Overrides the product's price when set
+  stock: int("stock").notNull().default(0),
+  image_url: text("image_url"),
+}, (table) => {
+  return {
+    unq: unique().on(table.product_id, table.sku),
+    prodIdx: index("product_id_idx").on(table.product_id),
+  };
 });
 
-// Categories
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  sku: z.string().trim().min(1, "SKU is required").max(64, "Keep SKUs under 64 characters"),
+  options: z.record(z.string()),
+  price: z.coerce.number().positive("Price must be positive").nullish(),
+  stock: z.coerce.number().int().nonnegative("Stock must be a non-negative integer"),
+  image_url: z.string().nullish(),
+}).omit({
+  id: true,
+});
+
+// Uploaded product images. The first by position is the product's cover and
+// is copied into products.image_url.
+export const productImages = mysqlTable("product_images", {
+  id: serial("id").primaryKey(),
+  product_id: int("product_id").notNull(),
+  url: text("url").notNull(),
+  thumbnails: json("thumbnails").$type<Record<string, string>>().notNull(), // Size name -> URL, see THUMBNAIL_SIZES
+  storage_key: varchar("storage_key", { length: 255 }).notNull(), // Where the image storage driver keeps the files
+  alt_text: varchar("alt_text", { length: 200 }),
+  position: int("position").notNull().default(0),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    prodIdx: index("product_id_idx").on(table.product_id),
+  };
+});
+
+export const insertProductImageSchema = createInsertSchema(productImages, {
+  thumbnails: z.record(z.string()),
+  alt_text: z.string().trim().max(200, "Keep alt text under 200 characters").nullish(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// Product status history (one row per moderation decision or status change)
+export const productStatusHistory = mysqlTable("product_status_history", {
+  id: serial("id").primaryKey(),
+  product_id: int("product_id").notNull(),
+  from_status: varchar("from_status", { length: 20 }), // null for the row written when the product is added
+  to_status: varchar("to_status", { length: 20 }).notNull(),
+  changed_by: int("changed_by"),
+  actor_role: varchar("actor_role", { length: 20 }).notNull(), // "seller", "admin", "system"
+  note: text("note"), // Reason for a rejection, or what the moderation rules decided
+  changed_at: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    productIdx: index("product_status_history_product_id_idx").on(table.product_id),
+  };
+});
+
+export const insertProductStatusHistorySchema = createInsertSchema(productStatusHistory).omit({
+  id: true,
+  changed_at: true,
+});
+
+// Categories, nested to any depth. A category's URL is its ancestors' slugs
+// and its own, e.g. /categories/electronics/phones.
 export const categories = mysqlTable("categories", {
   id: serial("id").primaryKey(),
   category_id: varchar("category_id", { length: 50 }).notNull().unique(),
   category_name: varchar("category_name", { length: 100 }).notNull(),
+  slug: varchar("slug", { length: 60 }).notNull(), // Unique among the category's siblings
+  parent_id: int("parent_id"), // null for a top-level category
+  position: int("position").notNull().default(0), // Order among its siblings
+}, (table) => {
+  return {
+    unq: unique().on(table.parent_id, table.slug),
+  };
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
@@ -115,11 +344,90 @@ export const insertProductCategorySchema = createInsertSchema(productCategories)
   id: true,
 });
 
+// Attributes that describe a category's products, e.g. Electronics: Brand
+// (enum), RAM (number, in GB), Wi-Fi (boolean). Subcategories inherit their
+// ancestors' attributes.
+export const attributeTypes = ["enum", "number", "boolean"] as const;
+
+export const categoryAttributes = mysqlTable("category_attributes", {
+  id: serial("id").primaryKey(),
+  category_id: int("category_id").notNull(),
+  name: varchar("name", { length: 50 }).notNull(), // Unique within the category
+  type: varchar("type", { length: 20 }).notNull(), // "enum", "number", "boolean"
+  options: json("options").$type<string[]>().notNull(), // An enum's values in display order; empty for other types
+  unit: varchar("unit", { length: 20 }), // A number's unit, e.g. "GB"
+  position: int("position").notNull().default(0),
+}, (table) => {
+  return {
+    unq: unique().on(table.category_id, table.name),
+  };
+});
+
+export const insertCategoryAttributeSchema = createInsertSchema(categoryAttributes, {
+  name: z.string().trim().min(1, "Attribute name is required").max(50, "Keep attribute names under 50 characters"),
+  type: z.enum(attributeTypes),
+  options: z.array(z.string().trim().min(1, "Options can't be blank").max(50, "Keep options under 50 characters"))
+    .max(100, "An attribute can have at most 100 options"),
+  unit: z.string().trim().max(20, "Keep units under 20 characters").nullish(),
+}).omit({
+  id: true,
+});
+
+// A product's value for one attribute, in the column for the attribute's type
+export const productAttributeValues = mysqlTable("product_attribute_values", {
+  id: serial("id").primaryKey(),
+  product_id: int("product_id").notNull(),
+  attribute_id: int("attribute_id").notNull(),
+  text_value: varchar("text_value", { length: 50 }), // enum
+  number_value: double("number_value"),
+  boolean_value: boolean("boolean_value"),
+}, (table) => {
+  return {
+    unq: unique().on(table.product_id, table.attribute_id),
+    attrIdx: index("attribute_id_idx").on(table.attribute_id),
+  };
+});
+
+export const insertProductAttributeValueSchema = createInsertSchema(productAttributeValues).omit({
+  id: true,
+});
+
+// Coupons and promotions
+export const couponTypes = ["percentage", "fixed", "free_shipping"] as const;
+
+export const coupons = mysqlTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Stored upper-case
+  description: text("description"),
+  type: varchar("type", { length: 20 }).notNull(), // "percentage", "fixed", "free_shipping"
+  value: double("value").notNull().default(0), // Percent off or fixed amount off
+  min_spend: double("min_spend"), // Minimum eligible subtotal
+  category_id: int("category_id"), // Only items in this category
+  seller_id: int("seller_id"), // Only items from this seller
+  expires_at: timestamp("expires_at"),
+  usage_limit_per_user: int("usage_limit_per_user"),
+  active: boolean("active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCouponSchema = createInsertSchema(coupons, {
+  code: z.string().trim().min(3, "Code must be at least 3 characters").transform(code => code.toUpperCase()),
+  type: z.enum(couponTypes),
+  value: z.coerce.number().nonnegative("Value must not be negative"),
+  min_spend: z.coerce.number().nonnegative().nullable().optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+  usage_limit_per_user: z.coerce.number().int().positive().nullable().optional(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
 // Cart
 export const carts = mysqlTable("carts", {
   id: serial("id").primaryKey(),
   cart_id: varchar("cart_id", { length: 50 }).notNull().unique(),
   user_id: int("user_id").notNull(),
+  coupon_id: int("coupon_id"),
   created_at: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
   return {
@@ -130,6 +438,7 @@ export const carts = mysqlTable("carts", {
 export const insertCartSchema = createInsertSchema(carts).omit({
   id: true,
   created_at: true,
+  coupon_id: true, // Set through POST /api/cart/coupon
 });
 
 // Cart Items
@@ -137,6 +446,7 @@ export const cartItems = mysqlTable("cart_items", {
   id: serial("id").primaryKey(),
   cart_id: int("cart_id").notNull(),
   product_id: int("product_id").notNull(),
+  variant_id: int("variant_id"), // Required when the product has variants
   quantity: int("quantity").notNull().default(1),
   added_date: timestamp("added_date").defaultNow().notNull(),
 }, (table) => {
@@ -151,14 +461,61 @@ export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   added_date: true,
 });
 
+// Wishlists (one per customer, created on first use)
+export const wishlists = mysqlTable("wishlists", {
+  id: serial("id").primaryKey(),
+  wishlist_id: varchar("wishlist_id", { length: 50 }).notNull().unique(),
+  user_id: int("user_id").notNull().unique(),
+  share_token: varchar("share_token", { length: 64 }).unique(), // Set while the wishlist has a public share link
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWishlistSchema = createInsertSchema(wishlists).omit({
+  id: true,
+  created_at: true,
+  share_token: true, // Set through POST /api/wishlist/share
+});
+
+// Wishlist Items
+export const wishlistItems = mysqlTable("wishlist_items", {
+  id: serial("id").primaryKey(),
+  wishlist_id: int("wishlist_id").notNull(),
+  product_id: int("product_id").notNull(),
+  added_date: timestamp("added_date").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.wishlist_id, table.product_id),
+    prodIdx: index("product_id_idx").on(table.product_id),
+  };
+});
+
+export const insertWishlistItemSchema = createInsertSchema(wishlistItems).omit({
+  id: true,
+  added_date: true,
+});
+
 // Orders
 export const orders = mysqlTable("orders", {
   id: serial("id").primaryKey(),
   order_id: varchar("order_id", { length: 50 }).notNull().unique(),
   customer_id: int("customer_id").notNull(),
-  total_price: double("total_price").notNull(),
+  subtotal: double("subtotal").notNull().default(0),
+  shipping_cost: double("shipping_cost").notNull().default(0),
+  tax: double("tax").notNull().default(0),
+  discount: double("discount").notNull().default(0),
+  total_price: double("total_price").notNull(), // subtotal - discount + shipping_cost + tax
+  shipping_method: varchar("shipping_method", { length: 20 }).notNull().default("standard"), // "standard", "express"
+  // Snapshot of where the order ships, so later address book edits don't change it
+  shipping_full_name: varchar("shipping_full_name", { length: 100 }),
+  shipping_email: varchar("shipping_email", { length: 100 }),
+  shipping_phone: varchar("shipping_phone", { length: 20 }),
+  shipping_address: varchar("shipping_address", { length: 255 }),
+  shipping_city: varchar("shipping_city", { length: 100 }),
+  shipping_state: varchar("shipping_state", { length: 100 }),
+  shipping_zip_code: varchar("shipping_zip_code", { length: 20 }),
+  coupon_id: int("coupon_id"),
   order_date: timestamp("order_date").defaultNow().notNull(),
-  status: varchar("status", { length: 20 }).notNull().default("processing"), // "processing", "shipped", "delivered", "cancelled"
+  status: varchar("status", { length: 20 }).notNull().default("pending_payment"), // "pending_payment", "processing", "shipped", "delivered", "cancelled"
 }, (table) => {
   return {
     custIdx: index("customer_id_idx").on(table.customer_id),
@@ -175,6 +532,8 @@ export const orderItems = mysqlTable("order_items", {
   id: serial("id").primaryKey(),
   order_id: int("order_id").notNull(),
   product_id: int("product_id").notNull(),
+  variant_id: int("variant_id"),
+  variant_label: varchar("variant_label", { length: 255 }), // Snapshot of the variant's options, e.g. "Size: M / Color: Red"
   quantity: int("quantity").notNull(),
   price: double("price").notNull(), // Price at time of purchase
 }, (table) => {
@@ -188,6 +547,46 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+// Coupon redemptions (one per order that used a coupon)
+export const couponRedemptions = mysqlTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  coupon_id: int("coupon_id").notNull(),
+  user_id: int("user_id").notNull(),
+  order_id: int("order_id").notNull(),
+  discount: double("discount").notNull(),
+  redeemed_at: timestamp("redeemed_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    couponUserIdx: index("coupon_user_idx").on(table.coupon_id, table.user_id),
+  };
+});
+
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({
+  id: true,
+  redeemed_at: true,
+});
+
+// Order status history (one row per status change)
+export const orderStatusHistory = mysqlTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  order_id: int("order_id").notNull(),
+  from_status: varchar("from_status", { length: 20 }), // null for the row written when the order is placed
+  to_status: varchar("to_status", { length: 20 }).notNull(),
+  changed_by: int("changed_by"), // null for system changes
+  actor_role: varchar("actor_role", { length: 20 }).notNull(), // "customer", "seller", "admin", "system"
+  note: text("note"),
+  changed_at: timestamp("changed_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    orderIdx: index("status_history_order_id_idx").on(table.order_id),
+  };
+});
+
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  changed_at: true,
+});
+
 // Payments
 export const payments = mysqlTable("payments", {
   id: serial("id").primaryKey(),
@@ -196,7 +595,10 @@ export const payments = mysqlTable("payments", {
   amount: double("amount").notNull(),
   payment_date: timestamp("payment_date").defaultNow().notNull(),
   method: varchar("method", { length: 50 }).notNull(), // "credit_card", "paypal", etc.
-  status: varchar("status", { length: 20 }).notNull().default("pending"), // "pending", "completed", "failed"
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // "pending", "requires_action", "authorized", "completed", "failed", "voided", "refunded"
+  provider: varchar("provider", { length: 50 }).notNull().default("mock"), // Payment gateway that handled it
+  provider_reference: varchar("provider_reference", { length: 100 }).unique(), // The gateway's id for this payment
+  refunded_amount: double("refunded_amount").notNull().default(0), // Sum of partial refunds so far
 }, (table) => {
   return {
     orderIdx: index("order_id_idx").on(table.order_id),
@@ -208,19 +610,23 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
   payment_date: true,
 });
 
-// Shipments
+// Shipments (one per seller in an order)
 export const shipments = mysqlTable("shipments", {
   id: serial("id").primaryKey(),
   shipment_id: varchar("shipment_id", { length: 50 }).notNull().unique(),
   order_id: int("order_id").notNull(),
+  // Seller whose items this shipment carries (the order's fulfillment group
+  // for that seller); null for shipments created before orders were split
+  seller_id: int("seller_id"),
   shipment_date: timestamp("shipment_date").defaultNow(),
   estimated_delivery: timestamp("estimated_delivery"),
   tracking_number: varchar("tracking_number", { length: 100 }),
   carrier: varchar("carrier", { length: 50 }),
-  status: varchar("status", { length: 20 }).notNull().default("processing"), // "processing", "shipped", "delivered"
+  status: varchar("status", { length: 20 }).notNull().default("processing"), // "processing", "shipped", "delivered", "cancelled"
 }, (table) => {
   return {
     orderIdx: index("order_id_idx").on(table.order_id),
+    sellerIdx: index("shipment_seller_id_idx").on(table.seller_id),
   };
 });
 
@@ -229,6 +635,50 @@ export const insertShipmentSchema = createInsertSchema(shipments).omit({
   shipment_date: true,
 });
 
+// Return requests (RMAs), one per returned order item
+export const returnReasons = ["damaged", "wrong_item", "not_as_described", "no_longer_needed", "other"] as const;
+
+export const returnRequests = mysqlTable("return_requests", {
+  id: serial("id").primaryKey(),
+  return_id: varchar("return_id", { length: 50 }).notNull().unique(),
+  order_id: int("order_id").notNull(),
+  order_item_id: int("order_item_id").notNull(),
+  customer_id: int("customer_id").notNull(),
+  seller_id: int("seller_id").notNull(), // Seller of the returned product
+  quantity: int("quantity").notNull(),
+  reason: varchar("reason", { length: 30 }).notNull(), // One of returnReasons
+  details: text("details"),
+  photos: json("photos").$type<string[]>().notNull(), // Photo URLs supplied by the customer
+  status: varchar("status", { length: 20 }).notNull().default("requested"), // "requested", "approved", "rejected", "received", "refunded"
+  restocked: boolean("restocked").notNull().default(false),
+  refund_amount: double("refund_amount"), // Set once the refund is issued
+  resolution_note: text("resolution_note"), // Seller/admin note on approval or rejection
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    orderIdx: index("return_order_id_idx").on(table.order_id),
+    customerIdx: index("return_customer_id_idx").on(table.customer_id),
+    sellerIdx: index("return_seller_id_idx").on(table.seller_id),
+  };
+});
+
+export const insertReturnRequestSchema = createInsertSchema(returnRequests, {
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+  reason: z.enum(returnReasons),
+  details: z.string().trim().max(1000, "Keep the details under 1000 characters").nullish(),
+  photos: z.array(z.string().url("Photos must be image URLs").refine(isWebUrl, "Photos must be http or https links"))
+    .max(5, "Attach at most 5 photos").default([]),
+}).omit({
+  id: true,
+  status: true,
+  restocked: true,
+  refund_amount: true,
+  resolution_note: true,
+  created_at: true,
+  updated_at: true,
+});
+
 // Product Reviews
 export const reviews = mysqlTable("reviews", {
   id: serial("id").primaryKey(),
@@ -236,8 +686,17 @@ export const reviews = mysqlTable("reviews", {
   product_id: int("product_id").notNull(),
   customer_id: int("customer_id").notNull(),
   rating: int("rating").notNull(),
+  title: varchar("title", { length: 120 }),
   review_text: text("review_text"),
+  pros: json("pros").$type<string[]>().notNull(),
+  cons: json("cons").$type<string[]>().notNull(),
   review_date: timestamp("review_date").defaultNow().notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("published"), // "published" or "hidden" by a moderator
+  helpful_count: int("helpful_count").notNull().default(0), // Kept in step with review_votes
+  edited_at: timestamp("edited_at"), // Last time the customer changed it
+  // The product's seller's public reply, one per review
+  seller_reply: text("seller_reply"),
+  seller_reply_at: timestamp("seller_reply_at"),
 }, (table) => {
   return {
     prodIdx: index("product_id_idx").on(table.product_id),
@@ -245,21 +704,129 @@ export const reviews = mysqlTable("reviews", {
   };
 });
 
-export const insertReviewSchema = createInsertSchema(reviews).omit({
+// Pros and cons: a few short points each
+const reviewPointsSchema = z.array(
+  z.string().trim().min(1, "Points can't be blank").max(200, "Keep points under 200 characters")
+).max(5, "List at most 5 points").default([]);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(1, "Rate from 1 to 5 stars").max(5, "Rate from 1 to 5 stars"),
+  title: z.string().trim().max(120, "Keep titles under 120 characters").nullish(),
+  review_text: z.string().trim().max(2000, "Keep reviews under 2000 characters").nullish(),
+  pros: reviewPointsSchema,
+  cons: reviewPointsSchema,
+}).omit({
   id: true,
   review_date: true,
+  status: true,
+  helpful_count: true,
+  edited_at: true,
+  seller_reply: true,
+  seller_reply_at: true,
+});
+
+// Customer photos on a review, stored like product images
+export const reviewImages = mysqlTable("review_images", {
+  id: serial("id").primaryKey(),
+  review_id: int("review_id").notNull(),
+  url: text("url").notNull(),
+  thumbnails: json("thumbnails").$type<Record<string, string>>().notNull(), // Size name -> URL, see THUMBNAIL_SIZES
+  storage_key: varchar("storage_key", { length: 255 }).notNull(), // Where the image storage driver keeps the files
+  position: int("position").notNull().default(0),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    reviewIdx: index("review_images_review_id_idx").on(table.review_id),
+  };
+});
+
+export const insertReviewImageSchema = createInsertSchema(reviewImages, {
+  thumbnails: z.record(z.string()),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// "Helpful" votes, one per user per review
+export const reviewVotes = mysqlTable("review_votes", {
+  id: serial("id").primaryKey(),
+  review_id: int("review_id").notNull(),
+  user_id: int("user_id").notNull(),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.review_id, table.user_id),
+    userIdx: index("review_votes_user_id_idx").on(table.user_id),
+  };
+});
+
+// Abuse reports on reviews. Open reports put the review in the admins'
+// moderation queue; a moderator resolves them all at once.
+export const reviewReportReasons = ["spam", "offensive", "off_topic", "fake", "other"] as const;
+
+export const reviewReports = mysqlTable("review_reports", {
+  id: serial("id").primaryKey(),
+  review_id: int("review_id").notNull(),
+  reporter_id: int("reporter_id").notNull(),
+  reason: varchar("reason", { length: 30 }).notNull(), // One of reviewReportReasons
+  details: text("details"),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // "open" or "resolved"
+  resolution: varchar("resolution", { length: 20 }), // "dismissed" (review kept) or "hidden"
+  resolved_by: int("resolved_by"),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  resolved_at: timestamp("resolved_at"),
+}, (table) => {
+  return {
+    unq: unique().on(table.review_id, table.reporter_id),
+    statusIdx: index("review_reports_status_idx").on(table.status),
+  };
+});
+
+export const insertReviewReportSchema = createInsertSchema(reviewReports, {
+  reason: z.enum(reviewReportReasons),
+  details: z.string().trim().max(500, "Keep the details under 500 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  resolution: true,
+  resolved_by: true,
+  created_at: true,
+  resolved_at: true,
 });
 
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+// What POST /api/login returns instead of the user when a TOTP code is needed
+export type TwoFactorChallenge = { status: "2fa_required"; message: string };
 
 export type Seller = typeof sellers.$inferSelect;
 export type InsertSeller = z.infer<typeof insertSellerSchema>;
 
+export type SellerApplication = typeof sellerApplications.$inferSelect;
+export type InsertSellerApplication = z.infer<typeof insertSellerApplicationSchema>;
+
+export type Address = typeof addresses.$inferSelect;
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+// A product as storage creates it: the listing form's fields plus the ids the
+// server fills in
+export type NewProduct = InsertProduct & Pick<Product, "product_id" | "seller_id">;
+export type VariantOption = z.infer<typeof variantOptionSchema>;
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+
+export type ProductImage = typeof productImages.$inferSelect;
+export type InsertProductImage = z.infer<typeof insertProductImageSchema>;
+
+export type ProductStatusHistory = typeof productStatusHistory.$inferSelect;
+export type InsertProductStatusHistory = z.infer<typeof insertProductStatusHistorySchema>;
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
@@ -267,12 +834,34 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type ProductCategory = typeof productCategories.$inferSelect;
 export type InsertProductCategory = z.infer<typeof insertProductCategorySchema>;
 
+export type AttributeType = typeof attributeTypes[number];
+export type CategoryAttribute = typeof categoryAttributes.$inferSelect;
+export type InsertCategoryAttribute = z.infer<typeof insertCategoryAttributeSchema>;
+
+export type ProductAttributeValue = typeof productAttributeValues.$inferSelect;
+export type InsertProductAttributeValue = z.infer<typeof insertProductAttributeValueSchema>;
+
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+
 export type Cart = typeof carts.$inferSelect;
 export type InsertCart = z.infer<typeof insertCartSchema>;
 
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 
+export type Wishlist = typeof wishlists.$inferSelect;
+export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
+
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+export type InsertWishlistItem = z.infer<typeof insertWishlistItemSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
@@ -285,5 +874,16 @@ export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Shipment = typeof shipments.$inferSelect;
 export type InsertShipment = z.infer<typeof insertShipmentSchema>;
 
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
 export type Review = typeof reviews.$inferSelect;
-export type InsertReview = z.infer<typeof insertReviewSchema>;
\ No newline at end of file
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type ReviewImage = typeof reviewImages.$inferSelect;
+export type InsertReviewImage = z.infer<typeof insertReviewImageSchema>;
+
+export type ReviewVote = typeof reviewVotes.$inferSelect;
+
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type InsertReviewReport = z.infer<typeof insertReviewReportSchema>;
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+// Order lifecycle shared by the server (enforcement) and the client (which
+// actions to offer). Every status change goes through canTransitionOrder.
+export const orderStatuses = [
+  "pending_payment",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+  "refunded",
+  "returned",
+] as const;
+export const orderStatusSchema = z.enum(orderStatuses);
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+
+// "system" covers changes the server makes on its own, e.g. payment webhooks
+export type OrderActor = "customer" | "seller" | "admin" | "system";
+
+export const shipmentStatuses = ["processing", "shipped", "delivered", "cancelled"] as const;
+export const shipmentStatusSchema = z.enum(shipmentStatuses);
+export type ShipmentStatus = z.infer<typeof shipmentStatusSchema>;
+
+// What a seller or admin may change on a shipment
+export const updateShipmentSchema = z.object({
+  status: shipmentStatusSchema.optional(),
+  tracking_number: z.string().trim().min(1).nullish(),
+  carrier: z.string().trim().min(1).nullish(),
+  estimated_delivery: z.coerce.date().nullish(),
+});
+
+const SHIPMENT_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+// For each status, the statuses it can move to and who may make that move
+const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+  pending_payment: {
+    processing: ["system", "admin"],
+    cancelled: ["system", "admin", "customer"],
+  },
+  processing: {
+    shipped: ["seller", "admin"],
+    cancelled: ["system", "admin", "customer"],
+  },
+  shipped: {
+    delivered: ["seller", "admin", "system"],
+    returned: ["admin", "system"],
+  },
+  delivered: {
+    returned: ["admin", "system"],
+    refunded: ["admin"],
+  },
+  cancelled: {
+    refunded: ["admin", "system"],
+  },
+  returned: {
+    refunded: ["admin", "system"],
+  },
+  refunded: {},
+};
+
+// Orders that don't count as buying their items, e.g. for the "verified
+// purchase" badge on reviews: never paid for, or cancelled
+export const unpurchasedOrderStatuses: string[] = ["pending_payment", "cancelled"];
+
+export function isOrderStatus(status: string): status is OrderStatus {
+  return (orderStatuses as readonly string[]).includes(status);
+}
+
+export function canTransitionOrder(from: string, to: string, actor: OrderActor): boolean {
+  if (!isOrderStatus(from) || !isOrderStatus(to)) return false;
+  return ORDER_TRANSITIONS[from][to]?.includes(actor) ?? false;
+}
+
+export function getAllowedOrderTransitions(from: string, actor: OrderActor): OrderStatus[] {
+  if (!isOrderStatus(from)) return [];
+  return orderStatuses.filter(to => canTransitionOrder(from, to, actor));
+}
+
+// "pending_payment" -> "Pending payment"
+export function formatOrderStatus(status: string): string {
+  const label = status.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function canTransitionShipment(from: string, to: string): boolean {
+  return SHIPMENT_TRANSITIONS[from as ShipmentStatus]?.includes(to as ShipmentStatus) ?? false;
+}
+
+// Shipments only change while the order is being fulfilled: not before it's
+// paid, and not once it's been delivered, cancelled or returned
+export function canUpdateOrderShipments(orderStatus: string): boolean {
+  return orderStatus === "processing" || orderStatus === "shipped";
+}
+
+// A multi-seller order stays "processing" until every group has shipped, but
+// once any group has left its seller the order can't be cancelled as a whole:
+// the shipped items have to come back through a return instead
+export function canCancelShipments(shipmentStatuses: string[]): boolean {
+  return !shipmentStatuses.some(status => status === "shipped" || status === "delivered");
+}
+
+// An order ships in one shipment per seller (its fulfillment groups). The
+// order counts as shipped once every group has shipped and delivered once
+// every group has arrived; cancelled groups are left out. Returns undefined
+// when there's no group left to go by.
+export function deriveOrderFulfillmentStatus(
+  shipmentStatuses: string[],
+): "processing" | "shipped" | "delivered" | undefined {
+  const active = shipmentStatuses.filter(status => status !== "cancelled");
+  if (active.length === 0) return undefined;
+  if (active.every(status => status === "delivered")) return "delivered";
+  if (active.every(status => status === "shipped" || status === "delivered")) return "shipped";
+  return "processing";
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { attributeFiltersSchema, gatherAttributeFilters, AttributeFilter } from "./attributes";
+
+// The list contract shared by GET /api/products, /api/orders, /api/users and
+// /api/sellers: ?limit=&cursor=&sort=&filter[name]=value. Sorting by "-field"
+// sorts descending. Every list responds with a Page.
+export interface Page<T> {
+  items: T[];
+  next_cursor: string | null; // null on the last page
+  total: number; // Matching rows across all pages
+}
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export type SortDirection = "asc" | "desc";
+
+export interface ListSort<F extends string> {
+  field: F;
+  direction: SortDirection;
+}
+
+export interface ListQuery<F extends string, Filter> {
+  limit: number;
+  cursor?: string;
+  sort: ListSort<F>;
+  filter: Filter;
+}
+
+// Builds the query schema for one list endpoint from the fields it can be
+// sorted by and the filters it takes. prepareFilter can reshape the raw
+// filter before it's checked.
+function createListQuerySchema<F extends string, Shape extends z.ZodRawShape>(
+  sortFields: readonly [F, ...F[]],
+  defaultSort: string, // e.g. "-added_date"
+  filterShape: Shape,
+  prepareFilter: (filter: unknown) => unknown = filter => filter,
+) {
+  const sortValues = sortFields.flatMap(field => [field, `-${field}`]) as [string, ...string[]];
+  return z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(DEFAULT_PAGE_LIMIT),
+    cursor: z.string().min(1).optional(),
+    sort: z.enum(sortValues).default(defaultSort).transform((sort): ListSort<F> => ({
+      field: sort.replace(/^-/, "") as F,
+      direction: sort.startsWith("-") ? "desc" : "asc",
+    })),
+    filter: z.preprocess(filter => prepareFilter(filter ?? {}), z.object(filterShape).strict()),
+  });
+}
+
+const idSchema = z.coerce.number().int().positive();
+
+export const productListQuerySchema = createListQuerySchema(
+  ["added_date", "price", "name", "stock"],
+  "-added_date",
+  {
+    status: z.string().optional(),
+    seller_id: idSchema.optional(),
+    category_id: idSchema.optional(),
+    min_price: z.coerce.number().nonnegative().optional(),
+    max_price: z.coerce.number().nonnegative().optional(),
+    // filter[attr.<attribute id>]=value, see parseAttributeFilter
+    attributes: attributeFiltersSchema.optional(),
+  },
+  gatherAttributeFilters,
+);
+// The route swaps the raw attribute filters for ones checked against each
+// attribute's type
+export type ProductListFilter = Omit<z.infer<typeof productListQuerySchema>["filter"], "attributes"> & {
+  attributes?: AttributeFilter[];
+};
+export type ProductListQuery = Omit<z.infer<typeof productListQuerySchema>, "filter"> & {
+  filter: ProductListFilter;
+};
+
+export const orderListQuerySchema = createListQuerySchema(
+  ["order_date", "total_price"],
+  "-order_date",
+  {
+    status: z.string().optional(),
+  },
+);
+// The route adds who's asking to the filter: a customer's own orders, or
+// orders with a seller's products in them
+export type OrderListFilter = z.infer<typeof orderListQuerySchema>["filter"] & {
+  customer_id?: number;
+  seller_id?: number;
+};
+export type OrderListQuery = Omit<z.infer<typeof orderListQuerySchema>, "filter"> & {
+  filter: OrderListFilter;
+};
+
+export const userListQuerySchema = createListQuerySchema(
+  ["registration_date", "name", "username"],
+  "-registration_date",
+  {
+    role: z.string().optional(),
+    q: z.string().trim().min(1).optional(), // Matches name, username or email
+  },
+);
+export type UserListQuery = z.infer<typeof userListQuerySchema>;
+export type UserListFilter = UserListQuery["filter"];
+
+export const sellerListQuerySchema = createListQuerySchema(
+  ["joined_date", "shop_name"],
+  "-joined_date",
+  {
+    q: z.string().trim().min(1).optional(), // Matches the shop name
+  },
+);
+export type SellerListQuery = z.infer<typeof sellerListQuerySchema>;
+export type SellerListFilter = SellerListQuery["filter"];
+
+// What the client sends; the reverse of the schemas above
+export interface ListParams {
+  limit?: number;
+  cursor?: string | null;
+  sort?: string;
+  filter?: Record<string, string | number | boolean | undefined>;
+}
+
+export function buildListQueryString(params: ListParams): string {
+  const search = new URLSearchParams();
+  if (params.limit !== undefined) search.set("limit", String(params.limit));
+  if (params.cursor) search.set("cursor", params.cursor);
+  if (params.sort) search.set("sort", params.sort);
+  Object.entries(params.filter ?? {}).forEach(([name, value]) => {
+    if (value !== undefined && value !== "") search.set(`filter[${name}]`, String(value));
+  });
+  return search.toString();
+}
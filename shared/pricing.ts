@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { Coupon } from "./schema";
+
+// Pricing rules shared by the server (source of truth) and the client (display)
+export const TAX_RATE = 0.06; // 6% sales tax
+export const FREE_SHIPPING_THRESHOLD = 35; // Standard shipping is free above this subtotal
+
+export const shippingMethods = ["standard", "express"] as const;
+export const shippingMethodSchema = z.enum(shippingMethods);
+export type ShippingMethod = z.infer<typeof shippingMethodSchema>;
+
+export const SHIPPING_RATES: Record<ShippingMethod, number> = {
+  standard: 9.99,
+  express: 14.99,
+};
+
+export interface PriceLine {
+  price: number;
+  quantity: number;
+}
+
+// Line details a coupon's category and seller scope are checked against
+export interface CouponLine extends PriceLine {
+  seller_id: number;
+  category_ids: number[]; // The product's categories and their ancestors
+}
+
+export interface QuoteAdjustments {
+  discount?: number;
+  free_shipping?: boolean;
+}
+
+export interface PriceQuote {
+  shipping_method: ShippingMethod;
+  subtotal: number;
+  shipping: number;
+  tax: number;
+  discount: number;
+  total: number;
+}
+
+// What GET /api/cart/quote returns: the quote plus the state of the cart's coupon
+export interface CartQuote extends PriceQuote {
+  coupon_code: string | null;
+  coupon_error: string | null;
+}
+
+// Round to whole cents so stored totals match what the customer was shown
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function calculateSubtotal(lines: PriceLine[]): number {
+  return roundCurrency(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+}
+
+export function calculateShipping(subtotal: number, shippingMethod: ShippingMethod): number {
+  if (shippingMethod === "standard" && subtotal > FREE_SHIPPING_THRESHOLD) {
+    return 0;
+  }
+  return SHIPPING_RATES[shippingMethod];
+}
+
+export function calculateQuote(
+  lines: PriceLine[],
+  shippingMethod: ShippingMethod = "standard",
+  adjustments: QuoteAdjustments = {},
+): PriceQuote {
+  const subtotal = calculateSubtotal(lines);
+  // A discount can never take the merchandise total below zero
+  const appliedDiscount = roundCurrency(Math.min(Math.max(adjustments.discount ?? 0, 0), subtotal));
+  const shipping = adjustments.free_shipping ? 0 : calculateShipping(subtotal, shippingMethod);
+  const tax = roundCurrency((subtotal - appliedDiscount) * TAX_RATE);
+  const total = roundCurrency(subtotal - appliedDiscount + shipping + tax);
+
+  return {
+    shipping_method: shippingMethod,
+    subtotal,
+    shipping,
+    tax,
+    discount: appliedDiscount,
+    total,
+  };
+}
+
+export type CouponEvaluation =
+  | { valid: true; discount: number; free_shipping: boolean }
+  | { valid: false; reason: string };
+
+// Checks a coupon against the cart and works out what it's worth. Only lines
+// inside the coupon's category/seller scope count towards min spend and discount.
+export function evaluateCoupon(
+  coupon: Coupon,
+  lines: CouponLine[],
+  usesByCustomer: number,
+  now: Date = new Date(),
+): CouponEvaluation {
+  if (!coupon.active) {
+    return { valid: false, reason: "This coupon is no longer active" };
+  }
+
+  if (coupon.expires_at && new Date(coupon.expires_at) <= now) {
+    return { valid: false, reason: "This coupon has expired" };
+  }
+
+  if (coupon.usage_limit_per_user != null && usesByCustomer >= coupon.usage_limit_per_user) {
+    return { valid: false, reason: "You have already used this coupon the maximum number of times" };
+  }
+
+  const eligibleLines = lines.filter(line =>
+    (coupon.category_id == null || line.category_ids.includes(coupon.category_id)) &&
+    (coupon.seller_id == null || line.seller_id === coupon.seller_id)
+  );
+
+  if (eligibleLines.length === 0) {
+    return { valid: false, reason: "This coupon doesn't apply to any items in your cart" };
+  }
+
+  const eligibleSubtotal = calculateSubtotal(eligibleLines);
+  if (coupon.min_spend != null && eligibleSubtotal < coupon.min_spend) {
+    return { valid: false, reason: `Spend at least $${coupon.min_spend.toFixed(2)} on eligible items to use this coupon` };
+  }
+
+  switch (coupon.type) {
+    case "percentage":
+      return {
+        valid: true,
+        discount: roundCurrency(eligibleSubtotal * Math.min(coupon.value, 100) / 100),
+        free_shipping: false,
+      };
+    case "fixed":
+      return { valid: true, discount: roundCurrency(Math.min(coupon.value, eligibleSubtotal)), free_shipping: false };
+    case "free_shipping":
+      return { valid: true, discount: 0, free_shipping: true };
+    default:
+      return { valid: false, reason: "This coupon can't be applied" };
+  }
+}
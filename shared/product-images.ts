@@ -0,0 +1,43 @@
+import { z } from "zod";
+import { insertProductImageSchema } from "./schema";
+import type { ProductImage } from "./schema";
+
+// Product image uploads shared by the server (limits, thumbnail generation)
+// and the client (the seller's image manager and the product gallery).
+export const MAX_PRODUCT_IMAGES = 10;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+
+// Longest edge in pixels of each thumbnail generated for an upload
+export const THUMBNAIL_SIZES = {
+  small: 160,
+  medium: 480,
+  large: 1200,
+} as const;
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// Text fields of a POST /api/products/:id/images upload: an alt text per file,
+// in the same order. Multipart sends a lone field as a plain string.
+export const productImageUploadSchema = z.object({
+  alt_text: z.preprocess(
+    value => value === undefined ? [] : [value].flat(),
+    z.array(insertProductImageSchema.shape.alt_text)
+  ),
+});
+
+// Body of PATCH /api/products/:id/images/:imageId
+export const productImageUpdateSchema = insertProductImageSchema.pick({ alt_text: true });
+
+// Body of PUT /api/products/:id/images/order: every image of the product, cover first
+export const productImageOrderSchema = z.object({
+  image_ids: z.array(z.coerce.number().int().positive()).min(1, "List the product's images"),
+});
+
+// One of the image's thumbnails, or the full image if that size is missing
+export function getProductImageUrl(image: Pick<ProductImage, "url" | "thumbnails">, size: ThumbnailSize): string {
+  return image.thumbnails?.[size] ?? image.url;
+}
+
+export function formatImageSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
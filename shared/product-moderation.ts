@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { productStatuses } from "./schema";
+
+// Product moderation shared by the server (enforcement) and the dashboards
+// (which actions to offer). Every status change goes through
+// canTransitionProduct and is recorded in product_status_history.
+export const productStatusSchema = z.enum(productStatuses);
+export type ProductStatus = z.infer<typeof productStatusSchema>;
+
+// "system" covers the moves the moderation rules make on their own when a
+// product is added, edited or relisted
+export type ModerationActor = "seller" | "admin" | "system";
+
+// For each status, the statuses it can move to and who may make that move
+const PRODUCT_TRANSITIONS: Record<ProductStatus, Partial<Record<ProductStatus, ModerationActor[]>>> = {
+  pending: {
+    active: ["admin", "system"],
+    rejected: ["admin"],
+    delisted: ["seller", "admin"],
+  },
+  active: {
+    pending: ["system"],
+    rejected: ["admin"],
+    delisted: ["seller", "admin"],
+  },
+  rejected: {
+    pending: ["system"],
+    active: ["admin"],
+  },
+  delisted: {
+    pending: ["system"],
+    active: ["admin", "system"],
+  },
+};
+
+export function canTransitionProduct(from: string, to: ProductStatus, actor: ModerationActor): boolean {
+  return PRODUCT_TRANSITIONS[from as ProductStatus]?.[to]?.includes(actor) ?? false;
+}
+
+// Where a product goes when it's added (current is null), edited or relisted.
+// Verified sellers' products go live without review, except that a rejected
+// product always goes back to an admin; unverified sellers' products wait.
+export function getSubmittedProductStatus(current: string | null, sellerVerified: boolean): ProductStatus {
+  if (current === "rejected" || !sellerVerified) return "pending";
+  return "active";
+}
+
+// The note recorded with a move the moderation rules made
+export function describeSubmission(status: ProductStatus): string {
+  return status === "active"
+    ? "Listed without review: the seller is verified"
+    : "Waiting for an admin to review";
+}
+
+const PRODUCT_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending review",
+  active: "Listed",
+  rejected: "Rejected",
+  delisted: "Delisted",
+};
+
+export function formatProductStatus(status: string): string {
+  return PRODUCT_STATUS_LABELS[status] ?? status;
+}
@@ -0,0 +1,36 @@
+// Review rating aggregates kept on products and sellers, so lists and product
+// pages can show an average and a star breakdown without loading every
+// review. The storage backends refresh them whenever a review is added,
+// changed or deleted; scripts/backfill-ratings.ts recomputes them all.
+
+// Review counts by star, index 0 for 1 star through index 4 for 5 stars
+export type RatingHistogram = [number, number, number, number, number];
+
+export const EMPTY_RATING_HISTOGRAM: RatingHistogram = [0, 0, 0, 0, 0];
+
+export type RatingSummary = {
+  rating: number | null; // Average review rating, null without reviews
+  review_count: number;
+  rating_histogram: RatingHistogram;
+};
+
+// The summary of a product's or seller's reviews from how many there are of
+// each rating (counts may come back from the database as strings)
+export function summarizeRatings(counts: { rating: number; count: number | string }[]): RatingSummary {
+  const histogram: RatingHistogram = [...EMPTY_RATING_HISTOGRAM];
+  counts.forEach(({ rating, count }) => {
+    if (rating >= 1 && rating <= 5) histogram[rating - 1] += Number(count);
+  });
+  const reviewCount = histogram.reduce((sum, count) => sum + count, 0);
+  const total = histogram.reduce((sum, count, index) => sum + count * (index + 1), 0);
+  return {
+    rating: reviewCount > 0 ? total / reviewCount : null,
+    review_count: reviewCount,
+    rating_histogram: histogram
+  };
+}
+
+// The summary for a list of individual review ratings
+export function summarizeReviewRatings(ratings: number[]): RatingSummary {
+  return summarizeRatings(ratings.map(rating => ({ rating, count: 1 })));
+}
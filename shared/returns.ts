@@ -0,0 +1,58 @@
+import type { Order, OrderItem } from "./schema";
+import { roundCurrency } from "./pricing";
+
+// Return (RMA) workflow shared by the server (enforcement) and the client
+// (which actions to offer): requested -> approved -> received -> refunded,
+// or requested -> rejected
+export const returnStatuses = ["requested", "approved", "rejected", "received", "refunded"] as const;
+export type ReturnStatus = typeof returnStatuses[number];
+
+// Return photos are links the customer types in and sellers open, so only
+// web URLs count: z.string().url() on its own also accepts javascript: URLs
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+const RETURN_TRANSITIONS: Record<ReturnStatus, ReturnStatus[]> = {
+  requested: ["approved", "rejected"],
+  approved: ["received"],
+  received: ["refunded"],
+  rejected: [],
+  refunded: [],
+};
+
+export function canTransitionReturn(from: string, to: ReturnStatus): boolean {
+  return RETURN_TRANSITIONS[from as ReturnStatus]?.includes(to) ?? false;
+}
+
+// Statuses that still count against how much of an order item can be returned
+export function isOpenReturn(status: string): boolean {
+  return status !== "rejected";
+}
+
+const RETURN_REASON_LABELS: Record<string, string> = {
+  damaged: "Arrived damaged",
+  wrong_item: "Wrong item sent",
+  not_as_described: "Not as described",
+  no_longer_needed: "No longer needed",
+  other: "Other",
+};
+
+export function formatReturnReason(reason: string): string {
+  return RETURN_REASON_LABELS[reason] ?? reason;
+}
+
+// What returning part of an order item is worth: its share of the merchandise
+// after the order's discount, plus the tax charged on that share. Shipping
+// isn't refunded.
+export function calculateReturnRefund(
+  order: Pick<Order, "subtotal" | "discount" | "tax">,
+  item: Pick<OrderItem, "price">,
+  quantity: number,
+): number {
+  const merchandise = item.price * quantity;
+  const discount = order.subtotal > 0 ? order.discount * merchandise / order.subtotal : 0;
+  const taxable = order.subtotal - order.discount;
+  const tax = taxable > 0 ? order.tax * (merchandise - discount) / taxable : 0;
+  return roundCurrency(merchandise - discount + tax);
+}
@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { insertReviewSchema, insertReviewReportSchema } from "./schema";
+import type { Review, ReviewImage, ReviewReport } from "./schema";
+
+// Reviews shared by the server (enforcement) and the client (sorting, labels
+// and which actions to offer): customers edit their own reviews, anyone
+// signed in votes them helpful or reports them, the product's seller replies
+// once, and admins work through the reported ones. Photos are uploaded like
+// product images (see product-images.ts for the size limits and thumbnails).
+export const reviewStatuses = ["published", "hidden"] as const;
+export type ReviewStatus = typeof reviewStatuses[number];
+
+// Only published reviews are listed and count towards ratings
+export function isPublishedReview(review: Pick<Review, "status">): boolean {
+  return review.status === "published";
+}
+
+// Body of PUT /api/reviews/:id, the customer editing their own review
+export const reviewUpdateSchema = insertReviewSchema
+  .pick({ rating: true, title: true, review_text: true, pros: true, cons: true })
+  .partial()
+  .refine(update => Object.keys(update).length > 0, "Change something in the review");
+
+// Photos a review can have, uploaded to POST /api/reviews/:id/images
+export const MAX_REVIEW_IMAGES = 5;
+
+// Body of POST /api/reviews/:id/reports
+export const reviewReportInputSchema = insertReviewReportSchema.pick({ reason: true, details: true });
+
+const REVIEW_REPORT_REASON_LABELS: Record<string, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  off_topic: "Not about the product",
+  fake: "Fake or paid review",
+  other: "Other",
+};
+
+export function formatReviewReportReason(reason: string): string {
+  return REVIEW_REPORT_REASON_LABELS[reason] ?? reason;
+}
+
+// Body of PUT /api/reviews/:id/reply
+export const sellerReplySchema = z.object({
+  reply: z.string().trim().min(1, "Write a reply").max(1000, "Keep replies under 1000 characters"),
+});
+
+// Body of POST /api/admin/reviews/:id/moderate. Either way the review's open
+// reports are resolved: "dismiss" keeps the review up (or puts a hidden one
+// back), "hide" takes it off the product page.
+export const reviewModerationActions = ["dismiss", "hide"] as const;
+export type ReviewModerationAction = typeof reviewModerationActions[number];
+
+export const reviewModerationSchema = z.object({
+  action: z.enum(reviewModerationActions),
+});
+
+export function getModeratedReviewStatus(action: ReviewModerationAction): ReviewStatus {
+  return action === "hide" ? "hidden" : "published";
+}
+
+// What resolved reports record about the moderator's decision
+export function getReportResolution(action: ReviewModerationAction): string {
+  return action === "hide" ? "hidden" : "dismissed";
+}
+
+// GET /api/products/:id/reviews?sort=
+export const reviewSortOptions = ["helpful", "newest", "rating_desc", "rating_asc"] as const;
+export type ReviewSort = typeof reviewSortOptions[number];
+
+export const REVIEW_SORT_LABELS: Record<ReviewSort, string> = {
+  helpful: "Most helpful",
+  newest: "Newest",
+  rating_desc: "Highest rating",
+  rating_asc: "Lowest rating",
+};
+
+export const reviewListQuerySchema = z.object({
+  sort: z.enum(reviewSortOptions).default("helpful"),
+  with_photos: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+});
+
+type SortableReview = Pick<Review, "id" | "rating" | "helpful_count" | "review_date">;
+
+// Ties go to the newer review
+export function sortReviews<T extends SortableReview>(reviews: T[], sort: ReviewSort): T[] {
+  const newest = (a: T, b: T) =>
+    new Date(b.review_date).getTime() - new Date(a.review_date).getTime() || b.id - a.id;
+  const compare: Record<ReviewSort, (a: T, b: T) => number> = {
+    helpful: (a, b) => b.helpful_count - a.helpful_count || newest(a, b),
+    newest,
+    rating_desc: (a, b) => b.rating - a.rating || newest(a, b),
+    rating_asc: (a, b) => a.rating - b.rating || newest(a, b),
+  };
+  return [...reviews].sort(compare[sort]);
+}
+
+// A review as GET /api/products/:id/reviews lists it
+export type ProductReview = Review & {
+  images: ReviewImage[];
+  customer: { id: number; username: string; name: string } | null;
+  verified_purchase: boolean; // The reviewer has a paid order with the product that wasn't cancelled
+  voted: boolean; // The signed-in user marked it helpful
+};
+
+// A reported review in the admins' moderation queue
+export type ReportedReview = Review & {
+  images: ReviewImage[];
+  product: { id: number; name: string } | null;
+  customer: { id: number; username: string; name: string } | null;
+  reports: ReviewReport[];
+};
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { RatingHistogram } from "./ratings";
+import { isWebUrl } from "./returns";
 
 // User and Authentication
 export const users = pgTable("users", {
@@ -14,12 +16,24 @@ export const users = pgTable("users", {
   registration_date: timestamp("registration_date").defaultNow().notNull(),
   role: text("role").notNull().default("customer"), // "customer", "seller", "admin"
   last_updated: timestamp("last_updated").defaultNow(),
+  email_verified_at: timestamp("email_verified_at"), // Null until the emailed link is followed
+  // Two-factor authentication. The secret is set when enrollment starts and
+  // the TOTP code only becomes required once totp_enabled_at is set.
+  totp_secret: text("totp_secret"), // Base32
+  totp_enabled_at: timestamp("totp_enabled_at"),
+  totp_recovery_codes: text("totp_recovery_codes").array().notNull().default([]), // SHA-256 hashes of the unused codes
+  totp_last_used_step: integer("totp_last_used_step"), // Time step of the last accepted code, so codes can't be replayed
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   registration_date: true,
-  last_updated: true
+  last_updated: true,
+  email_verified_at: true,
+  totp_secret: true,
+  totp_enabled_at: true,
+  totp_recovery_codes: true,
+  totp_last_used_step: true
 });
 
 export const loginUserSchema = z.object({
@@ -27,6 +41,33 @@ export const loginUserSchema = z.object({
   password: z.string().min(6),
 });
 
+// Body of POST /api/login/2fa, and the code part of re-authenticating to
+// change two-factor settings: a code from the authenticator app or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+});
+
+// Body of POST /api/2fa/disable and POST /api/2fa/recovery-codes
+export const twoFactorReauthSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+// Body of POST /api/forgot-password and POST /api/verify-email/resend
+export const accountEmailSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+// Body of POST /api/verify-email, with the token from the emailed link
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Body of POST /api/reset-password
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
 // Seller specific information
 export const sellers = pgTable("sellers", {
   id: serial("id").primaryKey(),
@@ -34,7 +75,11 @@ export const sellers = pgTable("sellers", {
   seller_id: text("seller_id").notNull().unique(),
   shop_name: text("shop_name").notNull(),
   joined_date: timestamp("joined_date").defaultNow().notNull(),
-  rating: doublePrecision("rating").default(5.0),
+  // Review aggregates over all the seller's products, kept up to date by the
+  // storage layer's review operations
+  rating: doublePrecision("rating"), // Average review rating, null without reviews
+  review_count: integer("review_count").notNull().default(0),
+  rating_histogram: jsonb("rating_histogram").$type<RatingHistogram>().notNull().default([0, 0, 0, 0, 0]),
   verified: boolean("verified").default(false),
 });
 
@@ -43,13 +88,97 @@ export const insertSellerSchema = createInsertSchema(sellers, {
   user_id: z.number().int().positive(),
   shop_name: z.string().min(1),
   joined_date: z.date().optional(),
-  rating: z.number().optional(),
   verified: z.boolean().optional(),
 }).omit({
   id: true,
+  rating: true, // Derived from reviews
+  review_count: true,
+  rating_histogram: true,
+});
+
+// Seller onboarding: a seller applies with shop and business details, and an
+// admin approves (which verifies the seller) or rejects the application
+export const businessTypes = ["individual", "sole_proprietorship", "partnership", "corporation", "other"] as const;
+
+export const sellerApplications = pgTable("seller_applications", {
+  id: serial("id").primaryKey(),
+  application_id: text("application_id").notNull().unique(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  shop_name: text("shop_name").notNull(),
+  business_name: text("business_name").notNull(), // Legal name of the business or person
+  business_type: text("business_type").notNull(), // One of businessTypes
+  tax_id: text("tax_id").notNull(),
+  business_address: text("business_address").notNull(),
+  business_phone: text("business_phone").notNull(),
+  description: text("description"), // What the seller plans to sell
+  status: text("status").notNull().default("pending"), // "pending", "approved", "rejected"
+  review_note: text("review_note"), // Admin note on approval or rejection
+  reviewed_by: integer("reviewed_by").references(() => users.id),
+  submitted_at: timestamp("submitted_at").defaultNow().notNull(),
+  reviewed_at: timestamp("reviewed_at"),
+});
+
+export const insertSellerApplicationSchema = createInsertSchema(sellerApplications, {
+  shop_name: z.string().trim().min(2, "Shop name must be at least 2 characters").max(100),
+  business_name: z.string().trim().min(2, "Business name must be at least 2 characters").max(200),
+  business_type: z.enum(businessTypes),
+  tax_id: z.string().trim().min(4, "Enter a valid tax ID").max(50),
+  business_address: z.string().trim().min(10, "Enter the full business address").max(500),
+  business_phone: z.string().trim().min(7, "Enter a valid phone number").max(20),
+  description: z.string().trim().max(1000, "Keep the description under 1000 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  review_note: true,
+  reviewed_by: true,
+  submitted_at: true,
+  reviewed_at: true,
+});
+
+// Saved shipping addresses (customer address book)
+export const addresses = pgTable("addresses", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  full_name: text("full_name").notNull(),
+  email: text("email").notNull(),
+  phone: text("phone").notNull(),
+  address: text("address").notNull(),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  zip_code: text("zip_code").notNull(),
+  is_default: boolean("is_default").notNull().default(false),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAddressSchema = createInsertSchema(addresses, {
+  full_name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: z.string().trim().email("Invalid email address"),
+  phone: z.string().trim().min(10, "Phone number is too short"),
+  address: z.string().trim().min(5, "Address must be at least 5 characters"),
+  city: z.string().trim().min(2, "City is required"),
+  state: z.string().trim().min(2, "State is required"),
+  zip_code: z.string().trim().min(5, "Zip code is required"),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// Address fields a checkout sends and an order stores, without address book details
+export const shippingAddressSchema = insertAddressSchema.omit({
+  user_id: true,
+  is_default: true,
 });
 
 // Products
+export const productStatuses = ["pending", "active", "rejected", "delisted"] as const;
+
+// An option axis a product's variants are picked by, e.g. Size with S, M, L
+export const variantOptionSchema = z.object({
+  name: z.string().trim().min(1, "Option name is required").max(30, "Keep option names under 30 characters"),
+  values: z.array(z.string().trim().min(1, "Option values can't be empty").max(30, "Keep option values under 30 characters"))
+    .min(1, "Add at least one value"),
+});
+
 export const products = pgTable("products", {
   id: serial("id").primaryKey(),
   product_id: text("product_id").notNull().unique(),
@@ -61,7 +190,13 @@ export const products = pgTable("products", {
   image_url: text("image_url"),
   added_date: timestamp("added_date").defaultNow().notNull(),
   last_updated: timestamp("last_updated").defaultNow(),
-  status: text("status").notNull().default("active"), // "active", "pending", "delisted"
+  status: text("status").notNull().default("active"), // One of productStatuses
+  // Option axes (e.g. Size x Color); empty for a product without variants
+  variant_options: jsonb("variant_options").$type<VariantOption[]>().notNull().default([]),
+  // Review aggregates, kept up to date by the storage layer's review operations
+  rating: doublePrecision("rating"), // Average review rating, null without reviews
+  review_count: integer("review_count").notNull().default(0),
+  rating_histogram: jsonb("rating_histogram").$type<RatingHistogram>().notNull().default([0, 0, 0, 0, 0]),
 });
 
 export const insertProductSchema = createInsertSchema(products, {
@@ -70,20 +205,96 @@ export const insertProductSchema = createInsertSchema(products, {
   price: z.coerce.number().positive("Price must be positive"),
   stock: z.coerce.number().int().nonnegative("Stock must be a non-negative integer"),
   image_url: z.string().optional(),
-  status: z.string().default("active"),
+  status: z.enum(productStatuses).default("active"),
 }).omit({
   id: true,
   product_id: true, // Generated on server
   seller_id: true,  // Derived from the authenticated user
   added_date: true,
   last_updated: true,
+  variant_options: true, // Set with the variants through PUT /api/products/:id/variants
+  rating: true, // Derived from reviews
+  review_count: true,
+  rating_histogram: true,
 });
 
-// Categories
+// Product variants, one per combination of the product's option values. When
+// a product has variants, its stock is the sum of theirs.
+export const productVariants = pgTable("product_variants", {
+  id: serial("id").primaryKey(),
+  product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  sku: text("sku").notNull(),
+  options: jsonb("options").$type<Record<string, string>>().notNull(), // Option name -> value, e.g. { Size: "M", Color: "Red" }
+  price: doublePrecision("price"), // Overrides the product's price when set
+  stock: integer("stock").notNull().default(0),
+  image_url: text("image_url"),
+}, (table) => {
+  return {
+    unq: unique().on(table.product_id, table.sku),
+  };
+});
+
+export const insertProductVariantSchema = createInsertSchema(productVariants, {
+  sku: z.string().trim().min(1, "SKU is required").max(64, "Keep SKUs under 64 characters"),
+  options: z.record(z.string()),
+  price: z.coerce.number().positive("Price must be positive").nullish(),
+  stock: z.coerce.number().int().nonnegative("Stock must be a non-negative integer"),
+  image_url: z.string().nullish(),
+}).omit({
+  id: true,
+});
+
+// Uploaded product images. The first by position is the product's cover and
+// is copied into products.image_url.
+export const productImages = pgTable("product_images", {
+  id: serial("id").primaryKey(),
+  product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  thumbnails: jsonb("thumbnails").$type<Record<string, string>>().notNull(), // Size name -> URL, see THUMBNAIL_SIZES
+  storage_key: text("storage_key").notNull(), // Where the image storage driver keeps the files
+  alt_text: text("alt_text"),
+  position: integer("position").notNull().default(0),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertProductImageSchema = createInsertSchema(productImages, {
+  thumbnails: z.record(z.string()),
+  alt_text: z.string().trim().max(200, "Keep alt text under 200 characters").nullish(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// Product status history (one row per moderation decision or status change)
+export const productStatusHistory = pgTable("product_status_history", {
+  id: serial("id").primaryKey(),
+  product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  from_status: text("from_status"), // null for the row written when the product is added
+  to_status: text("to_status").notNull(),
+  changed_by: integer("changed_by").references(() => users.id, { onDelete: "set null" }),
+  actor_role: text("actor_role").notNull(), // "seller", "admin", "system"
+  note: text("note"), // Reason for a rejection, or what the moderation rules decided
+  changed_at: timestamp("changed_at").defaultNow().notNull(),
+});
+
+export const insertProductStatusHistorySchema = createInsertSchema(productStatusHistory).omit({
+  id: true,
+  changed_at: true,
+});
+
+// Categories, nested to any depth. A category's URL is its ancestors' slugs
+// and its own, e.g. /categories/electronics/phones.
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   category_id: text("category_id").notNull().unique(),
   category_name: text("category_name").notNull(),
+  slug: text("slug").notNull(), // Unique among the category's siblings
+  parent_id: integer("parent_id").references((): AnyPgColumn => categories.id), // null for a top-level category
+  position: integer("position").notNull().default(0), // Order among its siblings
+}, (table) => {
+  return {
+    unq: unique().on(table.parent_id, table.slug),
+  };
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
@@ -105,17 +316,96 @@ export const insertProductCategorySchema = createInsertSchema(productCategories)
   id: true,
 });
 
+// Attributes that describe a category's products, e.g. Electronics: Brand
+// (enum), RAM (number, in GB), Wi-Fi (boolean). Subcategories inherit their
+// ancestors' attributes.
+export const attributeTypes = ["enum", "number", "boolean"] as const;
+
+export const categoryAttributes = pgTable("category_attributes", {
+  id: serial("id").primaryKey(),
+  category_id: integer("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+  name: text("name").notNull(), // Unique within the category
+  type: text("type").notNull(), // "enum", "number", "boolean"
+  options: jsonb("options").$type<string[]>().notNull(), // An enum's values in display order; empty for other types
+  unit: text("unit"), // A number's unit, e.g. "GB"
+  position: integer("position").notNull().default(0),
+}, (table) => {
+  return {
+    unq: unique().on(table.category_id, table.name),
+  };
+});
+
+export const insertCategoryAttributeSchema = createInsertSchema(categoryAttributes, {
+  name: z.string().trim().min(1, "Attribute name is required").max(50, "Keep attribute names under 50 characters"),
+  type: z.enum(attributeTypes),
+  options: z.array(z.string().trim().min(1, "Options can't be blank").max(50, "Keep options under 50 characters"))
+    .max(100, "An attribute can have at most 100 options"),
+  unit: z.string().trim().max(20, "Keep units under 20 characters").nullish(),
+}).omit({
+  id: true,
+});
+
+// A product's value for one attribute, in the column for the attribute's type
+export const productAttributeValues = pgTable("product_attribute_values", {
+  id: serial("id").primaryKey(),
+  product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  attribute_id: integer("attribute_id").notNull().references(() => categoryAttributes.id, { onDelete: "cascade" }),
+  text_value: text("text_value"), // enum
+  number_value: doublePrecision("number_value"),
+  boolean_value: boolean("boolean_value"),
+}, (table) => {
+  return {
+    unq: unique().on(table.product_id, table.attribute_id),
+  };
+});
+
+export const insertProductAttributeValueSchema = createInsertSchema(productAttributeValues).omit({
+  id: true,
+});
+
+// Coupons and promotions
+export const couponTypes = ["percentage", "fixed", "free_shipping"] as const;
+
+export const coupons = pgTable("coupons", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored upper-case
+  description: text("description"),
+  type: text("type").notNull(), // "percentage", "fixed", "free_shipping"
+  value: doublePrecision("value").notNull().default(0), // Percent off or fixed amount off
+  min_spend: doublePrecision("min_spend"), // Minimum eligible subtotal
+  category_id: integer("category_id").references(() => categories.id, { onDelete: "cascade" }), // Only items in this category
+  seller_id: integer("seller_id").references(() => sellers.id, { onDelete: "cascade" }), // Only items from this seller
+  expires_at: timestamp("expires_at"),
+  usage_limit_per_user: integer("usage_limit_per_user"),
+  active: boolean("active").notNull().default(true),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCouponSchema = createInsertSchema(coupons, {
+  code: z.string().trim().min(3, "Code must be at least 3 characters").transform(code => code.toUpperCase()),
+  type: z.enum(couponTypes),
+  value: z.coerce.number().nonnegative("Value must not be negative"),
+  min_spend: z.coerce.number().nonnegative().nullable().optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+  usage_limit_per_user: z.coerce.number().int().positive().nullable().optional(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
 // Cart
 export const carts = pgTable("carts", {
   id: serial("id").primaryKey(),
   cart_id: text("cart_id").notNull().unique(),
   user_id: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  coupon_id: integer("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
   created_at: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertCartSchema = createInsertSchema(carts).omit({
   id: true,
   created_at: true,
+  coupon_id: true, // Set through POST /api/cart/coupon
 });
 
 // Cart Items
@@ -123,6 +413,7 @@ export const cartItems = pgTable("cart_items", {
   id: serial("id").primaryKey(),
   cart_id: integer("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
   product_id: integer("product_id").notNull().references(() => products.id),
+  variant_id: integer("variant_id").references(() => productVariants.id, { onDelete: "cascade" }), // Required when the product has variants
   quantity: integer("quantity").notNull().default(1),
   added_date: timestamp("added_date").defaultNow().notNull(),
 });
@@ -132,14 +423,60 @@ export const insertCartItemSchema = createInsertSchema(cartItems).omit({
   added_date: true,
 });
 
+// Wishlists (one per customer, created on first use)
+export const wishlists = pgTable("wishlists", {
+  id: serial("id").primaryKey(),
+  wishlist_id: text("wishlist_id").notNull().unique(),
+  user_id: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  share_token: text("share_token").unique(), // Set while the wishlist has a public share link
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWishlistSchema = createInsertSchema(wishlists).omit({
+  id: true,
+  created_at: true,
+  share_token: true, // Set through POST /api/wishlist/share
+});
+
+// Wishlist Items
+export const wishlistItems = pgTable("wishlist_items", {
+  id: serial("id").primaryKey(),
+  wishlist_id: integer("wishlist_id").notNull().references(() => wishlists.id, { onDelete: "cascade" }),
+  product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  added_date: timestamp("added_date").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.wishlist_id, table.product_id),
+  };
+});
+
+export const insertWishlistItemSchema = createInsertSchema(wishlistItems).omit({
+  id: true,
+  added_date: true,
+});
+
 // Orders
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   order_id: text("order_id").notNull().unique(),
   customer_id: integer("customer_id").notNull().references(() => users.id),
-  total_price: doublePrecision("total_price").notNull(),
+  subtotal: doublePrecision("subtotal").notNull().default(0),
+  shipping_cost: doublePrecision("shipping_cost").notNull().default(0),
+  tax: doublePrecision("tax").notNull().default(0),
+  discount: doublePrecision("discount").notNull().default(0),
+  total_price: doublePrecision("total_price").notNull(), // subtotal - discount + shipping_cost + tax
+  shipping_method: text("shipping_method").notNull().default("standard"), // "standard", "express"
+  // Snapshot of where the order ships, so later address book edits don't change it
+  shipping_full_name: text("shipping_full_name"),
+  shipping_email: text("shipping_email"),
+  shipping_phone: text("shipping_phone"),
+  shipping_address: text("shipping_address"),
+  shipping_city: text("shipping_city"),
+  shipping_state: text("shipping_state"),
+  shipping_zip_code: text("shipping_zip_code"),
+  coupon_id: integer("coupon_id").references(() => coupons.id, { onDelete: "set null" }),
   order_date: timestamp("order_date").defaultNow().notNull(),
-  status: text("status").notNull().default("processing"), // "processing", "shipped", "delivered", "cancelled"
+  status: text("status").notNull().default("pending_payment"), // "pending_payment", "processing", "shipped", "delivered", "cancelled"
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
@@ -152,6 +489,8 @@ export const orderItems = pgTable("order_items", {
   id: serial("id").primaryKey(),
   order_id: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
   product_id: integer("product_id").notNull().references(() => products.id),
+  variant_id: integer("variant_id").references(() => productVariants.id, { onDelete: "set null" }),
+  variant_label: text("variant_label"), // Snapshot of the variant's options, e.g. "Size: M / Color: Red"
   quantity: integer("quantity").notNull(),
   price: doublePrecision("price").notNull(), // Price at time of purchase
 });
@@ -160,6 +499,38 @@ export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
   id: true,
 });
 
+// Coupon redemptions (one per order that used a coupon)
+export const couponRedemptions = pgTable("coupon_redemptions", {
+  id: serial("id").primaryKey(),
+  coupon_id: integer("coupon_id").notNull().references(() => coupons.id, { onDelete: "cascade" }),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  order_id: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  discount: doublePrecision("discount").notNull(),
+  redeemed_at: timestamp("redeemed_at").defaultNow().notNull(),
+});
+
+export const insertCouponRedemptionSchema = createInsertSchema(couponRedemptions).omit({
+  id: true,
+  redeemed_at: true,
+});
+
+// Order status history (one row per status change)
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  order_id: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  from_status: text("from_status"), // null for the row written when the order is placed
+  to_status: text("to_status").notNull(),
+  changed_by: integer("changed_by").references(() => users.id, { onDelete: "set null" }), // null for system changes
+  actor_role: text("actor_role").notNull(), // "customer", "seller", "admin", "system"
+  note: text("note"),
+  changed_at: timestamp("changed_at").defaultNow().notNull(),
+});
+
+export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  changed_at: true,
+});
+
 // Payments
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
@@ -168,7 +539,10 @@ export const payments = pgTable("payments", {
   amount: doublePrecision("amount").notNull(),
   payment_date: timestamp("payment_date").defaultNow().notNull(),
   method: text("method").notNull(), // "credit_card", "paypal", etc.
-  status: text("status").notNull().default("pending"), // "pending", "completed", "failed"
+  status: text("status").notNull().default("pending"), // "pending", "requires_action", "authorized", "completed", "failed", "voided", "refunded"
+  provider: text("provider").notNull().default("mock"), // Payment gateway that handled it
+  provider_reference: text("provider_reference").unique(), // The gateway's id for this payment
+  refunded_amount: doublePrecision("refunded_amount").notNull().default(0), // Sum of partial refunds so far
 });
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({
@@ -176,16 +550,19 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({
   payment_date: true,
 });
 
-// Shipments
+// Shipments (one per seller in an order)
 export const shipments = pgTable("shipments", {
   id: serial("id").primaryKey(),
   shipment_id: text("shipment_id").notNull().unique(),
   order_id: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  // Seller whose items this shipment carries (the order's fulfillment group
+  // for that seller); null for shipments created before orders were split
+  seller_id: integer("seller_id").references(() => sellers.id),
   shipment_date: timestamp("shipment_date").defaultNow(),
   estimated_delivery: timestamp("estimated_delivery"),
   tracking_number: text("tracking_number"),
   carrier: text("carrier"),
-  status: text("status").notNull().default("processing"), // "processing", "shipped", "delivered"
+  status: text("status").notNull().default("processing"), // "processing", "shipped", "delivered", "cancelled"
 });
 
 export const insertShipmentSchema = createInsertSchema(shipments).omit({
@@ -193,6 +570,44 @@ export const insertShipmentSchema = createInsertSchema(shipments).omit({
   shipment_date: true,
 });
 
+// Return requests (RMAs), one per returned order item
+export const returnReasons = ["damaged", "wrong_item", "not_as_described", "no_longer_needed", "other"] as const;
+
+export const returnRequests = pgTable("return_requests", {
+  id: serial("id").primaryKey(),
+  return_id: text("return_id").notNull().unique(),
+  order_id: integer("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  order_item_id: integer("order_item_id").notNull().references(() => orderItems.id, { onDelete: "cascade" }),
+  customer_id: integer("customer_id").notNull().references(() => users.id),
+  seller_id: integer("seller_id").notNull().references(() => sellers.id), // Seller of the returned product
+  quantity: integer("quantity").notNull(),
+  reason: text("reason").notNull(), // One of returnReasons
+  details: text("details"),
+  photos: text("photos").array().notNull().default([]), // Photo URLs supplied by the customer
+  status: text("status").notNull().default("requested"), // "requested", "approved", "rejected", "received", "refunded"
+  restocked: boolean("restocked").notNull().default(false),
+  refund_amount: doublePrecision("refund_amount"), // Set once the refund is issued
+  resolution_note: text("resolution_note"), // Seller/admin note on approval or rejection
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  updated_at: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertReturnRequestSchema = createInsertSchema(returnRequests, {
+  quantity: z.number().int().positive("Quantity must be at least 1"),
+  reason: z.enum(returnReasons),
+  details: z.string().trim().max(1000, "Keep the details under 1000 characters").nullish(),
+  photos: z.array(z.string().url("Photos must be image URLs").refine(isWebUrl, "Photos must be http or https links"))
+    .max(5, "Attach at most 5 photos").default([]),
+}).omit({
+  id: true,
+  status: true,
+  restocked: true,
+  refund_amount: true,
+  resolution_note: true,
+  created_at: true,
+  updated_at: true,
+});
+
 // Product Reviews
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
@@ -200,25 +615,136 @@ export const reviews = pgTable("reviews", {
   product_id: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   customer_id: integer("customer_id").notNull().references(() => users.id),
   rating: integer("rating").notNull(),
+  title: text("title"),
   review_text: text("review_text"),
+  pros: text("pros").array().notNull().default([]),
+  cons: text("cons").array().notNull().default([]),
   review_date: timestamp("review_date").defaultNow().notNull(),
+  status: text("status").notNull().default("published"), // "published" or "hidden" by a moderator
+  helpful_count: integer("helpful_count").notNull().default(0), // Kept in step with review_votes
+  edited_at: timestamp("edited_at"), // Last time the customer changed it
+  // The product's seller's public reply, one per review
+  seller_reply: text("seller_reply"),
+  seller_reply_at: timestamp("seller_reply_at"),
 });
 
-export const insertReviewSchema = createInsertSchema(reviews).omit({
+// Pros and cons: a few short points each
+const reviewPointsSchema = z.array(
+  z.string().trim().min(1, "Points can't be blank").max(200, "Keep points under 200 characters")
+).max(5, "List at most 5 points").default([]);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(1, "Rate from 1 to 5 stars").max(5, "Rate from 1 to 5 stars"),
+  title: z.string().trim().max(120, "Keep titles under 120 characters").nullish(),
+  review_text: z.string().trim().max(2000, "Keep reviews under 2000 characters").nullish(),
+  pros: reviewPointsSchema,
+  cons: reviewPointsSchema,
+}).omit({
   id: true,
   review_date: true,
+  status: true,
+  helpful_count: true,
+  edited_at: true,
+  seller_reply: true,
+  seller_reply_at: true,
+});
+
+// Customer photos on a review, stored like product images
+export const reviewImages = pgTable("review_images", {
+  id: serial("id").primaryKey(),
+  review_id: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  thumbnails: jsonb("thumbnails").$type<Record<string, string>>().notNull(), // Size name -> URL, see THUMBNAIL_SIZES
+  storage_key: text("storage_key").notNull(), // Where the image storage driver keeps the files
+  position: integer("position").notNull().default(0),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReviewImageSchema = createInsertSchema(reviewImages, {
+  thumbnails: z.record(z.string()),
+}).omit({
+  id: true,
+  created_at: true,
+});
+
+// "Helpful" votes, one per user per review
+export const reviewVotes = pgTable("review_votes", {
+  id: serial("id").primaryKey(),
+  review_id: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  user_id: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    unq: unique().on(table.review_id, table.user_id),
+  };
+});
+
+// Abuse reports on reviews. Open reports put the review in the admins'
+// moderation queue; a moderator resolves them all at once.
+export const reviewReportReasons = ["spam", "offensive", "off_topic", "fake", "other"] as const;
+
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  review_id: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  reporter_id: integer("reporter_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reason: text("reason").notNull(), // One of reviewReportReasons
+  details: text("details"),
+  status: text("status").notNull().default("open"), // "open" or "resolved"
+  resolution: text("resolution"), // "dismissed" (review kept) or "hidden"
+  resolved_by: integer("resolved_by").references(() => users.id),
+  created_at: timestamp("created_at").defaultNow().notNull(),
+  resolved_at: timestamp("resolved_at"),
+}, (table) => {
+  return {
+    unq: unique().on(table.review_id, table.reporter_id),
+  };
+});
+
+export const insertReviewReportSchema = createInsertSchema(reviewReports, {
+  reason: z.enum(reviewReportReasons),
+  details: z.string().trim().max(500, "Keep the details under 500 characters").nullish(),
+}).omit({
+  id: true,
+  status: true,
+  resolution: true,
+  resolved_by: true,
+  created_at: true,
+  resolved_at: true,
 });
 
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
+export type ResetPassword = z.infer<typeof resetPasswordSchema>;
+// What POST /api/login returns instead of the user when a TOTP code is needed
+export type TwoFactorChallenge = { status: "2fa_required"; message: string };
 
 export type Seller = typeof sellers.$inferSelect;
 export type InsertSeller = z.infer<typeof insertSellerSchema>;
 
+export type SellerApplication = typeof sellerApplications.$inferSelect;
+export type InsertSellerApplication = z.infer<typeof insertSellerApplicationSchema>;
+
+export type Address = typeof addresses.$inferSelect;
+export type InsertAddress = z.infer<typeof insertAddressSchema>;
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
+// A product as storage creates it: the listing form's fields plus the ids the
+// server fills in
+export type NewProduct = InsertProduct & Pick<Product, "product_id" | "seller_id">;
+export type VariantOption = z.infer<typeof variantOptionSchema>;
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+
+export type ProductImage = typeof productImages.$inferSelect;
+export type InsertProductImage = z.infer<typeof insertProductImageSchema>;
+
+export type ProductStatusHistory = typeof productStatusHistory.$inferSelect;
+export type InsertProductStatusHistory = z.infer<typeof insertProductStatusHistorySchema>;
 
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
@@ -226,12 +752,34 @@ export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type ProductCategory = typeof productCategories.$inferSelect;
 export type InsertProductCategory = z.infer<typeof insertProductCategorySchema>;
 
+export type AttributeType = typeof attributeTypes[number];
+export type CategoryAttribute = typeof categoryAttributes.$inferSelect;
+export type InsertCategoryAttribute = z.infer<typeof insertCategoryAttributeSchema>;
+
+export type ProductAttributeValue = typeof productAttributeValues.$inferSelect;
+export type InsertProductAttributeValue = z.infer<typeof insertProductAttributeValueSchema>;
+
+export type Coupon = typeof coupons.$inferSelect;
+export type InsertCoupon = z.infer<typeof insertCouponSchema>;
+
+export type CouponRedemption = typeof couponRedemptions.$inferSelect;
+export type InsertCouponRedemption = z.infer<typeof insertCouponRedemptionSchema>;
+
+export type OrderStatusHistory = typeof orderStatusHistory.$inferSelect;
+export type InsertOrderStatusHistory = z.infer<typeof insertOrderStatusHistorySchema>;
+
 export type Cart = typeof carts.$inferSelect;
 export type InsertCart = z.infer<typeof insertCartSchema>;
 
 export type CartItem = typeof cartItems.$inferSelect;
 export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
 
+export type Wishlist = typeof wishlists.$inferSelect;
+export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
+
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+export type InsertWishlistItem = z.infer<typeof insertWishlistItemSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
@@ -244,5 +792,16 @@ export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Shipment = typeof shipments.$inferSelect;
 export type InsertShipment = z.infer<typeof insertShipmentSchema>;
 
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+export type InsertReturnRequest = z.infer<typeof insertReturnRequestSchema>;
+
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+
+export type ReviewImage = typeof reviewImages.$inferSelect;
+export type InsertReviewImage = z.infer<typeof insertReviewImageSchema>;
+
+export type ReviewVote = typeof reviewVotes.$inferSelect;
+
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type InsertReviewReport = z.infer<typeof insertReviewReportSchema>;
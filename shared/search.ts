@@ -0,0 +1,248 @@
+import { z } from "zod";
+import type { Product } from "./schema";
+
+// Product search shared by the server (ranking, facets and paging, so every
+// storage backend returns the same results) and the client (which filters
+// and sorts to offer)
+export const searchSortOptions = ["relevance", "price_asc", "price_desc", "newest", "rating"] as const;
+export type SearchSort = typeof searchSortOptions[number];
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Best match",
+  price_asc: "Price: Low to High",
+  price_desc: "Price: High to Low",
+  newest: "Newest",
+  rating: "Highest rated",
+};
+
+// Price facet buckets; min is inclusive and max exclusive, like the
+// min_price/max_price filters they set
+export const PRICE_RANGES: { min: number; max?: number; label: string }[] = [
+  { min: 0, max: 25, label: "Under $25" },
+  { min: 25, max: 50, label: "$25 to $50" },
+  { min: 50, max: 100, label: "$50 to $100" },
+  { min: 100, max: 200, label: "$100 to $200" },
+  { min: 200, label: "$200 & up" },
+];
+
+// "4 stars & up" and so on
+export const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export const DEFAULT_SEARCH_LIMIT = 24;
+
+// "1,2,3" -> [1, 2, 3]
+const idListSchema = z.string()
+  .transform(value => value.split(",").filter(Boolean).map(Number))
+  .refine(ids => ids.every(id => Number.isInteger(id) && id > 0), "Expected a comma separated list of ids");
+
+// GET /api/search query string
+export const searchQuerySchema = z.object({
+  q: z.string().trim().max(200).default(""),
+  category: idListSchema.optional(),
+  seller: idListSchema.optional(),
+  min_price: z.coerce.number().nonnegative().optional(),
+  max_price: z.coerce.number().positive().optional(),
+  min_rating: z.coerce.number().min(1).max(5).optional(),
+  in_stock: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  sort: z.enum(searchSortOptions).default("relevance"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(DEFAULT_SEARCH_LIMIT),
+});
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// A product with what search filters and facets it on
+export interface ProductSearchDocument {
+  product: Product;
+  category_ids: number[];
+  rating: number | null; // Average review rating, null without reviews
+  review_count: number;
+}
+
+export interface SearchFacetCount {
+  id: number;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetCount[];
+  sellers: SearchFacetCount[];
+  price_ranges: { min: number; max?: number; label: string; count: number }[];
+  ratings: { min_rating: number; count: number }[];
+  in_stock: number;
+}
+
+export interface ProductSearchResult {
+  documents: ProductSearchDocument[];
+  facets: SearchFacets;
+  total: number;
+  next_cursor: string | null;
+}
+
+// Lower-cased words of the query; a product matches when every one of them
+// appears in its name or description
+export function getSearchTerms(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return Array.from(new Set(terms)).slice(0, 10);
+}
+
+export function matchesSearchTerms(product: Pick<Product, "name" | "description">, terms: string[]): boolean {
+  const name = product.name.toLowerCase();
+  const description = product.description.toLowerCase();
+  return terms.every(term => name.includes(term) || description.includes(term));
+}
+
+// Name matches outrank description matches, and whole words outrank partial
+// ones. Finding the whole query as a phrase in the name adds a bonus.
+export function scoreSearchMatch(product: Pick<Product, "name" | "description">, terms: string[]): number {
+  const name = product.name.toLowerCase();
+  const nameWords = name.split(/[^a-z0-9]+/).filter(Boolean);
+  const description = product.description.toLowerCase();
+
+  let score = 0;
+  for (const term of terms) {
+    if (nameWords.includes(term)) score += 4;
+    else if (nameWords.some(word => word.startsWith(term))) score += 3;
+    else if (name.includes(term)) score += 2;
+    if (description.includes(term)) score += 1;
+  }
+  if (terms.length > 1 && name.includes(terms.join(" "))) score += 2;
+  return score;
+}
+
+// Results are ordered by this key, lowest first; the product id breaks ties
+// so the order (and so the cursor) is stable
+type SortKey = [number, number];
+
+function getSortKey(document: ProductSearchDocument, sort: SearchSort, score: number): SortKey {
+  const { product } = document;
+  switch (sort) {
+    case "price_asc":
+      return [product.price, product.id];
+    case "price_desc":
+      return [-product.price, product.id];
+    case "newest":
+      return [-new Date(product.added_date).getTime(), -product.id];
+    case "rating":
+      return [-(document.rating ?? 0), product.id];
+    case "relevance":
+    default:
+      return [-score, -product.id];
+  }
+}
+
+function compareSortKeys(a: SortKey, b: SortKey): number {
+  return a[0] - b[0] || a[1] - b[1];
+}
+
+// Cursors point just past the last result of a page and only work with the
+// sort they came from
+function encodeSearchCursor(sort: SearchSort, key: SortKey): string {
+  return `${sort}:${key[0]}:${key[1]}`;
+}
+
+function decodeSearchCursor(cursor: string, sort: SearchSort): SortKey | undefined {
+  const [cursorSort, first, second] = cursor.split(":");
+  const key: SortKey = [Number(first), Number(second)];
+  if (cursorSort !== sort || !Number.isFinite(key[0]) || !Number.isFinite(key[1])) {
+    return undefined;
+  }
+  return key;
+}
+
+export function isValidSearchCursor(cursor: string, sort: SearchSort): boolean {
+  return decodeSearchCursor(cursor, sort) !== undefined;
+}
+
+type SearchFilter = "category" | "seller" | "price" | "rating" | "in_stock";
+
+function matchesFilters(document: ProductSearchDocument, query: SearchQuery, skip?: SearchFilter): boolean {
+  const { product } = document;
+  if (skip !== "category" && query.category?.length &&
+      !document.category_ids.some(id => query.category!.includes(id))) {
+    return false;
+  }
+  if (skip !== "seller" && query.seller?.length && !query.seller.includes(product.seller_id)) {
+    return false;
+  }
+  if (skip !== "price") {
+    if (query.min_price !== undefined && product.price < query.min_price) return false;
+    if (query.max_price !== undefined && product.price >= query.max_price) return false;
+  }
+  if (skip !== "rating" && query.min_rating !== undefined && (document.rating ?? 0) < query.min_rating) {
+    return false;
+  }
+  if (skip !== "in_stock" && query.in_stock && product.stock <= 0) {
+    return false;
+  }
+  return true;
+}
+
+function countBy(documents: ProductSearchDocument[], getIds: (document: ProductSearchDocument) => number[]): SearchFacetCount[] {
+  const counts = new Map<number, number>();
+  for (const document of documents) {
+    for (const id of Array.from(new Set(getIds(document)))) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([id, count]) => ({ id, count }))
+    .sort((a, b) => b.count - a.count || a.id - b.id);
+}
+
+// Each facet counts what the results would be if its own filter were
+// changed, so picking one category still shows how many are in the others
+function getSearchFacets(documents: ProductSearchDocument[], query: SearchQuery): SearchFacets {
+  const without = (skip: SearchFilter) => documents.filter(document => matchesFilters(document, query, skip));
+
+  const byPrice = without("price");
+  const byRating = without("rating");
+
+  return {
+    categories: countBy(without("category"), document => document.category_ids),
+    sellers: countBy(without("seller"), document => [document.product.seller_id]),
+    price_ranges: PRICE_RANGES.map(range => ({
+      ...range,
+      count: byPrice.filter(({ product }) =>
+        product.price >= range.min && (range.max === undefined || product.price < range.max)
+      ).length,
+    })),
+    ratings: RATING_THRESHOLDS.map(minRating => ({
+      min_rating: minRating,
+      count: byRating.filter(document => (document.rating ?? 0) >= minRating).length,
+    })),
+    in_stock: without("in_stock").filter(document => document.product.stock > 0).length,
+  };
+}
+
+// Ranks, filters, facets and pages the products matching the query's terms.
+// Throws if the cursor isn't one this sort handed out; check it with
+// isValidSearchCursor first.
+export function runProductSearch(documents: ProductSearchDocument[], query: SearchQuery): ProductSearchResult {
+  const terms = getSearchTerms(query.q);
+  const matches = documents.filter(document => matchesSearchTerms(document.product, terms));
+
+  const ranked = matches
+    .filter(document => matchesFilters(document, query))
+    .map(document => ({
+      document,
+      key: getSortKey(document, query.sort, scoreSearchMatch(document.product, terms)),
+    }))
+    .sort((a, b) => compareSortKeys(a.key, b.key));
+
+  let start = 0;
+  if (query.cursor) {
+    const after = decodeSearchCursor(query.cursor, query.sort);
+    if (!after) throw new Error("Invalid search cursor");
+    start = ranked.findIndex(result => compareSortKeys(result.key, after) > 0);
+    if (start === -1) start = ranked.length;
+  }
+
+  const page = ranked.slice(start, start + query.limit);
+  const hasMore = start + query.limit < ranked.length;
+
+  return {
+    documents: page.map(result => result.document),
+    facets: getSearchFacets(matches, query),
+    total: ranked.length,
+    next_cursor: hasMore ? encodeSearchCursor(query.sort, page[page.length - 1].key) : null,
+  };
+}
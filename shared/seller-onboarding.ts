@@ -0,0 +1,35 @@
+import type { SellerApplication } from "./schema";
+
+// Seller onboarding workflow shared by the server (enforcement) and the client
+// (what to show the seller): pending -> approved, or pending -> rejected. A
+// rejected seller can apply again with a new application.
+export const sellerApplicationStatuses = ["pending", "approved", "rejected"] as const;
+export type SellerApplicationStatus = typeof sellerApplicationStatuses[number];
+
+const SELLER_APPLICATION_TRANSITIONS: Record<SellerApplicationStatus, SellerApplicationStatus[]> = {
+  pending: ["approved", "rejected"],
+  approved: [],
+  rejected: [],
+};
+
+export function canTransitionSellerApplication(from: string, to: SellerApplicationStatus): boolean {
+  return SELLER_APPLICATION_TRANSITIONS[from as SellerApplicationStatus]?.includes(to) ?? false;
+}
+
+// Whether a seller may submit a new application, given their applications
+// newest first: only if they have none yet or the latest one was rejected
+export function canSubmitSellerApplication(applications: Pick<SellerApplication, "status">[]): boolean {
+  return applications.length === 0 || applications[0].status === "rejected";
+}
+
+const BUSINESS_TYPE_LABELS: Record<string, string> = {
+  individual: "Individual",
+  sole_proprietorship: "Sole proprietorship",
+  partnership: "Partnership",
+  corporation: "Corporation",
+  other: "Other",
+};
+
+export function formatBusinessType(type: string): string {
+  return BUSINESS_TYPE_LABELS[type] ?? type;
+}
@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { insertProductVariantSchema, variantOptionSchema } from "./schema";
+import type { Product, ProductVariant, VariantOption } from "./schema";
+
+// Product variants shared by the server (validation, pricing) and the client
+// (the seller's matrix editor and the shopper's option pickers). A product
+// with option axes is bought as one of its variants; each variant picks one
+// value per axis.
+export const MAX_VARIANT_OPTIONS = 3;
+export const MAX_VARIANTS = 100;
+
+export const variantInputSchema = insertProductVariantSchema.omit({ product_id: true });
+export type VariantInput = z.infer<typeof variantInputSchema>;
+
+// Identifies a combination of option values regardless of key order
+export function getVariantKey(options: Record<string, string>): string {
+  return JSON.stringify(Object.keys(options).sort().map(name => [name, options[name]]));
+}
+
+// Body of PUT /api/products/:id/variants: the axes and the variants that
+// replace the product's current ones. Empty axes and variants remove them.
+export const variantMatrixSchema = z.object({
+  variant_options: z.array(variantOptionSchema).max(MAX_VARIANT_OPTIONS, `Use at most ${MAX_VARIANT_OPTIONS} options`),
+  variants: z.array(variantInputSchema).max(MAX_VARIANTS, `Add at most ${MAX_VARIANTS} variants`),
+}).superRefine((matrix, ctx) => {
+  const names = matrix.variant_options.map(option => option.name.toLowerCase());
+  matrix.variant_options.forEach((option, index) => {
+    if (names.indexOf(option.name.toLowerCase()) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variant_options", index, "name"], message: `"${option.name}" is listed twice` });
+    }
+    if (new Set(option.values).size !== option.values.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variant_options", index, "values"], message: `${option.name} has a value listed twice` });
+    }
+  });
+
+  if (matrix.variant_options.length > 0 && matrix.variants.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants"], message: "Add at least one variant" });
+  }
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  matrix.variants.forEach((variant, index) => {
+    const names = Object.keys(variant.options);
+    const matchesAxes = names.length === matrix.variant_options.length &&
+      matrix.variant_options.every(option => option.values.includes(variant.options[option.name]));
+    if (!matchesAxes) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants", index, "options"], message: "Pick one listed value for every option" });
+    }
+
+    const sku = variant.sku.toLowerCase();
+    if (skus.has(sku)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants", index, "sku"], message: `SKU ${variant.sku} is used twice` });
+    }
+    skus.add(sku);
+
+    const key = getVariantKey(variant.options);
+    if (combinations.has(key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["variants", index, "options"], message: `${formatVariantLabel(variant.options)} is listed twice` });
+    }
+    combinations.add(key);
+  });
+});
+
+export type VariantMatrix = z.infer<typeof variantMatrixSchema>;
+
+// Every combination of the axes' values, in axis order, for the matrix editor
+export function getVariantCombinations(options: VariantOption[]): Record<string, string>[] {
+  if (options.length === 0) return [];
+  return options.reduce<Record<string, string>[]>(
+    (combinations, option) => combinations.flatMap(combination =>
+      option.values.map(value => ({ ...combination, [option.name]: value }))
+    ),
+    [{}]
+  );
+}
+
+// "Size: M / Color: Red", with the axes in the product's order when given
+export function formatVariantLabel(options: Record<string, string>, axes?: VariantOption[]): string {
+  const names = axes ? axes.map(axis => axis.name).filter(name => name in options) : Object.keys(options);
+  return names.map(name => `${name}: ${options[name]}`).join(" / ");
+}
+
+// The variant matching a full selection of option values
+export function findVariant<T extends Pick<ProductVariant, "options">>(variants: T[], selection: Record<string, string>): T | undefined {
+  const key = getVariantKey(selection);
+  return variants.find(variant => getVariantKey(variant.options) === key);
+}
+
+// "T-shirt (Size: M / Color: Red)", or just the product's name without a variant
+export function getVariantDisplayName(
+  product: Pick<Product, "name" | "variant_options">,
+  variant?: Pick<ProductVariant, "options"> | null
+): string {
+  return variant ? `${product.name} (${formatVariantLabel(variant.options, product.variant_options)})` : product.name;
+}
+
+export function getVariantPrice(product: Pick<Product, "price">, variant?: Pick<ProductVariant, "price"> | null): number {
+  return variant?.price ?? product.price;
+}
+
+export function hasVariants(product: Pick<Product, "variant_options">): boolean {
+  return (product.variant_options ?? []).length > 0;
+}